@@ -0,0 +1,583 @@
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { AnchorProvider, BN, ProgramAccount, Wallet } from "@coral-xyz/anchor";
+import {
+  clusterApiUrl,
+  Connection,
+  Keypair,
+  PublicKey,
+  Signer,
+  SimulatedTransactionResponse,
+  Transaction,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { SunpathClient } from "./client";
+import { TaskAccount } from "../src/types/program";
+import { decodeSunpathError } from "../src/utils/errors";
+import { formatReward } from "../src/utils/rewards";
+import {
+  TASK_STATUS_NAMES,
+  TaskStatusName,
+  taskStatusName,
+} from "../src/utils/tasks";
+
+/**
+ * Sunpathプログラムをローカルのキーペアで操作するCLI。
+ *
+ * 使い方:
+ *   npx ts-node client/cli.ts [--keypair <keypair.json>] [--url <RPC URL | devnet | localnet>]
+ *     [--output table|json] [--dry-run] <コマンド> [引数]
+ *
+ * コマンド:
+ *   init --treasury <pubkey> --governance-mint <pubkey> --min-reward <lamports>
+ *        --fee <0-100> --penalty <秒> [--governance-amount <量>] [--admin <pubkey>]
+ *   config show
+ *   config migrate   (旧レイアウトのConfig・タスク・レポートを拡張する。Configの拡張はadminのみ)
+ *   task create --reward <最小単位> --duration <秒> [--mint <pubkey>] [--max-reporters <1-10>]
+ *   task accept <task> [--recipient <pubkey>]   (省略時はレポートを提出した報告者)
+ *   task reject <task>
+ *   task reclaim <task> [--close]
+ *   task list [--consigner <pubkey> | --mine] [--status <status>] [--page <n>] [--page-size <n>]
+ *   task show <task>
+ *
+ * --keypair と --url の既定値は ANCHOR_WALLET / ANCHOR_PROVIDER_URL (未設定なら
+ * ~/.config/solana/id.json と http://127.0.0.1:8899)。
+ * --dry-run ではトランザクションを送信せずにシミュレーションのみを行い、ログを表示する。
+ */
+
+export const COMMANDS = [
+  "init",
+  "config show",
+  "config migrate",
+  "task create",
+  "task accept",
+  "task reject",
+  "task reclaim",
+  "task list",
+  "task show",
+] as const;
+
+export type CliCommandName = (typeof COMMANDS)[number];
+
+export type OutputFormat = "table" | "json";
+
+export interface GlobalCliOptions {
+  keypair: string;
+  url: string;
+  output: OutputFormat;
+  dryRun: boolean;
+}
+
+export interface ParsedCliArgs {
+  command: CliCommandName;
+  args: string[]; // コマンド名の後の位置引数 (タスクのアドレスなど)
+  flags: Record<string, string | true>;
+  global: GlobalCliOptions;
+}
+
+// 値を取らないフラグ
+const BOOLEAN_FLAGS = new Set(["dry-run", "close", "mine"]);
+
+const LOCALNET_URL = "http://127.0.0.1:8899";
+
+const expandHome = (path: string): string =>
+  path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path;
+
+// devnet などのクラスター名をRPCのURLに変換する (URLはそのまま)
+export const resolveClusterUrl = (url: string): string => {
+  switch (url) {
+    case "localnet":
+    case "localhost":
+      return LOCALNET_URL;
+    case "devnet":
+    case "testnet":
+    case "mainnet-beta":
+      return clusterApiUrl(url);
+    default:
+      return url;
+  }
+};
+
+export const parseCliArgs = (
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): ParsedCliArgs => {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags[name] = true;
+      continue;
+    }
+    const value = argv[++i];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`${arg} には値を指定してください`);
+    }
+    flags[name] = value;
+  }
+
+  const [group, action, ...args] = positional;
+  const command = (
+    group === "init" ? "init" : `${group ?? ""} ${action ?? ""}`
+  ) as CliCommandName;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`不明なコマンドです: ${positional.join(" ") || "(なし)"}`);
+  }
+
+  const output = takeFlag(flags, "output") ?? "table";
+  if (output !== "table" && output !== "json") {
+    throw new Error("--output には table または json を指定してください");
+  }
+  const global: GlobalCliOptions = {
+    keypair: expandHome(
+      takeFlag(flags, "keypair") ??
+        env.ANCHOR_WALLET ??
+        "~/.config/solana/id.json"
+    ),
+    url: resolveClusterUrl(
+      takeFlag(flags, "url") ?? env.ANCHOR_PROVIDER_URL ?? LOCALNET_URL
+    ),
+    output,
+    dryRun: flags["dry-run"] === true,
+  };
+  delete flags["dry-run"];
+
+  return {
+    command,
+    args: command === "init" ? positional.slice(1) : args,
+    flags,
+    global,
+  };
+};
+
+// グローバルオプションを取り出してflagsから取り除く
+const takeFlag = (
+  flags: Record<string, string | true>,
+  name: string
+): string | undefined => {
+  const value = flags[name];
+  delete flags[name];
+  return typeof value === "string" ? value : undefined;
+};
+
+const requireFlag = (
+  flags: Record<string, string | true>,
+  name: string
+): string => {
+  const value = flags[name];
+  if (typeof value !== "string") {
+    throw new Error(`--${name} は必須です`);
+  }
+  return value;
+};
+
+export const parsePublicKey = (value: string, label: string): PublicKey => {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`${label} の公開鍵の形式が正しくありません: ${value}`);
+  }
+};
+
+// 0以上の整数 (u64/i64の引数はBNで扱う)
+export const parseInteger = (value: string, label: string): BN => {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${label} には0以上の整数を指定してください: ${value}`);
+  }
+  return new BN(value);
+};
+
+const requireTaskArg = (args: string[]): PublicKey => {
+  if (!args[0]) {
+    throw new Error("タスクアカウントのアドレスを指定してください");
+  }
+  return parsePublicKey(args[0], "タスク");
+};
+
+/**
+ * JSON出力用に BN・PublicKey・Anchorの列挙型 ({ open: {} }) を文字列に変換する。
+ * u64 は Number の範囲を超えることがあるため文字列で出力する。
+ */
+export const toPlainJson = (value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (BN.isBN(value)) {
+    return value.toString();
+  }
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("hex");
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainJson);
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    // Anchorの列挙型はバリアント名のみのオブジェクトとしてデコードされる
+    if (
+      entries.length === 1 &&
+      typeof entries[0][1] === "object" &&
+      entries[0][1] !== null &&
+      Object.keys(entries[0][1] as object).length === 0
+    ) {
+      return entries[0][0];
+    }
+    return Object.fromEntries(entries.map(([k, v]) => [k, toPlainJson(v)]));
+  }
+  return value;
+};
+
+// 列幅を揃えたテキストの表 (1行目はヘッダー)
+export const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? "").length))
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd()
+  );
+  lines.splice(1, 0, widths.map((width) => "-".repeat(width)).join("  "));
+  return lines.join("\n");
+};
+
+// アカウントなどのオブジェクトを「項目 / 値」の2列の表にする
+const formatRecord = (record: Record<string, unknown>): string =>
+  formatTable([
+    ["field", "value"],
+    ...Object.entries(toPlainJson(record) as Record<string, unknown>).map(
+      ([key, value]) => [
+        key,
+        typeof value === "object" && value !== null
+          ? JSON.stringify(value)
+          : String(value ?? "-"),
+      ]
+    ),
+  ]);
+
+export interface SimulationRecord {
+  logs: string[];
+  unitsConsumed?: number;
+}
+
+export const DRY_RUN_SIGNATURE = "dry-run";
+
+/**
+ * トランザクションを送信せずにシミュレーションするプロバイダー。
+ * SunpathClientの各メソッドは .rpc() で sendAndConfirm を呼ぶため、差し替えるだけで --dry-run に対応できる。
+ */
+export class DryRunProvider extends AnchorProvider {
+  readonly simulations: SimulationRecord[] = [];
+
+  async sendAndConfirm(
+    tx: Transaction | VersionedTransaction,
+    signers?: Signer[]
+  ): Promise<TransactionSignature> {
+    try {
+      const result = await this.simulate(tx, signers);
+      this.simulations.push({
+        logs: result.logs ?? [],
+        unitsConsumed: result.unitsConsumed,
+      });
+    } catch (error) {
+      // SimulateError はログを simulationResponse に持つため、logs として decodeSunpathError に渡す
+      const response = (
+        error as { simulationResponse?: SimulatedTransactionResponse }
+      ).simulationResponse;
+      throw decodeSunpathError(
+        response
+          ? Object.assign(
+              new Error(`Simulation failed: ${JSON.stringify(response.err)}`),
+              { logs: response.logs ?? [] }
+            )
+          : error
+      );
+    }
+    return DRY_RUN_SIGNATURE;
+  }
+}
+
+const loadKeypair = (path: string): Keypair =>
+  Keypair.fromSecretKey(
+    Uint8Array.from(JSON.parse(readFileSync(path, "utf8")) as number[])
+  );
+
+export const createCliClient = (
+  global: GlobalCliOptions
+): { client: SunpathClient; provider: AnchorProvider } => {
+  const connection = new Connection(global.url, "confirmed");
+  const wallet = new Wallet(loadKeypair(global.keypair));
+  const opts = AnchorProvider.defaultOptions();
+  const provider = global.dryRun
+    ? new DryRunProvider(connection, wallet, opts)
+    : new AnchorProvider(connection, wallet, opts);
+  return { client: SunpathClient.fromProvider(provider), provider };
+};
+
+// コマンドの実行結果 (table出力では rows があれば表、なければ record を表示する)
+export interface CliResult {
+  record?: Record<string, unknown>;
+  rows?: string[][];
+  json: unknown;
+}
+
+const taskRows = async (
+  client: SunpathClient,
+  tasks: ProgramAccount<TaskAccount>[]
+): Promise<string[][]> => {
+  const rewardMints = tasks.some(({ account }) => account.rewardMint)
+    ? await client.listRewardMints()
+    : [];
+  return [
+    ["task", "id", "status", "reward", "reporters", "expires"],
+    ...tasks.map(({ publicKey, account }) => {
+      const reward = formatReward(
+        account.rewardAmountLocked,
+        account.rewardMint,
+        rewardMints
+      );
+      return [
+        publicKey.toBase58(),
+        account.taskId.toString(),
+        taskStatusName(account.status),
+        `${reward.amount} ${reward.unit}`,
+        `${account.reportCount}/${account.maxReporters}`,
+        new Date(account.expirationTimestamp.toNumber() * 1000).toISOString(),
+      ];
+    }),
+  ];
+};
+
+export const runCommand = async (
+  client: SunpathClient,
+  parsed: ParsedCliArgs
+): Promise<CliResult> => {
+  const { command, args, flags } = parsed;
+  const sent = (signature: TransactionSignature, extra = {}) => {
+    const record = { signature, ...extra };
+    return { record, json: toPlainJson(record) };
+  };
+
+  switch (command) {
+    case "init": {
+      const signature = await client.initializeProgram({
+        admin: flags.admin
+          ? parsePublicKey(requireFlag(flags, "admin"), "--admin")
+          : client.walletPublicKey,
+        daoTreasuryAddress: parsePublicKey(
+          requireFlag(flags, "treasury"),
+          "--treasury"
+        ),
+        governanceTokenMint: parsePublicKey(
+          requireFlag(flags, "governance-mint"),
+          "--governance-mint"
+        ),
+        minimumRewardAmount: parseInteger(
+          requireFlag(flags, "min-reward"),
+          "--min-reward"
+        ),
+        daoFeePercentage: parseInteger(
+          requireFlag(flags, "fee"),
+          "--fee"
+        ).toNumber(),
+        denialPenaltyDuration: parseInteger(
+          requireFlag(flags, "penalty"),
+          "--penalty"
+        ),
+        patrollerGovernanceTokenAmount: parseInteger(
+          typeof flags["governance-amount"] === "string"
+            ? flags["governance-amount"]
+            : "0",
+          "--governance-amount"
+        ),
+      });
+      return sent(signature, { config: client.configAddress() });
+    }
+    case "config show": {
+      const config = await client.fetchConfig();
+      return {
+        record: { address: client.configAddress(), ...config },
+        json: toPlainJson({ address: client.configAddress(), ...config }),
+      };
+    }
+    case "config migrate": {
+      // 1アカウントずつ別のトランザクションで拡張する (途中で失敗しても再実行すれば残りから続く)
+      const legacy = await client.listLegacyAccounts();
+      const signatures: TransactionSignature[] = [];
+      if (legacy.config) {
+        signatures.push(await client.migrateConfig());
+      }
+      for (const taskAccount of legacy.tasks) {
+        signatures.push(await client.migrateTask(taskAccount));
+      }
+      for (const reportAccount of legacy.reports) {
+        signatures.push(await client.migrateReport(reportAccount));
+      }
+      const record = {
+        config: legacy.config,
+        tasks: legacy.tasks.length,
+        reports: legacy.reports.length,
+        signatures,
+      };
+      return { record, json: toPlainJson(record) };
+    }
+    case "task create": {
+      const result = await client.createTask({
+        rewardAmount: parseInteger(requireFlag(flags, "reward"), "--reward"),
+        durationSeconds: parseInteger(
+          requireFlag(flags, "duration"),
+          "--duration"
+        ),
+        rewardMint: flags.mint
+          ? parsePublicKey(requireFlag(flags, "mint"), "--mint")
+          : undefined,
+        maxReporters: flags["max-reporters"]
+          ? parseInteger(
+              requireFlag(flags, "max-reporters"),
+              "--max-reporters"
+            ).toNumber()
+          : undefined,
+      });
+      return sent(result.signature, {
+        taskAccount: result.taskAccount,
+        taskId: result.taskId,
+      });
+    }
+    case "task accept": {
+      const taskAccount = requireTaskArg(args);
+      let recipient: PublicKey;
+      if (flags.recipient) {
+        recipient = parsePublicKey(
+          requireFlag(flags, "recipient"),
+          "--recipient"
+        );
+      } else {
+        const { assignedReporter } = await client.fetchTask(taskAccount);
+        if (!assignedReporter) {
+          throw new Error("レポートが提出されていないタスクは承認できません");
+        }
+        recipient = assignedReporter;
+      }
+      return sent(await client.acceptTask(taskAccount, recipient), {
+        taskAccount,
+        recipient,
+      });
+    }
+    case "task reject": {
+      const taskAccount = requireTaskArg(args);
+      return sent(await client.rejectTask(taskAccount), { taskAccount });
+    }
+    case "task reclaim": {
+      const taskAccount = requireTaskArg(args);
+      if (flags.close) {
+        const { signature, lamportsRecovered } =
+          await client.reclaimAndCloseTask(taskAccount);
+        return sent(signature, { taskAccount, lamportsRecovered });
+      }
+      return sent(await client.reclaimTaskFunds(taskAccount), {
+        taskAccount,
+      });
+    }
+    case "task list": {
+      const status = flags.status;
+      if (
+        status !== undefined &&
+        !TASK_STATUS_NAMES.includes(status as TaskStatusName)
+      ) {
+        throw new Error(
+          `--status には ${TASK_STATUS_NAMES.join(
+            " / "
+          )} のいずれかを指定してください`
+        );
+      }
+      const consigner = flags.mine
+        ? client.walletPublicKey
+        : flags.consigner
+        ? parsePublicKey(requireFlag(flags, "consigner"), "--consigner")
+        : undefined;
+      const page = await client.listTasks({
+        consigner,
+        status: status as TaskStatusName | undefined,
+        page: flags.page
+          ? parseInteger(requireFlag(flags, "page"), "--page").toNumber()
+          : undefined,
+        pageSize: flags["page-size"]
+          ? parseInteger(
+              requireFlag(flags, "page-size"),
+              "--page-size"
+            ).toNumber()
+          : undefined,
+      });
+      return {
+        rows: await taskRows(client, page.tasks),
+        json: toPlainJson(page),
+      };
+    }
+    case "task show": {
+      const taskAccount = requireTaskArg(args);
+      const task = await client.fetchTask(taskAccount);
+      return {
+        record: { address: taskAccount, ...task },
+        json: toPlainJson({ address: taskAccount, ...task }),
+      };
+    }
+  }
+};
+
+export const formatResult = (
+  result: CliResult,
+  output: OutputFormat
+): string => {
+  if (output === "json") {
+    return JSON.stringify(result.json, null, 2);
+  }
+  if (result.rows) {
+    return result.rows.length > 1
+      ? formatTable(result.rows)
+      : "(該当するタスクはありません)";
+  }
+  return formatRecord(result.record ?? {});
+};
+
+const main = async () => {
+  const parsed = parseCliArgs(process.argv.slice(2));
+  const { client, provider } = createCliClient(parsed.global);
+  const result = await runCommand(client, parsed);
+
+  if (provider instanceof DryRunProvider) {
+    result.json = {
+      dryRun: true,
+      result: result.json,
+      simulations: provider.simulations,
+    };
+    if (parsed.global.output === "table") {
+      for (const { logs, unitsConsumed } of provider.simulations) {
+        console.log(`Simulation succeeded (${unitsConsumed ?? "?"} CU)`);
+        logs.forEach((log) => console.log(`  ${log}`));
+      }
+    }
+  }
+  console.log(formatResult(result, parsed.global.output));
+};
+
+if (require.main === module) {
+  main().catch((error) => {
+    const decoded = decodeSunpathError(error);
+    console.error(`Error: ${decoded.message}`);
+    if ("logs" in decoded && decoded.logs.length > 0) {
+      decoded.logs.forEach((log) => console.error(`  ${log}`));
+    }
+    process.exit(1);
+  });
+}
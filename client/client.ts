@@ -0,0 +1,1046 @@
+import { AnchorProvider, Program, ProgramAccount, BN } from "@coral-xyz/anchor";
+import {
+  PublicKey,
+  TransactionInstruction,
+  TransactionSignature,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import idl from "../src/idl/sunpath.json";
+import {
+  findAdminCounterPda,
+  findConfigPda,
+  findDisputePda,
+  findGovernanceMintAuthorityPda,
+  findReportPda,
+  findReporterStatsPda,
+  findRewardMintConfigPda,
+  findTaskCounterPda,
+  findTaskLocationPda,
+  findTaskPda,
+  findTaskVaultPda,
+} from "../src/constants/pda";
+import {
+  AdminActionCounter,
+  Dispute,
+  ProgramConfig,
+  ReportAccount,
+  ReporterStats,
+  RewardMintConfig,
+  SunpathProgram,
+  TaskAccount,
+  TaskCounter,
+  TaskLocation,
+  UpdateConfigParams,
+} from "../src/types/program";
+import { Sunpath } from "../src/types/sunpath";
+import {
+  buildTaskFilters,
+  ListTasksOptions,
+  sortAndPaginate,
+  TASK_ACCOUNT_OFFSETS,
+  TaskPage,
+  taskStatusName,
+} from "../src/utils/tasks";
+import { canExpire, nowInSeconds } from "../src/utils/taskRules";
+import { RewardMintInfo } from "../src/utils/rewards";
+import {
+  matchesTaskEventFilter,
+  TASK_EVENT_NAMES,
+  TaskEvent,
+  TaskEventFilter,
+  TaskEventName,
+} from "../src/utils/events";
+import { buildGeohashPrefixFilter, RoadLocation } from "../src/utils/location";
+
+// BNに変換可能な数値 (lamports、秒数、タスクIDなど)
+export type Numberish = BN | number | bigint | string;
+
+export interface InitializeProgramParams {
+  admin: PublicKey;
+  daoTreasuryAddress: PublicKey;
+  governanceTokenMint: PublicKey;
+  minimumRewardAmount: Numberish; // lamports単位
+  daoFeePercentage: number; // 0〜100
+  denialPenaltyDuration: Numberish; // 秒単位
+  patrollerGovernanceTokenAmount: Numberish;
+}
+
+// 変更するフィールドのみ指定する (省略したフィールドは現在の値のまま)
+export interface UpdateConfigInput {
+  daoTreasuryAddress?: PublicKey;
+  governanceTokenMint?: PublicKey;
+  minimumRewardAmount?: Numberish; // lamports単位
+  daoFeePercentage?: number; // 0〜100
+  denialPenaltyDuration?: Numberish; // 秒単位
+  patrollerGovernanceTokenAmount?: Numberish;
+}
+
+export interface CreateTaskParams {
+  taskId?: Numberish; // 省略時はオンチェーンのTaskCounterから次のIDを読み取る
+  rewardAmount: Numberish; // lamports単位 (rewardMint指定時はトークンの最小単位)
+  durationSeconds: Numberish; // 秒単位
+  rewardMint?: PublicKey; // SPLトークンで報酬を支払う場合のmint (省略時はSOL)
+  maxReporters?: number; // 報酬を分け合える報告者の上限 (1〜10、省略時は1)
+  location?: RoadLocation; // 道路区間 (同じトランザクションで set_task_location を実行する)
+}
+
+export interface CreateTaskResult {
+  signature: TransactionSignature;
+  taskAccount: PublicKey; // 作成されたTaskAccountのPDA
+  taskId: BN; // 割り当てられたタスクID
+}
+
+export interface SubmitReportParams {
+  taskAccount: PublicKey;
+  videoContentHash: Uint8Array | number[]; // 動画のSHA-256ハッシュ (32バイト)
+  metadataUri: string; // 動画・位置情報などのメタデータのURI
+}
+
+export interface SubmitReportResult {
+  signature: TransactionSignature;
+  reportAccount: PublicKey; // 作成されたReportAccountのPDA
+}
+
+// accept_reports で報酬を受け取る報告者と配分の重み (均等配分では全員同じ値)
+export interface ReporterShare {
+  reporter: PublicKey;
+  weight: Numberish; // 例: 走行で撮影した区間の長さ (m)
+}
+
+// geohashで見つかったOpenタスクとその道路区間
+export interface NearbyTask {
+  publicKey: PublicKey;
+  account: TaskAccount;
+  location: TaskLocation;
+}
+
+export interface CloseTaskResult {
+  signature: TransactionSignature;
+  lamportsRecovered: number; // 署名者に戻ったlamports (残りの報酬 + rent)
+}
+
+// フィールド追加前のレイアウトで作成されたアカウントのサイズ (discriminatorを含む)。
+// migrate_config / migrate_task / migrate_report で現在のサイズに拡張する
+export const LEGACY_ACCOUNT_SPACE = {
+  programConfig: 8 + 122, // pending_admin 追加前
+  taskAccount: 8 + 148, // reward_mint, max_reporters, report_count 追加前
+  reportAccount: 8 + 318, // rejected 追加前
+} as const;
+
+// 旧レイアウトのまま残っているアカウント
+export interface LegacyAccounts {
+  config: boolean; // config_v2 が旧レイアウトならtrue
+  tasks: PublicKey[];
+  reports: PublicKey[];
+}
+
+export interface TokenBalance {
+  amount: BN; // 最小単位の量
+  decimals: number;
+}
+
+export const toBN = (value: Numberish): BN =>
+  BN.isBN(value) ? value : new BN(value.toString());
+
+/**
+ * Sunpathプログラムの各命令をラップするクライアント。
+ * PDAは引数から自動的に導出されるため、呼び出し側は命令固有の値だけを渡せばよい。
+ * Node (スクリプト・テスト) からもReactコンポーネントからも同じように利用できる。
+ */
+export class SunpathClient {
+  constructor(readonly program: SunpathProgram) {}
+
+  static fromProvider(provider: AnchorProvider): SunpathClient {
+    const program = new Program<Sunpath>(idl as Sunpath, provider);
+    return new SunpathClient(program);
+  }
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  get provider(): AnchorProvider {
+    return this.program.provider as AnchorProvider;
+  }
+
+  // 署名者となる接続中ウォレットの公開鍵
+  get walletPublicKey(): PublicKey {
+    return this.provider.wallet.publicKey;
+  }
+
+  configAddress(): PublicKey {
+    return findConfigPda(this.programId)[0];
+  }
+
+  taskAddress(consigner: PublicKey, taskId: Numberish): PublicKey {
+    return findTaskPda(consigner, taskId, this.programId)[0];
+  }
+
+  adminCounterAddress(consigner: PublicKey): PublicKey {
+    return findAdminCounterPda(consigner, this.programId)[0];
+  }
+
+  taskCounterAddress(consigner: PublicKey): PublicKey {
+    return findTaskCounterPda(consigner, this.programId)[0];
+  }
+
+  reportAddress(taskAccount: PublicKey, reporter: PublicKey): PublicKey {
+    return findReportPda(taskAccount, reporter, this.programId)[0];
+  }
+
+  governanceMintAuthorityAddress(): PublicKey {
+    return findGovernanceMintAuthorityPda(this.programId)[0];
+  }
+
+  // SPLトークン報酬をエスクローするTaskAccount所有のトークンアカウント
+  taskVaultAddress(taskAccount: PublicKey): PublicKey {
+    return findTaskVaultPda(taskAccount, this.programId)[0];
+  }
+
+  taskLocationAddress(taskAccount: PublicKey): PublicKey {
+    return findTaskLocationPda(taskAccount, this.programId)[0];
+  }
+
+  reporterStatsAddress(reporter: PublicKey): PublicKey {
+    return findReporterStatsPda(reporter, this.programId)[0];
+  }
+
+  disputeAddress(taskAccount: PublicKey): PublicKey {
+    return findDisputePda(taskAccount, this.programId)[0];
+  }
+
+  rewardMintConfigAddress(mint: PublicKey): PublicKey {
+    return findRewardMintConfigPda(mint, this.programId)[0];
+  }
+
+  // ガバナンストークンの受け取り先 (ownerのAssociated Token Account)
+  governanceTokenAccountAddress(
+    owner: PublicKey,
+    governanceTokenMint: PublicKey
+  ): PublicKey {
+    return getAssociatedTokenAddressSync(governanceTokenMint, owner);
+  }
+
+  async initializeProgram(
+    params: InitializeProgramParams
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .initializeProgram(
+        params.admin,
+        params.daoTreasuryAddress,
+        params.governanceTokenMint,
+        toBN(params.minimumRewardAmount),
+        params.daoFeePercentage,
+        toBN(params.denialPenaltyDuration),
+        toBN(params.patrollerGovernanceTokenAmount)
+      )
+      .accounts({ admin: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 署名者 (接続中のウォレット) がConfigのadminである必要がある
+  async updateConfig(input: UpdateConfigInput): Promise<TransactionSignature> {
+    const optionalBN = (value?: Numberish): BN | null =>
+      value === undefined ? null : toBN(value);
+    const params: UpdateConfigParams = {
+      daoTreasuryAddress: input.daoTreasuryAddress ?? null,
+      governanceTokenMint: input.governanceTokenMint ?? null,
+      minimumRewardAmount: optionalBN(input.minimumRewardAmount),
+      daoFeePercentage: input.daoFeePercentage ?? null,
+      denialPenaltyDuration: optionalBN(input.denialPenaltyDuration),
+      patrollerGovernanceTokenAmount: optionalBN(
+        input.patrollerGovernanceTokenAmount
+      ),
+    };
+    return this.program.methods
+      .updateConfig(params)
+      .accountsPartial({ admin: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 管理者権限の移譲 (1段階目)。nullを渡すと保留中の移譲を取り消す
+  async proposeAdminTransfer(
+    newAdmin: PublicKey | null
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .proposeAdminTransfer(newAdmin)
+      .accountsPartial({ admin: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 管理者権限の移譲 (2段階目)。pending_admin のウォレットで署名する
+  async acceptAdminTransfer(): Promise<TransactionSignature> {
+    return this.program.methods
+      .acceptAdminTransfer()
+      .accounts({ newAdmin: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 旧レイアウトのConfigを現在のレイアウトに拡張する (署名者はConfigのadmin)
+  async migrateConfig(): Promise<TransactionSignature> {
+    return this.program.methods
+      .migrateConfig()
+      .accountsPartial({ admin: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 旧レイアウトのタスクを拡張する。誰でも実行でき、追加分のrentは署名者が支払う
+  async migrateTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    return this.program.methods
+      .migrateTask()
+      .accountsPartial({ taskAccount, payer: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 旧レイアウトのレポートを拡張する。誰でも実行でき、追加分のrentは署名者が支払う
+  async migrateReport(reportAccount: PublicKey): Promise<TransactionSignature> {
+    return this.program.methods
+      .migrateReport()
+      .accountsPartial({ reportAccount, payer: this.walletPublicKey })
+      .rpc();
+  }
+
+  // migrate_* が必要なアカウントをサイズで探す (旧レイアウトのアカウントはデコードできない)
+  async listLegacyAccounts(): Promise<LegacyAccounts> {
+    const connection = this.provider.connection;
+    const find = async (name: "taskAccount" | "reportAccount") => {
+      const entries = await connection.getProgramAccounts(this.programId, {
+        filters: [
+          { memcmp: this.program.coder.accounts.memcmp(name) },
+          { dataSize: LEGACY_ACCOUNT_SPACE[name] },
+        ],
+        dataSlice: { offset: 0, length: 0 },
+      });
+      return entries.map(({ pubkey }) => pubkey);
+    };
+    const [config, tasks, reports] = await Promise.all([
+      connection.getAccountInfo(this.configAddress()),
+      find("taskAccount"),
+      find("reportAccount"),
+    ]);
+    return {
+      config: config?.data.length === LEGACY_ACCOUNT_SPACE.programConfig,
+      tasks,
+      reports,
+    };
+  }
+
+  // 報酬に使えるSPLトークンを追加・更新する (署名者はConfigのadmin)
+  async setRewardMint(
+    mint: PublicKey,
+    minimumRewardAmount: Numberish,
+    isEnabled = true
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .setRewardMint(toBN(minimumRewardAmount), isEnabled)
+      .accountsPartial({ admin: this.walletPublicKey, mint })
+      .rpc();
+  }
+
+  /**
+   * タスクを作成し、報酬をロックする。
+   * rewardMint を指定した場合は consigner のAssociated Token Accountからタスクのvaultへトークンを移す。
+   */
+  async createTask(params: CreateTaskParams): Promise<CreateTaskResult> {
+    const consigner = this.walletPublicKey;
+    const taskId =
+      params.taskId !== undefined
+        ? toBN(params.taskId)
+        : await this.nextTaskId(consigner);
+    const taskAccount = this.taskAddress(consigner, taskId);
+    const rewardAmount = toBN(params.rewardAmount);
+    const durationSeconds = toBN(params.durationSeconds);
+    const maxReporters = params.maxReporters ?? 1;
+    const postInstructions = params.location
+      ? [
+          await this.setTaskLocationInstruction(
+            taskAccount,
+            params.location,
+            consigner
+          ),
+        ]
+      : [];
+
+    const signature = params.rewardMint
+      ? await this.program.methods
+          .createTokenTask(taskId, rewardAmount, durationSeconds, maxReporters)
+          .accounts({
+            consigner,
+            rewardMint: params.rewardMint,
+            consignerTokenAccount: getAssociatedTokenAddressSync(
+              params.rewardMint,
+              consigner
+            ),
+          })
+          .postInstructions(postInstructions)
+          .rpc()
+      : await this.program.methods
+          .createTask(taskId, rewardAmount, durationSeconds, maxReporters)
+          .accounts({ consigner })
+          .postInstructions(postInstructions)
+          .rpc();
+
+    return { signature, taskAccount, taskId };
+  }
+
+  // Openタスクに道路区間を設定する (設定済みの場合は上書き)
+  async setTaskLocation(
+    taskAccount: PublicKey,
+    location: RoadLocation
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .setTaskLocation(location.geohash, Array.from(location.roadGeometryHash))
+      .accountsPartial({ taskAccount, consignerWallet: this.walletPublicKey })
+      .rpc();
+  }
+
+  private async setTaskLocationInstruction(
+    taskAccount: PublicKey,
+    location: RoadLocation,
+    consignerWallet: PublicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .setTaskLocation(location.geohash, Array.from(location.roadGeometryHash))
+      .accountsPartial({ taskAccount, consignerWallet })
+      .instruction();
+  }
+
+  // 署名者はタスク作成者 (consigner_wallet) である必要がある
+  // TaskAccountのseedsは自身のデータを参照するため、アドレスは明示的に渡す
+  // 報酬のうち dao_fee_percentage 分はConfigのDAOトレジャリーに送られる
+  // SPLトークン報酬のタスクでは、受取人とDAOトレジャリーのAssociated Token Accountへ送金する
+  async acceptTask(
+    taskAccount: PublicKey,
+    recipient: PublicKey
+  ): Promise<TransactionSignature> {
+    const consignerWallet = this.walletPublicKey;
+    const [config, task] = await Promise.all([
+      this.fetchConfig(),
+      this.fetchTask(taskAccount),
+    ]);
+    if (task.rewardMint) {
+      const rewardMint = task.rewardMint;
+      const recipientTokenAccount = getAssociatedTokenAddressSync(
+        rewardMint,
+        recipient
+      );
+      const daoTreasuryTokenAccount = getAssociatedTokenAddressSync(
+        rewardMint,
+        config.daoTreasuryAddress,
+        true
+      );
+      return this.program.methods
+        .acceptTokenTask(recipient)
+        .accountsPartial({
+          taskAccount,
+          consignerWallet,
+          rewardMint,
+          recipientTokenAccount,
+          daoTreasuryTokenAccount,
+        })
+        .preInstructions([
+          createAssociatedTokenAccountIdempotentInstruction(
+            consignerWallet,
+            recipientTokenAccount,
+            recipient,
+            rewardMint
+          ),
+          createAssociatedTokenAccountIdempotentInstruction(
+            consignerWallet,
+            daoTreasuryTokenAccount,
+            config.daoTreasuryAddress,
+            rewardMint
+          ),
+        ])
+        .rpc();
+    }
+    return this.program.methods
+      .acceptTask(recipient)
+      .accountsPartial({
+        taskAccount,
+        consignerWallet,
+        recipientAccount: recipient,
+        daoTreasury: config.daoTreasuryAddress,
+      })
+      .rpc();
+  }
+
+  /**
+   * 複数の報告者のレポートをまとめて承認し、DAO手数料を除いた報酬を weight の比率で分配する。
+   * 端数は最後の報告者に加算される (src/utils/fees.ts の splitReward と同じ計算)。
+   */
+  async acceptReports(
+    taskAccount: PublicKey,
+    shares: ReporterShare[]
+  ): Promise<TransactionSignature> {
+    const config = await this.fetchConfig();
+    return this.program.methods
+      .acceptReports(shares.map(({ weight }) => toBN(weight)))
+      .accountsPartial({
+        taskAccount,
+        consignerWallet: this.walletPublicKey,
+        daoTreasury: config.daoTreasuryAddress,
+      })
+      .remainingAccounts(
+        shares.flatMap(({ reporter }) => [
+          {
+            pubkey: this.reportAddress(taskAccount, reporter),
+            isSigner: false,
+            isWritable: true,
+          },
+          { pubkey: reporter, isSigner: false, isWritable: true },
+          {
+            pubkey: this.reporterStatsAddress(reporter),
+            isSigner: false,
+            isWritable: true,
+          },
+        ])
+      )
+      .rpc();
+  }
+
+  // 拒否の件数は、レポートを提出したすべての報告者の ReporterStats に記録される
+  // (reject_report で拒否済みのレポートは除く)
+  async rejectTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    const reports = await this.listReportsForTask(taskAccount);
+    return this.program.methods
+      .rejectTask()
+      .accountsPartial({
+        taskAccount,
+        consignerWallet: this.walletPublicKey,
+      })
+      .remainingAccounts(
+        reports
+          .filter(({ account }) => !account.rejected)
+          .flatMap(({ publicKey, account }) => [
+            { pubkey: publicKey, isSigner: false, isWritable: false },
+            {
+              pubkey: this.reporterStatsAddress(account.reporter),
+              isSigner: false,
+              isWritable: true,
+            },
+          ])
+      )
+      .rpc();
+  }
+
+  /**
+   * タスクを拒否せずに reporter のレポート1件だけを拒否する (拒否ペナルティは発生しない)。
+   * 提出枠が空くため、無関係なレポートで枠を埋められた場合も他の報告者が提出できる。
+   * 拒否された報告者は同じタスクに再提出できない。
+   */
+  async rejectReport(
+    taskAccount: PublicKey,
+    reporter: PublicKey
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .rejectReport()
+      .accountsPartial({
+        taskAccount,
+        consignerWallet: this.walletPublicKey,
+        reportAccount: this.reportAddress(taskAccount, reporter),
+        reporterStats: this.reporterStatsAddress(reporter),
+      })
+      .rpc();
+  }
+
+  /**
+   * 却下されたタスク (報告者1人のタスクのみ) に担当の報告者として異議を申し立てる。
+   * 申し立て中は reclaim_task_funds が実行できなくなり、管理者が解決期限までに resolveDispute で解決する。
+   * 期限を過ぎると拒否が確定し、consignerが資金を回収できる。
+   */
+  async openDispute(
+    taskAccount: PublicKey,
+    reasonUri: string
+  ): Promise<TransactionSignature> {
+    return this.program.methods
+      .openDispute(reasonUri)
+      .accountsPartial({
+        taskAccount,
+        reporter: this.walletPublicKey,
+      })
+      .rpc();
+  }
+
+  // 管理者 (仲裁者) が異議を解決する。payReporter=true なら報酬を報告者に、falseならconsignerに戻す
+  async resolveDispute(
+    taskAccount: PublicKey,
+    payReporter: boolean
+  ): Promise<TransactionSignature> {
+    const task = await this.fetchTask(taskAccount);
+    const [dispute, config] = await Promise.all([
+      this.fetchDispute(taskAccount),
+      this.fetchConfig(),
+    ]);
+    if (!dispute) {
+      throw new Error(`Dispute not found for task ${taskAccount.toBase58()}`);
+    }
+    if (task.rewardMint) {
+      // SPLトークン報酬はvaultから支払う。受け取り先のトークンアカウントは管理者の負担で作成する
+      const admin = this.walletPublicKey;
+      const rewardMint = task.rewardMint;
+      const tokenAccounts = [
+        dispute.reporter,
+        config.daoTreasuryAddress,
+        task.consignerWallet,
+      ].map((owner) => ({
+        owner,
+        address: getAssociatedTokenAddressSync(rewardMint, owner, true),
+      }));
+      const [
+        reporterTokenAccount,
+        daoTreasuryTokenAccount,
+        consignerTokenAccount,
+      ] = tokenAccounts.map(({ address }) => address);
+      return this.program.methods
+        .resolveTokenDispute(payReporter)
+        .accountsPartial({
+          taskAccount,
+          admin,
+          consignerWallet: task.consignerWallet,
+          rewardMint,
+          reporterTokenAccount,
+          daoTreasuryTokenAccount,
+          consignerTokenAccount,
+        })
+        .preInstructions(
+          tokenAccounts.map(({ owner, address }) =>
+            createAssociatedTokenAccountIdempotentInstruction(
+              admin,
+              address,
+              owner,
+              rewardMint
+            )
+          )
+        )
+        .rpc();
+    }
+    return this.program.methods
+      .resolveDispute(payReporter)
+      .accountsPartial({
+        taskAccount,
+        admin: this.walletPublicKey,
+        reporterAccount: dispute.reporter,
+        consignerWallet: task.consignerWallet,
+        daoTreasury: config.daoTreasuryAddress,
+      })
+      .rpc();
+  }
+
+  // 署名者 (接続中のウォレット) がレポート提出者 (reporter) になる
+  async submitReport(params: SubmitReportParams): Promise<SubmitReportResult> {
+    const reporter = this.walletPublicKey;
+    const reportAccount = this.reportAddress(params.taskAccount, reporter);
+
+    const signature = await this.program.methods
+      .submitReport(Array.from(params.videoContentHash), params.metadataUri)
+      .accountsPartial({
+        taskAccount: params.taskAccount,
+        reporter,
+      })
+      .rpc();
+
+    return { signature, reportAccount };
+  }
+
+  /**
+   * 承認されたレポートの報告者として patroller_governance_token_amount 分のガバナンストークンを受け取る。
+   * 受け取り済みかどうかはレポートアカウントに記録されるため、タスクのクローズ後も受け取れる。
+   * 受け取り先のAssociated Token Accountが存在しない場合は同じトランザクション内で作成する。
+   */
+  async claimGovernanceReward(
+    taskAccount: PublicKey
+  ): Promise<TransactionSignature> {
+    const reporter = this.walletPublicKey;
+    const { governanceTokenMint } = await this.fetchConfig();
+    const reporterTokenAccount = this.governanceTokenAccountAddress(
+      reporter,
+      governanceTokenMint
+    );
+
+    return this.program.methods
+      .claimGovernanceReward()
+      .accountsPartial({
+        reportAccount: this.reportAddress(taskAccount, reporter),
+        reporter,
+        governanceTokenMint,
+        reporterTokenAccount,
+      })
+      .preInstructions([
+        createAssociatedTokenAccountIdempotentInstruction(
+          reporter,
+          reporterTokenAccount,
+          reporter,
+          governanceTokenMint
+        ),
+      ])
+      .rpc();
+  }
+
+  // 承認済み・回収済みのTaskAccount (と道路区間のTaskLocation) をクローズし、rentをconsignerに戻す
+  async closeTask(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    const { connection } = this.provider;
+    const taskLocation = await this.existingTaskLocation(taskAccount);
+    const lamportsRecovered =
+      (await connection.getBalance(taskAccount)) +
+      (taskLocation ? await connection.getBalance(taskLocation) : 0);
+    const signature = await this.closeTaskMethod(
+      taskAccount,
+      taskLocation
+    ).rpc();
+    return { signature, lamportsRecovered };
+  }
+
+  /**
+   * reclaim_task_funds と close_task を1つのトランザクションで実行し、
+   * ロックされていた報酬とTaskAccountのrentをまとめて回収する。
+   */
+  async reclaimAndCloseTask(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    const { connection } = this.provider;
+    const task = await this.fetchTask(taskAccount);
+    const taskLocation = await this.existingTaskLocation(taskAccount);
+    // SPLトークン報酬のタスクではvaultのrentも戻る (トークン自体はconsignerのトークンアカウントへ)
+    const lamportsRecovered =
+      (await connection.getBalance(taskAccount)) +
+      (taskLocation ? await connection.getBalance(taskLocation) : 0) +
+      (task.rewardMint
+        ? await connection.getBalance(this.taskVaultAddress(taskAccount))
+        : 0);
+    const closeInstruction = await this.closeTaskMethod(
+      taskAccount,
+      taskLocation
+    ).instruction();
+    const signature = await this.reclaimMethod(taskAccount, task)
+      .postInstructions([closeInstruction])
+      .rpc();
+    return { signature, lamportsRecovered };
+  }
+
+  // 解決済み (または解決期限切れ) の異議申し立てをクローズし、rentを申し立てた報告者 (署名者) に戻す
+  async closeDispute(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    const dispute = this.disputeAddress(taskAccount);
+    const lamportsRecovered = await this.provider.connection.getBalance(
+      dispute
+    );
+    const signature = await this.program.methods
+      .closeDispute()
+      .accountsPartial({ dispute, reporter: this.walletPublicKey })
+      .rpc();
+    return { signature, lamportsRecovered };
+  }
+
+  // 期限切れのOpenタスクをExpiredにする (署名者は誰でもよい)
+  async expireTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    return this.program.methods
+      .expireTask()
+      .accountsPartial({ taskAccount, cranker: this.walletPublicKey })
+      .rpc();
+  }
+
+  // 複数のタスクを1つのトランザクションでまとめて処理するための命令
+  async expireTaskInstruction(
+    taskAccount: PublicKey
+  ): Promise<TransactionInstruction> {
+    return this.program.methods
+      .expireTask()
+      .accountsPartial({ taskAccount, cranker: this.walletPublicKey })
+      .instruction();
+  }
+
+  async reclaimTaskFunds(
+    taskAccount: PublicKey
+  ): Promise<TransactionSignature> {
+    const task = await this.fetchTask(taskAccount);
+    return this.reclaimMethod(taskAccount, task).rpc();
+  }
+
+  // 報酬の種類 (SOL / SPLトークン) に応じた資金回収命令
+  private reclaimMethod(taskAccount: PublicKey, task: TaskAccount) {
+    const consignerWallet = this.walletPublicKey;
+    if (!task.rewardMint) {
+      return this.program.methods
+        .reclaimTaskFunds()
+        .accountsPartial({ taskAccount, consignerWallet });
+    }
+    const rewardMint = task.rewardMint;
+    const consignerTokenAccount = getAssociatedTokenAddressSync(
+      rewardMint,
+      consignerWallet
+    );
+    return this.program.methods
+      .reclaimTokenTaskFunds()
+      .accountsPartial({
+        taskAccount,
+        consignerWallet,
+        rewardMint,
+        consignerTokenAccount,
+      })
+      .preInstructions([
+        createAssociatedTokenAccountIdempotentInstruction(
+          consignerWallet,
+          consignerTokenAccount,
+          consignerWallet,
+          rewardMint
+        ),
+      ]);
+  }
+
+  // close_task 命令。taskLocation が null の場合は道路区間なし (Anchorのoptionalアカウント)
+  private closeTaskMethod(
+    taskAccount: PublicKey,
+    taskLocation: PublicKey | null
+  ) {
+    return this.program.methods.closeTask().accountsPartial({
+      taskAccount,
+      consignerWallet: this.walletPublicKey,
+      taskLocation,
+    });
+  }
+
+  // タスクの道路区間 (set_task_location) が作成済みならそのアドレス
+  private async existingTaskLocation(
+    taskAccount: PublicKey
+  ): Promise<PublicKey | null> {
+    const taskLocation = this.taskLocationAddress(taskAccount);
+    const info = await this.provider.connection.getAccountInfo(taskLocation);
+    return info ? taskLocation : null;
+  }
+
+  async fetchConfig(): Promise<ProgramConfig> {
+    return this.program.account.programConfig.fetch(this.configAddress());
+  }
+
+  async fetchTask(taskAccount: PublicKey): Promise<TaskAccount> {
+    return this.program.account.taskAccount.fetch(taskAccount);
+  }
+
+  // アカウントが存在しない場合はnullを返す
+  async fetchTaskNullable(taskAccount: PublicKey): Promise<TaskAccount | null> {
+    return this.program.account.taskAccount.fetchNullable(taskAccount);
+  }
+
+  async fetchReport(reportAccount: PublicKey): Promise<ReportAccount> {
+    return this.program.account.reportAccount.fetch(reportAccount);
+  }
+
+  // タスクに紐づくレポート (未提出の場合はnull)
+  async fetchReportForTask(
+    task: Pick<TaskAccount, "reportPda">
+  ): Promise<ReportAccount | null> {
+    return task.reportPda
+      ? this.program.account.reportAccount.fetchNullable(task.reportPda)
+      : null;
+  }
+
+  // タスクに提出されたすべてのレポート (提出順、reject_report で拒否されたものを含む)
+  async listReportsForTask(
+    taskAccount: PublicKey
+  ): Promise<ProgramAccount<ReportAccount>[]> {
+    const reports = await this.program.account.reportAccount.all([
+      // ReportAccount.task はdiscriminatorの直後 (オフセット8)
+      { memcmp: { offset: 8, bytes: taskAccount.toBase58() } },
+      // 旧レイアウトのレポートはデコードできないため除く (migrateReport で拡張する)
+      { dataSize: this.program.account.reportAccount.size },
+    ]);
+    return reports.sort((a, b) =>
+      a.account.submittedAt.cmp(b.account.submittedAt)
+    );
+  }
+
+  // レポートを提出したことがない報告者の場合はnull
+  async fetchReporterStats(reporter: PublicKey): Promise<ReporterStats | null> {
+    return this.program.account.reporterStats.fetchNullable(
+      this.reporterStatsAddress(reporter)
+    );
+  }
+
+  // 異議申し立てがない場合はnull
+  async fetchDispute(taskAccount: PublicKey): Promise<Dispute | null> {
+    return this.program.account.dispute.fetchNullable(
+      this.disputeAddress(taskAccount)
+    );
+  }
+
+  // 未解決の異議申し立て (申し立て順、解決期限切れを含む)。reason_uri が可変長のためresolutionはクライアント側で絞り込む
+  async listPendingDisputes(): Promise<ProgramAccount<Dispute>[]> {
+    const disputes = await this.program.account.dispute.all();
+    return disputes
+      .filter(({ account }) => "pending" in account.resolution)
+      .sort((a, b) => a.account.openedAt.cmp(b.account.openedAt));
+  }
+
+  // 道路区間が未設定の場合はnull
+  async fetchTaskLocation(
+    taskAccount: PublicKey
+  ): Promise<TaskLocation | null> {
+    return this.program.account.taskLocation.fetchNullable(
+      this.taskLocationAddress(taskAccount)
+    );
+  }
+
+  /**
+   * geohashが prefix で始まる道路区間を持つOpenタスクを expiration_timestamp 順に取得する。
+   * ドライバーの現在地のgeohash (encodeGeohash) を短くするほど広い範囲を検索できる。
+   */
+  async findOpenTasksByGeohash(prefix: string): Promise<NearbyTask[]> {
+    const locations = await this.program.account.taskLocation.all([
+      buildGeohashPrefixFilter(prefix),
+    ]);
+    const accounts = await this.program.account.taskAccount.fetchMultiple(
+      locations.map(({ account }) => account.task)
+    );
+    return locations
+      .flatMap(({ account: location }, index) => {
+        const account = accounts[index];
+        return account && taskStatusName(account.status) === "open"
+          ? [{ publicKey: location.task, account, location }]
+          : [];
+      })
+      .sort((a, b) =>
+        a.account.expirationTimestamp.cmp(b.account.expirationTimestamp)
+      );
+  }
+
+  // ownerのガバナンストークン残高 (トークンアカウントが未作成の場合は0)
+  async fetchGovernanceTokenBalance(
+    owner: PublicKey = this.walletPublicKey
+  ): Promise<TokenBalance> {
+    const { connection } = this.provider;
+    const { governanceTokenMint } = await this.fetchConfig();
+    const tokenAccount = this.governanceTokenAccountAddress(
+      owner,
+      governanceTokenMint
+    );
+    if (await connection.getAccountInfo(tokenAccount)) {
+      const { value } = await connection.getTokenAccountBalance(tokenAccount);
+      return { amount: new BN(value.amount), decimals: value.decimals };
+    }
+    const mint = await getMint(connection, governanceTokenMint);
+    return { amount: new BN(0), decimals: mint.decimals };
+  }
+
+  async fetchRewardMintConfig(
+    mint: PublicKey
+  ): Promise<RewardMintConfig | null> {
+    return this.program.account.rewardMintConfig.fetchNullable(
+      this.rewardMintConfigAddress(mint)
+    );
+  }
+
+  // 報酬に使える (is_enabled な) SPLトークンとそのdecimals
+  async listRewardMints(): Promise<RewardMintInfo[]> {
+    const configs = await this.program.account.rewardMintConfig.all();
+    const enabled = configs.filter(({ account }) => account.isEnabled);
+    return Promise.all(
+      enabled.map(async ({ account }) => {
+        const { decimals } = await getMint(
+          this.provider.connection,
+          account.mint
+        );
+        return {
+          mint: account.mint,
+          minimumRewardAmount: account.minimumRewardAmount,
+          decimals,
+        };
+      })
+    );
+  }
+
+  async fetchAdminActionCounter(
+    consigner: PublicKey
+  ): Promise<AdminActionCounter | null> {
+    return this.program.account.adminActionCounter.fetchNullable(
+      this.adminCounterAddress(consigner)
+    );
+  }
+
+  async fetchTaskCounter(consigner: PublicKey): Promise<TaskCounter | null> {
+    return this.program.account.taskCounter.fetchNullable(
+      this.taskCounterAddress(consigner)
+    );
+  }
+
+  // create_task が受け付ける次のタスクID (最初のタスクは0)
+  async nextTaskId(consigner: PublicKey = this.walletPublicKey): Promise<BN> {
+    const counter = await this.fetchTaskCounter(consigner);
+    return counter ? counter.nextTaskId : new BN(0);
+  }
+
+  // expiration_timestamp を過ぎたままOpenになっているタスク (expire_task の対象)
+  async listOverdueTasks(
+    now: number = nowInSeconds()
+  ): Promise<ProgramAccount<TaskAccount>[]> {
+    const { tasks } = await this.listTasks({ status: "open" });
+    return tasks.filter(({ account }) => canExpire(account, now));
+  }
+
+  /**
+   * 条件に一致するTaskAccountを expiration_timestamp 順に1ページ分取得する。
+   * まず並び替えに必要な8バイトだけを取得し、ページ内のアカウントのみ全体をデコードする。
+   */
+  async listTasks(options: ListTasksOptions = {}): Promise<TaskPage> {
+    const entries = await this.provider.connection.getProgramAccounts(
+      this.programId,
+      {
+        filters: [
+          { memcmp: this.program.coder.accounts.memcmp("taskAccount") },
+          // 旧レイアウトのタスクはデコードできないため除く (migrateTask で拡張する)
+          { dataSize: this.program.account.taskAccount.size },
+          ...buildTaskFilters(options),
+        ],
+        dataSlice: {
+          offset: TASK_ACCOUNT_OFFSETS.expirationTimestamp,
+          length: 8,
+        },
+      }
+    );
+
+    const { items, total, page, pageSize } = sortAndPaginate(
+      entries.map(({ pubkey, account }) => ({
+        publicKey: pubkey,
+        expirationTimestamp: new BN(account.data, "le").fromTwos(64),
+      })),
+      options
+    );
+
+    const accounts = await this.program.account.taskAccount.fetchMultiple(
+      items.map((item) => item.publicKey)
+    );
+    const tasks = items.flatMap((item, index) => {
+      const account = accounts[index];
+      // 取得の間にクローズされたアカウントは除外する
+      return account ? [{ publicKey: item.publicKey, account }] : [];
+    });
+
+    return { tasks, total, page, pageSize };
+  }
+
+  /**
+   * TaskCreated / TaskAccepted / TaskRejected / FundsReclaimed イベントを購読する。
+   * program.addEventListener (ログの購読) を使うため、ポーリングせずに画面を更新できる。
+   * 戻り値の関数を呼ぶと購読を解除する。
+   */
+  onTaskEvent(
+    callback: (event: TaskEvent) => void,
+    filter: TaskEventFilter = {}
+  ): () => Promise<void> {
+    const names: readonly TaskEventName[] = filter.names ?? TASK_EVENT_NAMES;
+    const listeners = names.map((name) =>
+      this.program.addEventListener(name, (data, slot, signature) => {
+        const event = { name, data, slot, signature } as TaskEvent;
+        if (matchesTaskEventFilter(event, filter)) {
+          callback(event);
+        }
+      })
+    );
+    return async () => {
+      await Promise.all(
+        listeners.map((listener) => this.program.removeEventListener(listener))
+      );
+    };
+  }
+}
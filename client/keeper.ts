@@ -0,0 +1,148 @@
+import { AnchorProvider } from "@coral-xyz/anchor";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import { SunpathClient } from "./client";
+import { decodeSunpathError } from "../src/utils/errors";
+
+/**
+ * 期限切れのまま Open になっているタスクを探し、expire_task をまとめて実行するキーパー。
+ *
+ * 使い方:
+ *   ANCHOR_PROVIDER_URL=<RPC URL> ANCHOR_WALLET=<keypair.json> \
+ *     npx ts-node client/keeper.ts [--once] [--interval <秒>] [--batch-size <件数>]
+ *
+ * 署名者 (ANCHOR_WALLET) はトランザクション手数料のみを支払う。
+ */
+
+export interface KeeperOptions {
+  batchSize: number; // 1トランザクションに含める expire_task の数
+  intervalSeconds: number; // スキャンの間隔
+  once: boolean; // trueの場合は1回だけ実行して終了する
+}
+
+export interface KeeperRunResult {
+  expired: PublicKey[];
+  failed: { taskAccount: PublicKey; error: string }[];
+}
+
+const DEFAULT_OPTIONS: KeeperOptions = {
+  batchSize: 8,
+  intervalSeconds: 60,
+  once: false,
+};
+
+// 配列を size 件ずつに分割する
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// 期限切れのタスクを1回スキャンし、batchSize 件ずつ expire_task を送信する
+export const runKeeperOnce = async (
+  client: SunpathClient,
+  batchSize: number
+): Promise<KeeperRunResult> => {
+  const overdue = await client.listOverdueTasks();
+  const result: KeeperRunResult = { expired: [], failed: [] };
+
+  for (const batch of chunk(
+    overdue.map((task) => task.publicKey),
+    batchSize
+  )) {
+    try {
+      const transaction = new Transaction();
+      for (const taskAccount of batch) {
+        transaction.add(await client.expireTaskInstruction(taskAccount));
+      }
+      const signature = await client.provider.sendAndConfirm(transaction);
+      console.log(`Expired ${batch.length} task(s): ${signature}`);
+      result.expired.push(...batch);
+    } catch (error) {
+      // 他のキーパーやconsignerが先に処理した場合などは1件ずつ再試行する
+      console.warn(
+        `Batch failed, retrying individually: ${
+          decodeSunpathError(error).message
+        }`
+      );
+      for (const taskAccount of batch) {
+        try {
+          await client.expireTask(taskAccount);
+          result.expired.push(taskAccount);
+        } catch (individualError) {
+          result.failed.push({
+            taskAccount,
+            error: decodeSunpathError(individualError).message,
+          });
+        }
+      }
+    }
+  }
+
+  return result;
+};
+
+export const parseKeeperArgs = (argv: string[]): KeeperOptions => {
+  const options = { ...DEFAULT_OPTIONS };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--once") {
+      options.once = true;
+    } else if (arg === "--interval" || arg === "--batch-size") {
+      const value = Number(argv[++i]);
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error(`${arg} には正の整数を指定してください`);
+      }
+      if (arg === "--interval") {
+        options.intervalSeconds = value;
+      } else {
+        options.batchSize = value;
+      }
+    } else {
+      throw new Error(`不明な引数です: ${arg}`);
+    }
+  }
+  return options;
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const main = async () => {
+  const options = parseKeeperArgs(process.argv.slice(2));
+  const client = SunpathClient.fromProvider(AnchorProvider.env());
+  console.log(
+    `Keeper started. Wallet: ${client.walletPublicKey.toBase58()}, batch size: ${
+      options.batchSize
+    }`
+  );
+
+  for (;;) {
+    try {
+      const { expired, failed } = await runKeeperOnce(
+        client,
+        options.batchSize
+      );
+      console.log(
+        `Scan finished: ${expired.length} expired, ${failed.length} failed`
+      );
+      for (const { taskAccount, error } of failed) {
+        console.warn(`  ${taskAccount.toBase58()}: ${error}`);
+      }
+    } catch (error) {
+      console.error("Scan failed:", decodeSunpathError(error).message);
+    }
+    if (options.once) {
+      return;
+    }
+    await sleep(options.intervalSeconds * 1000);
+  }
+};
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,1919 @@
+import {
+  AnchorProvider,
+  BN,
+  BorshAccountsCoder,
+  BorshInstructionCoder,
+  Idl,
+  Program,
+  ProgramAccount,
+  utils,
+  Wallet,
+} from "@coral-xyz/anchor";
+import { ACCOUNT_SIZE, getAssociatedTokenAddressSync } from "@solana/spl-token";
+import {
+  Connection,
+  PublicKey,
+  RpcResponseAndContext,
+  SignatureResult,
+  Transaction,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import idl from "../src/idl/sunpath.json";
+import {
+  findAdminCounterPda,
+  findConfigPda,
+  findDisputePda,
+  findReportPda,
+  findReporterStatsPda,
+  findRewardMintConfigPda,
+  findTaskCounterPda,
+  findTaskLocationPda,
+  findTaskPda,
+  findTaskVaultPda,
+} from "../src/constants/pda";
+import {
+  AdminActionCounter,
+  Dispute,
+  ProgramConfig,
+  ReportAccount,
+  ReporterStats,
+  RewardMintConfig,
+  TaskAccount,
+  TaskCounter,
+  TaskLocation,
+  TaskStatus,
+} from "../src/types/program";
+import { Sunpath } from "../src/types/sunpath";
+import {
+  SimulationError,
+  SUNPATH_ERROR_CODES,
+  SunpathErrorCode,
+  SunpathProgramError,
+  sunpathErrorFromNumber,
+} from "../src/utils/errors";
+import { calculateDaoFee, splitReward } from "../src/utils/fees";
+import {
+  matchesTaskEventFilter,
+  TaskEvent,
+  TaskEventFilter,
+} from "../src/utils/events";
+import { RewardMintInfo } from "../src/utils/rewards";
+import {
+  geohashFromBytes,
+  isValidGeohash,
+  MAX_GEOHASH_LENGTH,
+  RoadLocation,
+} from "../src/utils/location";
+import {
+  ListTasksOptions,
+  sortAndPaginate,
+  TaskPage,
+} from "../src/utils/tasks";
+import {
+  CloseTaskResult,
+  CreateTaskParams,
+  CreateTaskResult,
+  InitializeProgramParams,
+  LegacyAccounts,
+  NearbyTask,
+  Numberish,
+  ReporterShare,
+  SubmitReportParams,
+  SubmitReportResult,
+  SunpathClient,
+  toBN,
+  TokenBalance,
+  UpdateConfigInput,
+} from "./client";
+
+// programs/sunpath/src/lib.rs の ReportAccount::MAX_METADATA_URI_LEN
+const MAX_METADATA_URI_LEN = 200;
+const MAX_REPORTERS = 10;
+
+const accountsCoder = new BorshAccountsCoder(idl as Idl);
+const instructionCoder = new BorshInstructionCoder(idl as Idl);
+
+// expire_task の命令に含まれるTaskAccountの位置
+const EXPIRE_TASK_ACCOUNT_INDEX = idl.instructions
+  .find(({ name }) => name === "expire_task")!
+  .accounts.findIndex(({ name }) => name === "task_account");
+
+// IDLの型定義から数えたアカウントの容量 (先頭8バイトのdiscriminatorを含む)。
+// IDLは文字列の最大長を持たないため、String は lib.rs の LEN と同じく 4バイトの長さ + MAX_METADATA_URI_LEN で数える
+const accountSpace = (name: string): number => {
+  const definition = idl.types.find((type) => type.name === name);
+  const fields =
+    definition && "fields" in definition.type
+      ? (definition.type.fields as { type: unknown }[])
+      : [];
+  const strings = fields.filter(({ type }) => type === "string").length;
+  // Anchorは文字列を1バイトとして数えるため、その分を差し引く
+  return accountsCoder.size(name) + strings * (4 + MAX_METADATA_URI_LEN - 1);
+};
+
+export const MOCK_ACCOUNT_SPACE = {
+  programConfig: accountSpace("ProgramConfig"),
+  taskAccount: accountSpace("TaskAccount"),
+  taskCounter: accountSpace("TaskCounter"),
+  adminActionCounter: accountSpace("AdminActionCounter"),
+  reportAccount: accountSpace("ReportAccount"),
+  reporterStats: accountSpace("ReporterStats"),
+  dispute: accountSpace("Dispute"),
+  taskLocation: accountSpace("TaskLocation"),
+  rewardMintConfig: accountSpace("RewardMintConfig"),
+  tokenAccount: ACCOUNT_SIZE, // タスクのvaultとAssociated Token Account
+} as const;
+
+// Solanaの Rent::default() (1バイトあたり年3480 lamports、2年分で rent免除、アカウントのヘッダー128バイト)
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+const LAMPORTS_PER_BYTE_YEAR = 3480;
+const EXEMPTION_THRESHOLD_YEARS = 2;
+
+// getMinimumBalanceForRentExemption と同じ計算
+export const rentExemptMinimum = (space: number): number =>
+  (ACCOUNT_STORAGE_OVERHEAD + space) *
+  LAMPORTS_PER_BYTE_YEAR *
+  EXEMPTION_THRESHOLD_YEARS;
+
+const TASK_STATUS = {
+  open: { open: {} },
+  approved: { approved: {} },
+  rejected: { rejected: {} },
+  expired: { expired: {} },
+  reclaimed: { reclaimed: {} },
+  disputed: { disputed: {} },
+} as const satisfies Record<string, TaskStatus>;
+
+const isStatus = (task: TaskAccount, status: keyof typeof TASK_STATUS) =>
+  status in task.status;
+
+// プログラムと同じエラー (IDLのエラー番号・メッセージを持つ SunpathProgramError)
+const programError = (code: SunpathErrorCode): SunpathProgramError =>
+  sunpathErrorFromNumber(SUNPATH_ERROR_CODES[code])!;
+
+const ensure = (condition: boolean, code: SunpathErrorCode) => {
+  if (!condition) {
+    throw programError(code);
+  }
+};
+
+// Anchorのアカウント制約違反など、Sunpath以外の理由で失敗したトランザクション
+const accountError = (message: string, address: PublicKey) =>
+  new SimulationError(`${message}: ${address.toBase58()}`);
+
+const unsupported = (feature: string): never => {
+  throw new Error(`MockSunpathProgram does not simulate ${feature}`);
+};
+
+const key = (address: PublicKey) => address.toBase58();
+
+// SPLトークンのアカウント (Associated Token Account またはタスクのvault)
+export interface MockTokenAccount {
+  mint: PublicKey;
+  owner: PublicKey;
+  amount: BN;
+}
+
+export interface MockSunpathProgramOptions {
+  now?: number; // 初期時刻 (Unix秒、省略時は現在時刻)
+  programId?: PublicKey;
+}
+
+interface MockState {
+  config: ProgramConfig | null;
+  tasks: Map<string, TaskAccount>;
+  taskCounters: Map<string, TaskCounter>;
+  adminCounters: Map<string, AdminActionCounter>;
+  reports: Map<string, ReportAccount>;
+  reporterStats: Map<string, ReporterStats>;
+  disputes: Map<string, Dispute>;
+  taskLocations: Map<string, TaskLocation>;
+  rewardMintConfigs: Map<string, RewardMintConfig>;
+  mints: Map<string, { decimals: number }>;
+  tokenAccounts: Map<string, MockTokenAccount>;
+  lamports: Map<string, number>;
+  governanceTokens: Map<string, BN>;
+}
+
+interface Listener {
+  callback: (event: TaskEvent) => void;
+  filter: TaskEventFilter;
+}
+
+/**
+ * programs/sunpath/src/lib.rs と同じ状態遷移をメモリ上で再現するシミュレーター。
+ * バリデーターなしでコンポーネントやフックをテストするためのもので、MockSunpathClient から操作する。
+ * エスクローの残高、TaskStatusの遷移、期限切れ、拒否ペナルティ、AdminActionCounter、エラーコードを扱う。
+ * SPLトークン報酬はmintとトークンアカウントの残高だけを持ち、createMint / mintTo で用意する。
+ * トランザクション手数料はシミュレートしない。
+ */
+export class MockSunpathProgram {
+  readonly programId: PublicKey;
+  now: number;
+  slot = 0;
+
+  private state: MockState = {
+    config: null,
+    tasks: new Map(),
+    taskCounters: new Map(),
+    adminCounters: new Map(),
+    reports: new Map(),
+    reporterStats: new Map(),
+    disputes: new Map(),
+    taskLocations: new Map(),
+    rewardMintConfigs: new Map(),
+    mints: new Map(),
+    tokenAccounts: new Map(),
+    lamports: new Map(),
+    governanceTokens: new Map(),
+  };
+  private listeners = new Set<Listener>();
+  private pendingEvents: Omit<TaskEvent, "slot" | "signature">[] = [];
+
+  constructor(options: MockSunpathProgramOptions = {}) {
+    this.now = options.now ?? Math.floor(Date.now() / 1000);
+    this.programId = options.programId ?? new PublicKey(idl.address);
+  }
+
+  // 指定したウォレットで署名するクライアント
+  client(wallet: PublicKey): MockSunpathClient {
+    return new MockSunpathClient(this, wallet);
+  }
+
+  // 時計を進める (期限切れや拒否ペナルティの経過をテストする)
+  advanceTime(seconds: number): void {
+    this.now += seconds;
+  }
+
+  airdrop(address: PublicKey, lamports: number): void {
+    this.credit(address, lamports);
+  }
+
+  getBalance(address: PublicKey): number {
+    return this.state.lamports.get(key(address)) ?? 0;
+  }
+
+  // SPLトークン報酬に使うmintを作成する (mint authority などは持たない)
+  createMint(decimals: number): PublicKey {
+    const mint = PublicKey.unique();
+    this.state.mints.set(key(mint), { decimals });
+    return mint;
+  }
+
+  // ownerのAssociated Token Accountにトークンを発行する (トークンアカウントがなければ作成する)
+  mintTo(mint: PublicKey, owner: PublicKey, amount: Numberish): void {
+    this.requireMint(mint);
+    const address = this.associatedTokenAddress(mint, owner);
+    const account = this.state.tokenAccounts.get(key(address));
+    if (!account) {
+      this.credit(address, rentExemptMinimum(MOCK_ACCOUNT_SPACE.tokenAccount));
+    }
+    this.state.tokenAccounts.set(key(address), {
+      mint,
+      owner,
+      amount: (account?.amount ?? new BN(0)).add(toBN(amount)),
+    });
+  }
+
+  // ownerのAssociated Token Accountの残高 (未作成の場合は0)
+  getTokenBalance(mint: PublicKey, owner: PublicKey): BN {
+    return (
+      this.getTokenAccount(this.associatedTokenAddress(mint, owner))?.amount ??
+      new BN(0)
+    );
+  }
+
+  getTokenAccount(address: PublicKey): MockTokenAccount | null {
+    return this.state.tokenAccounts.get(key(address)) ?? null;
+  }
+
+  // --- 命令 (失敗した場合は状態を変更せずにエラーを投げる) ---
+
+  initializeProgram(
+    signer: PublicKey,
+    params: InitializeProgramParams
+  ): TransactionSignature {
+    return this.execute(() => {
+      if (this.state.config) {
+        throw new SimulationError("Config account already in use");
+      }
+      ensure(params.daoFeePercentage <= 100, "InvalidFeePercentage");
+      const denialPenaltyDuration = toBN(params.denialPenaltyDuration);
+      ensure(!denialPenaltyDuration.isNeg(), "InvalidDenialPenaltyDuration");
+      this.payRent(signer, MOCK_ACCOUNT_SPACE.programConfig);
+      this.state.config = {
+        admin: params.admin,
+        daoTreasuryAddress: params.daoTreasuryAddress,
+        governanceTokenMint: params.governanceTokenMint,
+        minimumRewardAmount: toBN(params.minimumRewardAmount),
+        daoFeePercentage: params.daoFeePercentage,
+        denialPenaltyDuration,
+        patrollerGovernanceTokenAmount: toBN(
+          params.patrollerGovernanceTokenAmount
+        ),
+        isInitialized: true,
+        pendingAdmin: null,
+      };
+    });
+  }
+
+  updateConfig(
+    signer: PublicKey,
+    input: UpdateConfigInput
+  ): TransactionSignature {
+    return this.execute(() => {
+      const config = this.requireAdmin(signer);
+      if (input.daoFeePercentage !== undefined) {
+        ensure(input.daoFeePercentage <= 100, "InvalidFeePercentage");
+      }
+      if (input.denialPenaltyDuration !== undefined) {
+        ensure(
+          !toBN(input.denialPenaltyDuration).isNeg(),
+          "InvalidDenialPenaltyDuration"
+        );
+      }
+      const optionalBN = (value: BN, update?: Parameters<typeof toBN>[0]) =>
+        update === undefined ? value : toBN(update);
+      this.state.config = {
+        ...config,
+        daoTreasuryAddress:
+          input.daoTreasuryAddress ?? config.daoTreasuryAddress,
+        governanceTokenMint:
+          input.governanceTokenMint ?? config.governanceTokenMint,
+        minimumRewardAmount: optionalBN(
+          config.minimumRewardAmount,
+          input.minimumRewardAmount
+        ),
+        daoFeePercentage: input.daoFeePercentage ?? config.daoFeePercentage,
+        denialPenaltyDuration: optionalBN(
+          config.denialPenaltyDuration,
+          input.denialPenaltyDuration
+        ),
+        patrollerGovernanceTokenAmount: optionalBN(
+          config.patrollerGovernanceTokenAmount,
+          input.patrollerGovernanceTokenAmount
+        ),
+      };
+    });
+  }
+
+  proposeAdminTransfer(
+    signer: PublicKey,
+    newAdmin: PublicKey | null
+  ): TransactionSignature {
+    return this.execute(() => {
+      const config = this.requireAdmin(signer);
+      this.state.config = { ...config, pendingAdmin: newAdmin };
+    });
+  }
+
+  acceptAdminTransfer(signer: PublicKey): TransactionSignature {
+    return this.execute(() => {
+      const config = this.requireConfig();
+      ensure(config.pendingAdmin?.equals(signer) ?? false, "NotPendingAdmin");
+      this.state.config = { ...config, admin: signer, pendingAdmin: null };
+    });
+  }
+
+  // モックのアカウントは常に現在のレイアウトで作成されるため、migrate_* は AccountAlreadyMigrated で失敗する
+  migrateAccount(signer: PublicKey, account: PublicKey): TransactionSignature {
+    return this.execute(() => {
+      const exists =
+        (this.state.config !== null &&
+          account.equals(findConfigPda(this.programId)[0])) ||
+        this.state.tasks.has(key(account)) ||
+        this.state.reports.has(key(account));
+      if (!exists) {
+        throw accountError("Account not initialized", account);
+      }
+      ensure(false, "AccountAlreadyMigrated");
+    });
+  }
+
+  setRewardMint(
+    signer: PublicKey,
+    mint: PublicKey,
+    minimumRewardAmount: Numberish,
+    isEnabled: boolean
+  ): TransactionSignature {
+    return this.execute(() => {
+      this.requireAdmin(signer);
+      this.requireMint(mint);
+      const address = findRewardMintConfigPda(mint, this.programId)[0];
+      if (!this.state.rewardMintConfigs.has(key(address))) {
+        this.payRent(signer, MOCK_ACCOUNT_SPACE.rewardMintConfig);
+      }
+      this.state.rewardMintConfigs.set(key(address), {
+        mint,
+        minimumRewardAmount: toBN(minimumRewardAmount),
+        isEnabled,
+      });
+    });
+  }
+
+  // rewardMint を指定した場合は create_token_task、location を指定した場合は同じトランザクションで set_task_location を実行する
+  createTask(
+    signer: PublicKey,
+    params: CreateTaskParams
+  ): { signature: TransactionSignature; taskAccount: PublicKey; taskId: BN } {
+    const counterAddress = findTaskCounterPda(signer, this.programId)[0];
+    const counter = this.state.taskCounters.get(key(counterAddress));
+    const taskId =
+      params.taskId !== undefined
+        ? toBN(params.taskId)
+        : counter?.nextTaskId ?? new BN(0);
+    const taskAccount = findTaskPda(signer, taskId, this.programId)[0];
+
+    const signature = this.execute(() => {
+      const config = this.requireConfig();
+      if (this.state.tasks.has(key(taskAccount))) {
+        throw accountError("Task account already in use", taskAccount);
+      }
+      const rewardAmount = toBN(params.rewardAmount);
+      const durationSeconds = toBN(params.durationSeconds);
+      const maxReporters = params.maxReporters ?? 1;
+      const rewardMint = params.rewardMint ?? null;
+      if (rewardMint) {
+        const mintConfig = this.requireRewardMintConfig(rewardMint);
+        ensure(mintConfig.isEnabled, "UnsupportedRewardMint");
+        ensure(
+          rewardAmount.gte(mintConfig.minimumRewardAmount),
+          "RewardAmountTooLow"
+        );
+        ensure(maxReporters === 1, "MultiReporterTokenTask");
+      } else {
+        ensure(
+          rewardAmount.gte(config.minimumRewardAmount),
+          "RewardAmountTooLow"
+        );
+      }
+      ensure(taskId.eq(counter?.nextTaskId ?? new BN(0)), "TaskIdMismatch");
+      ensure(
+        maxReporters >= 1 && maxReporters <= MAX_REPORTERS,
+        "InvalidMaxReporters"
+      );
+
+      if (!counter) {
+        this.payRent(signer, MOCK_ACCOUNT_SPACE.taskCounter);
+      }
+      this.payRent(signer, MOCK_ACCOUNT_SPACE.taskAccount);
+      this.credit(
+        taskAccount,
+        rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskAccount)
+      );
+      if (rewardMint) {
+        // 報酬はTaskAccountが所有するvaultにロックする
+        const vault = findTaskVaultPda(taskAccount, this.programId)[0];
+        this.initTokenAccount(signer, vault, rewardMint, taskAccount);
+        this.transferTokens(
+          this.associatedTokenAddress(rewardMint, signer),
+          vault,
+          rewardAmount
+        );
+      } else {
+        this.transfer(signer, taskAccount, rewardAmount.toNumber());
+      }
+
+      const now = new BN(this.now);
+      const task: TaskAccount = {
+        taskId,
+        consignerWallet: signer,
+        rewardAmountLocked: rewardAmount,
+        creationTimestamp: now,
+        durationSeconds,
+        expirationTimestamp: now.add(durationSeconds),
+        status: TASK_STATUS.open,
+        statusUpdateTimestamp: now,
+        assignedReporter: null,
+        reportPda: null,
+        isInitialized: true,
+        rewardMint,
+        maxReporters,
+        reportCount: 0,
+      };
+      this.state.tasks.set(key(taskAccount), task);
+      this.state.taskCounters.set(key(counterAddress), {
+        consigner: signer,
+        nextTaskId: taskId.addn(1),
+      });
+      this.emit({
+        name: "taskCreated",
+        data: {
+          task: taskAccount,
+          consigner: signer,
+          taskId,
+          rewardAmount,
+          rewardMint,
+          maxReporters,
+          expirationTimestamp: task.expirationTimestamp,
+          timestamp: now,
+        },
+      });
+      if (params.location) {
+        this.setLocation(signer, taskAccount, params.location);
+      }
+    });
+    return { signature, taskAccount, taskId };
+  }
+
+  setTaskLocation(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    location: RoadLocation
+  ): TransactionSignature {
+    return this.execute(() => this.setLocation(signer, taskAccount, location));
+  }
+
+  submitReport(
+    signer: PublicKey,
+    params: SubmitReportParams
+  ): { signature: TransactionSignature; reportAccount: PublicKey } {
+    const reportAccount = findReportPda(
+      params.taskAccount,
+      signer,
+      this.programId
+    )[0];
+    const signature = this.execute(() => {
+      const task = this.requireTask(params.taskAccount);
+      if (this.state.reports.has(key(reportAccount))) {
+        throw accountError("Report account already in use", reportAccount);
+      }
+      ensure(isStatus(task, "open"), "TaskNotOpen");
+      ensure(this.now <= task.expirationTimestamp.toNumber(), "TaskExpired");
+      ensure(
+        task.reportCount < Math.max(task.maxReporters, 1),
+        "ReportAlreadySubmitted"
+      );
+      ensure(
+        params.metadataUri.length <= MAX_METADATA_URI_LEN,
+        "MetadataUriTooLong"
+      );
+
+      this.payRent(signer, MOCK_ACCOUNT_SPACE.reportAccount);
+      this.state.reports.set(key(reportAccount), {
+        task: params.taskAccount,
+        reporter: signer,
+        videoContentHash: Array.from(params.videoContentHash),
+        metadataUri: params.metadataUri,
+        submittedAt: new BN(this.now),
+        rewardAmount: new BN(0),
+        approved: false,
+        governanceRewardClaimed: false,
+        rejected: false,
+      });
+      const stats = this.reporterStatsOrInit(signer, signer);
+      this.setReporterStats({ ...stats, lastActivity: new BN(this.now) });
+
+      // 最初のレポートは accept_task の対象としてタスクに記録される
+      this.state.tasks.set(key(params.taskAccount), {
+        ...task,
+        reportPda: task.reportPda ?? reportAccount,
+        assignedReporter: task.assignedReporter ?? signer,
+        reportCount: task.reportCount + 1,
+      });
+    });
+    return { signature, reportAccount };
+  }
+
+  acceptTask(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    recipient: PublicKey
+  ): TransactionSignature {
+    return this.execute(() => {
+      const task = this.requireTask(taskAccount);
+      ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+      const config = this.requireConfig();
+      const stats = this.requireReporterStats(recipient);
+      ensure(task.maxReporters <= 1, "MultiReporterTask");
+      ensure(isStatus(task, "open"), "TaskNotOpen");
+      ensure(this.now <= task.expirationTimestamp.toNumber(), "TaskExpired");
+      ensure(task.reportPda !== null, "ReportNotSubmitted");
+      ensure(
+        task.assignedReporter?.equals(recipient) ?? false,
+        "RecipientNotReporter"
+      );
+
+      const daoFee = calculateDaoFee(
+        task.rewardAmountLocked,
+        config.daoFeePercentage
+      );
+      const reporterAmount = task.rewardAmountLocked.sub(daoFee);
+      if (task.rewardMint) {
+        // accept_token_task (受け取り先のトークンアカウントはconsignerの負担で作成する)
+        const [recipientTokenAccount, daoTreasuryTokenAccount] =
+          this.createAssociatedTokenAccounts(signer, task.rewardMint, [
+            recipient,
+            config.daoTreasuryAddress,
+          ]);
+        this.payFromVault(taskAccount, [
+          { destination: recipientTokenAccount, amount: reporterAmount },
+          { destination: daoTreasuryTokenAccount, amount: daoFee },
+        ]);
+      } else {
+        this.transfer(taskAccount, recipient, reporterAmount.toNumber());
+        this.transfer(
+          taskAccount,
+          config.daoTreasuryAddress,
+          daoFee.toNumber()
+        );
+      }
+
+      this.updateTask(taskAccount, {
+        status: TASK_STATUS.approved,
+        assignedReporter: recipient,
+      });
+      this.approveReport(taskAccount, recipient);
+      this.emit({
+        name: "taskAccepted",
+        data: {
+          task: taskAccount,
+          consigner: signer,
+          reporters: [recipient],
+          reporterAmount,
+          daoFee,
+          timestamp: new BN(this.now),
+        },
+      });
+      // total_earned はlamports単位のため、トークン報酬は承認の件数だけを数える
+      this.recordApproval(stats, task.rewardMint ? new BN(0) : reporterAmount);
+      this.countAdminAction(signer, "acceptCount");
+    });
+  }
+
+  acceptReports(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    shares: ReporterShare[]
+  ): TransactionSignature {
+    return this.execute(() => {
+      const task = this.requireTask(taskAccount);
+      ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+      const config = this.requireConfig();
+      ensure(task.rewardMint === null, "TokenRewardTask");
+      ensure(isStatus(task, "open"), "TaskNotOpen");
+      ensure(this.now <= task.expirationTimestamp.toNumber(), "TaskExpired");
+      const weights = shares.map(({ weight }) => toBN(weight));
+      ensure(
+        weights.length > 0 &&
+          weights.length <= task.reportCount &&
+          !weights.reduce((sum, weight) => sum.add(weight), new BN(0)).isZero(),
+        "InvalidRewardSplit"
+      );
+
+      const daoFee = calculateDaoFee(
+        task.rewardAmountLocked,
+        config.daoFeePercentage
+      );
+      const distributable = task.rewardAmountLocked.sub(daoFee);
+      const amounts = splitReward(distributable, weights);
+      const paidReporters: PublicKey[] = [];
+      shares.forEach(({ reporter }, index) => {
+        const reportAccount = findReportPda(
+          taskAccount,
+          reporter,
+          this.programId
+        )[0];
+        const report = this.state.reports.get(key(reportAccount));
+        ensure(
+          report?.task.equals(taskAccount) ?? false,
+          "InvalidReportAccount"
+        );
+        ensure(!report!.rejected, "ReportRejected");
+        ensure(
+          !paidReporters.some((paid) => paid.equals(reporter)),
+          "DuplicateReporter"
+        );
+        paidReporters.push(reporter);
+
+        this.transfer(taskAccount, reporter, amounts[index].toNumber());
+        this.state.reports.set(key(reportAccount), {
+          ...report!,
+          rewardAmount: amounts[index],
+          approved: true,
+        });
+        const stats = this.state.reporterStats.get(
+          key(findReporterStatsPda(reporter, this.programId)[0])
+        );
+        ensure(stats !== undefined, "InvalidReporterStats");
+        this.recordApproval(stats!, amounts[index]);
+      });
+      this.transfer(taskAccount, config.daoTreasuryAddress, daoFee.toNumber());
+
+      this.updateTask(taskAccount, { status: TASK_STATUS.approved });
+      this.emit({
+        name: "taskAccepted",
+        data: {
+          task: taskAccount,
+          consigner: signer,
+          reporters: paidReporters,
+          reporterAmount: distributable,
+          daoFee,
+          timestamp: new BN(this.now),
+        },
+      });
+      this.countAdminAction(signer, "acceptCount");
+    });
+  }
+
+  rejectTask(signer: PublicKey, taskAccount: PublicKey): TransactionSignature {
+    return this.execute(() => {
+      const task = this.requireTask(taskAccount);
+      ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+      ensure(isStatus(task, "open"), "TaskNotOpen");
+      ensure(this.now <= task.expirationTimestamp.toNumber(), "TaskExpired");
+
+      this.updateTask(taskAccount, { status: TASK_STATUS.rejected });
+      this.emit({
+        name: "taskRejected",
+        data: {
+          task: taskAccount,
+          consigner: signer,
+          reporter: task.assignedReporter,
+          timestamp: new BN(this.now),
+        },
+      });
+      // レポートを提出したすべての報告者に拒否の件数を記録する (reject_report で拒否済みのものを除く)
+      this.listReports(taskAccount)
+        .filter(({ account }) => !account.rejected)
+        .forEach(({ account }) => this.recordRejection(account.reporter));
+      this.countAdminAction(signer, "rejectCount");
+    });
+  }
+
+  rejectReport(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    reporter: PublicKey
+  ): TransactionSignature {
+    return this.execute(() => {
+      const task = this.requireTask(taskAccount);
+      ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+      const reportAccount = findReportPda(
+        taskAccount,
+        reporter,
+        this.programId
+      )[0];
+      const report = this.requireReport(reportAccount);
+      ensure(isStatus(task, "open"), "TaskNotOpen");
+      ensure(this.now <= task.expirationTimestamp.toNumber(), "TaskExpired");
+      ensure(!report.rejected, "ReportRejected");
+
+      this.state.reports.set(key(reportAccount), { ...report, rejected: true });
+      // 次に提出されたレポートが accept_task の対象になる
+      const isAssigned = task.reportPda?.equals(reportAccount) ?? false;
+      this.updateTask(
+        taskAccount,
+        {
+          reportCount: task.reportCount - 1,
+          ...(isAssigned && { reportPda: null, assignedReporter: null }),
+        },
+        false
+      );
+      this.recordRejection(reporter);
+    });
+  }
+
+  openDispute(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    reasonUri: string
+  ): TransactionSignature {
+    return this.execute(() => {
+      const task = this.requireTask(taskAccount);
+      const disputeAccount = findDisputePda(taskAccount, this.programId)[0];
+      if (this.state.disputes.has(key(disputeAccount))) {
+        throw accountError("Dispute account already in use", disputeAccount);
+      }
+      const config = this.requireConfig();
+      ensure(task.maxReporters <= 1, "MultiReporterDispute");
+      ensure(isStatus(task, "rejected"), "TaskNotRejected");
+      ensure(task.assignedReporter?.equals(signer) ?? false, "NotTaskReporter");
+      const report = this.requireReport(
+        findReportPda(taskAccount, signer, this.programId)[0]
+      );
+      ensure(!report.rejected, "ReportRejected");
+      ensure(
+        this.now <
+          task.statusUpdateTimestamp
+            .add(config.denialPenaltyDuration)
+            .toNumber(),
+        "DisputeWindowClosed"
+      );
+      ensure(reasonUri.length <= MAX_METADATA_URI_LEN, "MetadataUriTooLong");
+
+      this.payRent(signer, MOCK_ACCOUNT_SPACE.dispute);
+      this.state.disputes.set(key(disputeAccount), {
+        task: taskAccount,
+        reporter: signer,
+        reasonUri,
+        openedAt: new BN(this.now),
+        resolution: { pending: {} },
+        resolvedAt: new BN(0),
+      });
+      this.updateTask(taskAccount, { status: TASK_STATUS.disputed });
+    });
+  }
+
+  resolveDispute(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    payReporter: boolean
+  ): TransactionSignature {
+    return this.execute(() => {
+      const config = this.requireAdmin(signer);
+      const task = this.requireTask(taskAccount);
+      const disputeAccount = findDisputePda(taskAccount, this.programId)[0];
+      const dispute = this.state.disputes.get(key(disputeAccount));
+      if (!dispute) {
+        throw accountError("Dispute account not initialized", disputeAccount);
+      }
+      ensure(isStatus(task, "disputed"), "TaskNotDisputed");
+      ensure(
+        this.now <
+          dispute.openedAt.add(config.denialPenaltyDuration).toNumber(),
+        "DisputeDeadlinePassed"
+      );
+
+      const now = new BN(this.now);
+      const reward = task.rewardAmountLocked;
+      // resolve_token_dispute の受け取り先のトークンアカウントは管理者の負担で作成する
+      const [
+        reporterTokenAccount,
+        daoTreasuryTokenAccount,
+        consignerTokenAccount,
+      ] = task.rewardMint
+        ? this.createAssociatedTokenAccounts(signer, task.rewardMint, [
+            dispute.reporter,
+            config.daoTreasuryAddress,
+            task.consignerWallet,
+          ])
+        : [];
+      if (payReporter) {
+        const daoFee = calculateDaoFee(reward, config.daoFeePercentage);
+        const reporterAmount = reward.sub(daoFee);
+        if (task.rewardMint) {
+          this.payFromVault(taskAccount, [
+            { destination: reporterTokenAccount, amount: reporterAmount },
+            { destination: daoTreasuryTokenAccount, amount: daoFee },
+          ]);
+        } else {
+          this.transfer(
+            taskAccount,
+            dispute.reporter,
+            reporterAmount.toNumber()
+          );
+          this.transfer(
+            taskAccount,
+            config.daoTreasuryAddress,
+            daoFee.toNumber()
+          );
+        }
+        this.updateTask(taskAccount, { status: TASK_STATUS.approved });
+        this.approveReport(taskAccount, dispute.reporter);
+        this.state.disputes.set(key(disputeAccount), {
+          ...dispute,
+          resolution: { reporterPaid: {} },
+          resolvedAt: now,
+        });
+
+        // 拒否が覆されたため、拒否の件数から承認の件数に移す
+        const stats = this.requireReporterStats(dispute.reporter);
+        this.recordApproval(
+          {
+            ...stats,
+            rejectedCount: BN.max(stats.rejectedCount.subn(1), new BN(0)),
+          },
+          task.rewardMint ? new BN(0) : reporterAmount
+        );
+        this.emit({
+          name: "taskAccepted",
+          data: {
+            task: taskAccount,
+            consigner: task.consignerWallet,
+            reporters: [dispute.reporter],
+            reporterAmount,
+            daoFee,
+            timestamp: now,
+          },
+        });
+      } else {
+        if (task.rewardMint) {
+          this.payFromVault(taskAccount, [
+            { destination: consignerTokenAccount, amount: reward },
+          ]);
+        } else {
+          this.transfer(taskAccount, task.consignerWallet, reward.toNumber());
+        }
+        this.updateTask(taskAccount, {
+          status: TASK_STATUS.reclaimed,
+          rewardAmountLocked: new BN(0),
+        });
+        this.state.disputes.set(key(disputeAccount), {
+          ...dispute,
+          resolution: { consignerReleased: {} },
+          resolvedAt: now,
+        });
+        this.emit({
+          name: "fundsReclaimed",
+          data: {
+            task: taskAccount,
+            consigner: task.consignerWallet,
+            amount: reward,
+            timestamp: now,
+          },
+        });
+      }
+    });
+  }
+
+  // 受け取り済みかどうかはレポートに記録されるため、タスクのクローズ後も受け取れる
+  claimGovernanceReward(
+    signer: PublicKey,
+    taskAccount: PublicKey
+  ): TransactionSignature {
+    return this.execute(() => {
+      const reportAccount = findReportPda(
+        taskAccount,
+        signer,
+        this.programId
+      )[0];
+      const report = this.requireReport(reportAccount);
+      const config = this.requireConfig();
+      ensure(report.approved, "TaskNotApproved");
+      ensure(!report.governanceRewardClaimed, "GovernanceRewardAlreadyClaimed");
+      const amount = config.patrollerGovernanceTokenAmount;
+      ensure(!amount.isZero(), "NoGovernanceReward");
+
+      this.state.governanceTokens.set(
+        key(signer),
+        this.getGovernanceTokenBalance(signer).add(amount)
+      );
+      this.state.reports.set(key(reportAccount), {
+        ...report,
+        governanceRewardClaimed: true,
+      });
+    });
+  }
+
+  expireTask(signer: PublicKey, taskAccount: PublicKey): TransactionSignature {
+    return this.expireTasks(signer, [taskAccount]);
+  }
+
+  // キーパーが1つのトランザクションにまとめた expire_task (1件でも失敗したらすべて元に戻す)
+  expireTasks(
+    signer: PublicKey,
+    taskAccounts: PublicKey[]
+  ): TransactionSignature {
+    return this.execute(() =>
+      taskAccounts.forEach((taskAccount) => {
+        const task = this.requireTask(taskAccount);
+        ensure(isStatus(task, "open"), "TaskNotOpen");
+        ensure(
+          this.now > task.expirationTimestamp.toNumber(),
+          "TaskNotExpired"
+        );
+        this.updateTask(taskAccount, { status: TASK_STATUS.expired });
+      })
+    );
+  }
+
+  reclaimTaskFunds(
+    signer: PublicKey,
+    taskAccount: PublicKey
+  ): TransactionSignature {
+    return this.execute(() => this.reclaim(signer, taskAccount));
+  }
+
+  closeTask(
+    signer: PublicKey,
+    taskAccount: PublicKey
+  ): { signature: TransactionSignature; lamportsRecovered: number } {
+    const lamportsRecovered =
+      this.getBalance(taskAccount) +
+      this.getBalance(findTaskLocationPda(taskAccount, this.programId)[0]);
+    const signature = this.execute(() => this.close(signer, taskAccount));
+    return { signature, lamportsRecovered };
+  }
+
+  closeDispute(
+    signer: PublicKey,
+    taskAccount: PublicKey
+  ): { signature: TransactionSignature; lamportsRecovered: number } {
+    const lamportsRecovered = rentExemptMinimum(MOCK_ACCOUNT_SPACE.dispute);
+    const signature = this.execute(() => {
+      const disputeAccount = findDisputePda(taskAccount, this.programId)[0];
+      const dispute = this.state.disputes.get(key(disputeAccount));
+      if (!dispute) {
+        throw accountError("Dispute account not initialized", disputeAccount);
+      }
+      ensure(dispute.reporter.equals(signer), "NotTaskReporter");
+      // 解決期限を過ぎた未解決の申し立てもクローズできる
+      ensure(
+        !("pending" in dispute.resolution) ||
+          this.now >=
+            dispute.openedAt
+              .add(this.requireConfig().denialPenaltyDuration)
+              .toNumber(),
+        "DisputePending"
+      );
+      this.state.disputes.delete(key(disputeAccount));
+      this.credit(signer, lamportsRecovered);
+    });
+    return { signature, lamportsRecovered };
+  }
+
+  // reclaim_task_funds と close_task を1つのトランザクションで実行する
+  reclaimAndCloseTask(
+    signer: PublicKey,
+    taskAccount: PublicKey
+  ): { signature: TransactionSignature; lamportsRecovered: number } {
+    // SPLトークン報酬のタスクではvaultのrentも戻る
+    const lamportsRecovered =
+      this.getBalance(taskAccount) +
+      this.getBalance(findTaskLocationPda(taskAccount, this.programId)[0]) +
+      this.getBalance(findTaskVaultPda(taskAccount, this.programId)[0]);
+    const signature = this.execute(() => {
+      this.reclaim(signer, taskAccount);
+      this.close(signer, taskAccount);
+    });
+    return { signature, lamportsRecovered };
+  }
+
+  // --- アカウントの読み取り ---
+
+  getConfig(): ProgramConfig | null {
+    return this.state.config;
+  }
+
+  getTask(taskAccount: PublicKey): TaskAccount | null {
+    return this.state.tasks.get(key(taskAccount)) ?? null;
+  }
+
+  getReport(reportAccount: PublicKey): ReportAccount | null {
+    return this.state.reports.get(key(reportAccount)) ?? null;
+  }
+
+  // タスクに提出されたレポート (提出順)
+  listReports(taskAccount: PublicKey): ProgramAccount<ReportAccount>[] {
+    return [...this.state.reports.entries()]
+      .filter(([, report]) => report.task.equals(taskAccount))
+      .map(([address, account]) => ({
+        publicKey: new PublicKey(address),
+        account,
+      }))
+      .sort((a, b) => a.account.submittedAt.cmp(b.account.submittedAt));
+  }
+
+  getReporterStats(reporter: PublicKey): ReporterStats | null {
+    return (
+      this.state.reporterStats.get(
+        key(findReporterStatsPda(reporter, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  getDispute(taskAccount: PublicKey): Dispute | null {
+    return (
+      this.state.disputes.get(
+        key(findDisputePda(taskAccount, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  listDisputes(): ProgramAccount<Dispute>[] {
+    return [...this.state.disputes.entries()].map(([address, account]) => ({
+      publicKey: new PublicKey(address),
+      account,
+    }));
+  }
+
+  getTaskCounter(consigner: PublicKey): TaskCounter | null {
+    return (
+      this.state.taskCounters.get(
+        key(findTaskCounterPda(consigner, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  getAdminActionCounter(consigner: PublicKey): AdminActionCounter | null {
+    return (
+      this.state.adminCounters.get(
+        key(findAdminCounterPda(consigner, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  getGovernanceTokenBalance(owner: PublicKey): BN {
+    return this.state.governanceTokens.get(key(owner)) ?? new BN(0);
+  }
+
+  getTaskLocation(taskAccount: PublicKey): TaskLocation | null {
+    return (
+      this.state.taskLocations.get(
+        key(findTaskLocationPda(taskAccount, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  // SunpathClient.findOpenTasksByGeohash と同じ条件・並び順でOpenタスクを返す
+  findOpenTasksByGeohash(prefix: string): NearbyTask[] {
+    if (!isValidGeohash(prefix)) {
+      throw new RangeError(`Invalid geohash prefix: ${prefix}`);
+    }
+    return [...this.state.taskLocations.values()]
+      .flatMap((location) => {
+        const account = this.getTask(location.task);
+        return account &&
+          isStatus(account, "open") &&
+          geohashFromBytes(location.geohash).startsWith(prefix)
+          ? [{ publicKey: location.task, account, location }]
+          : [];
+      })
+      .sort((a, b) =>
+        a.account.expirationTimestamp.cmp(b.account.expirationTimestamp)
+      );
+  }
+
+  getRewardMintConfig(mint: PublicKey): RewardMintConfig | null {
+    return (
+      this.state.rewardMintConfigs.get(
+        key(findRewardMintConfigPda(mint, this.programId)[0])
+      ) ?? null
+    );
+  }
+
+  // 報酬に使える (isEnabled な) SPLトークンとそのdecimals
+  listRewardMints(): RewardMintInfo[] {
+    return [...this.state.rewardMintConfigs.values()]
+      .filter(({ isEnabled }) => isEnabled)
+      .map(({ mint, minimumRewardAmount }) => ({
+        mint,
+        minimumRewardAmount,
+        decimals: this.requireMint(mint).decimals,
+      }));
+  }
+
+  // SunpathClient.listTasks と同じ条件・並び順で1ページ分のタスクを返す
+  listTasks(options: ListTasksOptions = {}): TaskPage {
+    const matches = [...this.state.tasks.entries()]
+      .filter(
+        ([, task]) =>
+          (!options.consigner ||
+            task.consignerWallet.equals(options.consigner)) &&
+          (!options.status || isStatus(task, options.status)) &&
+          (!options.assignedReporter ||
+            (task.assignedReporter?.equals(options.assignedReporter) ?? false))
+      )
+      .map(([address, account]) => ({
+        publicKey: new PublicKey(address),
+        expirationTimestamp: account.expirationTimestamp,
+        account,
+      }));
+    const { items, total, page, pageSize } = sortAndPaginate(matches, options);
+    return {
+      tasks: items.map(({ publicKey, account }) => ({ publicKey, account })),
+      total,
+      page,
+      pageSize,
+    };
+  }
+
+  // 成功したトランザクションのイベントを通知する。戻り値の関数で購読を解除する
+  onTaskEvent(
+    callback: (event: TaskEvent) => void,
+    filter: TaskEventFilter = {}
+  ): () => void {
+    const listener: Listener = { callback, filter };
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // --- 内部処理 ---
+
+  // 命令を1つのトランザクションとして実行する (失敗したら状態を元に戻す)
+  private execute(instruction: () => void): TransactionSignature {
+    const snapshot: MockState = {
+      config: this.state.config,
+      tasks: new Map(this.state.tasks),
+      taskCounters: new Map(this.state.taskCounters),
+      adminCounters: new Map(this.state.adminCounters),
+      reports: new Map(this.state.reports),
+      reporterStats: new Map(this.state.reporterStats),
+      disputes: new Map(this.state.disputes),
+      taskLocations: new Map(this.state.taskLocations),
+      rewardMintConfigs: new Map(this.state.rewardMintConfigs),
+      mints: new Map(this.state.mints),
+      tokenAccounts: new Map(this.state.tokenAccounts),
+      lamports: new Map(this.state.lamports),
+      governanceTokens: new Map(this.state.governanceTokens),
+    };
+    this.pendingEvents = [];
+    try {
+      instruction();
+    } catch (error) {
+      this.state = snapshot;
+      this.pendingEvents = [];
+      throw error;
+    }
+
+    this.slot += 1;
+    const signatureBytes = Buffer.alloc(64);
+    signatureBytes.writeUInt32LE(this.slot);
+    const signature = utils.bytes.bs58.encode(signatureBytes);
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    for (const pending of events) {
+      const event = { ...pending, slot: this.slot, signature } as TaskEvent;
+      this.listeners.forEach(({ callback, filter }) => {
+        if (matchesTaskEventFilter(event, filter)) {
+          callback(event);
+        }
+      });
+    }
+    return signature;
+  }
+
+  private emit(event: Omit<TaskEvent, "slot" | "signature">): void {
+    this.pendingEvents.push(event);
+  }
+
+  private reclaim(signer: PublicKey, taskAccount: PublicKey): void {
+    const task = this.requireTask(taskAccount);
+    ensure(task.consignerWallet.equals(signer), "NotConsigner");
+    const config = this.requireConfig();
+
+    // programs/sunpath/src/lib.rs の require_reclaimable と同じ条件
+    if (isStatus(task, "rejected")) {
+      ensure(
+        this.now >=
+          task.statusUpdateTimestamp
+            .add(config.denialPenaltyDuration)
+            .toNumber(),
+        "DenialLockupActive"
+      );
+    } else if (isStatus(task, "disputed")) {
+      // 申し立て中の status_update_timestamp は申し立て時刻。解決期限を過ぎると拒否が確定する
+      ensure(
+        this.now >=
+          task.statusUpdateTimestamp
+            .add(config.denialPenaltyDuration)
+            .toNumber(),
+        "CannotReclaimFunds"
+      );
+    } else {
+      ensure(
+        (isStatus(task, "open") &&
+          this.now > task.expirationTimestamp.toNumber()) ||
+          isStatus(task, "expired"),
+        "CannotReclaimFunds"
+      );
+    }
+
+    const amount = task.rewardAmountLocked;
+    if (task.rewardMint) {
+      // reclaim_token_task_funds (consignerのトークンアカウントがなければ作成する)
+      const [consignerTokenAccount] = this.createAssociatedTokenAccounts(
+        signer,
+        task.rewardMint,
+        [signer]
+      );
+      this.payFromVault(taskAccount, [
+        { destination: consignerTokenAccount, amount },
+      ]);
+    } else {
+      this.transfer(taskAccount, signer, amount.toNumber());
+    }
+    this.updateTask(taskAccount, {
+      status: TASK_STATUS.reclaimed,
+      rewardAmountLocked: new BN(0),
+    });
+    this.emit({
+      name: "fundsReclaimed",
+      data: {
+        task: taskAccount,
+        consigner: signer,
+        amount,
+        timestamp: new BN(this.now),
+      },
+    });
+  }
+
+  private close(signer: PublicKey, taskAccount: PublicKey): void {
+    const task = this.requireTask(taskAccount);
+    ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+    ensure(
+      isStatus(task, "approved") || isStatus(task, "reclaimed"),
+      "TaskNotClosable"
+    );
+    this.transfer(taskAccount, signer, this.getBalance(taskAccount));
+    this.state.tasks.delete(key(taskAccount));
+    this.state.lamports.delete(key(taskAccount));
+    // 道路区間のTaskLocationも一緒にクローズする
+    const taskLocation = findTaskLocationPda(taskAccount, this.programId)[0];
+    if (this.state.taskLocations.delete(key(taskLocation))) {
+      this.transfer(taskLocation, signer, this.getBalance(taskLocation));
+      this.state.lamports.delete(key(taskLocation));
+    }
+  }
+
+  // set_task_location (TaskLocation は init_if_needed、payer はconsigner)
+  private setLocation(
+    signer: PublicKey,
+    taskAccount: PublicKey,
+    location: RoadLocation
+  ): void {
+    const task = this.requireTask(taskAccount);
+    ensure(task.consignerWallet.equals(signer), "NotTaskConsigner");
+    ensure(isStatus(task, "open"), "TaskNotOpen");
+    ensure(isValidGeohash(location.geohash), "InvalidGeohash");
+
+    const address = findTaskLocationPda(taskAccount, this.programId)[0];
+    if (!this.state.taskLocations.has(key(address))) {
+      this.payRent(signer, MOCK_ACCOUNT_SPACE.taskLocation);
+      this.credit(address, rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskLocation));
+    }
+    // geohashは MAX_GEOHASH_LENGTH バイトまで0埋めして保存される
+    const geohash = Array<number>(MAX_GEOHASH_LENGTH).fill(0);
+    Buffer.from(location.geohash, "ascii").forEach((byte, index) => {
+      geohash[index] = byte;
+    });
+    this.state.taskLocations.set(key(address), {
+      task: taskAccount,
+      geohash,
+      roadGeometryHash: Array.from(location.roadGeometryHash),
+    });
+  }
+
+  private associatedTokenAddress(mint: PublicKey, owner: PublicKey): PublicKey {
+    return getAssociatedTokenAddressSync(mint, owner, true);
+  }
+
+  private requireMint(mint: PublicKey): { decimals: number } {
+    const info = this.state.mints.get(key(mint));
+    if (!info) {
+      throw accountError("Mint account not initialized", mint);
+    }
+    return info;
+  }
+
+  private requireRewardMintConfig(mint: PublicKey): RewardMintConfig {
+    this.requireMint(mint);
+    const address = findRewardMintConfigPda(mint, this.programId)[0];
+    const config = this.state.rewardMintConfigs.get(key(address));
+    if (!config) {
+      throw accountError("Reward mint config not initialized", address);
+    }
+    return config;
+  }
+
+  // トークンアカウントを作成する (rentは payer が支払う)
+  private initTokenAccount(
+    payer: PublicKey,
+    address: PublicKey,
+    mint: PublicKey,
+    owner: PublicKey
+  ): void {
+    this.requireMint(mint);
+    this.payRent(payer, MOCK_ACCOUNT_SPACE.tokenAccount);
+    this.credit(address, rentExemptMinimum(MOCK_ACCOUNT_SPACE.tokenAccount));
+    this.state.tokenAccounts.set(key(address), {
+      mint,
+      owner,
+      amount: new BN(0),
+    });
+  }
+
+  // createAssociatedTokenAccountIdempotentInstruction と同じく、作成済みのアカウントはそのまま使う
+  private createAssociatedTokenAccounts(
+    payer: PublicKey,
+    mint: PublicKey,
+    owners: PublicKey[]
+  ): PublicKey[] {
+    return owners.map((owner) => {
+      const address = this.associatedTokenAddress(mint, owner);
+      if (!this.state.tokenAccounts.has(key(address))) {
+        this.initTokenAccount(payer, address, mint, owner);
+      }
+      return address;
+    });
+  }
+
+  private requireTokenAccount(address: PublicKey): MockTokenAccount {
+    const account = this.state.tokenAccounts.get(key(address));
+    if (!account) {
+      throw accountError("Token account not initialized", address);
+    }
+    return account;
+  }
+
+  private transferTokens(from: PublicKey, to: PublicKey, amount: BN): void {
+    const source = this.requireTokenAccount(from);
+    this.requireTokenAccount(to);
+    if (source.amount.lt(amount)) {
+      throw new SimulationError(
+        `Insufficient tokens in ${key(from)}: ${source.amount} < ${amount}`
+      );
+    }
+    this.state.tokenAccounts.set(key(from), {
+      ...source,
+      amount: source.amount.sub(amount),
+    });
+    const destination = this.requireTokenAccount(to);
+    this.state.tokenAccounts.set(key(to), {
+      ...destination,
+      amount: destination.amount.add(amount),
+    });
+  }
+
+  // タスクのvaultからトークンを送金し、vaultをクローズしてrentをconsignerに戻す
+  private payFromVault(
+    taskAccount: PublicKey,
+    payments: { destination: PublicKey; amount: BN }[]
+  ): void {
+    const task = this.requireTask(taskAccount);
+    const vault = findTaskVaultPda(taskAccount, this.programId)[0];
+    payments.forEach(({ destination, amount }) =>
+      this.transferTokens(vault, destination, amount)
+    );
+    this.state.tokenAccounts.delete(key(vault));
+    this.transfer(vault, task.consignerWallet, this.getBalance(vault));
+    this.state.lamports.delete(key(vault));
+  }
+
+  private requireConfig(): ProgramConfig {
+    if (!this.state.config) {
+      throw new SimulationError("Config account not initialized");
+    }
+    return this.state.config;
+  }
+
+  private requireAdmin(signer: PublicKey): ProgramConfig {
+    const config = this.requireConfig();
+    ensure(config.admin.equals(signer), "NotAdmin");
+    return config;
+  }
+
+  private requireTask(taskAccount: PublicKey): TaskAccount {
+    const task = this.state.tasks.get(key(taskAccount));
+    if (!task) {
+      throw accountError("Task account not initialized", taskAccount);
+    }
+    return task;
+  }
+
+  private requireReport(reportAccount: PublicKey): ReportAccount {
+    const report = this.state.reports.get(key(reportAccount));
+    if (!report) {
+      throw accountError("Report account not initialized", reportAccount);
+    }
+    return report;
+  }
+
+  // accept_task / resolve_dispute で承認されたレポートはガバナンストークンの対象になる
+  private approveReport(taskAccount: PublicKey, reporter: PublicKey): void {
+    const reportAccount = findReportPda(
+      taskAccount,
+      reporter,
+      this.programId
+    )[0];
+    this.state.reports.set(key(reportAccount), {
+      ...this.requireReport(reportAccount),
+      approved: true,
+    });
+  }
+
+  private requireReporterStats(reporter: PublicKey): ReporterStats {
+    const stats = this.getReporterStats(reporter);
+    if (!stats) {
+      throw accountError("Reporter stats not initialized", reporter);
+    }
+    return stats;
+  }
+
+  // submit_report の init_if_needed (payer は報告者)
+  private reporterStatsOrInit(
+    reporter: PublicKey,
+    payer: PublicKey
+  ): ReporterStats {
+    const existing = this.getReporterStats(reporter);
+    if (existing) {
+      return existing;
+    }
+    this.payRent(payer, MOCK_ACCOUNT_SPACE.reporterStats);
+    return {
+      reporter,
+      approvedCount: new BN(0),
+      rejectedCount: new BN(0),
+      totalEarned: new BN(0),
+      lastActivity: new BN(0),
+    };
+  }
+
+  private setReporterStats(stats: ReporterStats): void {
+    this.state.reporterStats.set(
+      key(findReporterStatsPda(stats.reporter, this.programId)[0]),
+      stats
+    );
+  }
+
+  private recordRejection(reporter: PublicKey): void {
+    const stats = this.requireReporterStats(reporter);
+    this.setReporterStats({
+      ...stats,
+      rejectedCount: stats.rejectedCount.addn(1),
+      lastActivity: new BN(this.now),
+    });
+  }
+
+  private recordApproval(stats: ReporterStats, earned: BN): void {
+    this.setReporterStats({
+      ...stats,
+      approvedCount: stats.approvedCount.addn(1),
+      totalEarned: stats.totalEarned.add(earned),
+      lastActivity: new BN(this.now),
+    });
+  }
+
+  // accept_task / reject_task の AdminActionCounter (init_if_needed、payer はconsigner)
+  private countAdminAction(
+    consigner: PublicKey,
+    field: "acceptCount" | "rejectCount"
+  ): void {
+    const address = findAdminCounterPda(consigner, this.programId)[0];
+    let counter = this.state.adminCounters.get(key(address));
+    if (!counter) {
+      this.payRent(consigner, MOCK_ACCOUNT_SPACE.adminActionCounter);
+      counter = {
+        admin: consigner,
+        acceptCount: new BN(0),
+        rejectCount: new BN(0),
+      };
+    }
+    this.state.adminCounters.set(key(address), {
+      ...counter,
+      admin: consigner,
+      [field]: counter[field].addn(1),
+    });
+  }
+
+  private updateTask(
+    taskAccount: PublicKey,
+    changes: Partial<TaskAccount>,
+    statusChanged = true
+  ): void {
+    const task = this.requireTask(taskAccount);
+    this.state.tasks.set(key(taskAccount), {
+      ...task,
+      ...changes,
+      ...(statusChanged && { statusUpdateTimestamp: new BN(this.now) }),
+    });
+  }
+
+  private payRent(payer: PublicKey, space: number): void {
+    this.debit(payer, rentExemptMinimum(space));
+  }
+
+  private transfer(from: PublicKey, to: PublicKey, lamports: number): void {
+    if (lamports > 0) {
+      this.debit(from, lamports);
+      this.credit(to, lamports);
+    }
+  }
+
+  private debit(address: PublicKey, lamports: number): void {
+    const balance = this.getBalance(address);
+    if (balance < lamports) {
+      throw new SimulationError(
+        `Insufficient lamports in ${key(address)}: ${balance} < ${lamports}`
+      );
+    }
+    this.state.lamports.set(key(address), balance - lamports);
+  }
+
+  private credit(address: PublicKey, lamports: number): void {
+    this.state.lamports.set(key(address), this.getBalance(address) + lamports);
+  }
+}
+
+// 確認 (confirmTransaction) と残高の取得だけをMockSunpathProgramで処理するConnection
+class MockConnection extends Connection {
+  constructor(private readonly mock: MockSunpathProgram) {
+    super("http://127.0.0.1:8899");
+  }
+
+  async confirmTransaction(): Promise<RpcResponseAndContext<SignatureResult>> {
+    return { context: { slot: this.mock.slot }, value: { err: null } };
+  }
+
+  async getBalance(publicKey: PublicKey): Promise<number> {
+    return this.mock.getBalance(publicKey);
+  }
+}
+
+// 署名はMockSunpathProgramが行うため、実際のウォレットは使わない
+const mockWallet = (publicKey: PublicKey): Wallet =>
+  ({
+    publicKey,
+    signTransaction: () =>
+      Promise.reject(new Error("MockSunpathClient does not sign transactions")),
+    signAllTransactions: () =>
+      Promise.reject(new Error("MockSunpathClient does not sign transactions")),
+  } as unknown as Wallet);
+
+// キーパー (client/keeper.ts) が expireTaskInstruction でまとめたトランザクションをMockSunpathProgramで実行するProvider。
+// その他の命令は MockSunpathClient の各メソッドがシミュレートするため、ここでは扱わない
+class MockProvider extends AnchorProvider {
+  constructor(private readonly mock: MockSunpathProgram, wallet: PublicKey) {
+    super(
+      new MockConnection(mock),
+      mockWallet(wallet),
+      AnchorProvider.defaultOptions()
+    );
+  }
+
+  async sendAndConfirm(
+    transaction: Transaction | VersionedTransaction
+  ): Promise<TransactionSignature> {
+    if (!(transaction instanceof Transaction)) {
+      return unsupported("versioned transactions");
+    }
+    const taskAccounts = transaction.instructions.map((instruction) => {
+      const decoded = instruction.programId.equals(this.mock.programId)
+        ? instructionCoder.decode(instruction.data)
+        : null;
+      if (decoded?.name !== "expire_task") {
+        return unsupported("transactions other than expire_task batches");
+      }
+      return instruction.keys[EXPIRE_TASK_ACCOUNT_INDEX].pubkey;
+    });
+    return this.mock.expireTasks(this.wallet.publicKey, taskAccounts);
+  }
+}
+
+/**
+ * SunpathClientと同じインターフェースでMockSunpathProgramを操作するクライアント。
+ * SunpathClientContext に渡すと、コンポーネントやフックをバリデーターなしで動かせる。
+ */
+export class MockSunpathClient extends SunpathClient {
+  constructor(readonly mock: MockSunpathProgram, wallet: PublicKey) {
+    super(
+      new Program<Sunpath>(
+        { ...idl, address: mock.programId.toBase58() } as Sunpath,
+        new MockProvider(mock, wallet)
+      )
+    );
+  }
+
+  async initializeProgram(
+    params: InitializeProgramParams
+  ): Promise<TransactionSignature> {
+    return this.mock.initializeProgram(this.walletPublicKey, params);
+  }
+
+  async updateConfig(input: UpdateConfigInput): Promise<TransactionSignature> {
+    return this.mock.updateConfig(this.walletPublicKey, input);
+  }
+
+  async proposeAdminTransfer(
+    newAdmin: PublicKey | null
+  ): Promise<TransactionSignature> {
+    return this.mock.proposeAdminTransfer(this.walletPublicKey, newAdmin);
+  }
+
+  async acceptAdminTransfer(): Promise<TransactionSignature> {
+    return this.mock.acceptAdminTransfer(this.walletPublicKey);
+  }
+
+  async migrateConfig(): Promise<TransactionSignature> {
+    return this.mock.migrateAccount(this.walletPublicKey, this.configAddress());
+  }
+
+  async migrateTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    return this.mock.migrateAccount(this.walletPublicKey, taskAccount);
+  }
+
+  async migrateReport(reportAccount: PublicKey): Promise<TransactionSignature> {
+    return this.mock.migrateAccount(this.walletPublicKey, reportAccount);
+  }
+
+  async listLegacyAccounts(): Promise<LegacyAccounts> {
+    return { config: false, tasks: [], reports: [] };
+  }
+
+  async setRewardMint(
+    mint: PublicKey,
+    minimumRewardAmount: Numberish,
+    isEnabled = true
+  ): Promise<TransactionSignature> {
+    return this.mock.setRewardMint(
+      this.walletPublicKey,
+      mint,
+      minimumRewardAmount,
+      isEnabled
+    );
+  }
+
+  async createTask(params: CreateTaskParams): Promise<CreateTaskResult> {
+    return this.mock.createTask(this.walletPublicKey, params);
+  }
+
+  async setTaskLocation(
+    taskAccount: PublicKey,
+    location: RoadLocation
+  ): Promise<TransactionSignature> {
+    return this.mock.setTaskLocation(
+      this.walletPublicKey,
+      taskAccount,
+      location
+    );
+  }
+
+  async acceptTask(
+    taskAccount: PublicKey,
+    recipient: PublicKey
+  ): Promise<TransactionSignature> {
+    return this.mock.acceptTask(this.walletPublicKey, taskAccount, recipient);
+  }
+
+  async acceptReports(
+    taskAccount: PublicKey,
+    shares: ReporterShare[]
+  ): Promise<TransactionSignature> {
+    return this.mock.acceptReports(this.walletPublicKey, taskAccount, shares);
+  }
+
+  async rejectTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    return this.mock.rejectTask(this.walletPublicKey, taskAccount);
+  }
+
+  async rejectReport(
+    taskAccount: PublicKey,
+    reporter: PublicKey
+  ): Promise<TransactionSignature> {
+    return this.mock.rejectReport(this.walletPublicKey, taskAccount, reporter);
+  }
+
+  async openDispute(
+    taskAccount: PublicKey,
+    reasonUri: string
+  ): Promise<TransactionSignature> {
+    return this.mock.openDispute(this.walletPublicKey, taskAccount, reasonUri);
+  }
+
+  async resolveDispute(
+    taskAccount: PublicKey,
+    payReporter: boolean
+  ): Promise<TransactionSignature> {
+    return this.mock.resolveDispute(
+      this.walletPublicKey,
+      taskAccount,
+      payReporter
+    );
+  }
+
+  async submitReport(params: SubmitReportParams): Promise<SubmitReportResult> {
+    return this.mock.submitReport(this.walletPublicKey, params);
+  }
+
+  async claimGovernanceReward(
+    taskAccount: PublicKey
+  ): Promise<TransactionSignature> {
+    return this.mock.claimGovernanceReward(this.walletPublicKey, taskAccount);
+  }
+
+  async closeTask(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    return this.mock.closeTask(this.walletPublicKey, taskAccount);
+  }
+
+  async reclaimAndCloseTask(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    return this.mock.reclaimAndCloseTask(this.walletPublicKey, taskAccount);
+  }
+
+  async closeDispute(taskAccount: PublicKey): Promise<CloseTaskResult> {
+    return this.mock.closeDispute(this.walletPublicKey, taskAccount);
+  }
+
+  async expireTask(taskAccount: PublicKey): Promise<TransactionSignature> {
+    return this.mock.expireTask(this.walletPublicKey, taskAccount);
+  }
+
+  async reclaimTaskFunds(
+    taskAccount: PublicKey
+  ): Promise<TransactionSignature> {
+    return this.mock.reclaimTaskFunds(this.walletPublicKey, taskAccount);
+  }
+
+  async fetchConfig(): Promise<ProgramConfig> {
+    const config = this.mock.getConfig();
+    if (!config) {
+      throw new Error(
+        `Account does not exist or has no data ${this.configAddress().toBase58()}`
+      );
+    }
+    return config;
+  }
+
+  async fetchTask(taskAccount: PublicKey): Promise<TaskAccount> {
+    const task = this.mock.getTask(taskAccount);
+    if (!task) {
+      throw new Error(
+        `Account does not exist or has no data ${taskAccount.toBase58()}`
+      );
+    }
+    return task;
+  }
+
+  async fetchTaskNullable(taskAccount: PublicKey): Promise<TaskAccount | null> {
+    return this.mock.getTask(taskAccount);
+  }
+
+  async fetchReport(reportAccount: PublicKey): Promise<ReportAccount> {
+    const report = this.mock.getReport(reportAccount);
+    if (!report) {
+      throw new Error(
+        `Account does not exist or has no data ${reportAccount.toBase58()}`
+      );
+    }
+    return report;
+  }
+
+  async fetchReportForTask(
+    task: Pick<TaskAccount, "reportPda">
+  ): Promise<ReportAccount | null> {
+    return task.reportPda ? this.mock.getReport(task.reportPda) : null;
+  }
+
+  async listReportsForTask(
+    taskAccount: PublicKey
+  ): Promise<ProgramAccount<ReportAccount>[]> {
+    return this.mock.listReports(taskAccount);
+  }
+
+  async fetchReporterStats(reporter: PublicKey): Promise<ReporterStats | null> {
+    return this.mock.getReporterStats(reporter);
+  }
+
+  async fetchDispute(taskAccount: PublicKey): Promise<Dispute | null> {
+    return this.mock.getDispute(taskAccount);
+  }
+
+  async listPendingDisputes(): Promise<ProgramAccount<Dispute>[]> {
+    return this.mock
+      .listDisputes()
+      .filter(({ account }) => "pending" in account.resolution)
+      .sort((a, b) => a.account.openedAt.cmp(b.account.openedAt));
+  }
+
+  async fetchTaskLocation(
+    taskAccount: PublicKey
+  ): Promise<TaskLocation | null> {
+    return this.mock.getTaskLocation(taskAccount);
+  }
+
+  async findOpenTasksByGeohash(prefix: string): Promise<NearbyTask[]> {
+    return this.mock.findOpenTasksByGeohash(prefix);
+  }
+
+  // ガバナンストークンのdecimalsは0として扱う
+  async fetchGovernanceTokenBalance(
+    owner: PublicKey = this.walletPublicKey
+  ): Promise<TokenBalance> {
+    return { amount: this.mock.getGovernanceTokenBalance(owner), decimals: 0 };
+  }
+
+  async fetchRewardMintConfig(
+    mint: PublicKey
+  ): Promise<RewardMintConfig | null> {
+    return this.mock.getRewardMintConfig(mint);
+  }
+
+  async listRewardMints(): Promise<RewardMintInfo[]> {
+    return this.mock.listRewardMints();
+  }
+
+  async fetchAdminActionCounter(
+    consigner: PublicKey
+  ): Promise<AdminActionCounter | null> {
+    return this.mock.getAdminActionCounter(consigner);
+  }
+
+  async fetchTaskCounter(consigner: PublicKey): Promise<TaskCounter | null> {
+    return this.mock.getTaskCounter(consigner);
+  }
+
+  async listTasks(options: ListTasksOptions = {}): Promise<TaskPage> {
+    return this.mock.listTasks(options);
+  }
+
+  onTaskEvent(
+    callback: (event: TaskEvent) => void,
+    filter: TaskEventFilter = {}
+  ): () => Promise<void> {
+    const unsubscribe = this.mock.onTaskEvent(callback, filter);
+    return async () => unsubscribe();
+  }
+}
@@ -1,8 +1,7 @@
 use anchor_lang::prelude::*;
-use anchor_lang::solana_program::{
-    program::{invoke, invoke_signed},
-    system_instruction,
-};
+use anchor_lang::solana_program::{program::invoke, system_instruction};
+use anchor_spl::associated_token::AssociatedToken;
+use anchor_spl::token::{self, CloseAccount, Mint, MintTo, Token, TokenAccount, TransferChecked};
 use std::fmt;
 
 // プログラムIDを更新
@@ -23,6 +22,14 @@ pub mod sunpath {
         patroller_governance_token_amount: u64,
     ) -> Result<()> {
         msg!("--- initializeProgram instruction started ---");
+        require!(
+            dao_fee_percentage <= 100,
+            SunpathError::InvalidFeePercentage
+        );
+        require!(
+            denial_penalty_duration >= 0,
+            SunpathError::InvalidDenialPenaltyDuration
+        );
         let config = &mut ctx.accounts.config;
         config.admin = admin;
         config.dao_treasury_address = dao_treasury_address;
@@ -32,6 +39,7 @@ pub mod sunpath {
         config.denial_penalty_duration = denial_penalty_duration;
         config.patroller_governance_token_amount = patroller_governance_token_amount;
         config.is_initialized = true;
+        config.pending_admin = None;
         msg!(
             "Program initialized! Admin: {}, Denial penalty duration: {}",
             admin,
@@ -41,21 +49,97 @@ pub mod sunpath {
         Ok(())
     }
 
+    pub fn update_config(ctx: Context<UpdateConfig>, params: UpdateConfigParams) -> Result<()> {
+        msg!("--- updateConfig instruction started ---");
+        let config = &mut ctx.accounts.config;
+        msg!("Admin: {}", ctx.accounts.admin.key());
+
+        if let Some(dao_treasury_address) = params.dao_treasury_address {
+            config.dao_treasury_address = dao_treasury_address;
+            msg!("dao_treasury_address updated: {}", dao_treasury_address);
+        }
+        if let Some(governance_token_mint) = params.governance_token_mint {
+            config.governance_token_mint = governance_token_mint;
+            msg!("governance_token_mint updated: {}", governance_token_mint);
+        }
+        if let Some(minimum_reward_amount) = params.minimum_reward_amount {
+            config.minimum_reward_amount = minimum_reward_amount;
+            msg!("minimum_reward_amount updated: {}", minimum_reward_amount);
+        }
+        if let Some(dao_fee_percentage) = params.dao_fee_percentage {
+            require!(
+                dao_fee_percentage <= 100,
+                SunpathError::InvalidFeePercentage
+            );
+            config.dao_fee_percentage = dao_fee_percentage;
+            msg!("dao_fee_percentage updated: {}", dao_fee_percentage);
+        }
+        if let Some(denial_penalty_duration) = params.denial_penalty_duration {
+            require!(
+                denial_penalty_duration >= 0,
+                SunpathError::InvalidDenialPenaltyDuration
+            );
+            config.denial_penalty_duration = denial_penalty_duration;
+            msg!("denial_penalty_duration updated: {}", denial_penalty_duration);
+        }
+        if let Some(amount) = params.patroller_governance_token_amount {
+            config.patroller_governance_token_amount = amount;
+            msg!("patroller_governance_token_amount updated: {}", amount);
+        }
+
+        msg!("--- updateConfig instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// First step of an admin transfer. Passing `None` cancels a pending transfer.
+    pub fn propose_admin_transfer(
+        ctx: Context<UpdateConfig>,
+        new_admin: Option<Pubkey>,
+    ) -> Result<()> {
+        msg!("--- proposeAdminTransfer instruction started ---");
+        let config = &mut ctx.accounts.config;
+        config.pending_admin = new_admin;
+        msg!("Pending admin: {:?}", config.pending_admin);
+        msg!("--- proposeAdminTransfer instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Second step of an admin transfer, signed by the proposed admin.
+    pub fn accept_admin_transfer(ctx: Context<AcceptAdminTransfer>) -> Result<()> {
+        msg!("--- acceptAdminTransfer instruction started ---");
+        let config = &mut ctx.accounts.config;
+        let new_admin = ctx.accounts.new_admin.key();
+
+        require!(
+            config.pending_admin == Some(new_admin),
+            SunpathError::NotPendingAdmin
+        );
+
+        msg!("Admin transferred from {} to {}", config.admin, new_admin);
+        config.admin = new_admin;
+        config.pending_admin = None;
+        msg!("--- acceptAdminTransfer instruction finished successfully ---");
+        Ok(())
+    }
+
     pub fn create_task(
         ctx: Context<CreateTask>,
         task_id: u64,
         reward_amount: u64,
         duration_seconds: i64,
+        max_reporters: u8,
     ) -> Result<()> {
         msg!("--- createTask instruction started ---");
         msg!(
-            "Task ID: {}, Reward Amount: {}, Duration: {}s",
+            "Task ID: {}, Reward Amount: {}, Duration: {}s, Max reporters: {}",
             task_id,
             reward_amount,
-            duration_seconds
+            duration_seconds,
+            max_reporters
         );
 
         let task_account = &mut ctx.accounts.task_account;
+        let task_counter = &mut ctx.accounts.task_counter;
         let consigner = &ctx.accounts.consigner;
         let system_program = &ctx.accounts.system_program;
         let config = &ctx.accounts.config;
@@ -74,6 +158,18 @@ pub mod sunpath {
         );
         msg!("Reward amount check passed.");
 
+        // task_id must be the consigner's next sequential ID so that PDAs never collide.
+        msg!(
+            "TaskCounter PDA: {}, next_task_id: {}",
+            task_counter.key(),
+            task_counter.next_task_id
+        );
+        require!(
+            task_id == task_counter.next_task_id,
+            SunpathError::TaskIdMismatch
+        );
+        msg!("Task ID check passed.");
+
         let transfer_instruction = system_instruction::transfer(
             consigner.to_account_info().key,
             task_account.to_account_info().key,
@@ -95,18 +191,28 @@ pub mod sunpath {
             task_account.key()
         );
 
-        task_account.task_id = task_id;
-        task_account.consigner_wallet = consigner.key();
-        task_account.reward_amount_locked = reward_amount;
-        task_account.creation_timestamp = clock.unix_timestamp;
-        task_account.duration_seconds = duration_seconds;
-        task_account.expiration_timestamp = clock
-            .unix_timestamp
-            .checked_add(duration_seconds)
-            .ok_or(SunpathError::TimestampOverflow)?;
-        task_account.status = TaskStatus::Open;
-        task_account.status_update_timestamp = clock.unix_timestamp;
-        task_account.is_initialized = true;
+        initialize_task(
+            task_account,
+            task_counter,
+            consigner.key(),
+            task_id,
+            reward_amount,
+            duration_seconds,
+            max_reporters,
+            None,
+            clock.unix_timestamp,
+        )?;
+
+        emit!(TaskCreated {
+            task: task_account.key(),
+            consigner: consigner.key(),
+            task_id,
+            reward_amount,
+            reward_mint: None,
+            max_reporters,
+            expiration_timestamp: task_account.expiration_timestamp,
+            timestamp: clock.unix_timestamp,
+        });
 
         msg!(
             "Task {} created and initialized. Expiration: {}",
@@ -117,13 +223,117 @@ pub mod sunpath {
         Ok(())
     }
 
+    /// Creates a task whose reward is escrowed in an SPL token vault owned by the task PDA.
+    /// Token rewards are paid to a single reporter, so `max_reporters` must be 1.
+    pub fn create_token_task(
+        ctx: Context<CreateTokenTask>,
+        task_id: u64,
+        reward_amount: u64,
+        duration_seconds: i64,
+        max_reporters: u8,
+    ) -> Result<()> {
+        msg!("--- createTokenTask instruction started ---");
+        msg!(
+            "Task ID: {}, Reward Amount: {}, Duration: {}s, Max reporters: {}",
+            task_id,
+            reward_amount,
+            duration_seconds,
+            max_reporters
+        );
+
+        let task_account = &mut ctx.accounts.task_account;
+        let task_counter = &mut ctx.accounts.task_counter;
+        let consigner = &ctx.accounts.consigner;
+        let reward_mint = &ctx.accounts.reward_mint;
+        let reward_mint_config = &ctx.accounts.reward_mint_config;
+        let clock = Clock::get()?;
+
+        msg!("Consigner: {}", consigner.key());
+        msg!("Reward mint: {}", reward_mint.key());
+        msg!(
+            "RewardMintConfig minimum_reward_amount: {}",
+            reward_mint_config.minimum_reward_amount
+        );
+
+        require!(
+            reward_amount >= reward_mint_config.minimum_reward_amount,
+            SunpathError::RewardAmountTooLow
+        );
+        msg!("Reward amount check passed.");
+        // accept_reports splits lamports only; a token task has no way to pay several reporters.
+        require!(max_reporters == 1, SunpathError::MultiReporterTokenTask);
+
+        msg!(
+            "TaskCounter PDA: {}, next_task_id: {}",
+            task_counter.key(),
+            task_counter.next_task_id
+        );
+        require!(
+            task_id == task_counter.next_task_id,
+            SunpathError::TaskIdMismatch
+        );
+        msg!("Task ID check passed.");
+
+        token::transfer_checked(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.consigner_token_account.to_account_info(),
+                    mint: reward_mint.to_account_info(),
+                    to: ctx.accounts.task_vault.to_account_info(),
+                    authority: consigner.to_account_info(),
+                },
+            ),
+            reward_amount,
+            reward_mint.decimals,
+        )?;
+        msg!(
+            "Reward {} tokens locked into vault {}.",
+            reward_amount,
+            ctx.accounts.task_vault.key()
+        );
+
+        initialize_task(
+            task_account,
+            task_counter,
+            consigner.key(),
+            task_id,
+            reward_amount,
+            duration_seconds,
+            max_reporters,
+            Some(reward_mint.key()),
+            clock.unix_timestamp,
+        )?;
+
+        emit!(TaskCreated {
+            task: task_account.key(),
+            consigner: consigner.key(),
+            task_id,
+            reward_amount,
+            reward_mint: Some(reward_mint.key()),
+            max_reporters,
+            expiration_timestamp: task_account.expiration_timestamp,
+            timestamp: clock.unix_timestamp,
+        });
+
+        msg!(
+            "Task {} created and initialized. Expiration: {}",
+            task_id,
+            task_account.expiration_timestamp
+        );
+        msg!("--- createTokenTask instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Pays the reward of a single-reporter task to its assigned reporter. Tasks created with
+    /// `max_reporters > 1` are settled with `accept_reports`.
     pub fn accept_task(ctx: Context<AcceptTask>, recipient: Pubkey) -> Result<()> {
         msg!("--- acceptTask instruction started ---");
         msg!("Recipient Arg: {}", recipient);
 
         let task_account = &mut ctx.accounts.task_account;
         let consigner_wallet_signer = &ctx.accounts.consigner_wallet;
-        let system_program = &ctx.accounts.system_program;
+        let config = &ctx.accounts.config;
         let admin_action_counter = &mut ctx.accounts.admin_action_counter;
         let clock = Clock::get()?;
 
@@ -148,6 +358,15 @@ pub mod sunpath {
         );
         msg!("AdminActionCounter PDA: {}", admin_action_counter.key());
 
+        require!(
+            task_account.reward_mint.is_none(),
+            SunpathError::TokenRewardTask
+        );
+        // Paying only the first report would leave the other reporters of the task unpaid.
+        require!(
+            task_account.max_reporters <= 1,
+            SunpathError::MultiReporterTask
+        );
         require_eq!(
             task_account.status,
             TaskStatus::Open,
@@ -161,49 +380,79 @@ pub mod sunpath {
         );
         msg!("Expiration check passed: Task is not expired.");
 
-        let amount_to_transfer = task_account.reward_amount_locked;
-        msg!("Amount to transfer: {}", amount_to_transfer);
+        // Only the reporter who submitted the report can be paid.
+        require!(
+            task_account.report_pda.is_some(),
+            SunpathError::ReportNotSubmitted
+        );
+        require!(
+            task_account.assigned_reporter == Some(recipient),
+            SunpathError::RecipientNotReporter
+        );
+        msg!("Report check passed: Recipient is the reporter.");
+
+        let reward_amount = task_account.reward_amount_locked;
+        let dao_fee = calculate_dao_fee(reward_amount, config.dao_fee_percentage)?;
+        let amount_to_transfer = reward_amount
+            .checked_sub(dao_fee)
+            .ok_or(SunpathError::FeeCalculationOverflow)?;
+        msg!(
+            "Reward: {}, DAO fee ({}%): {}, Amount to transfer: {}",
+            reward_amount,
+            config.dao_fee_percentage,
+            dao_fee,
+            amount_to_transfer
+        );
         msg!(
             "TaskAccount PDA lamports BEFORE transfer (approx): {}",
             task_account.to_account_info().lamports()
         );
 
-        let seeds = &[
-            b"task_account".as_ref(),
-            task_account.consigner_wallet.as_ref(),
-            &task_account.task_id.to_le_bytes(),
-            &[ctx.bumps.task_account],
-        ];
-        let signer_seeds = &[&seeds[..]];
-        msg!("Signer seeds prepared for invoke_signed.");
-
-        let transfer_instruction = system_instruction::transfer(
-            task_account.to_account_info().key,
-            &recipient,
+        let task_info = task_account.to_account_info();
+        transfer_from_task(
+            &task_info,
+            &ctx.accounts.recipient_account.to_account_info(),
             amount_to_transfer,
-        );
+        )?;
         msg!(
-            "Transfer instruction created. From: {}, To: {}, Amount: {}",
+            "Reward {} lamports transferred from {} to {}.",
+            amount_to_transfer,
             task_account.key(),
-            recipient,
-            amount_to_transfer
+            recipient
         );
 
-        invoke_signed(
-            &transfer_instruction,
-            &[
-                task_account.to_account_info(),
-                ctx.accounts.recipient_account.to_account_info(),
-                system_program.to_account_info(),
-            ],
-            signer_seeds,
-        )?;
-        msg!("invoke_signed for reward transfer successful.");
+        if dao_fee > 0 {
+            transfer_from_task(
+                &task_info,
+                &ctx.accounts.dao_treasury.to_account_info(),
+                dao_fee,
+            )?;
+            msg!(
+                "DAO fee {} lamports transferred to treasury {}.",
+                dao_fee,
+                ctx.accounts.dao_treasury.key()
+            );
+        }
 
         task_account.status = TaskStatus::Approved;
         task_account.status_update_timestamp = clock.unix_timestamp;
         task_account.assigned_reporter = Some(recipient);
+        ctx.accounts.report_account.approved = true;
         msg!("Task status updated to Approved.");
+        emit!(TaskAccepted {
+            task: task_account.key(),
+            consigner: consigner_wallet_signer.key(),
+            reporters: vec![recipient],
+            reporter_amount: amount_to_transfer,
+            dao_fee,
+            timestamp: clock.unix_timestamp,
+        });
+
+        record_approval(
+            &mut ctx.accounts.reporter_stats,
+            amount_to_transfer,
+            clock.unix_timestamp,
+        )?;
 
         admin_action_counter.admin = consigner_wallet_signer.key();
         admin_action_counter.accept_count = admin_action_counter
@@ -219,280 +468,2217 @@ pub mod sunpath {
         Ok(())
     }
 
-    pub fn reject_task(ctx: Context<RejectTask>) -> Result<()> {
-        msg!("--- rejectTask instruction started ---");
+    /// Token counterpart of `accept_task`: pays the reporter and the DAO from the task vault,
+    /// then closes the empty vault to the consigner.
+    pub fn accept_token_task(ctx: Context<AcceptTokenTask>, recipient: Pubkey) -> Result<()> {
+        msg!("--- acceptTokenTask instruction started ---");
+        msg!("Recipient Arg: {}", recipient);
+
         let task_account = &mut ctx.accounts.task_account;
         let consigner_wallet_signer = &ctx.accounts.consigner_wallet;
+        let config = &ctx.accounts.config;
         let admin_action_counter = &mut ctx.accounts.admin_action_counter;
         let clock = Clock::get()?;
 
         msg!("TaskAccount PDA: {}", task_account.key());
-        msg!(
-            "TaskAccount's original consigner_wallet: {}",
-            task_account.consigner_wallet
-        );
-        msg!(
-            "Signer (ctx.accounts.consigner_wallet): {}",
-            consigner_wallet_signer.key()
-        );
         msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!("Task vault: {}", ctx.accounts.task_vault.key());
         msg!(
-            "TaskAccount expiration_timestamp: {}",
-            task_account.expiration_timestamp
+            "Recipient token account: {}",
+            ctx.accounts.recipient_token_account.key()
         );
-        msg!("Current clock unix_timestamp: {}", clock.unix_timestamp);
-        msg!("AdminActionCounter PDA: {}", admin_action_counter.key());
 
         require_eq!(
             task_account.status,
             TaskStatus::Open,
             SunpathError::TaskNotOpen
         );
-        msg!("Status check passed: Task is Open.");
-
         require!(
             clock.unix_timestamp <= task_account.expiration_timestamp,
             SunpathError::TaskExpired
         );
-        msg!("Expiration check passed: Task is not expired.");
+        require!(
+            task_account.report_pda.is_some(),
+            SunpathError::ReportNotSubmitted
+        );
+        require!(
+            task_account.assigned_reporter == Some(recipient),
+            SunpathError::RecipientNotReporter
+        );
+        require_keys_eq!(
+            ctx.accounts.recipient_token_account.owner,
+            recipient,
+            SunpathError::InvalidRewardTokenAccount
+        );
+        msg!("Task checks passed.");
 
-        task_account.status = TaskStatus::Rejected;
-        task_account.status_update_timestamp = clock.unix_timestamp;
+        let reward_amount = task_account.reward_amount_locked;
+        let dao_fee = calculate_dao_fee(reward_amount, config.dao_fee_percentage)?;
+        let amount_to_transfer = reward_amount
+            .checked_sub(dao_fee)
+            .ok_or(SunpathError::FeeCalculationOverflow)?;
         msg!(
-            "Task {} status updated to Rejected. Timestamp: {}",
-            task_account.task_id,
-            task_account.status_update_timestamp
+            "Reward: {}, DAO fee ({}%): {}, Amount to transfer: {}",
+            reward_amount,
+            config.dao_fee_percentage,
+            dao_fee,
+            amount_to_transfer
         );
 
+        let consigner_key = task_account.consigner_wallet;
+        let task_id_bytes = task_account.task_id.to_le_bytes();
+        let seeds = &[
+            b"task_account".as_ref(),
+            consigner_key.as_ref(),
+            &task_id_bytes,
+            &[ctx.bumps.task_account],
+        ];
+        let signer_seeds = &[&seeds[..]];
+        let token_program = ctx.accounts.token_program.to_account_info();
+        let decimals = ctx.accounts.reward_mint.decimals;
+
+        token::transfer_checked(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                TransferChecked {
+                    from: ctx.accounts.task_vault.to_account_info(),
+                    mint: ctx.accounts.reward_mint.to_account_info(),
+                    to: ctx.accounts.recipient_token_account.to_account_info(),
+                    authority: task_account.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            amount_to_transfer,
+            decimals,
+        )?;
+        msg!("Reward {} tokens transferred to {}.", amount_to_transfer, recipient);
+
+        if dao_fee > 0 {
+            token::transfer_checked(
+                CpiContext::new_with_signer(
+                    token_program.clone(),
+                    TransferChecked {
+                        from: ctx.accounts.task_vault.to_account_info(),
+                        mint: ctx.accounts.reward_mint.to_account_info(),
+                        to: ctx.accounts.dao_treasury_token_account.to_account_info(),
+                        authority: task_account.to_account_info(),
+                    },
+                    signer_seeds,
+                ),
+                dao_fee,
+                decimals,
+            )?;
+            msg!("DAO fee {} tokens transferred to the treasury.", dao_fee);
+        }
+
+        token::close_account(CpiContext::new_with_signer(
+            token_program,
+            CloseAccount {
+                account: ctx.accounts.task_vault.to_account_info(),
+                destination: consigner_wallet_signer.to_account_info(),
+                authority: task_account.to_account_info(),
+            },
+            signer_seeds,
+        ))?;
+        msg!("Task vault closed.");
+
+        task_account.status = TaskStatus::Approved;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        ctx.accounts.report_account.approved = true;
+        msg!("Task status updated to Approved.");
+        emit!(TaskAccepted {
+            task: task_account.key(),
+            consigner: consigner_wallet_signer.key(),
+            reporters: vec![recipient],
+            reporter_amount: amount_to_transfer,
+            dao_fee,
+            timestamp: clock.unix_timestamp,
+        });
+
+        // total_earned is denominated in lamports, so token rewards only count as an approval.
+        record_approval(&mut ctx.accounts.reporter_stats, 0, clock.unix_timestamp)?;
+
         admin_action_counter.admin = consigner_wallet_signer.key();
-        admin_action_counter.reject_count = admin_action_counter
-            .reject_count
+        admin_action_counter.accept_count = admin_action_counter
+            .accept_count
             .checked_add(1)
             .ok_or(SunpathError::CounterOverflow)?;
-        msg!(
-            "Consigner reject_count for {}: {}",
-            consigner_wallet_signer.key(),
-            admin_action_counter.reject_count
-        );
-        msg!("--- rejectTask instruction finished successfully ---");
+        msg!("--- acceptTokenTask instruction finished successfully ---");
         Ok(())
     }
 
-    pub fn reclaim_task_funds(ctx: Context<ReclaimTaskFunds>) -> Result<()> {
-        msg!("--- reclaimTaskFunds instruction started ---");
+    /// Approves several reports of a SOL-reward task at once and splits the reward between
+    /// their reporters by `weights` (equal weights give equal shares).
+    /// `remaining_accounts` holds one `(report_account, reporter, reporter_stats)` triple per weight,
+    /// all writable.
+    /// Rounding dust goes to the last reporter so the escrow is fully paid out.
+    pub fn accept_reports<'info>(
+        ctx: Context<'_, '_, 'info, 'info, AcceptReports<'info>>,
+        weights: Vec<u64>,
+    ) -> Result<()> {
+        msg!("--- acceptReports instruction started ---");
+        msg!("Weights: {:?}", weights);
 
+        let task_key = ctx.accounts.task_account.key();
+        let task_info = ctx.accounts.task_account.to_account_info();
         let task_account = &mut ctx.accounts.task_account;
-        let consigner = &ctx.accounts.consigner_wallet;
         let config = &ctx.accounts.config;
-        let system_program = &ctx.accounts.system_program;
+        let admin_action_counter = &mut ctx.accounts.admin_action_counter;
         let clock = Clock::get()?;
 
-        msg!("TaskAccount PDA: {}", task_account.key());
-        msg!(
-            "TaskAccount consigner_wallet (from data): {}",
-            task_account.consigner_wallet
-        );
-        msg!(
-            "Signer (ctx.accounts.consigner_wallet - should match above): {}",
-            consigner.key()
-        );
+        msg!("TaskAccount PDA: {}", task_key);
         msg!("TaskAccount current status: {:?}", task_account.status);
-        msg!(
-            "TaskAccount reward_amount_locked: {}",
-            task_account.reward_amount_locked
+
+        require!(
+            task_account.reward_mint.is_none(),
+            SunpathError::TokenRewardTask
         );
-        msg!(
-            "TaskAccount status_update_timestamp: {}",
-            task_account.status_update_timestamp
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
         );
-        msg!(
-            "TaskAccount expiration_timestamp: {}",
-            task_account.expiration_timestamp
+        require!(
+            clock.unix_timestamp <= task_account.expiration_timestamp,
+            SunpathError::TaskExpired
         );
-        msg!(
-            "Config denial_penalty_duration: {}",
-            config.denial_penalty_duration
+        require!(
+            !weights.is_empty()
+                && weights.len() <= task_account.report_count as usize
+                && ctx.remaining_accounts.len() == weights.len() * 3,
+            SunpathError::InvalidRewardSplit
         );
-        msg!("Current clock unix_timestamp: {}", clock.unix_timestamp);
+        msg!("Task checks passed.");
 
-        let amount_to_reclaim = task_account.reward_amount_locked;
-        msg!("Amount to reclaim: {}", amount_to_reclaim);
-        if amount_to_reclaim == 0 {
-            msg!("No funds to reclaim (reward_amount_locked is 0).");
-        }
-        let mut can_reclaim = false;
+        let reward_amount = task_account.reward_amount_locked;
+        let dao_fee = calculate_dao_fee(reward_amount, config.dao_fee_percentage)?;
+        let distributable = reward_amount
+            .checked_sub(dao_fee)
+            .ok_or(SunpathError::FeeCalculationOverflow)?;
+        let shares = split_reward(distributable, &weights)?;
+        msg!(
+            "Reward: {}, DAO fee ({}%): {}, Shares: {:?}",
+            reward_amount,
+            config.dao_fee_percentage,
+            dao_fee,
+            shares
+        );
 
-        if task_account.status == TaskStatus::Rejected {
-            msg!("Task status is Rejected. Checking denial penalty duration.");
-            let reclaim_allowed_at = task_account
-                .status_update_timestamp
-                .checked_add(config.denial_penalty_duration)
-                .ok_or(SunpathError::TimestampOverflow)?;
-            msg!(
-                "Reclaim allowed at timestamp: {}. Current timestamp: {}",
-                reclaim_allowed_at,
-                clock.unix_timestamp
+        let mut paid_reporters: Vec<Pubkey> = Vec::with_capacity(weights.len());
+        for (accounts, share) in ctx.remaining_accounts.chunks(3).zip(shares.iter()) {
+            let report_info = &accounts[0];
+            let reporter_info = &accounts[1];
+            let stats_info = &accounts[2];
+            let mut report = Account::<ReportAccount>::try_from(report_info)
+                .map_err(|_| error!(SunpathError::InvalidReportAccount))?;
+            require_keys_eq!(report.task, task_key, SunpathError::InvalidReportAccount);
+            require!(!report.rejected, SunpathError::ReportRejected);
+            require_keys_eq!(
+                report.reporter,
+                reporter_info.key(),
+                SunpathError::RecipientNotReporter
             );
-            if clock.unix_timestamp >= reclaim_allowed_at {
-                can_reclaim = true;
-                msg!("Denial penalty duration passed. Funds can be reclaimed.");
-            } else {
-                msg!("Denial lockup period is still active. Cannot reclaim yet.");
-                return err!(SunpathError::DenialLockupActive);
-            }
-        } else if task_account.status == TaskStatus::Open
-            && clock.unix_timestamp > task_account.expiration_timestamp
-        {
-            can_reclaim = true;
-            msg!("Task is Open and expired. Funds can be reclaimed.");
-        } else {
-            msg!(
-                "Task status is not eligible for reclaim. Current status: {:?}",
-                task_account.status
+            require!(
+                !paid_reporters.contains(&report.reporter),
+                SunpathError::DuplicateReporter
             );
-        }
+            paid_reporters.push(report.reporter);
 
-        require!(can_reclaim, SunpathError::CannotReclaimFunds);
-        msg!("Reclaim condition met.");
+            transfer_from_task(&task_info, reporter_info, *share)?;
+            report.reward_amount = *share;
+            report.approved = true;
+            report.exit(&crate::ID)?;
 
-        let seeds = &[
-            b"task_account".as_ref(),
-            task_account.consigner_wallet.as_ref(),
-            &task_account.task_id.to_le_bytes(),
-            &[ctx.bumps.task_account],
-        ];
-        let signer_seeds = &[&seeds[..]];
-        msg!("Signer seeds prepared for invoke_signed.");
+            let mut reporter_stats = Account::<ReporterStats>::try_from(stats_info)
+                .map_err(|_| error!(SunpathError::InvalidReporterStats))?;
+            require_keys_eq!(
+                reporter_stats.reporter,
+                report.reporter,
+                SunpathError::InvalidReporterStats
+            );
+            record_approval(&mut reporter_stats, *share, clock.unix_timestamp)?;
+            reporter_stats.exit(&crate::ID)?;
+            msg!("Paid {} lamports to reporter {}.", share, report.reporter);
+        }
 
-        let transfer_instruction = system_instruction::transfer(
-            task_account.to_account_info().key,
-            consigner.to_account_info().key,
-            amount_to_reclaim,
+        if dao_fee > 0 {
+            transfer_from_task(
+                &task_info,
+                &ctx.accounts.dao_treasury.to_account_info(),
+                dao_fee,
+            )?;
+            msg!("DAO fee {} lamports transferred to the treasury.", dao_fee);
+        }
+
+        task_account.status = TaskStatus::Approved;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        msg!("Task status updated to Approved.");
+        emit!(TaskAccepted {
+            task: task_key,
+            consigner: ctx.accounts.consigner_wallet.key(),
+            reporters: paid_reporters,
+            reporter_amount: distributable,
+            dao_fee,
+            timestamp: clock.unix_timestamp,
+        });
+
+        admin_action_counter.admin = ctx.accounts.consigner_wallet.key();
+        admin_action_counter.accept_count = admin_action_counter
+            .accept_count
+            .checked_add(1)
+            .ok_or(SunpathError::CounterOverflow)?;
+        msg!("--- acceptReports instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Attaches the road segment to an Open task: a geohash (1-12 characters) for prefix
+    /// search and the SHA-256 hash of the segment's GeoJSON LineString.
+    pub fn set_task_location(
+        ctx: Context<SetTaskLocation>,
+        geohash: String,
+        road_geometry_hash: [u8; 32],
+    ) -> Result<()> {
+        msg!("--- setTaskLocation instruction started ---");
+        let task_account = &ctx.accounts.task_account;
+        let task_location = &mut ctx.accounts.task_location;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("TaskLocation PDA: {}", task_location.key());
+        msg!("Geohash: {}", geohash);
+
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
+        );
+        require!(is_valid_geohash(&geohash), SunpathError::InvalidGeohash);
+
+        let mut geohash_bytes = [0u8; TaskLocation::MAX_GEOHASH_LEN];
+        geohash_bytes[..geohash.len()].copy_from_slice(geohash.as_bytes());
+
+        task_location.task = task_account.key();
+        task_location.geohash = geohash_bytes;
+        task_location.road_geometry_hash = road_geometry_hash;
+        msg!("--- setTaskLocation instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Rejects an Open task and records the rejection against every reporter who submitted a report.
+    /// `remaining_accounts` holds one `(report_account, reporter_stats)` pair per report that
+    /// `reject_report` has not already rejected, the stats writable.
+    pub fn reject_task<'info>(ctx: Context<'_, '_, 'info, 'info, RejectTask<'info>>) -> Result<()> {
+        msg!("--- rejectTask instruction started ---");
+        let task_key = ctx.accounts.task_account.key();
+        let task_account = &mut ctx.accounts.task_account;
+        let consigner_wallet_signer = &ctx.accounts.consigner_wallet;
+        let admin_action_counter = &mut ctx.accounts.admin_action_counter;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!(
+            "TaskAccount's original consigner_wallet: {}",
+            task_account.consigner_wallet
         );
         msg!(
-            "Transfer instruction created. From: {}, To: {}, Amount: {}",
-            task_account.key(),
-            consigner.key(),
-            amount_to_reclaim
+            "Signer (ctx.accounts.consigner_wallet): {}",
+            consigner_wallet_signer.key()
+        );
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!(
+            "TaskAccount expiration_timestamp: {}",
+            task_account.expiration_timestamp
         );
+        msg!("Current clock unix_timestamp: {}", clock.unix_timestamp);
+        msg!("AdminActionCounter PDA: {}", admin_action_counter.key());
 
-        invoke_signed(
-            &transfer_instruction,
-            &[
-                task_account.to_account_info(),
-                consigner.to_account_info(),
-                system_program.to_account_info(),
-            ],
-            signer_seeds,
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
+        );
+        msg!("Status check passed: Task is Open.");
+
+        require!(
+            clock.unix_timestamp <= task_account.expiration_timestamp,
+            SunpathError::TaskExpired
+        );
+        msg!("Expiration check passed: Task is not expired.");
+
+        require!(
+            ctx.remaining_accounts.len() == task_account.report_count as usize * 2,
+            SunpathError::InvalidReportAccount
+        );
+
+        task_account.status = TaskStatus::Rejected;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        msg!(
+            "Task {} status updated to Rejected. Timestamp: {}",
+            task_account.task_id,
+            task_account.status_update_timestamp
+        );
+        emit!(TaskRejected {
+            task: task_account.key(),
+            consigner: consigner_wallet_signer.key(),
+            reporter: task_account.assigned_reporter,
+            timestamp: clock.unix_timestamp,
+        });
+
+        let mut rejected_reporters: Vec<Pubkey> =
+            Vec::with_capacity(task_account.report_count as usize);
+        for accounts in ctx.remaining_accounts.chunks(2) {
+            let report = Account::<ReportAccount>::try_from(&accounts[0])
+                .map_err(|_| error!(SunpathError::InvalidReportAccount))?;
+            require_keys_eq!(report.task, task_key, SunpathError::InvalidReportAccount);
+            require!(!report.rejected, SunpathError::ReportRejected);
+            require!(
+                !rejected_reporters.contains(&report.reporter),
+                SunpathError::DuplicateReporter
+            );
+            rejected_reporters.push(report.reporter);
+
+            let mut reporter_stats = Account::<ReporterStats>::try_from(&accounts[1])
+                .map_err(|_| error!(SunpathError::InvalidReporterStats))?;
+            require_keys_eq!(
+                reporter_stats.reporter,
+                report.reporter,
+                SunpathError::InvalidReporterStats
+            );
+            record_rejection(&mut reporter_stats, clock.unix_timestamp)?;
+            reporter_stats.exit(&crate::ID)?;
+            msg!("Rejection recorded for reporter {}.", report.reporter);
+        }
+
+        admin_action_counter.admin = consigner_wallet_signer.key();
+        admin_action_counter.reject_count = admin_action_counter
+            .reject_count
+            .checked_add(1)
+            .ok_or(SunpathError::CounterOverflow)?;
+        msg!(
+            "Consigner reject_count for {}: {}",
+            consigner_wallet_signer.key(),
+            admin_action_counter.reject_count
+        );
+        msg!("--- rejectTask instruction finished successfully ---");
+        Ok(())
+    }
+
+    pub fn submit_report(
+        ctx: Context<SubmitReport>,
+        video_content_hash: [u8; 32],
+        metadata_uri: String,
+    ) -> Result<()> {
+        msg!("--- submitReport instruction started ---");
+
+        let task_account = &mut ctx.accounts.task_account;
+        let report_account = &mut ctx.accounts.report_account;
+        let reporter = &ctx.accounts.reporter;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("ReportAccount PDA: {}", report_account.key());
+        msg!("Reporter: {}", reporter.key());
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!("Metadata URI: {}", metadata_uri);
+
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
+        );
+        msg!("Status check passed: Task is Open.");
+
+        require!(
+            clock.unix_timestamp <= task_account.expiration_timestamp,
+            SunpathError::TaskExpired
+        );
+        msg!("Expiration check passed: Task is not expired.");
+
+        // Multi-reporter tasks accept up to `max_reporters` reports (one per reporter, enforced by the PDA).
+        require!(
+            task_account.report_count < task_account.max_reporters.max(1),
+            SunpathError::ReportAlreadySubmitted
+        );
+        require!(
+            metadata_uri.len() <= ReportAccount::MAX_METADATA_URI_LEN,
+            SunpathError::MetadataUriTooLong
+        );
+        msg!("Report checks passed.");
+
+        report_account.task = task_account.key();
+        report_account.reporter = reporter.key();
+        report_account.video_content_hash = video_content_hash;
+        report_account.metadata_uri = metadata_uri;
+        report_account.submitted_at = clock.unix_timestamp;
+        report_account.reward_amount = 0;
+        report_account.approved = false;
+        report_account.governance_reward_claimed = false;
+        report_account.rejected = false;
+
+        let reporter_stats = &mut ctx.accounts.reporter_stats;
+        reporter_stats.reporter = reporter.key();
+        reporter_stats.last_activity = clock.unix_timestamp;
+
+        // The first report stays linked from the task for single-recipient `accept_task`.
+        if task_account.report_pda.is_none() {
+            task_account.report_pda = Some(report_account.key());
+            task_account.assigned_reporter = Some(reporter.key());
+        }
+        task_account.report_count = task_account
+            .report_count
+            .checked_add(1)
+            .ok_or(SunpathError::CounterOverflow)?;
+
+        msg!(
+            "Report submitted for task {} at {}",
+            task_account.task_id,
+            report_account.submitted_at
+        );
+        msg!("--- submitReport instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Rejects a single report of an Open task, e.g. a junk report that took the only slot,
+    /// without rejecting the task or starting the denial lockup. The slot reopens for other
+    /// reporters; the rejected reporter cannot submit again because their report account stays.
+    pub fn reject_report(ctx: Context<RejectReport>) -> Result<()> {
+        msg!("--- rejectReport instruction started ---");
+        let task_account = &mut ctx.accounts.task_account;
+        let report_account = &mut ctx.accounts.report_account;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("ReportAccount PDA: {}", report_account.key());
+        msg!("Reporter: {}", report_account.reporter);
+        msg!("TaskAccount current status: {:?}", task_account.status);
+
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
+        );
+        require!(
+            clock.unix_timestamp <= task_account.expiration_timestamp,
+            SunpathError::TaskExpired
+        );
+        require!(!report_account.rejected, SunpathError::ReportRejected);
+        msg!("Report checks passed.");
+
+        report_account.rejected = true;
+        task_account.report_count = task_account
+            .report_count
+            .checked_sub(1)
+            .ok_or(SunpathError::CounterOverflow)?;
+        // The next report to be submitted becomes the one `accept_task` pays.
+        if task_account.report_pda == Some(report_account.key()) {
+            task_account.report_pda = None;
+            task_account.assigned_reporter = None;
+        }
+        msg!(
+            "Report rejected. Task {} report_count: {}",
+            task_account.task_id,
+            task_account.report_count
+        );
+
+        record_rejection(&mut ctx.accounts.reporter_stats, clock.unix_timestamp)?;
+        msg!("--- rejectReport instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Mints the governance reward for an approved report. The claim is recorded on the report
+    /// account, so it stays claimable after the consigner has closed the task.
+    pub fn claim_governance_reward(ctx: Context<ClaimGovernanceReward>) -> Result<()> {
+        msg!("--- claimGovernanceReward instruction started ---");
+
+        let report_account = &mut ctx.accounts.report_account;
+        let reporter = &ctx.accounts.reporter;
+        let config = &ctx.accounts.config;
+
+        msg!("ReportAccount PDA: {}", report_account.key());
+        msg!("Task: {}", report_account.task);
+        msg!("Reporter: {}", reporter.key());
+        msg!(
+            "Reporter token account: {}",
+            ctx.accounts.reporter_token_account.key()
+        );
+
+        require!(report_account.approved, SunpathError::TaskNotApproved);
+        require!(
+            !report_account.governance_reward_claimed,
+            SunpathError::GovernanceRewardAlreadyClaimed
+        );
+        let amount = config.patroller_governance_token_amount;
+        require!(amount > 0, SunpathError::NoGovernanceReward);
+        msg!("Claim checks passed. Amount: {}", amount);
+
+        let seeds = &[
+            b"governance_mint_authority".as_ref(),
+            &[ctx.bumps.mint_authority],
+        ];
+        let signer_seeds = &[&seeds[..]];
+        token::mint_to(
+            CpiContext::new_with_signer(
+                ctx.accounts.token_program.to_account_info(),
+                MintTo {
+                    mint: ctx.accounts.governance_token_mint.to_account_info(),
+                    to: ctx.accounts.reporter_token_account.to_account_info(),
+                    authority: ctx.accounts.mint_authority.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            amount,
         )?;
-        msg!("invoke_signed for fund reclamation successful.");
+        msg!("Minted {} governance tokens to the reporter.", amount);
 
-        task_account.status = TaskStatus::Reclaimed;
+        report_account.governance_reward_claimed = true;
+        msg!("--- claimGovernanceReward instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Lets the reporter of a Rejected single-reporter task contest the rejection. The dispute
+    /// window is the denial lockup (`denial_penalty_duration`). The arbiter then has another
+    /// `denial_penalty_duration` to resolve it; until then the consigner cannot reclaim.
+    pub fn open_dispute(ctx: Context<OpenDispute>, reason_uri: String) -> Result<()> {
+        msg!("--- openDispute instruction started ---");
+        let task_account = &mut ctx.accounts.task_account;
+        let dispute = &mut ctx.accounts.dispute;
+        let reporter = &ctx.accounts.reporter;
+        let config = &ctx.accounts.config;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("Dispute PDA: {}", dispute.key());
+        msg!("Reporter: {}", reporter.key());
+        msg!("TaskAccount current status: {:?}", task_account.status);
+
+        // A dispute pays out the whole reward, which only has one rightful recipient when the
+        // task takes a single reporter.
+        require!(
+            task_account.max_reporters <= 1,
+            SunpathError::MultiReporterDispute
+        );
+        require_eq!(
+            task_account.status,
+            TaskStatus::Rejected,
+            SunpathError::TaskNotRejected
+        );
+        require!(
+            task_account.assigned_reporter == Some(reporter.key()),
+            SunpathError::NotTaskReporter
+        );
+        require!(
+            !ctx.accounts.report_account.rejected,
+            SunpathError::ReportRejected
+        );
+        let window_closes_at = task_account
+            .status_update_timestamp
+            .checked_add(config.denial_penalty_duration)
+            .ok_or(SunpathError::TimestampOverflow)?;
+        msg!(
+            "Dispute window closes at: {}. Current timestamp: {}",
+            window_closes_at,
+            clock.unix_timestamp
+        );
+        require!(
+            clock.unix_timestamp < window_closes_at,
+            SunpathError::DisputeWindowClosed
+        );
+        require!(
+            reason_uri.len() <= ReportAccount::MAX_METADATA_URI_LEN,
+            SunpathError::MetadataUriTooLong
+        );
+        msg!("Dispute checks passed.");
+
+        dispute.task = task_account.key();
+        dispute.reporter = reporter.key();
+        dispute.reason_uri = reason_uri;
+        dispute.opened_at = clock.unix_timestamp;
+        dispute.resolution = DisputeResolution::Pending;
+        dispute.resolved_at = 0;
+
+        task_account.status = TaskStatus::Disputed;
         task_account.status_update_timestamp = clock.unix_timestamp;
-        task_account.reward_amount_locked = 0;
-        msg!("Task status updated to Reclaimed. Reward amount locked set to 0.");
-        msg!("--- reclaimTaskFunds instruction finished successfully ---");
+        msg!("Task {} status updated to Disputed.", task_account.task_id);
+        msg!("--- openDispute instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Arbiter (the config admin, which can be a DAO governance PDA) settles a dispute by paying
+    /// the reporter as if the task had been accepted, or by returning the reward to the consigner.
+    /// Must happen before the resolution deadline (`opened_at + denial_penalty_duration`).
+    pub fn resolve_dispute(ctx: Context<ResolveDispute>, pay_reporter: bool) -> Result<()> {
+        msg!("--- resolveDispute instruction started ---");
+        let task_info = ctx.accounts.task_account.to_account_info();
+        let task_account = &mut ctx.accounts.task_account;
+        let dispute = &mut ctx.accounts.dispute;
+        let config = &ctx.accounts.config;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("Arbiter: {}", ctx.accounts.admin.key());
+        msg!("Pay reporter: {}", pay_reporter);
+
+        require!(
+            task_account.reward_mint.is_none(),
+            SunpathError::TokenRewardTask
+        );
+        require_eq!(
+            task_account.status,
+            TaskStatus::Disputed,
+            SunpathError::TaskNotDisputed
+        );
+        require_dispute_resolvable(
+            dispute,
+            config.denial_penalty_duration,
+            clock.unix_timestamp,
+        )?;
+
+        let reward_amount = task_account.reward_amount_locked;
+        if pay_reporter {
+            let dao_fee = calculate_dao_fee(reward_amount, config.dao_fee_percentage)?;
+            let amount_to_transfer = reward_amount
+                .checked_sub(dao_fee)
+                .ok_or(SunpathError::FeeCalculationOverflow)?;
+            transfer_from_task(
+                &task_info,
+                &ctx.accounts.reporter_account.to_account_info(),
+                amount_to_transfer,
+            )?;
+            if dao_fee > 0 {
+                transfer_from_task(
+                    &task_info,
+                    &ctx.accounts.dao_treasury.to_account_info(),
+                    dao_fee,
+                )?;
+            }
+            msg!(
+                "Reporter paid {} lamports, DAO fee {} lamports.",
+                amount_to_transfer,
+                dao_fee
+            );
+            task_account.status = TaskStatus::Approved;
+            dispute.resolution = DisputeResolution::ReporterPaid;
+            ctx.accounts.report_account.approved = true;
+
+            // The rejection was overturned: move it from the rejected to the approved count.
+            let reporter_stats = &mut ctx.accounts.reporter_stats;
+            reporter_stats.rejected_count = reporter_stats.rejected_count.saturating_sub(1);
+            record_approval(reporter_stats, amount_to_transfer, clock.unix_timestamp)?;
+            emit!(TaskAccepted {
+                task: task_account.key(),
+                consigner: task_account.consigner_wallet,
+                reporters: vec![dispute.reporter],
+                reporter_amount: amount_to_transfer,
+                dao_fee,
+                timestamp: clock.unix_timestamp,
+            });
+        } else {
+            transfer_from_task(
+                &task_info,
+                &ctx.accounts.consigner_wallet.to_account_info(),
+                reward_amount,
+            )?;
+            msg!("{} lamports released to the consigner.", reward_amount);
+            task_account.status = TaskStatus::Reclaimed;
+            task_account.reward_amount_locked = 0;
+            dispute.resolution = DisputeResolution::ConsignerReleased;
+            emit!(FundsReclaimed {
+                task: task_account.key(),
+                consigner: task_account.consigner_wallet,
+                amount: reward_amount,
+                timestamp: clock.unix_timestamp,
+            });
+        }
+
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        dispute.resolved_at = clock.unix_timestamp;
+        msg!("Dispute resolved: {:?}", dispute.resolution);
+        msg!("--- resolveDispute instruction finished successfully ---");
         Ok(())
     }
+
+    /// Token counterpart of `resolve_dispute`: pays the reporter and the DAO fee from the task
+    /// vault, or returns the vault balance to the consigner, and closes the vault either way.
+    pub fn resolve_token_dispute(
+        ctx: Context<ResolveTokenDispute>,
+        pay_reporter: bool,
+    ) -> Result<()> {
+        msg!("--- resolveTokenDispute instruction started ---");
+        let task_account = &mut ctx.accounts.task_account;
+        let dispute = &mut ctx.accounts.dispute;
+        let config = &ctx.accounts.config;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("Arbiter: {}", ctx.accounts.admin.key());
+        msg!("Task vault: {}", ctx.accounts.task_vault.key());
+        msg!("Pay reporter: {}", pay_reporter);
+
+        require_eq!(
+            task_account.status,
+            TaskStatus::Disputed,
+            SunpathError::TaskNotDisputed
+        );
+        require_dispute_resolvable(
+            dispute,
+            config.denial_penalty_duration,
+            clock.unix_timestamp,
+        )?;
+
+        let consigner_key = task_account.consigner_wallet;
+        let task_id_bytes = task_account.task_id.to_le_bytes();
+        let seeds = &[
+            b"task_account".as_ref(),
+            consigner_key.as_ref(),
+            &task_id_bytes,
+            &[ctx.bumps.task_account],
+        ];
+        let signer_seeds = &[&seeds[..]];
+        let token_program = ctx.accounts.token_program.to_account_info();
+        let decimals = ctx.accounts.reward_mint.decimals;
+        let vault_amount = ctx.accounts.task_vault.amount;
+
+        if pay_reporter {
+            let dao_fee = calculate_dao_fee(vault_amount, config.dao_fee_percentage)?;
+            let amount_to_transfer = vault_amount
+                .checked_sub(dao_fee)
+                .ok_or(SunpathError::FeeCalculationOverflow)?;
+            token::transfer_checked(
+                CpiContext::new_with_signer(
+                    token_program.clone(),
+                    TransferChecked {
+                        from: ctx.accounts.task_vault.to_account_info(),
+                        mint: ctx.accounts.reward_mint.to_account_info(),
+                        to: ctx.accounts.reporter_token_account.to_account_info(),
+                        authority: task_account.to_account_info(),
+                    },
+                    signer_seeds,
+                ),
+                amount_to_transfer,
+                decimals,
+            )?;
+            if dao_fee > 0 {
+                token::transfer_checked(
+                    CpiContext::new_with_signer(
+                        token_program.clone(),
+                        TransferChecked {
+                            from: ctx.accounts.task_vault.to_account_info(),
+                            mint: ctx.accounts.reward_mint.to_account_info(),
+                            to: ctx.accounts.dao_treasury_token_account.to_account_info(),
+                            authority: task_account.to_account_info(),
+                        },
+                        signer_seeds,
+                    ),
+                    dao_fee,
+                    decimals,
+                )?;
+            }
+            msg!(
+                "Reporter paid {} tokens, DAO fee {} tokens.",
+                amount_to_transfer,
+                dao_fee
+            );
+            task_account.status = TaskStatus::Approved;
+            dispute.resolution = DisputeResolution::ReporterPaid;
+            ctx.accounts.report_account.approved = true;
+
+            // The rejection was overturned. total_earned is denominated in lamports, so the
+            // token reward only counts as an approval.
+            let reporter_stats = &mut ctx.accounts.reporter_stats;
+            reporter_stats.rejected_count = reporter_stats.rejected_count.saturating_sub(1);
+            record_approval(reporter_stats, 0, clock.unix_timestamp)?;
+            emit!(TaskAccepted {
+                task: task_account.key(),
+                consigner: consigner_key,
+                reporters: vec![dispute.reporter],
+                reporter_amount: amount_to_transfer,
+                dao_fee,
+                timestamp: clock.unix_timestamp,
+            });
+        } else {
+            if vault_amount > 0 {
+                token::transfer_checked(
+                    CpiContext::new_with_signer(
+                        token_program.clone(),
+                        TransferChecked {
+                            from: ctx.accounts.task_vault.to_account_info(),
+                            mint: ctx.accounts.reward_mint.to_account_info(),
+                            to: ctx.accounts.consigner_token_account.to_account_info(),
+                            authority: task_account.to_account_info(),
+                        },
+                        signer_seeds,
+                    ),
+                    vault_amount,
+                    decimals,
+                )?;
+            }
+            msg!("{} tokens released to the consigner.", vault_amount);
+            task_account.status = TaskStatus::Reclaimed;
+            task_account.reward_amount_locked = 0;
+            dispute.resolution = DisputeResolution::ConsignerReleased;
+            emit!(FundsReclaimed {
+                task: task_account.key(),
+                consigner: consigner_key,
+                amount: vault_amount,
+                timestamp: clock.unix_timestamp,
+            });
+        }
+
+        token::close_account(CpiContext::new_with_signer(
+            token_program,
+            CloseAccount {
+                account: ctx.accounts.task_vault.to_account_info(),
+                destination: ctx.accounts.consigner_wallet.to_account_info(),
+                authority: task_account.to_account_info(),
+            },
+            signer_seeds,
+        ))?;
+        msg!("Task vault closed.");
+
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        dispute.resolved_at = clock.unix_timestamp;
+        msg!("Dispute resolved: {:?}", dispute.resolution);
+        msg!("--- resolveTokenDispute instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Closes a settled (Approved or Reclaimed) task and returns its rent to the consigner.
+    /// Governance rewards are tracked on the report accounts and can still be claimed afterwards.
+    /// Pass `task_location` when the task has one so that it is closed too; a resolved dispute is
+    /// closed separately by its reporter with `close_dispute`.
+    pub fn close_task(ctx: Context<CloseTask>) -> Result<()> {
+        msg!("--- closeTask instruction started ---");
+        let task_account = &ctx.accounts.task_account;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!(
+            "Lamports returned to consigner: {}",
+            task_account.to_account_info().lamports()
+        );
+        if let Some(task_location) = &ctx.accounts.task_location {
+            msg!(
+                "TaskLocation PDA closed: {}. Lamports returned: {}",
+                task_location.key(),
+                task_location.to_account_info().lamports()
+            );
+        }
+
+        require!(
+            task_account.status == TaskStatus::Approved
+                || task_account.status == TaskStatus::Reclaimed,
+            SunpathError::TaskNotClosable
+        );
+
+        msg!("--- closeTask instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Closes a resolved dispute, or one left unresolved past its resolution deadline, and
+    /// returns its rent to the reporter who opened it. Works whether or not the task itself has
+    /// been closed.
+    pub fn close_dispute(ctx: Context<CloseDispute>) -> Result<()> {
+        msg!("--- closeDispute instruction started ---");
+        let dispute = &ctx.accounts.dispute;
+        let clock = Clock::get()?;
+
+        msg!("Dispute PDA: {}", dispute.key());
+        msg!("Dispute resolution: {:?}", dispute.resolution);
+        msg!(
+            "Lamports returned to reporter: {}",
+            dispute.to_account_info().lamports()
+        );
+
+        if dispute.resolution == DisputeResolution::Pending {
+            let resolve_by = dispute
+                .opened_at
+                .checked_add(ctx.accounts.config.denial_penalty_duration)
+                .ok_or(SunpathError::TimestampOverflow)?;
+            require!(
+                clock.unix_timestamp >= resolve_by,
+                SunpathError::DisputePending
+            );
+        }
+
+        msg!("--- closeDispute instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Marks an overdue Open task as Expired. Anyone can call this after `expiration_timestamp`.
+    pub fn expire_task(ctx: Context<ExpireTask>) -> Result<()> {
+        msg!("--- expireTask instruction started ---");
+        let task_account = &mut ctx.accounts.task_account;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("Cranker: {}", ctx.accounts.cranker.key());
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!(
+            "TaskAccount expiration_timestamp: {}",
+            task_account.expiration_timestamp
+        );
+        msg!("Current clock unix_timestamp: {}", clock.unix_timestamp);
+
+        require_eq!(
+            task_account.status,
+            TaskStatus::Open,
+            SunpathError::TaskNotOpen
+        );
+        require!(
+            clock.unix_timestamp > task_account.expiration_timestamp,
+            SunpathError::TaskNotExpired
+        );
+
+        task_account.status = TaskStatus::Expired;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        msg!("Task {} status updated to Expired.", task_account.task_id);
+        msg!("--- expireTask instruction finished successfully ---");
+        Ok(())
+    }
+
+    pub fn reclaim_task_funds(ctx: Context<ReclaimTaskFunds>) -> Result<()> {
+        msg!("--- reclaimTaskFunds instruction started ---");
+
+        let task_account = &mut ctx.accounts.task_account;
+        let consigner = &ctx.accounts.consigner_wallet;
+        let config = &ctx.accounts.config;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!(
+            "TaskAccount consigner_wallet (from data): {}",
+            task_account.consigner_wallet
+        );
+        msg!(
+            "Signer (ctx.accounts.consigner_wallet - should match above): {}",
+            consigner.key()
+        );
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!(
+            "TaskAccount reward_amount_locked: {}",
+            task_account.reward_amount_locked
+        );
+        msg!(
+            "TaskAccount status_update_timestamp: {}",
+            task_account.status_update_timestamp
+        );
+        msg!(
+            "TaskAccount expiration_timestamp: {}",
+            task_account.expiration_timestamp
+        );
+        msg!(
+            "Config denial_penalty_duration: {}",
+            config.denial_penalty_duration
+        );
+        msg!("Current clock unix_timestamp: {}", clock.unix_timestamp);
+
+        require!(
+            task_account.reward_mint.is_none(),
+            SunpathError::TokenRewardTask
+        );
+
+        let amount_to_reclaim = task_account.reward_amount_locked;
+        msg!("Amount to reclaim: {}", amount_to_reclaim);
+        if amount_to_reclaim == 0 {
+            msg!("No funds to reclaim (reward_amount_locked is 0).");
+        }
+
+        require_reclaimable(
+            task_account,
+            config.denial_penalty_duration,
+            clock.unix_timestamp,
+        )?;
+        msg!("Reclaim condition met.");
+
+        transfer_from_task(
+            &task_account.to_account_info(),
+            &consigner.to_account_info(),
+            amount_to_reclaim,
+        )?;
+        msg!(
+            "Reclaimed {} lamports from {} to {}.",
+            amount_to_reclaim,
+            task_account.key(),
+            consigner.key()
+        );
+
+        task_account.status = TaskStatus::Reclaimed;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        task_account.reward_amount_locked = 0;
+        msg!("Task status updated to Reclaimed. Reward amount locked set to 0.");
+        emit!(FundsReclaimed {
+            task: task_account.key(),
+            consigner: consigner.key(),
+            amount: amount_to_reclaim,
+            timestamp: clock.unix_timestamp,
+        });
+        msg!("--- reclaimTaskFunds instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Token counterpart of `reclaim_task_funds`: returns the vault balance to the consigner
+    /// and closes the vault.
+    pub fn reclaim_token_task_funds(ctx: Context<ReclaimTokenTaskFunds>) -> Result<()> {
+        msg!("--- reclaimTokenTaskFunds instruction started ---");
+
+        let task_account = &mut ctx.accounts.task_account;
+        let consigner = &ctx.accounts.consigner_wallet;
+        let config = &ctx.accounts.config;
+        let clock = Clock::get()?;
+
+        msg!("TaskAccount PDA: {}", task_account.key());
+        msg!("TaskAccount current status: {:?}", task_account.status);
+        msg!("Task vault: {}", ctx.accounts.task_vault.key());
+
+        let amount_to_reclaim = ctx.accounts.task_vault.amount;
+        msg!("Amount to reclaim: {}", amount_to_reclaim);
+
+        require_reclaimable(
+            task_account,
+            config.denial_penalty_duration,
+            clock.unix_timestamp,
+        )?;
+        msg!("Reclaim condition met.");
+
+        let consigner_key = task_account.consigner_wallet;
+        let task_id_bytes = task_account.task_id.to_le_bytes();
+        let seeds = &[
+            b"task_account".as_ref(),
+            consigner_key.as_ref(),
+            &task_id_bytes,
+            &[ctx.bumps.task_account],
+        ];
+        let signer_seeds = &[&seeds[..]];
+        let token_program = ctx.accounts.token_program.to_account_info();
+
+        if amount_to_reclaim > 0 {
+            token::transfer_checked(
+                CpiContext::new_with_signer(
+                    token_program.clone(),
+                    TransferChecked {
+                        from: ctx.accounts.task_vault.to_account_info(),
+                        mint: ctx.accounts.reward_mint.to_account_info(),
+                        to: ctx.accounts.consigner_token_account.to_account_info(),
+                        authority: task_account.to_account_info(),
+                    },
+                    signer_seeds,
+                ),
+                amount_to_reclaim,
+                ctx.accounts.reward_mint.decimals,
+            )?;
+            msg!("{} tokens returned to the consigner.", amount_to_reclaim);
+        }
+
+        token::close_account(CpiContext::new_with_signer(
+            token_program,
+            CloseAccount {
+                account: ctx.accounts.task_vault.to_account_info(),
+                destination: consigner.to_account_info(),
+                authority: task_account.to_account_info(),
+            },
+            signer_seeds,
+        ))?;
+        msg!("Task vault closed.");
+
+        task_account.status = TaskStatus::Reclaimed;
+        task_account.status_update_timestamp = clock.unix_timestamp;
+        task_account.reward_amount_locked = 0;
+        emit!(FundsReclaimed {
+            task: task_account.key(),
+            consigner: consigner.key(),
+            amount: amount_to_reclaim,
+            timestamp: clock.unix_timestamp,
+        });
+        msg!("--- reclaimTokenTaskFunds instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Adds or updates an SPL token accepted for task rewards, with its own minimum reward.
+    pub fn set_reward_mint(
+        ctx: Context<SetRewardMint>,
+        minimum_reward_amount: u64,
+        is_enabled: bool,
+    ) -> Result<()> {
+        msg!("--- setRewardMint instruction started ---");
+        let reward_mint_config = &mut ctx.accounts.reward_mint_config;
+        reward_mint_config.mint = ctx.accounts.mint.key();
+        reward_mint_config.minimum_reward_amount = minimum_reward_amount;
+        reward_mint_config.is_enabled = is_enabled;
+        msg!(
+            "Reward mint {}: minimum_reward_amount {}, enabled {}",
+            reward_mint_config.mint,
+            minimum_reward_amount,
+            is_enabled
+        );
+        msg!("--- setRewardMint instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Grows a `config_v2` account created before `pending_admin` was added to the current
+    /// layout. Only the stored admin can migrate it; `pending_admin` starts as `None`.
+    pub fn migrate_config(ctx: Context<MigrateConfig>) -> Result<()> {
+        msg!("--- migrateConfig instruction started ---");
+        let config_info = ctx.accounts.config.to_account_info();
+        let legacy: LegacyProgramConfig = read_legacy_account(
+            &config_info,
+            ProgramConfig::DISCRIMINATOR,
+            LegacyProgramConfig::LEN,
+        )?;
+        require_keys_eq!(
+            legacy.admin,
+            ctx.accounts.admin.key(),
+            SunpathError::NotAdmin
+        );
+
+        let migrated = ProgramConfig {
+            admin: legacy.admin,
+            dao_treasury_address: legacy.dao_treasury_address,
+            governance_token_mint: legacy.governance_token_mint,
+            minimum_reward_amount: legacy.minimum_reward_amount,
+            dao_fee_percentage: legacy.dao_fee_percentage,
+            denial_penalty_duration: legacy.denial_penalty_duration,
+            patroller_governance_token_amount: legacy.patroller_governance_token_amount,
+            is_initialized: legacy.is_initialized,
+            pending_admin: None,
+        };
+        rewrite_migrated_account(
+            &config_info,
+            &migrated,
+            8 + ProgramConfig::LEN,
+            &ctx.accounts.admin,
+            &ctx.accounts.system_program,
+        )?;
+        msg!("--- migrateConfig instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Grows a task created before `reward_mint`, `max_reporters` and `report_count` were
+    /// added. The task becomes a single-reporter SOL task with `report_count` taken from
+    /// `report_pda`. Anyone can pay for the migration; the extra rent goes to the consigner
+    /// when the task is closed.
+    pub fn migrate_task(ctx: Context<MigrateTask>) -> Result<()> {
+        msg!("--- migrateTask instruction started ---");
+        let task_info = ctx.accounts.task_account.to_account_info();
+        let legacy: LegacyTaskAccount = read_legacy_account(
+            &task_info,
+            TaskAccount::DISCRIMINATOR,
+            LegacyTaskAccount::LEN,
+        )?;
+        msg!("TaskAccount PDA: {}", task_info.key());
+        msg!("TaskAccount current status: {:?}", legacy.status);
+
+        let migrated = TaskAccount {
+            task_id: legacy.task_id,
+            consigner_wallet: legacy.consigner_wallet,
+            reward_amount_locked: legacy.reward_amount_locked,
+            creation_timestamp: legacy.creation_timestamp,
+            duration_seconds: legacy.duration_seconds,
+            expiration_timestamp: legacy.expiration_timestamp,
+            status: legacy.status,
+            status_update_timestamp: legacy.status_update_timestamp,
+            assigned_reporter: legacy.assigned_reporter,
+            report_pda: legacy.report_pda,
+            is_initialized: legacy.is_initialized,
+            reward_mint: None,
+            max_reporters: 1,
+            report_count: u8::from(legacy.report_pda.is_some()),
+        };
+        rewrite_migrated_account(
+            &task_info,
+            &migrated,
+            8 + TaskAccount::LEN,
+            &ctx.accounts.payer,
+            &ctx.accounts.system_program,
+        )?;
+        msg!("--- migrateTask instruction finished successfully ---");
+        Ok(())
+    }
+
+    /// Grows a report submitted before `rejected` was added. Anyone can pay for the migration.
+    pub fn migrate_report(ctx: Context<MigrateReport>) -> Result<()> {
+        msg!("--- migrateReport instruction started ---");
+        let report_info = ctx.accounts.report_account.to_account_info();
+        let legacy: LegacyReportAccount = read_legacy_account(
+            &report_info,
+            ReportAccount::DISCRIMINATOR,
+            LegacyReportAccount::LEN,
+        )?;
+        msg!("ReportAccount PDA: {}", report_info.key());
+
+        let migrated = ReportAccount {
+            task: legacy.task,
+            reporter: legacy.reporter,
+            video_content_hash: legacy.video_content_hash,
+            metadata_uri: legacy.metadata_uri,
+            submitted_at: legacy.submitted_at,
+            reward_amount: legacy.reward_amount,
+            approved: legacy.approved,
+            governance_reward_claimed: legacy.governance_reward_claimed,
+            rejected: false,
+        };
+        rewrite_migrated_account(
+            &report_info,
+            &migrated,
+            8 + ReportAccount::LEN,
+            &ctx.accounts.payer,
+            &ctx.accounts.system_program,
+        )?;
+        msg!("--- migrateReport instruction finished successfully ---");
+        Ok(())
+    }
+}
+
+/// Reads an account still stored with an earlier layout of the same type. Accounts already
+/// at the current size fail with `AccountAlreadyMigrated`.
+fn read_legacy_account<T: AnchorDeserialize>(
+    account: &AccountInfo,
+    discriminator: &[u8],
+    legacy_len: usize,
+) -> Result<T> {
+    let data = account.try_borrow_data()?;
+    require!(
+        data.len() >= 8 && &data[..8] == discriminator,
+        anchor_lang::error::ErrorCode::AccountDiscriminatorMismatch
+    );
+    msg!(
+        "Account data length: {}. Legacy length: {}",
+        data.len(),
+        8 + legacy_len
+    );
+    require_eq!(
+        data.len(),
+        8 + legacy_len,
+        SunpathError::AccountAlreadyMigrated
+    );
+    T::deserialize(&mut &data[8..])
+        .map_err(|_| error!(anchor_lang::error::ErrorCode::AccountDidNotDeserialize))
+}
+
+/// Grows `account` to `new_len` and rewrites it with the current layout. The data is zeroed
+/// first because Borsh leaves stale bytes behind an `Option` that went from `Some` to `None`.
+/// The payer covers only the rent of the added bytes, so lamports held by the account (such
+/// as a locked reward) are left untouched.
+fn rewrite_migrated_account<'info, T: AccountSerialize>(
+    account: &AccountInfo<'info>,
+    migrated: &T,
+    new_len: usize,
+    payer: &Signer<'info>,
+    system_program: &Program<'info, System>,
+) -> Result<()> {
+    let rent = Rent::get()?;
+    let top_up = rent
+        .minimum_balance(new_len)
+        .saturating_sub(rent.minimum_balance(account.data_len()));
+    msg!("Growing account to {} bytes, rent top-up {} lamports.", new_len, top_up);
+    if top_up > 0 {
+        invoke(
+            &system_instruction::transfer(payer.key, account.key, top_up),
+            &[
+                payer.to_account_info(),
+                account.clone(),
+                system_program.to_account_info(),
+            ],
+        )?;
+    }
+    account.realloc(new_len, true)?;
+
+    let mut data = account.try_borrow_mut_data()?;
+    data.fill(0);
+    let mut writer: &mut [u8] = &mut data[..];
+    migrated.try_serialize(&mut writer)
+}
+
+/// Geohashes use the base32 alphabet without `a`, `i`, `l` and `o`.
+fn is_valid_geohash(geohash: &str) -> bool {
+    const ALPHABET: &[u8] = b"0123456789bcdefghjkmnpqrstuvwxyz";
+    !geohash.is_empty()
+        && geohash.len() <= TaskLocation::MAX_GEOHASH_LEN
+        && geohash.bytes().all(|c| ALPHABET.contains(&c))
+}
+
+/// Fills in a freshly created task and advances the consigner's task counter.
+#[allow(clippy::too_many_arguments)]
+fn initialize_task(
+    task_account: &mut TaskAccount,
+    task_counter: &mut TaskCounter,
+    consigner: Pubkey,
+    task_id: u64,
+    reward_amount: u64,
+    duration_seconds: i64,
+    max_reporters: u8,
+    reward_mint: Option<Pubkey>,
+    now: i64,
+) -> Result<()> {
+    require!(
+        (1..=TaskAccount::MAX_REPORTERS).contains(&max_reporters),
+        SunpathError::InvalidMaxReporters
+    );
+    task_account.task_id = task_id;
+    task_account.consigner_wallet = consigner;
+    task_account.reward_amount_locked = reward_amount;
+    task_account.creation_timestamp = now;
+    task_account.duration_seconds = duration_seconds;
+    task_account.expiration_timestamp = now
+        .checked_add(duration_seconds)
+        .ok_or(SunpathError::TimestampOverflow)?;
+    task_account.status = TaskStatus::Open;
+    task_account.status_update_timestamp = now;
+    task_account.is_initialized = true;
+    task_account.reward_mint = reward_mint;
+    task_account.max_reporters = max_reporters;
+    task_account.report_count = 0;
+
+    task_counter.consigner = consigner;
+    task_counter.next_task_id = task_counter
+        .next_task_id
+        .checked_add(1)
+        .ok_or(SunpathError::CounterOverflow)?;
+    Ok(())
+}
+
+/// Succeeds when the consigner may take back the locked reward at `now`:
+/// rejected tasks after the denial penalty, and open-but-overdue or expired tasks.
+fn require_reclaimable(
+    task_account: &TaskAccount,
+    denial_penalty_duration: i64,
+    now: i64,
+) -> Result<()> {
+    let mut can_reclaim = false;
+
+    if task_account.status == TaskStatus::Rejected {
+        msg!("Task status is Rejected. Checking denial penalty duration.");
+        let reclaim_allowed_at = task_account
+            .status_update_timestamp
+            .checked_add(denial_penalty_duration)
+            .ok_or(SunpathError::TimestampOverflow)?;
+        msg!(
+            "Reclaim allowed at timestamp: {}. Current timestamp: {}",
+            reclaim_allowed_at,
+            now
+        );
+        if now >= reclaim_allowed_at {
+            can_reclaim = true;
+            msg!("Denial penalty duration passed. Funds can be reclaimed.");
+        } else {
+            msg!("Denial lockup period is still active. Cannot reclaim yet.");
+            return err!(SunpathError::DenialLockupActive);
+        }
+    } else if task_account.status == TaskStatus::Open && now > task_account.expiration_timestamp {
+        can_reclaim = true;
+        msg!("Task is Open and expired. Funds can be reclaimed.");
+    } else if task_account.status == TaskStatus::Expired {
+        can_reclaim = true;
+        msg!("Task has been marked Expired. Funds can be reclaimed.");
+    } else if task_account.status == TaskStatus::Disputed {
+        // status_update_timestamp is the time the dispute was opened; once the arbiter has let
+        // the resolution deadline pass, the rejection stands.
+        let resolve_by = task_account
+            .status_update_timestamp
+            .checked_add(denial_penalty_duration)
+            .ok_or(SunpathError::TimestampOverflow)?;
+        msg!(
+            "Task is Disputed. Resolution deadline: {}. Current timestamp: {}",
+            resolve_by,
+            now
+        );
+        can_reclaim = now >= resolve_by;
+    } else {
+        msg!(
+            "Task status is not eligible for reclaim. Current status: {:?}",
+            task_account.status
+        );
+    }
+
+    require!(can_reclaim, SunpathError::CannotReclaimFunds);
+    Ok(())
+}
+
+/// Succeeds while the arbiter may still resolve the dispute, i.e. before
+/// `opened_at + denial_penalty_duration`. Afterwards the consigner can reclaim the reward.
+fn require_dispute_resolvable(
+    dispute: &Dispute,
+    denial_penalty_duration: i64,
+    now: i64,
+) -> Result<()> {
+    let resolve_by = dispute
+        .opened_at
+        .checked_add(denial_penalty_duration)
+        .ok_or(SunpathError::TimestampOverflow)?;
+    msg!(
+        "Dispute resolution deadline: {}. Current timestamp: {}",
+        resolve_by,
+        now
+    );
+    require!(now < resolve_by, SunpathError::DisputeDeadlinePassed);
+    Ok(())
+}
+
+/// DAO fee taken from a reward: `reward_amount * dao_fee_percentage / 100`, rounded down.
+pub fn calculate_dao_fee(reward_amount: u64, dao_fee_percentage: u8) -> Result<u64> {
+    require!(
+        dao_fee_percentage <= 100,
+        SunpathError::InvalidFeePercentage
+    );
+    let fee = (reward_amount as u128)
+        .checked_mul(dao_fee_percentage as u128)
+        .ok_or(SunpathError::FeeCalculationOverflow)?
+        / 100;
+    u64::try_from(fee).map_err(|_| error!(SunpathError::FeeCalculationOverflow))
+}
+
+/// Splits `amount` proportionally to `weights`, rounding down; the last share takes the remainder
+/// so the shares always add up to `amount`.
+pub fn split_reward(amount: u64, weights: &[u64]) -> Result<Vec<u64>> {
+    let total_weight = weights
+        .iter()
+        .try_fold(0u128, |sum, weight| sum.checked_add(*weight as u128))
+        .ok_or(SunpathError::FeeCalculationOverflow)?;
+    require!(
+        !weights.is_empty() && weights.iter().all(|weight| *weight > 0),
+        SunpathError::InvalidRewardSplit
+    );
+
+    let mut shares = Vec::with_capacity(weights.len());
+    let mut allocated: u64 = 0;
+    for weight in &weights[..weights.len() - 1] {
+        let share = u64::try_from((amount as u128) * (*weight as u128) / total_weight)
+            .map_err(|_| error!(SunpathError::FeeCalculationOverflow))?;
+        allocated = allocated
+            .checked_add(share)
+            .ok_or(SunpathError::FeeCalculationOverflow)?;
+        shares.push(share);
+    }
+    shares.push(
+        amount
+            .checked_sub(allocated)
+            .ok_or(SunpathError::FeeCalculationOverflow)?,
+    );
+    Ok(shares)
+}
+
+/// Counts an approved report and the lamports it earned on the reporter's stats.
+fn record_approval(reporter_stats: &mut ReporterStats, earned: u64, now: i64) -> Result<()> {
+    reporter_stats.approved_count = reporter_stats
+        .approved_count
+        .checked_add(1)
+        .ok_or(SunpathError::CounterOverflow)?;
+    reporter_stats.total_earned = reporter_stats
+        .total_earned
+        .checked_add(earned)
+        .ok_or(SunpathError::CounterOverflow)?;
+    reporter_stats.last_activity = now;
+    msg!(
+        "Reporter {} approved_count: {}, total_earned: {}",
+        reporter_stats.reporter,
+        reporter_stats.approved_count,
+        reporter_stats.total_earned
+    );
+    Ok(())
+}
+
+fn record_rejection(reporter_stats: &mut ReporterStats, now: i64) -> Result<()> {
+    reporter_stats.rejected_count = reporter_stats
+        .rejected_count
+        .checked_add(1)
+        .ok_or(SunpathError::CounterOverflow)?;
+    reporter_stats.last_activity = now;
+    msg!(
+        "Reporter {} rejected_count: {}",
+        reporter_stats.reporter,
+        reporter_stats.rejected_count
+    );
+    Ok(())
+}
+
+/// Moves lamports out of the program-owned task PDA. The system program cannot transfer from an
+/// account that carries data, so the balances are adjusted directly.
+fn transfer_from_task(task_info: &AccountInfo, to: &AccountInfo, amount: u64) -> Result<()> {
+    **task_info.try_borrow_mut_lamports()? = task_info
+        .lamports()
+        .checked_sub(amount)
+        .ok_or(ProgramError::InsufficientFunds)?;
+    **to.try_borrow_mut_lamports()? = to
+        .lamports()
+        .checked_add(amount)
+        .ok_or(SunpathError::FeeCalculationOverflow)?;
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct InitializeProgram<'info> {
+    #[account(
+        init,
+        payer = admin,
+        space = 8 + ProgramConfig::LEN,
+        seeds = [b"config_v2"],
+        bump
+    )]
+    pub config: Account<'info, ProgramConfig>,
+    #[account(mut)]
+    pub admin: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateConfig<'info> {
+    #[account(
+        mut,
+        seeds = [b"config_v2"],
+        bump,
+        has_one = admin @ SunpathError::NotAdmin,
+    )]
+    pub config: Account<'info, ProgramConfig>,
+    pub admin: Signer<'info>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptAdminTransfer<'info> {
+    #[account(mut, seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    pub new_admin: Signer<'info>,
+}
+
+/// Fields left as `None` keep their current value.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug, Default)]
+pub struct UpdateConfigParams {
+    pub dao_treasury_address: Option<Pubkey>,
+    pub governance_token_mint: Option<Pubkey>,
+    pub minimum_reward_amount: Option<u64>,
+    pub dao_fee_percentage: Option<u8>,
+    pub denial_penalty_duration: Option<i64>,
+    pub patroller_governance_token_amount: Option<u64>,
+}
+
+#[derive(Accounts)]
+#[instruction(task_id: u64)]
+pub struct CreateTask<'info> {
+    #[account(
+        init,
+        payer = consigner,
+        space = 8 + TaskAccount::LEN,
+        seeds = [b"task_account", consigner.key().as_ref(), &task_id.to_le_bytes()],
+        bump
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        init_if_needed,
+        payer = consigner,
+        space = 8 + TaskCounter::LEN,
+        seeds = [b"task_counter", consigner.key().as_ref()],
+        bump
+    )]
+    pub task_counter: Account<'info, TaskCounter>,
+    #[account(mut)]
+    pub consigner: Signer<'info>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(task_id: u64)]
+pub struct CreateTokenTask<'info> {
+    #[account(
+        init,
+        payer = consigner,
+        space = 8 + TaskAccount::LEN,
+        seeds = [b"task_account", consigner.key().as_ref(), &task_id.to_le_bytes()],
+        bump
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        init_if_needed,
+        payer = consigner,
+        space = 8 + TaskCounter::LEN,
+        seeds = [b"task_counter", consigner.key().as_ref()],
+        bump
+    )]
+    pub task_counter: Account<'info, TaskCounter>,
+    #[account(mut)]
+    pub consigner: Signer<'info>,
+    pub reward_mint: Account<'info, Mint>,
+    #[account(
+        seeds = [b"reward_mint", reward_mint.key().as_ref()],
+        bump,
+        constraint = reward_mint_config.is_enabled @ SunpathError::UnsupportedRewardMint,
+    )]
+    pub reward_mint_config: Account<'info, RewardMintConfig>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        token::authority = consigner,
+    )]
+    pub consigner_token_account: Account<'info, TokenAccount>,
+    #[account(
+        init,
+        payer = consigner,
+        seeds = [b"task_vault", task_account.key().as_ref()],
+        bump,
+        token::mint = reward_mint,
+        token::authority = task_account,
+    )]
+    pub task_vault: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(recipient: Pubkey)]
+pub struct AcceptTask<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(mut)]
+    pub consigner_wallet: Signer<'info>,
+    /// CHECK: recipient account, SOL transferred here. Must be the `recipient` argument, which
+    /// the handler checks against the task's assigned reporter.
+    #[account(
+        mut,
+        address = recipient @ SunpathError::RecipientNotReporter
+    )]
+    pub recipient_account: AccountInfo<'info>,
+    /// Report of the recipient; accepting it entitles them to the governance reward.
+    #[account(
+        mut,
+        seeds = [b"report", task_account.key().as_ref(), recipient.as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    /// CHECK: DAO treasury, receives the DAO fee. Must match config.dao_treasury_address.
+    #[account(
+        mut,
+        address = config.dao_treasury_address @ SunpathError::InvalidDaoTreasury
+    )]
+    pub dao_treasury: AccountInfo<'info>,
+    #[account(
+        init_if_needed,
+        payer = consigner_wallet,
+        space = 8 + AdminActionCounter::LEN,
+        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
+        bump
+    )]
+    pub admin_action_counter: Account<'info, AdminActionCounter>,
+    #[account(
+        mut,
+        seeds = [b"reporter_stats", recipient_account.key().as_ref()],
+        bump,
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptReports<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(mut)]
+    pub consigner_wallet: Signer<'info>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    /// CHECK: DAO treasury, receives the DAO fee. Must match config.dao_treasury_address.
+    #[account(
+        mut,
+        address = config.dao_treasury_address @ SunpathError::InvalidDaoTreasury
+    )]
+    pub dao_treasury: AccountInfo<'info>,
+    #[account(
+        init_if_needed,
+        payer = consigner_wallet,
+        space = 8 + AdminActionCounter::LEN,
+        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
+        bump
+    )]
+    pub admin_action_counter: Account<'info, AdminActionCounter>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(recipient: Pubkey)]
+pub struct AcceptTokenTask<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+        constraint = task_account.reward_mint == Some(reward_mint.key()) @ SunpathError::RewardMintMismatch,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(mut)]
+    pub consigner_wallet: Signer<'info>,
+    pub reward_mint: Account<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"task_vault", task_account.key().as_ref()],
+        bump,
+    )]
+    pub task_vault: Account<'info, TokenAccount>,
+    #[account(mut, token::mint = reward_mint)]
+    pub recipient_token_account: Account<'info, TokenAccount>,
+    /// Report of the recipient; accepting it entitles them to the governance reward.
+    #[account(
+        mut,
+        seeds = [b"report", task_account.key().as_ref(), recipient.as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        constraint = dao_treasury_token_account.owner == config.dao_treasury_address @ SunpathError::InvalidDaoTreasury,
+    )]
+    pub dao_treasury_token_account: Account<'info, TokenAccount>,
+    #[account(
+        init_if_needed,
+        payer = consigner_wallet,
+        space = 8 + AdminActionCounter::LEN,
+        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
+        bump
+    )]
+    pub admin_action_counter: Account<'info, AdminActionCounter>,
+    #[account(
+        mut,
+        seeds = [b"reporter_stats", recipient.as_ref()],
+        bump,
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+    pub token_program: Program<'info, Token>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct SetTaskLocation<'info> {
+    #[account(
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        init_if_needed,
+        payer = consigner_wallet,
+        space = 8 + TaskLocation::LEN,
+        seeds = [b"task_location", task_account.key().as_ref()],
+        bump
+    )]
+    pub task_location: Account<'info, TaskLocation>,
+    #[account(mut)]
+    pub consigner_wallet: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct RejectTask<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(mut)]
+    pub consigner_wallet: Signer<'info>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    #[account(
+        init_if_needed,
+        payer = consigner_wallet,
+        space = 8 + AdminActionCounter::LEN,
+        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
+        bump
+    )]
+    pub admin_action_counter: Account<'info, AdminActionCounter>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct SubmitReport<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        init,
+        payer = reporter,
+        space = 8 + ReportAccount::LEN,
+        seeds = [b"report", task_account.key().as_ref(), reporter.key().as_ref()],
+        bump
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(
+        init_if_needed,
+        payer = reporter,
+        space = 8 + ReporterStats::LEN,
+        seeds = [b"reporter_stats", reporter.key().as_ref()],
+        bump
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+    #[account(mut)]
+    pub reporter: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct RejectReport<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    pub consigner_wallet: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"report", task_account.key().as_ref(), report_account.reporter.as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(
+        mut,
+        seeds = [b"reporter_stats", report_account.reporter.as_ref()],
+        bump,
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+}
+
+#[derive(Accounts)]
+pub struct ClaimGovernanceReward<'info> {
+    #[account(
+        mut,
+        seeds = [b"report", report_account.task.as_ref(), report_account.reporter.as_ref()],
+        bump,
+        has_one = reporter @ SunpathError::NotTaskReporter,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(mut)]
+    pub reporter: Signer<'info>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    #[account(
+        mut,
+        address = config.governance_token_mint @ SunpathError::InvalidGovernanceTokenMint
+    )]
+    pub governance_token_mint: Account<'info, Mint>,
+    /// CHECK: PDA set as the mint authority of the governance token mint.
+    #[account(seeds = [b"governance_mint_authority"], bump)]
+    pub mint_authority: UncheckedAccount<'info>,
+    #[account(
+        mut,
+        associated_token::mint = governance_token_mint,
+        associated_token::authority = reporter,
+    )]
+    pub reporter_token_account: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+}
+
+#[derive(Accounts)]
+pub struct OpenDispute<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        init,
+        payer = reporter,
+        space = 8 + Dispute::LEN,
+        seeds = [b"dispute", task_account.key().as_ref()],
+        bump
+    )]
+    pub dispute: Account<'info, Dispute>,
+    #[account(mut)]
+    pub reporter: Signer<'info>,
+    #[account(
+        seeds = [b"report", task_account.key().as_ref(), reporter.key().as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(seeds = [b"config_v2"], bump)]
+    pub config: Account<'info, ProgramConfig>,
+    pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
-pub struct InitializeProgram<'info> {
+pub struct ResolveDispute<'info> {
+    #[account(
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+    )]
+    pub task_account: Account<'info, TaskAccount>,
+    #[account(
+        mut,
+        seeds = [b"dispute", task_account.key().as_ref()],
+        bump,
+    )]
+    pub dispute: Account<'info, Dispute>,
     #[account(
-        init,
-        payer = admin,
-        space = 8 + ProgramConfig::LEN,
         seeds = [b"config_v2"],
-        bump
+        bump,
+        has_one = admin @ SunpathError::NotAdmin,
     )]
     pub config: Account<'info, ProgramConfig>,
-    #[account(mut)]
     pub admin: Signer<'info>,
-    pub system_program: Program<'info, System>,
+    /// CHECK: reporter who opened the dispute, receives the reward when the dispute is upheld.
+    #[account(
+        mut,
+        address = dispute.reporter @ SunpathError::RecipientNotReporter
+    )]
+    pub reporter_account: AccountInfo<'info>,
+    #[account(
+        mut,
+        seeds = [b"report", task_account.key().as_ref(), reporter_account.key().as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(
+        mut,
+        seeds = [b"reporter_stats", reporter_account.key().as_ref()],
+        bump,
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+    /// CHECK: consigner of the task, receives the reward when the rejection is upheld.
+    #[account(
+        mut,
+        address = task_account.consigner_wallet @ SunpathError::NotConsigner
+    )]
+    pub consigner_wallet: AccountInfo<'info>,
+    /// CHECK: DAO treasury, receives the DAO fee. Must match config.dao_treasury_address.
+    #[account(
+        mut,
+        address = config.dao_treasury_address @ SunpathError::InvalidDaoTreasury
+    )]
+    pub dao_treasury: AccountInfo<'info>,
 }
 
 #[derive(Accounts)]
-#[instruction(task_id: u64)]
-pub struct CreateTask<'info> {
+pub struct ResolveTokenDispute<'info> {
     #[account(
-        init,
-        payer = consigner,
-        space = 8 + TaskAccount::LEN,
-        seeds = [b"task_account", consigner.key().as_ref(), &task_id.to_le_bytes()],
-        bump
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
+        constraint = task_account.reward_mint == Some(reward_mint.key()) @ SunpathError::RewardMintMismatch,
     )]
     pub task_account: Account<'info, TaskAccount>,
-    #[account(mut)]
-    pub consigner: Signer<'info>,
-    #[account(seeds = [b"config_v2"], bump)]
+    #[account(
+        mut,
+        seeds = [b"dispute", task_account.key().as_ref()],
+        bump,
+    )]
+    pub dispute: Account<'info, Dispute>,
+    #[account(
+        seeds = [b"config_v2"],
+        bump,
+        has_one = admin @ SunpathError::NotAdmin,
+    )]
     pub config: Account<'info, ProgramConfig>,
-    pub system_program: Program<'info, System>,
+    pub admin: Signer<'info>,
+    #[account(
+        mut,
+        seeds = [b"report", task_account.key().as_ref(), dispute.reporter.as_ref()],
+        bump,
+    )]
+    pub report_account: Account<'info, ReportAccount>,
+    #[account(
+        mut,
+        seeds = [b"reporter_stats", dispute.reporter.as_ref()],
+        bump,
+    )]
+    pub reporter_stats: Account<'info, ReporterStats>,
+    /// CHECK: consigner of the task, receives the vault rent.
+    #[account(
+        mut,
+        address = task_account.consigner_wallet @ SunpathError::NotConsigner
+    )]
+    pub consigner_wallet: AccountInfo<'info>,
+    pub reward_mint: Account<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"task_vault", task_account.key().as_ref()],
+        bump,
+    )]
+    pub task_vault: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        constraint = reporter_token_account.owner == dispute.reporter @ SunpathError::InvalidRewardTokenAccount,
+    )]
+    pub reporter_token_account: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        constraint = dao_treasury_token_account.owner == config.dao_treasury_address @ SunpathError::InvalidDaoTreasury,
+    )]
+    pub dao_treasury_token_account: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        token::authority = consigner_wallet,
+    )]
+    pub consigner_token_account: Account<'info, TokenAccount>,
+    pub token_program: Program<'info, Token>,
 }
 
 #[derive(Accounts)]
-pub struct AcceptTask<'info> {
+pub struct CloseTask<'info> {
     #[account(
         mut,
         seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
         bump,
         has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+        close = consigner_wallet,
     )]
     pub task_account: Account<'info, TaskAccount>,
     #[account(mut)]
     pub consigner_wallet: Signer<'info>,
-    /// CHECK: recipient account, SOL transferred here.
+    #[account(
+        mut,
+        seeds = [b"task_location", task_account.key().as_ref()],
+        bump,
+        close = consigner_wallet,
+    )]
+    pub task_location: Option<Account<'info, TaskLocation>>,
+}
+
+#[derive(Accounts)]
+pub struct CloseDispute<'info> {
+    #[account(
+        mut,
+        seeds = [b"dispute", dispute.task.as_ref()],
+        bump,
+        has_one = reporter @ SunpathError::NotTaskReporter,
+        close = reporter,
+    )]
+    pub dispute: Account<'info, Dispute>,
     #[account(mut)]
-    pub recipient_account: AccountInfo<'info>,
+    pub reporter: Signer<'info>,
     #[account(seeds = [b"config_v2"], bump)]
     pub config: Account<'info, ProgramConfig>,
+}
+
+#[derive(Accounts)]
+pub struct ExpireTask<'info> {
     #[account(
-        init_if_needed,
-        payer = consigner_wallet,
-        space = 8 + AdminActionCounter::LEN,
-        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
-        bump
+        mut,
+        seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
+        bump,
     )]
-    pub admin_action_counter: Account<'info, AdminActionCounter>,
-    pub system_program: Program<'info, System>,
+    pub task_account: Account<'info, TaskAccount>,
+    pub cranker: Signer<'info>,
 }
 
 #[derive(Accounts)]
-pub struct RejectTask<'info> {
+pub struct ReclaimTaskFunds<'info> {
     #[account(
         mut,
         seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
         bump,
-        has_one = consigner_wallet @ SunpathError::NotTaskConsigner,
+        has_one = consigner_wallet @ SunpathError::NotConsigner,
     )]
     pub task_account: Account<'info, TaskAccount>,
     #[account(mut)]
     pub consigner_wallet: Signer<'info>,
     #[account(seeds = [b"config_v2"], bump)]
     pub config: Account<'info, ProgramConfig>,
-    #[account(
-        init_if_needed,
-        payer = consigner_wallet,
-        space = 8 + AdminActionCounter::LEN,
-        seeds = [b"admin_counter", consigner_wallet.key().as_ref()],
-        bump
-    )]
-    pub admin_action_counter: Account<'info, AdminActionCounter>,
     pub system_program: Program<'info, System>,
 }
 
 #[derive(Accounts)]
-pub struct ReclaimTaskFunds<'info> {
+pub struct ReclaimTokenTaskFunds<'info> {
     #[account(
         mut,
         seeds = [b"task_account", task_account.consigner_wallet.as_ref(), &task_account.task_id.to_le_bytes()],
         bump,
         has_one = consigner_wallet @ SunpathError::NotConsigner,
+        constraint = task_account.reward_mint == Some(reward_mint.key()) @ SunpathError::RewardMintMismatch,
     )]
     pub task_account: Account<'info, TaskAccount>,
     #[account(mut)]
     pub consigner_wallet: Signer<'info>,
+    pub reward_mint: Account<'info, Mint>,
+    #[account(
+        mut,
+        seeds = [b"task_vault", task_account.key().as_ref()],
+        bump,
+    )]
+    pub task_vault: Account<'info, TokenAccount>,
+    #[account(
+        mut,
+        token::mint = reward_mint,
+        token::authority = consigner_wallet,
+    )]
+    pub consigner_token_account: Account<'info, TokenAccount>,
     #[account(seeds = [b"config_v2"], bump)]
     pub config: Account<'info, ProgramConfig>,
+    pub token_program: Program<'info, Token>,
+}
+
+#[derive(Accounts)]
+pub struct SetRewardMint<'info> {
+    #[account(
+        seeds = [b"config_v2"],
+        bump,
+        has_one = admin @ SunpathError::NotAdmin,
+    )]
+    pub config: Account<'info, ProgramConfig>,
+    #[account(mut)]
+    pub admin: Signer<'info>,
+    pub mint: Account<'info, Mint>,
+    #[account(
+        init_if_needed,
+        payer = admin,
+        space = 8 + RewardMintConfig::LEN,
+        seeds = [b"reward_mint", mint.key().as_ref()],
+        bump
+    )]
+    pub reward_mint_config: Account<'info, RewardMintConfig>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct MigrateConfig<'info> {
+    /// CHECK: Still in the pre-`pending_admin` layout, which `Account` cannot load; the handler
+    /// checks the discriminator, the legacy length and the stored admin.
+    #[account(mut, seeds = [b"config_v2"], bump, owner = crate::ID)]
+    pub config: UncheckedAccount<'info>,
+    #[account(mut)]
+    pub admin: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct MigrateTask<'info> {
+    /// CHECK: Still in the legacy layout; the handler checks the discriminator and length.
+    #[account(mut, owner = crate::ID)]
+    pub task_account: UncheckedAccount<'info>,
+    #[account(mut)]
+    pub payer: Signer<'info>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct MigrateReport<'info> {
+    /// CHECK: Still in the legacy layout; the handler checks the discriminator and length.
+    #[account(mut, owner = crate::ID)]
+    pub report_account: UncheckedAccount<'info>,
+    #[account(mut)]
+    pub payer: Signer<'info>,
     pub system_program: Program<'info, System>,
 }
 
@@ -506,10 +2692,11 @@ pub struct ProgramConfig {
     pub denial_penalty_duration: i64,
     pub patroller_governance_token_amount: u64,
     pub is_initialized: bool,
+    pub pending_admin: Option<Pubkey>,
 }
 
 impl ProgramConfig {
-    pub const LEN: usize = 32 + 32 + 32 + 8 + 1 + 8 + 8 + 1;
+    pub const LEN: usize = 32 + 32 + 32 + 8 + 1 + 8 + 8 + 1 + (1 + 32);
 }
 
 #[account]
@@ -525,10 +2712,17 @@ pub struct TaskAccount {
     pub assigned_reporter: Option<Pubkey>,
     pub report_pda: Option<Pubkey>,
     pub is_initialized: bool,
+    /// `None` for SOL rewards, otherwise the SPL token mint escrowed in the task vault.
+    pub reward_mint: Option<Pubkey>,
+    /// Number of reporters whose reports can be accepted together (1 for single-reporter tasks).
+    pub max_reporters: u8,
+    pub report_count: u8,
 }
 
 impl TaskAccount {
-    pub const LEN: usize = 8 + 32 + 8 + 8 + 8 + 8 + 1 + 8 + (1 + 32) + (1 + 32) + 1;
+    pub const MAX_REPORTERS: u8 = 10;
+    pub const LEN: usize =
+        8 + 32 + 8 + 8 + 8 + 8 + 1 + 8 + (1 + 32) + (1 + 32) + 1 + (1 + 32) + 1 + 1;
 }
 
 #[account]
@@ -543,6 +2737,161 @@ impl AdminActionCounter {
     pub const LEN: usize = 32 + 8 + 8;
 }
 
+/// Track record of a reporter, created with their first report. `total_earned` counts
+/// lamports only; approvals of SPL token tasks add to `approved_count` alone.
+#[account]
+#[derive(Default)]
+pub struct ReporterStats {
+    pub reporter: Pubkey,
+    pub approved_count: u64,
+    pub rejected_count: u64,
+    pub total_earned: u64,
+    pub last_activity: i64,
+}
+
+impl ReporterStats {
+    pub const LEN: usize = 32 + 8 + 8 + 8 + 8;
+}
+
+#[account]
+pub struct ReportAccount {
+    pub task: Pubkey,
+    pub reporter: Pubkey,
+    pub video_content_hash: [u8; 32],
+    pub metadata_uri: String,
+    pub submitted_at: i64,
+    /// Lamports paid to the reporter by `accept_reports` (0 until accepted that way).
+    pub reward_amount: u64,
+    /// Set when the report is accepted; entitles the reporter to the governance reward.
+    pub approved: bool,
+    pub governance_reward_claimed: bool,
+    /// Set by `reject_report`. A rejected report no longer counts towards `report_count`.
+    pub rejected: bool,
+}
+
+impl ReportAccount {
+    pub const MAX_METADATA_URI_LEN: usize = 200;
+    pub const LEN: usize = 32 + 32 + 32 + (4 + Self::MAX_METADATA_URI_LEN) + 8 + 8 + 1 + 1 + 1;
+}
+
+#[account]
+#[derive(Default)]
+pub struct TaskCounter {
+    pub consigner: Pubkey,
+    pub next_task_id: u64,
+}
+
+impl TaskCounter {
+    pub const LEN: usize = 32 + 8;
+}
+
+#[account]
+pub struct Dispute {
+    pub task: Pubkey,
+    pub reporter: Pubkey,
+    pub reason_uri: String,
+    pub opened_at: i64,
+    pub resolution: DisputeResolution,
+    /// 0 while the dispute is pending.
+    pub resolved_at: i64,
+}
+
+impl Dispute {
+    pub const LEN: usize = 32 + 32 + (4 + ReportAccount::MAX_METADATA_URI_LEN) + 8 + 1 + 8;
+}
+
+// Layouts of accounts created by earlier deployments, read by the `migrate_*` instructions.
+// New fields are only ever appended, so each legacy layout is a prefix of the current one.
+
+#[derive(AnchorDeserialize)]
+pub struct LegacyProgramConfig {
+    pub admin: Pubkey,
+    pub dao_treasury_address: Pubkey,
+    pub governance_token_mint: Pubkey,
+    pub minimum_reward_amount: u64,
+    pub dao_fee_percentage: u8,
+    pub denial_penalty_duration: i64,
+    pub patroller_governance_token_amount: u64,
+    pub is_initialized: bool,
+}
+
+impl LegacyProgramConfig {
+    pub const LEN: usize = 32 + 32 + 32 + 8 + 1 + 8 + 8 + 1;
+}
+
+#[derive(AnchorDeserialize)]
+pub struct LegacyTaskAccount {
+    pub task_id: u64,
+    pub consigner_wallet: Pubkey,
+    pub reward_amount_locked: u64,
+    pub creation_timestamp: i64,
+    pub duration_seconds: i64,
+    pub expiration_timestamp: i64,
+    pub status: TaskStatus,
+    pub status_update_timestamp: i64,
+    pub assigned_reporter: Option<Pubkey>,
+    pub report_pda: Option<Pubkey>,
+    pub is_initialized: bool,
+}
+
+impl LegacyTaskAccount {
+    pub const LEN: usize = 8 + 32 + 8 + 8 + 8 + 8 + 1 + 8 + (1 + 32) + (1 + 32) + 1;
+}
+
+#[derive(AnchorDeserialize)]
+pub struct LegacyReportAccount {
+    pub task: Pubkey,
+    pub reporter: Pubkey,
+    pub video_content_hash: [u8; 32],
+    pub metadata_uri: String,
+    pub submitted_at: i64,
+    pub reward_amount: u64,
+    pub approved: bool,
+    pub governance_reward_claimed: bool,
+}
+
+impl LegacyReportAccount {
+    pub const LEN: usize =
+        32 + 32 + 32 + (4 + ReportAccount::MAX_METADATA_URI_LEN) + 8 + 8 + 1 + 1;
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Debug, PartialEq, Eq)]
+pub enum DisputeResolution {
+    Pending,
+    ReporterPaid,
+    ConsignerReleased,
+}
+
+/// Road segment of a task. Kept in its own account so that `geohash` sits at a fixed offset
+/// and can be matched by prefix with a `memcmp` filter.
+#[account]
+#[derive(Default)]
+pub struct TaskLocation {
+    pub task: Pubkey,
+    /// ASCII geohash, zero-padded to `MAX_GEOHASH_LEN` bytes.
+    pub geohash: [u8; 12],
+    /// SHA-256 of the canonical GeoJSON LineString of the road segment.
+    pub road_geometry_hash: [u8; 32],
+}
+
+impl TaskLocation {
+    pub const MAX_GEOHASH_LEN: usize = 12;
+    pub const LEN: usize = 32 + Self::MAX_GEOHASH_LEN + 32;
+}
+
+/// An SPL token accepted for task rewards. `minimum_reward_amount` is in the mint's base units.
+#[account]
+#[derive(Default)]
+pub struct RewardMintConfig {
+    pub mint: Pubkey,
+    pub minimum_reward_amount: u64,
+    pub is_enabled: bool,
+}
+
+impl RewardMintConfig {
+    pub const LEN: usize = 32 + 8 + 1;
+}
+
 #[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Debug, PartialEq, Eq)]
 pub enum TaskStatus {
     Open,
@@ -550,6 +2899,7 @@ pub enum TaskStatus {
     Rejected,
     Expired,
     Reclaimed,
+    Disputed,
 }
 
 impl fmt::Display for TaskStatus {
@@ -558,6 +2908,51 @@ impl fmt::Display for TaskStatus {
     }
 }
 
+/// Emitted by `create_task` and `create_token_task`. Amounts are in the reward's base units
+/// (lamports, or the mint's smallest unit when `reward_mint` is set).
+#[event]
+pub struct TaskCreated {
+    pub task: Pubkey,
+    pub consigner: Pubkey,
+    pub task_id: u64,
+    pub reward_amount: u64,
+    pub reward_mint: Option<Pubkey>,
+    pub max_reporters: u8,
+    pub expiration_timestamp: i64,
+    pub timestamp: i64,
+}
+
+/// Emitted when a task is approved: `accept_task`, `accept_token_task`, `accept_reports`, and
+/// `resolve_dispute` in the reporter's favour. `reporter_amount` is the total paid to `reporters`.
+#[event]
+pub struct TaskAccepted {
+    pub task: Pubkey,
+    pub consigner: Pubkey,
+    pub reporters: Vec<Pubkey>,
+    pub reporter_amount: u64,
+    pub dao_fee: u64,
+    pub timestamp: i64,
+}
+
+/// Emitted by `reject_task`. `reporter` is `None` when no report had been submitted.
+#[event]
+pub struct TaskRejected {
+    pub task: Pubkey,
+    pub consigner: Pubkey,
+    pub reporter: Option<Pubkey>,
+    pub timestamp: i64,
+}
+
+/// Emitted when the reward goes back to the consigner: `reclaim_task_funds`,
+/// `reclaim_token_task_funds`, and `resolve_dispute` in the consigner's favour.
+#[event]
+pub struct FundsReclaimed {
+    pub task: Pubkey,
+    pub consigner: Pubkey,
+    pub amount: u64,
+    pub timestamp: i64,
+}
+
 #[error_code]
 pub enum SunpathError {
     #[msg("Reward amount is too low.")]
@@ -580,4 +2975,78 @@ pub enum SunpathError {
     CounterOverflow,
     #[msg("The signer is not the task consigner.")]
     NotTaskConsigner,
+    #[msg("The task ID does not match the consigner's next task ID.")]
+    TaskIdMismatch,
+    #[msg("A report has already been submitted for this task.")]
+    ReportAlreadySubmitted,
+    #[msg("The metadata URI is too long.")]
+    MetadataUriTooLong,
+    #[msg("No report has been submitted for this task.")]
+    ReportNotSubmitted,
+    #[msg("The recipient is not the reporter of this task.")]
+    RecipientNotReporter,
+    #[msg("The DAO fee percentage must be between 0 and 100.")]
+    InvalidFeePercentage,
+    #[msg("The DAO fee calculation overflowed.")]
+    FeeCalculationOverflow,
+    #[msg("The DAO treasury account does not match the config.")]
+    InvalidDaoTreasury,
+    #[msg("The task has not been approved.")]
+    TaskNotApproved,
+    #[msg("The signer is not the reporter of this task.")]
+    NotTaskReporter,
+    #[msg("The governance token reward has already been claimed.")]
+    GovernanceRewardAlreadyClaimed,
+    #[msg("No governance token reward is configured.")]
+    NoGovernanceReward,
+    #[msg("The governance token mint does not match the config.")]
+    InvalidGovernanceTokenMint,
+    #[msg("The denial penalty duration must not be negative.")]
+    InvalidDenialPenaltyDuration,
+    #[msg("The signer is not the pending admin.")]
+    NotPendingAdmin,
+    #[msg("The task has not expired yet.")]
+    TaskNotExpired,
+    #[msg("Only approved or reclaimed tasks can be closed.")]
+    TaskNotClosable,
+    #[msg("The reward mint is not supported.")]
+    UnsupportedRewardMint,
+    #[msg("The reward mint does not match the task.")]
+    RewardMintMismatch,
+    #[msg("This task's reward is an SPL token. Use the token instruction.")]
+    TokenRewardTask,
+    #[msg("The token account does not belong to the recipient.")]
+    InvalidRewardTokenAccount,
+    #[msg("The maximum number of reporters must be between 1 and 10.")]
+    InvalidMaxReporters,
+    #[msg("The reward split does not match the reports.")]
+    InvalidRewardSplit,
+    #[msg("A reporter appears more than once in the reward split.")]
+    DuplicateReporter,
+    #[msg("The report account does not belong to this task.")]
+    InvalidReportAccount,
+    #[msg("The geohash must be 1 to 12 base32 geohash characters.")]
+    InvalidGeohash,
+    #[msg("The task has not been rejected.")]
+    TaskNotRejected,
+    #[msg("The dispute window has closed.")]
+    DisputeWindowClosed,
+    #[msg("The task is not under dispute.")]
+    TaskNotDisputed,
+    #[msg("The reporter stats account does not belong to the task's reporter.")]
+    InvalidReporterStats,
+    #[msg("The report has been rejected.")]
+    ReportRejected,
+    #[msg("The dispute has not been resolved yet.")]
+    DisputePending,
+    #[msg("The task accepts several reporters; use accept_reports instead.")]
+    MultiReporterTask,
+    #[msg("Token reward tasks accept a single reporter.")]
+    MultiReporterTokenTask,
+    #[msg("Only single-reporter tasks can be disputed.")]
+    MultiReporterDispute,
+    #[msg("The dispute resolution deadline has passed.")]
+    DisputeDeadlinePassed,
+    #[msg("The account already uses the current layout.")]
+    AccountAlreadyMigrated,
 }
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import { useProgramConfig } from "../../hooks/useProgramConfig";
+import { useI18n } from "../../i18n/I18nProvider";
+import { MessageKey } from "../../i18n/messages/ja";
+import {
+  ConfigFormErrors,
+  ConfigFormField,
+  ConfigFormValues,
+  configToFormValues,
+  validateConfigForm,
+} from "../../utils/config";
+
+// AdminConfigPanelコンポーネントのpropsの型定義
+interface AdminConfigPanelProps {
+  onError: (error: any) => void; // エラー発生時のコールバック
+}
+
+// フォームに表示する項目 (表示順)
+const FIELDS: ConfigFormField[] = [
+  "minimumRewardAmount",
+  "daoFeePercentage",
+  "denialPenaltyDuration",
+  "patrollerGovernanceTokenAmount",
+  "daoTreasuryAddress",
+  "governanceTokenMint",
+];
+
+/**
+ * ProgramConfig を表示・編集する管理者用パネル。
+ * 変更された項目だけを update_config で送信し、管理者権限の2段階の移譲も扱う。
+ */
+const AdminConfigPanel: React.FC<AdminConfigPanelProps> = ({ onError }) => {
+  const { client, publicKey, readOnly } = useSunpathProgram();
+  const { t, localizeError } = useI18n();
+  const { config, isLoading, error, refresh } = useProgramConfig();
+  const [values, setValues] = useState<ConfigFormValues | null>(null);
+  const [errors, setErrors] = useState<ConfigFormErrors>({});
+  const [newAdmin, setNewAdmin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // 取得した設定でフォームを初期化する
+  useEffect(() => {
+    if (config) {
+      setValues(configToFormValues(config));
+      setErrors({});
+    }
+  }, [config]);
+
+  useEffect(() => {
+    if (error) {
+      onError(localizeError(error));
+    }
+  }, [error, onError, localizeError]);
+
+  // トランザクションを送信し、確認後に設定を再取得する
+  const submit = useCallback(
+    async (
+      send: () => Promise<TransactionSignature>,
+      successKey: MessageKey
+    ) => {
+      setIsSubmitting(true);
+      setMessage("");
+      try {
+        const signature = await send();
+        const confirmation =
+          await client.provider.connection.confirmTransaction(
+            signature,
+            "finalized"
+          );
+        if (confirmation.value.err) {
+          throw new Error(
+            t("errors.transactionFailed", {
+              detail: JSON.stringify(confirmation.value.err),
+            })
+          );
+        }
+        setMessage(t(successKey, { signature }));
+        await refresh();
+      } catch (e) {
+        console.error("設定の更新中にエラーが発生しました:", e);
+        onError(localizeError(e));
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [client, refresh, onError, t, localizeError]
+  );
+
+  const handleSave = useCallback(() => {
+    if (!config || !values) {
+      return;
+    }
+    const validation = validateConfigForm(values, config);
+    setErrors(validation.errors);
+    if (Object.keys(validation.errors).length > 0) {
+      return;
+    }
+    if (Object.keys(validation.changes).length === 0) {
+      setMessage(t("admin.noChanges"));
+      return;
+    }
+    submit(() => client.updateConfig(validation.changes), "admin.saved");
+  }, [client, config, values, submit, t]);
+
+  const handlePropose = useCallback(() => {
+    let proposed: PublicKey;
+    try {
+      proposed = new PublicKey(newAdmin.trim());
+    } catch {
+      onError(new Error(t("admin.validation.invalidAddress")));
+      return;
+    }
+    submit(
+      () => client.proposeAdminTransfer(proposed),
+      "admin.transfer.proposed"
+    );
+  }, [client, newAdmin, submit, onError, t]);
+
+  if (!config || !values) {
+    return <p>{isLoading ? t("admin.loading") : null}</p>;
+  }
+
+  const isAdmin = !readOnly && !!publicKey && config.admin.equals(publicKey);
+  const isPendingAdmin =
+    !readOnly && !!publicKey && !!config.pendingAdmin?.equals(publicKey);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">{t("admin.title")}</h2>
+      <p className="font-mono text-sm break-all">
+        {t("admin.currentAdmin", { address: config.admin.toBase58() })}
+      </p>
+      {!isAdmin && <p className="text-gray-600">{t("admin.notAdmin")}</p>}
+
+      {message && <p className="text-green-700 break-all">{message}</p>}
+
+      {FIELDS.map((field) => (
+        <div key={field}>
+          <label htmlFor={`admin-${field}`} className="block text-sm">
+            {t(`admin.field.${field}`)}
+          </label>
+          <input
+            id={`admin-${field}`}
+            type="text"
+            value={values[field]}
+            disabled={!isAdmin || isSubmitting}
+            onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+            className="w-full px-2 py-1 font-mono border rounded"
+          />
+          {errors[field] && (
+            <p className="text-sm text-red-600">{t(errors[field]!)}</p>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={handleSave}
+        disabled={!isAdmin || isSubmitting}
+        className="px-4 py-2 font-semibold text-white bg-blue-500 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? t("admin.saving") : t("admin.save")}
+      </button>
+
+      <div className="pt-4 space-y-2 border-t">
+        <h3 className="font-semibold">{t("admin.transfer.title")}</h3>
+        {config.pendingAdmin && (
+          <p className="font-mono text-sm break-all">
+            {t("admin.transfer.pending", {
+              address: config.pendingAdmin.toBase58(),
+            })}
+          </p>
+        )}
+        {isAdmin && (
+          <div className="space-x-2">
+            <input
+              type="text"
+              value={newAdmin}
+              onChange={(e) => setNewAdmin(e.target.value)}
+              placeholder={t("admin.transfer.newAdmin")}
+              className="px-2 py-1 font-mono border rounded"
+            />
+            <button
+              onClick={handlePropose}
+              disabled={isSubmitting || !newAdmin}
+              className="px-3 py-1 border rounded disabled:opacity-50"
+            >
+              {t("admin.transfer.propose")}
+            </button>
+            {config.pendingAdmin && (
+              <button
+                onClick={() =>
+                  submit(
+                    () => client.proposeAdminTransfer(null),
+                    "admin.transfer.cancelled"
+                  )
+                }
+                disabled={isSubmitting}
+                className="px-3 py-1 border rounded disabled:opacity-50"
+              >
+                {t("admin.transfer.cancel")}
+              </button>
+            )}
+          </div>
+        )}
+        {isPendingAdmin && (
+          <button
+            onClick={() =>
+              submit(
+                () => client.acceptAdminTransfer(),
+                "admin.transfer.accepted"
+              )
+            }
+            disabled={isSubmitting}
+            className="px-4 py-2 font-semibold text-white bg-green-500 rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            {t("admin.transfer.accept")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConfigPanel;
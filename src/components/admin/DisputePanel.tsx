@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ProgramAccount } from "@coral-xyz/anchor";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import { useProgramConfig } from "../../hooks/useProgramConfig";
+import { useNow } from "../../hooks/useNow";
+import { useI18n } from "../../i18n/I18nProvider";
+import { Dispute } from "../../types/program";
+import { formatCountdown } from "../../utils/format";
+import { disputeResolutionDeadline } from "../../utils/taskRules";
+
+// DisputePanelコンポーネントのpropsの型定義
+interface DisputePanelProps {
+  onError: (error: any) => void; // エラー発生時のコールバック
+}
+
+/**
+ * 未解決の異議申し立てを一覧表示する管理者 (仲裁者) 用パネル。
+ * 報告者に報酬を支払うか、consignerに資金を戻すかを resolve_dispute で決定する。
+ * 解決期限を過ぎた申し立ては解決できず、consignerが資金を回収できる。
+ */
+const DisputePanel: React.FC<DisputePanelProps> = ({ onError }) => {
+  const { client, publicKey, readOnly } = useSunpathProgram();
+  const { t, localizeError } = useI18n();
+  const { config } = useProgramConfig();
+  const [disputes, setDisputes] = useState<ProgramAccount<Dispute>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const now = useNow();
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDisputes(await client.listPendingDisputes());
+    } catch (e) {
+      onError(localizeError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, onError, localizeError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleResolve = useCallback(
+    async (taskAccount: PublicKey, payReporter: boolean) => {
+      setResolving(taskAccount.toBase58());
+      setMessage("");
+      try {
+        const signature: TransactionSignature = await client.resolveDispute(
+          taskAccount,
+          payReporter
+        );
+        const confirmation =
+          await client.provider.connection.confirmTransaction(
+            signature,
+            "finalized"
+          );
+        if (confirmation.value.err) {
+          throw new Error(
+            t("errors.transactionFailed", {
+              detail: JSON.stringify(confirmation.value.err),
+            })
+          );
+        }
+        setMessage(t("disputes.resolved", { signature }));
+        await refresh();
+      } catch (e) {
+        console.error("異議の解決中にエラーが発生しました:", e);
+        onError(localizeError(e));
+      } finally {
+        setResolving(null);
+      }
+    },
+    [client, refresh, onError, t, localizeError]
+  );
+
+  const isAdmin =
+    !readOnly && !!publicKey && !!config && config.admin.equals(publicKey);
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">{t("disputes.title")}</h2>
+      {!isAdmin && <p className="text-gray-600">{t("admin.notAdmin")}</p>}
+      {message && <p className="text-green-700 break-all">{message}</p>}
+
+      {isLoading ? (
+        <p>{t("disputes.loading")}</p>
+      ) : disputes.length === 0 ? (
+        <p>{t("disputes.empty")}</p>
+      ) : (
+        <ul className="space-y-3">
+          {disputes.map(({ publicKey: disputeKey, account }) => {
+            const secondsLeft = config
+              ? disputeResolutionDeadline(account, config).toNumber() - now
+              : 0;
+            return (
+              <li key={disputeKey.toBase58()} className="p-3 border rounded">
+                <p className="font-mono text-sm break-all">
+                  {t("disputes.task", { address: account.task.toBase58() })}
+                </p>
+                <p className="font-mono text-sm break-all">
+                  {t("disputes.reporter", {
+                    address: account.reporter.toBase58(),
+                  })}
+                </p>
+                <a
+                  href={account.reasonUri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 underline break-all"
+                >
+                  {t("disputes.viewReason")}
+                </a>
+                {config && (
+                  <p className="text-sm text-gray-600">
+                    {secondsLeft > 0
+                      ? t("disputes.resolveIn", {
+                          time: formatCountdown(secondsLeft),
+                        })
+                      : t("disputes.deadlinePassed")}
+                  </p>
+                )}
+                <div className="mt-2 space-x-2">
+                  <button
+                    onClick={() => handleResolve(account.task, true)}
+                    disabled={
+                      !isAdmin || resolving !== null || secondsLeft <= 0
+                    }
+                    className="px-3 py-1 font-semibold text-white bg-green-500 rounded hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {t("disputes.payReporter")}
+                  </button>
+                  <button
+                    onClick={() => handleResolve(account.task, false)}
+                    disabled={
+                      !isAdmin || resolving !== null || secondsLeft <= 0
+                    }
+                    className="px-3 py-1 border rounded disabled:opacity-50"
+                  >
+                    {t("disputes.releaseToConsigner")}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={refresh}
+        disabled={isLoading}
+        className="px-3 py-1 border rounded disabled:opacity-50"
+      >
+        {t("dashboard.refresh")}
+      </button>
+    </div>
+  );
+};
+
+export default DisputePanel;
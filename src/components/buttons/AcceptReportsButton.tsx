@@ -0,0 +1,266 @@
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import { BN, ProgramAccount } from "@coral-xyz/anchor";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import { useProgramConfig } from "../../hooks/useProgramConfig";
+import { ReportAccount } from "../../types/program";
+import { calculateFeeBreakdown, splitReward } from "../../utils/fees";
+import { formatSol, shortenAddress } from "../../utils/format";
+import ReporterProfile from "../common/ReporterProfile";
+
+// 報酬の分け方: 均等 / 撮影区間 (カバー率) などの重み付け
+type SplitMode = "equal" | "weighted";
+
+// AcceptReportsButtonコンポーネントのpropsの型定義
+interface AcceptReportsButtonProps {
+  taskAccountPDAString: string; // 承認するタスクアカウントのPDA文字列 (max_reporters > 1 のSOL報酬タスク)
+  onReportsAccepted: (signature: TransactionSignature) => void; // 承認成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+/**
+ * タスクに提出された複数のレポートから承認するものを選び、報酬を分配して支払う。
+ * 分配額は accept_reports と同じ計算 (splitReward) で署名前に表示する。
+ */
+const AcceptReportsButton: React.FC<AcceptReportsButtonProps> = ({
+  taskAccountPDAString,
+  onReportsAccepted,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram();
+  const { config } = useProgramConfig();
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+  const [reports, setReports] = useState<ProgramAccount<ReportAccount>[]>([]);
+  const [rewardAmount, setRewardAmount] = useState<BN | null>(null);
+  const [splitMode, setSplitMode] = useState<SplitMode>("equal");
+  // 報告者 (base58) -> 承認対象かどうか / 重み (文字列入力)
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  // 提出済みのレポート (reject_report で拒否されたものを除く) とロックされた報酬額を取得する
+  useEffect(() => {
+    let cancelled = false;
+    let taskAccountPDA: PublicKey;
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch {
+      setReports([]);
+      setRewardAmount(null);
+      return;
+    }
+    Promise.all([
+      client.listReportsForTask(taskAccountPDA),
+      client.fetchTaskNullable(taskAccountPDA),
+    ])
+      .then(([allReports, task]) => {
+        if (!cancelled) {
+          const fetchedReports = allReports.filter(
+            ({ account }) => !account.rejected
+          );
+          setReports(fetchedReports);
+          setRewardAmount(task?.rewardAmountLocked ?? null);
+          setSelected(
+            Object.fromEntries(
+              fetchedReports.map(({ account }) => [
+                account.reporter.toBase58(),
+                true,
+              ])
+            )
+          );
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setReports([]);
+          setRewardAmount(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, taskAccountPDAString]);
+
+  // 承認対象の報告者と重み。重みが不正な場合はnull
+  const shares = useMemo(() => {
+    const chosen = reports.filter(
+      ({ account }) => selected[account.reporter.toBase58()]
+    );
+    try {
+      return chosen.map(({ account }) => {
+        const weight =
+          splitMode === "equal"
+            ? new BN(1)
+            : new BN(weights[account.reporter.toBase58()] ?? "");
+        if (weight.isNeg() || weight.isZero()) {
+          throw new Error("invalid weight");
+        }
+        return { reporter: account.reporter, weight };
+      });
+    } catch {
+      return null;
+    }
+  }, [reports, selected, weights, splitMode]);
+
+  // 報告者ごとの受取額のプレビュー (DAO手数料を差し引いた後の額を分配)
+  const preview = useMemo(() => {
+    if (!config || !rewardAmount || !shares || shares.length === 0) {
+      return null;
+    }
+    const { reporterAmount } = calculateFeeBreakdown(
+      rewardAmount,
+      config.daoFeePercentage
+    );
+    const amounts = splitReward(
+      reporterAmount,
+      shares.map(({ weight }) => weight)
+    );
+    return new Map(
+      shares.map(({ reporter }, index) => [reporter.toBase58(), amounts[index]])
+    );
+  }, [config, rewardAmount, shares]);
+
+  const handleAcceptReports = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+    if (!shares) {
+      onError(new Error(t("validation.invalidWeight")));
+      return;
+    }
+    if (shares.length === 0) {
+      onError(new Error(t("validation.noReportsSelected")));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const signature = await client.acceptReports(taskAccountPDA, shares);
+
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onReportsAccepted(signature);
+    } catch (error) {
+      console.error("レポートの一括承認中にエラーが発生しました:", error);
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    shares,
+    onReportsAccepted,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  if (reports.length === 0) {
+    return (
+      <span className="text-sm text-gray-500">
+        {t("acceptReports.noReports")}
+      </span>
+    );
+  }
+
+  return (
+    <div className="inline-block space-y-1">
+      <label className="block text-sm">
+        {t("acceptReports.splitMode")}
+        <select
+          value={splitMode}
+          onChange={(e) => setSplitMode(e.target.value as SplitMode)}
+          disabled={isLoading}
+          className="ml-2 px-2 py-1 border rounded"
+        >
+          <option value="equal">{t("acceptReports.equal")}</option>
+          <option value="weighted">{t("acceptReports.weighted")}</option>
+        </select>
+      </label>
+      <ul className="text-sm space-y-1">
+        {reports.map(({ account }) => {
+          const reporter = account.reporter.toBase58();
+          const amount = preview?.get(reporter);
+          return (
+            <li key={reporter} className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={selected[reporter] ?? false}
+                onChange={(e) =>
+                  setSelected((current) => ({
+                    ...current,
+                    [reporter]: e.target.checked,
+                  }))
+                }
+                disabled={isLoading}
+              />
+              <span className="font-mono" title={reporter}>
+                {shortenAddress(reporter)}
+              </span>
+              <ReporterProfile reporter={account.reporter} compact />
+              {splitMode === "weighted" && (
+                <input
+                  type="text"
+                  value={weights[reporter] ?? ""}
+                  onChange={(e) =>
+                    setWeights((current) => ({
+                      ...current,
+                      [reporter]: e.target.value,
+                    }))
+                  }
+                  placeholder={t("acceptReports.weight")}
+                  disabled={isLoading}
+                  className="w-24 px-1 border rounded"
+                />
+              )}
+              {amount && (
+                <span className="text-gray-600">
+                  {t("acceptReports.share", { amount: formatSol(amount) })}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        onClick={handleAcceptReports}
+        disabled={
+          disabled || readOnly || isLoading || !shares || shares.length === 0
+        }
+        className="px-4 py-2 font-semibold text-white bg-green-500 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? t("acceptReports.loading") : t("acceptReports.label")}
+      </button>
+    </div>
+  );
+};
+
+export default AcceptReportsButton;
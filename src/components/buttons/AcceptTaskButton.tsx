@@ -1,13 +1,260 @@
-import React, { useState, useCallback } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Program } from "@coral-xyz/anchor";
-import {
-  PublicKey,
-  SystemProgram,
-  TransactionSignature,
-} from "@solana/web3.js";
-import idl from "../../idl-v7.json";
-import { PROGRAM_ID } from "../../constants/program";
-import { SunpathProgram } from "../../types/program";
-
-// ... existing code ...
+import React, { useState, useCallback, useEffect } from "react";
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import FeeBreakdown from "../common/FeeBreakdown";
+
+// AcceptTaskButtonコンポーネントのpropsの型定義
+interface AcceptTaskButtonProps {
+  taskAccountPDAString: string; // 承認するタスクアカウントのPDA文字列
+  onTaskAccepted: (signature: TransactionSignature) => void; // タスク承認成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+const AcceptTaskButton: React.FC<AcceptTaskButtonProps> = ({
+  taskAccountPDAString,
+  onTaskAccepted,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は consignerWallet として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+  const [rewardAmount, setRewardAmount] = useState<BN | null>(null);
+  const [rewardMint, setRewardMint] = useState<PublicKey | null>(null);
+  const [assignedReporter, setAssignedReporter] = useState<PublicKey | null>(
+    null
+  );
+
+  // 署名前に手数料の内訳を表示し、レポートの提出を確認するため、タスクを取得する
+  useEffect(() => {
+    let cancelled = false;
+    let taskAccountPDA: PublicKey;
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch {
+      setRewardAmount(null);
+      setAssignedReporter(null);
+      return;
+    }
+    client
+      .fetchTaskNullable(taskAccountPDA)
+      .then((task) => {
+        if (!cancelled) {
+          setRewardAmount(task?.rewardAmountLocked ?? null);
+          setRewardMint(task?.rewardMint ?? null);
+          setAssignedReporter(task?.assignedReporter ?? null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setRewardAmount(null);
+          setAssignedReporter(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, taskAccountPDAString]);
+
+  // タスク承認処理を実行する関数
+  const handleAcceptTask = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // 報酬の受取人はレポートを提出した assigned_reporter に限られるため、
+      // 呼び出し元から受け取らずに送信直前のタスクから読み取る
+      const task = await client.fetchTask(taskAccountPDA);
+      if (!task.assignedReporter) {
+        throw new Error(t("errors.program.ReportNotSubmitted"));
+      }
+
+      // `acceptTask` 命令を呼び出し (Config・AdminActionCounter PDAはクライアントが導出)
+      // 注意: この呼び出しが成功するためには、`publicKey` (現在のウォレット) が
+      // `taskAccountPDA` に保存されている `consignerWallet` と一致している必要があります。
+      // (IDLの has_one = consigner_wallet 制約による)
+      const signature = await client.acceptTask(
+        taskAccountPDA,
+        task.assignedReporter
+      );
+
+      // トランザクションの確認を待つ（より堅牢な方法）
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onTaskAccepted(signature);
+    } catch (error) {
+      console.error("タスク承認中にエラーが発生しました:", error);
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    onTaskAccepted,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <div className="inline-block space-y-1">
+      <button
+        onClick={handleAcceptTask}
+        disabled={
+          disabled ||
+          readOnly ||
+          isLoading ||
+          !taskAccountPDAString ||
+          !assignedReporter
+        }
+        className="px-4 py-2 font-semibold text-white bg-green-500 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? t("acceptTask.loading") : t("acceptTask.label")}
+      </button>
+      <FeeBreakdown rewardAmount={rewardAmount} rewardMint={rewardMint} />
+    </div>
+  );
+};
+
+export default AcceptTaskButton;
+
+// --- 以下は呼び出し元コンポーネントでの使用例 (参考) ---
+/*
+import React, { useState, useMemo } from 'react';
+import AcceptTaskButton from './AcceptTaskButton'; // 作成したコンポーネントのパス
+// CreateTaskButtonの例から必要なimportを流用
+import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
+import { clusterApiUrl, TransactionSignature, PublicKey } from '@solana/web3.js';
+
+require('@solana/wallet-adapter-react-ui/styles.css');
+
+const YourTaskListComponent: React.FC = () => {
+  // 実際にはタスク一覧から選択されたタスクのPDAを設定する (受取人はタスクの assigned_reporter)
+  const [selectedTaskPDA, setSelectedTaskPDA] = useState<string>(''); 
+  const [message, setMessage] = useState<string>('');
+  const [txSignature, setTxSignature] = useState<string>('');
+
+  const network = clusterApiUrl('devnet');
+  const wallets = useMemo(
+    () => [
+      new PhantomWalletAdapter(),
+      new SolflareWalletAdapter({ network }),
+    ],
+    [network]
+  );
+
+  const handleTaskSuccessfullyAccepted = (signature: TransactionSignature) => {
+    setMessage('タスクが正常に承認されました！');
+    setTxSignature(signature);
+    console.log('タスク承認成功:', signature);
+  };
+
+  const handleAcceptanceError = (error: any) => {
+    setMessage(`エラー: ${error.message}`);
+    setTxSignature('');
+    console.error('タスク承認エラー:', error);
+  };
+
+  // ダミーデータ。実際にはオンチェーンからタスクリストを取得し、
+  // ユーザーが承認したいタスクを選択できるようにする
+  const tasks = [
+    { 
+      id: '1', 
+      pda: 'TASK_PDA_ADDRESS_HERE_1', // 実際のタスクPDAに置き換える
+      description: 'タスク1の説明', 
+      // consignerWallet: 'CONSIGNER_WALLET_PUBKEY_HERE' // この情報も取得できると良い
+    },
+    // ... 他のタスク
+  ];
+
+  const handleSelectTask = (taskPda: string) => {
+    setSelectedTaskPDA(taskPda);
+  };
+
+
+  return (
+    <ConnectionProvider endpoint={network}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>
+          <div style={{ padding: '20px' }}>
+            <h2>タスク承認</h2>
+            <WalletMultiButton />
+
+            <div>
+              <h3>タスク一覧 (ダミー)</h3>
+              {tasks.map(task => (
+                <div key={task.id} style={{ border: '1px solid #ccc', margin: '10px', padding: '10px'}}>
+                  <p>{task.description}</p>
+                  <p>Task PDA: {task.pda}</p>
+                  <button onClick={() => handleSelectTask(task.pda)}>このタスクを選択</button>
+                </div>
+              ))}
+            </div>
+
+            {selectedTaskPDA && (
+              <div style={{marginTop: '20px'}}>
+                <h3>選択中のタスク: {selectedTaskPDA}</h3>
+                <AcceptTaskButton
+                  taskAccountPDAString={selectedTaskPDA}
+                  onTaskAccepted={handleTaskSuccessfullyAccepted}
+                  onError={handleAcceptanceError}
+                />
+              </div>
+            )}
+
+            {message && <p style={{ marginTop: '10px', color: txSignature ? 'green' : 'red' }}>{message}</p>}
+            {txSignature && (
+              <p>
+                トランザクション署名: {' '}
+                <a
+                  href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  {txSignature}
+                </a>
+              </p>
+            )}
+          </div>
+        </WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+};
+
+// export default YourTaskListComponent;
+*/
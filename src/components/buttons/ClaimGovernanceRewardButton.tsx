@@ -0,0 +1,94 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// ClaimGovernanceRewardButtonコンポーネントのpropsの型定義
+interface ClaimGovernanceRewardButtonProps {
+  taskAccountPDAString: string; // 承認済みタスクアカウントのPDA文字列
+  onRewardClaimed: (signature: TransactionSignature) => void; // 受け取り成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+const ClaimGovernanceRewardButton: React.FC<
+  ClaimGovernanceRewardButtonProps
+> = ({ taskAccountPDAString, onRewardClaimed, onError, disabled = false }) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は reporter として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  // ガバナンストークンの受け取り処理を実行する関数
+  const handleClaim = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `claimGovernanceReward` 命令を呼び出し (受け取り用のトークンアカウントは必要に応じて作成される)
+      // 注意: `publicKey` (現在のウォレット) がタスクの assigned_reporter と一致している必要があります。
+      const signature = await client.claimGovernanceReward(taskAccountPDA);
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onRewardClaimed(signature);
+    } catch (error) {
+      console.error(
+        "ガバナンストークンの受け取り中にエラーが発生しました:",
+        error
+      );
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    onRewardClaimed,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleClaim}
+      disabled={disabled || readOnly || isLoading || !taskAccountPDAString}
+      className="px-4 py-2 font-semibold text-white bg-purple-500 rounded hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading
+        ? t("claimGovernanceReward.loading")
+        : t("claimGovernanceReward.label")}
+    </button>
+  );
+};
+
+export default ClaimGovernanceRewardButton;
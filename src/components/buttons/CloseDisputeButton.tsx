@@ -0,0 +1,98 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// CloseDisputeButtonコンポーネントのpropsの型定義
+interface CloseDisputeButtonProps {
+  taskAccountPDAString: string; // 異議を申し立てたタスクアカウントのPDA文字列
+  onDisputeClosed: (
+    signature: TransactionSignature,
+    lamportsRecovered: number
+  ) => void; // クローズ成功時のコールバック (lamportsRecovered は戻ったrent)
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+/**
+ * 解決済みの異議申し立てをクローズし、申し立て時に支払ったrentを報告者に戻すボタン。
+ * タスクがクローズされた後でも実行できる。
+ */
+const CloseDisputeButton: React.FC<CloseDisputeButtonProps> = ({
+  taskAccountPDAString,
+  onDisputeClosed,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は reporter として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  const handleCloseDispute = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `closeDispute` 命令を呼び出し (未解決の申し立ては DisputePending で失敗する)
+      const { signature, lamportsRecovered } = await client.closeDispute(
+        taskAccountPDA
+      );
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onDisputeClosed(signature, lamportsRecovered);
+    } catch (error) {
+      console.error("異議申し立てのクローズ中にエラーが発生しました:", error);
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    onDisputeClosed,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleCloseDispute}
+      disabled={disabled || readOnly || isLoading || !taskAccountPDAString}
+      className="px-4 py-2 font-semibold text-white bg-gray-500 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("closeDispute.loading") : t("closeDispute.label")}
+    </button>
+  );
+};
+
+export default CloseDisputeButton;
@@ -0,0 +1,97 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// CloseTaskButtonコンポーネントのpropsの型定義
+interface CloseTaskButtonProps {
+  taskAccountPDAString: string; // クローズするタスクアカウントのPDA文字列
+  onTaskClosed: (
+    signature: TransactionSignature,
+    lamportsRecovered: number
+  ) => void; // クローズ成功時のコールバック (lamportsRecovered は戻ったrent)
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+const CloseTaskButton: React.FC<CloseTaskButtonProps> = ({
+  taskAccountPDAString,
+  onTaskClosed,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は consignerWallet として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  // タスクのクローズ処理を実行する関数
+  const handleCloseTask = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `closeTask` 命令を呼び出し、TaskAccountのrentをconsignerに戻す
+      // 注意: 承認済み (Approved) または回収済み (Reclaimed) のタスクのみクローズできます。
+      const { signature, lamportsRecovered } = await client.closeTask(
+        taskAccountPDA
+      );
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onTaskClosed(signature, lamportsRecovered);
+    } catch (error) {
+      console.error("タスクのクローズ中にエラーが発生しました:", error);
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    onTaskClosed,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleCloseTask}
+      disabled={disabled || readOnly || isLoading || !taskAccountPDAString}
+      className="px-4 py-2 font-semibold text-white bg-gray-500 rounded hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("closeTask.loading") : t("closeTask.label")}
+    </button>
+  );
+};
+
+export default CloseTaskButton;
@@ -1,14 +1,319 @@
-import React, { useState, useCallback } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Program } from "@coral-xyz/anchor";
-import {
-  PublicKey,
-  SystemProgram,
-  TransactionSignature,
-} from "@solana/web3.js";
+import React, { useState, useCallback, useMemo } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
 import BN from "bn.js";
-import idl from "../../idl-v7.json";
-import { PROGRAM_ID } from "../../constants/program";
-import { SunpathProgram } from "../../types/program";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import { useRewardMints } from "../../hooks/useRewardMints";
+import { formatReward } from "../../utils/rewards";
+import { RoadLocation, roadLocationFromGeoJson } from "../../utils/location";
+import { shortenAddress } from "../../utils/format";
+import FeeBreakdown from "../common/FeeBreakdown";
 
-// ... existing code ...
+// CreateTaskButtonコンポーネントのpropsの型定義
+interface CreateTaskButtonProps {
+  rewardAmountString: string; // フォームなどから文字列として渡される報酬額 (lamports単位、SPLトークンの場合はトークンの最小単位)
+  durationSecondsString: string; // 同様に文字列として渡される期間 (秒単位)
+  maxReporters?: number; // 報酬を分け合える報告者の上限 (1〜10、省略時は1 = 単独の報告者。SPLトークン報酬は1のみ)
+  roadGeoJsonString?: string; // 道路区間のGeoJSON (LineString または LineStringのFeature)。空なら位置情報なし
+  onTaskCreated: (signature: TransactionSignature, taskId: BN) => void; // タスク作成成功時のコールバック関数 (taskIdは割り当てられたID)
+  onError: (error: any) => void; // エラー発生時のコールバック関数
+}
+
+const CreateTaskButton: React.FC<CreateTaskButtonProps> = ({
+  rewardAmountString,
+  durationSecondsString,
+  maxReporters = 1,
+  roadGeoJsonString = "",
+  onTaskCreated,
+  onError,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // Sunpathクライアントとウォレット情報を取得
+  const [isLoading, setIsLoading] = useState(false); // ローディング状態の管理
+  const { t, localizeError } = useI18n(); // 表示言語に応じたメッセージ
+  const { rewardMints } = useRewardMints(); // 報酬に使えるSPLトークン
+  const [rewardMintString, setRewardMintString] = useState(""); // 空文字はSOL
+
+  const selectedRewardMint = useMemo(
+    () =>
+      rewardMints.find(({ mint }) => mint.toBase58() === rewardMintString) ??
+      null,
+    [rewardMints, rewardMintString]
+  );
+
+  // 署名前に表示する手数料の内訳用 (不正な入力の場合はnull)
+  const previewRewardAmount = useMemo(() => {
+    try {
+      return new BN(rewardAmountString);
+    } catch {
+      return null;
+    }
+  }, [rewardAmountString]);
+
+  // タスク作成処理を実行する関数
+  const handleCreateTask = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let rewardAmount: BN;
+    let durationSeconds: BN;
+
+    try {
+      rewardAmount = new BN(rewardAmountString);
+      durationSeconds = new BN(durationSecondsString);
+
+      // 入力値の検証を強化
+      if (rewardAmount.isNeg() || durationSeconds.isNeg()) {
+        throw new Error(t("validation.positiveNumbers"));
+      }
+      if (rewardAmount.isZero()) {
+        throw new Error(t("validation.rewardZero"));
+      }
+      if (durationSeconds.isZero()) {
+        throw new Error(t("validation.durationZero"));
+      }
+    } catch (e: any) {
+      onError(
+        new Error(
+          t("validation.invalidNumber", {
+            detail: e.message || t("validation.notANumber"),
+          })
+        )
+      );
+      return;
+    }
+
+    // 複数の報告者への分配 (accept_reports) はSOL報酬のみ
+    if (selectedRewardMint && maxReporters > 1) {
+      onError(new Error(t("validation.tokenSingleReporter")));
+      return;
+    }
+
+    // GeoJSONからgeohashと道路形状のハッシュを求める (ドライバーが近くのタスクを検索できるようにする)
+    let location: RoadLocation | undefined;
+    if (roadGeoJsonString.trim()) {
+      try {
+        location = await roadLocationFromGeoJson(roadGeoJsonString);
+      } catch (e: any) {
+        onError(
+          new Error(t("validation.invalidGeoJson", { detail: e.message }))
+        );
+        return;
+      }
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `createTask` 命令を呼び出し (タスクIDはTaskCounterから取得し、各PDAはクライアントが導出)
+      const { signature, taskId } = await client.createTask({
+        rewardAmount,
+        durationSeconds,
+        rewardMint: selectedRewardMint?.mint,
+        maxReporters,
+        location,
+      });
+
+      // トランザクションの確認を待つ（より堅牢な方法）
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onTaskCreated(signature, taskId);
+    } catch (error) {
+      console.error("タスク作成中にエラーが発生しました:", error);
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    rewardAmountString,
+    durationSecondsString,
+    selectedRewardMint,
+    maxReporters,
+    roadGeoJsonString,
+    onTaskCreated,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  const rewardMint: PublicKey | null = selectedRewardMint?.mint ?? null;
+  const minimumReward = selectedRewardMint
+    ? formatReward(
+        selectedRewardMint.minimumRewardAmount,
+        selectedRewardMint.mint,
+        rewardMints
+      )
+    : null;
+
+  return (
+    <div className="inline-block space-y-1">
+      <label className="block text-sm">
+        {t("rewardMint.label")}
+        <select
+          value={rewardMintString}
+          onChange={(e) => setRewardMintString(e.target.value)}
+          disabled={isLoading}
+          className="ml-2 px-2 py-1 border rounded"
+        >
+          <option value="">{t("rewardMint.sol")}</option>
+          {rewardMints.map(({ mint }) => (
+            <option key={mint.toBase58()} value={mint.toBase58()}>
+              {shortenAddress(mint.toBase58())}
+            </option>
+          ))}
+        </select>
+      </label>
+      {minimumReward && (
+        <p className="text-sm text-gray-600">
+          {t("rewardMint.minimum", {
+            amount: minimumReward.amount,
+            unit: minimumReward.unit,
+          })}
+        </p>
+      )}
+      <button
+        onClick={handleCreateTask}
+        disabled={readOnly || isLoading}
+        className="px-4 py-2 font-semibold text-white bg-blue-500 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? t("createTask.loading") : t("createTask.label")}
+      </button>
+      <FeeBreakdown
+        rewardAmount={previewRewardAmount}
+        rewardMint={rewardMint}
+      />
+    </div>
+  );
+};
+
+export default CreateTaskButton;
+
+// --- 以下は呼び出し元コンポーネントでの使用例 (参考) ---
+/*
+import React, { useState, useMemo } from 'react';
+import CreateTaskButton from './CreateTaskButton'; // 作成したコンポーネントのパスに合わせる
+import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
+import { clusterApiUrl, TransactionSignature } from '@solana/web3.js';
+import BN from 'bn.js';
+
+// ウォレットボタン用のCSS (プロジェクトに合わせて調整)
+require('@solana/wallet-adapter-react-ui/styles.css');
+
+const YourFormComponent: React.FC = () => {
+  const [reward, setReward] = useState<string>('100000000'); // 例: 0.1 SOL (lamports)
+  const [duration, setDuration] = useState<string>('3600'); // 例: 1時間 (秒)
+  const [roadGeoJson, setRoadGeoJson] = useState<string>(''); // 道路区間 (任意)
+  const [message, setMessage] = useState<string>(''); // 結果表示用メッセージ
+  const [txSignature, setTxSignature] = useState<string>(''); // トランザクション署名表示用
+
+  // Solanaネットワーク設定 (例: devnet)
+  const network = web3.clusterApiUrl('devnet');
+  const wallets = useMemo(
+    () => [
+      new PhantomWalletAdapter(),
+      new SolflareWalletAdapter({ network }),
+    ],
+    [network]
+  );
+
+  const handleTaskSuccessfullyCreated = (signature: TransactionSignature, taskId: BN) => {
+    setMessage(`タスク #${taskId.toString()} が正常に作成されました！`);
+    setTxSignature(signature);
+    console.log('タスク作成成功:', signature);
+    // ここでフォームをリセットするなどの処理を追加可能
+  };
+
+  const handleCreationError = (error: any) => {
+    setMessage(`エラー: ${error.message}`);
+    setTxSignature('');
+    console.error('タスク作成エラー:', error);
+  };
+
+  return (
+    <ConnectionProvider endpoint={network}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>
+          <div style={{ padding: '20px' }}>
+            <h2>タスク作成フォーム</h2>
+            <WalletMultiButton />
+
+            <div style={{ margin: '10px 0' }}>
+              <label htmlFor="reward">報酬額 (lamports): </label>
+              <input
+                id="reward"
+                type="text"
+                value={reward}
+                onChange={(e) => setReward(e.target.value)}
+                placeholder="例: 100000000 (0.1 SOL)"
+              />
+            </div>
+            <div style={{ margin: '10px 0' }}>
+              <label htmlFor="duration">期間 (秒): </label>
+              <input
+                id="duration"
+                type="text"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                placeholder="例: 3600 (1時間)"
+              />
+            </div>
+            <div style={{ margin: '10px 0' }}>
+              <label htmlFor="road">道路区間 (GeoJSON LineString): </label>
+              <textarea
+                id="road"
+                rows={4}
+                value={roadGeoJson}
+                onChange={(e) => setRoadGeoJson(e.target.value)}
+                placeholder='{"type":"LineString","coordinates":[[139.7671,35.6812],[139.7702,35.6846]]}'
+              />
+            </div>
+
+            <CreateTaskButton
+              rewardAmountString={reward}
+              durationSecondsString={duration}
+              roadGeoJsonString={roadGeoJson}
+              onTaskCreated={handleTaskSuccessfullyCreated}
+              onError={handleCreationError}
+            />
+
+            {message && <p style={{ marginTop: '10px', color: txSignature ? 'green' : 'red' }}>{message}</p>}
+            {txSignature && (
+              <p>
+                トランザクション署名: {' '}
+                <a
+                  href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  {txSignature}
+                </a>
+              </p>
+            )}
+          </div>
+        </WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+};
+
+// export default YourFormComponent; // アプリケーションのエントリーポイントでレンダリング
+*/
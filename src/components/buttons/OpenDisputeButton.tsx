@@ -0,0 +1,112 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import {
+  isValidMetadataUri,
+  MAX_METADATA_URI_LENGTH,
+} from "../../utils/report";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// OpenDisputeButtonコンポーネントのpropsの型定義
+interface OpenDisputeButtonProps {
+  taskAccountPDAString: string; // 異議を申し立てるタスクアカウントのPDA文字列
+  reasonUri: string; // 申し立ての理由・証拠をまとめたドキュメントのURI
+  onDisputeOpened: (signature: TransactionSignature) => void; // 申し立て成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断 (canOpenDispute など) でボタンを無効化する場合にtrue
+}
+
+/**
+ * 却下されたタスクに報告者として異議を申し立てるボタン。
+ * 申し立て中はconsignerが資金を回収できず、管理者 (仲裁者) の判断を待つ。
+ */
+const OpenDisputeButton: React.FC<OpenDisputeButtonProps> = ({
+  taskAccountPDAString,
+  reasonUri,
+  onDisputeOpened,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は reporter として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  const handleOpenDispute = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    // reason_uri はレポートのメタデータURIと同じ上限 (MAX_METADATA_URI_LEN)
+    if (!isValidMetadataUri(reasonUri)) {
+      onError(
+        new Error(
+          t("validation.metadataUriTooLong", { max: MAX_METADATA_URI_LENGTH })
+        )
+      );
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `openDispute` 命令を呼び出し (Dispute PDAはAnchorが導出)
+      const signature = await client.openDispute(taskAccountPDA, reasonUri);
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onDisputeOpened(signature);
+    } catch (error) {
+      console.error("異議申し立て中にエラーが発生しました:", error);
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    reasonUri,
+    onDisputeOpened,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleOpenDispute}
+      disabled={
+        disabled || readOnly || isLoading || !taskAccountPDAString || !reasonUri
+      }
+      className="px-4 py-2 font-semibold text-white bg-purple-500 rounded hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("openDispute.loading") : t("openDispute.label")}
+    </button>
+  );
+};
+
+export default OpenDisputeButton;
@@ -1,13 +1,200 @@
 import React, { useState, useCallback } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Program } from "@coral-xyz/anchor";
-import {
-  PublicKey,
-  SystemProgram,
-  TransactionSignature,
-} from "@solana/web3.js";
-import idl from "../../idl-v7.json";
-import { PROGRAM_ID } from "../../constants/program";
-import { SunpathProgram } from "../../types/program";
-
-// ... existing code ...
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// ReclaimTaskFundsButtonコンポーネントのpropsの型定義
+interface ReclaimTaskFundsButtonProps {
+  taskAccountPDAString: string; // 資金を回収するタスクアカウントのPDA文字列
+  onFundsReclaimed: (
+    signature: TransactionSignature,
+    lamportsRecovered: number
+  ) => void; // 資金回収成功時のコールバック (lamportsRecovered は報酬 + rent の合計)
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+const ReclaimTaskFundsButton: React.FC<ReclaimTaskFundsButtonProps> = ({
+  taskAccountPDAString,
+  onFundsReclaimed,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は consignerWallet として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  // 資金回収処理を実行する関数
+  const handleReclaimFunds = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `reclaimTaskFunds` と `closeTask` 命令を同じトランザクションで呼び出し、
+      // ロックされた報酬とTaskAccountのrentをまとめて回収する (Config PDAはクライアントが導出)
+      // 注意: この呼び出しが成功するためには、`publicKey` (現在のウォレット) が
+      // `taskAccountPDA` に保存されている `consignerWallet` と一致している必要があります。
+      const { signature, lamportsRecovered } = await client.reclaimAndCloseTask(
+        taskAccountPDA
+      );
+
+      // トランザクションの確認を待つ（より堅牢な方法）
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onFundsReclaimed(signature, lamportsRecovered);
+    } catch (error) {
+      console.error("資金回収中にエラーが発生しました:", error);
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    onFundsReclaimed,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleReclaimFunds}
+      disabled={disabled || readOnly || isLoading || !taskAccountPDAString}
+      className="px-4 py-2 font-semibold text-white bg-orange-500 rounded hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("reclaimFunds.loading") : t("reclaimFunds.label")}
+    </button>
+  );
+};
+
+export default ReclaimTaskFundsButton;
+
+// --- 以下は呼び出し元コンポーネントでの使用例 (参考) ---
+/*
+import React, { useState, useMemo } from 'react';
+import ReclaimTaskFundsButton from './ReclaimTaskFundsButton'; // 作成したコンポーネントのパス
+// 既存のボタンの例から必要なimportを流用
+import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
+import { clusterApiUrl, LAMPORTS_PER_SOL, TransactionSignature } from '@solana/web3.js';
+
+require('@solana/wallet-adapter-react-ui/styles.css');
+
+const YourTaskListForReclaimingComponent: React.FC = () => {
+  const [selectedTaskPDA, setSelectedTaskPDA] = useState<string>(''); 
+  const [message, setMessage] = useState<string>('');
+  const [txSignature, setTxSignature] = useState<string>('');
+
+  const network = clusterApiUrl('devnet');
+  const wallets = useMemo(
+    () => [
+      new PhantomWalletAdapter(),
+      new SolflareWalletAdapter({ network }),
+    ],
+    [network]
+  );
+
+  const handleFundsSuccessfullyReclaimed = (signature: TransactionSignature, lamportsRecovered: number) => {
+    setMessage(`資金が正常に回収されました！ (${lamportsRecovered / LAMPORTS_PER_SOL} SOL)`);
+    setTxSignature(signature);
+    console.log('資金回収成功:', signature);
+  };
+
+  const handleReclaimingError = (error: any) => {
+    setMessage(`エラー: ${error.message}`);
+    setTxSignature('');
+    console.error('資金回収エラー:', error);
+  };
+
+  // ダミーデータ
+  const tasks = [
+    { id: '1', pda: 'TASK_PDA_ADDRESS_HERE_1', description: 'タスク1の説明 (期限切れまたは拒否済み)' },
+    // ... 他のタスク
+  ];
+
+  const handleSelectTask = (taskPda: string) => {
+    setSelectedTaskPDA(taskPda);
+  };
+
+  return (
+    <ConnectionProvider endpoint={network}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>
+          <div style={{ padding: '20px' }}>
+            <h2>タスク資金回収</h2>
+            <WalletMultiButton />
+
+            <div>
+              <h3>タスク一覧 (ダミー)</h3>
+              {tasks.map(task => (
+                <div key={task.id} style={{ border: '1px solid #ccc', margin: '10px', padding: '10px'}}>
+                  <p>{task.description}</p>
+                  <p>Task PDA: {task.pda}</p>
+                  <button onClick={() => handleSelectTask(task.pda)}>このタスクを選択</button>
+                </div>
+              ))}
+            </div>
+
+            {selectedTaskPDA && (
+              <div style={{marginTop: '20px'}}>
+                <h3>選択中のタスク: {selectedTaskPDA}</h3>
+                <ReclaimTaskFundsButton
+                  taskAccountPDAString={selectedTaskPDA}
+                  onFundsReclaimed={handleFundsSuccessfullyReclaimed}
+                  onError={handleReclaimingError}
+                />
+              </div>
+            )}
+
+            {message && <p style={{ marginTop: '10px', color: txSignature ? 'green' : 'red' }}>{message}</p>}
+            {txSignature && (
+              <p>
+                トランザクション署名: {' '}
+                <a
+                  href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  {txSignature}
+                </a>
+              </p>
+            )}
+          </div>
+        </WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+};
+
+// export default YourTaskListForReclaimingComponent;
+*/
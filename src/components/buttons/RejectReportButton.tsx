@@ -0,0 +1,96 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// RejectReportButtonコンポーネントのpropsの型定義
+interface RejectReportButtonProps {
+  taskAccountPDAString: string; // レポートが提出されたタスクアカウントのPDA文字列
+  reporter: PublicKey; // 拒否するレポートの報告者
+  onReportRejected: (signature: TransactionSignature) => void; // 拒否成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断 (canRejectReport など) でボタンを無効化する場合にtrue
+}
+
+/**
+ * 提出されたレポート1件だけを拒否するボタン。
+ * タスクはOpenのまま残り、空いた提出枠に別の報告者がレポートを提出できる。
+ */
+const RejectReportButton: React.FC<RejectReportButtonProps> = ({
+  taskAccountPDAString,
+  reporter,
+  onReportRejected,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は consigner_wallet として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  const handleRejectReport = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      // `rejectReport` 命令を呼び出し (レポートと報告者統計のPDAはクライアントが導出)
+      const signature = await client.rejectReport(taskAccountPDA, reporter);
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onReportRejected(signature);
+    } catch (error) {
+      console.error("レポートの拒否中にエラーが発生しました:", error);
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    reporter,
+    onReportRejected,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleRejectReport}
+      disabled={disabled || readOnly || isLoading || !taskAccountPDAString}
+      className="px-2 py-1 text-sm font-semibold text-white bg-orange-500 rounded hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("rejectReport.loading") : t("rejectReport.label")}
+    </button>
+  );
+};
+
+export default RejectReportButton;
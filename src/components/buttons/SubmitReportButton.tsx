@@ -0,0 +1,128 @@
+import React, { useState, useCallback } from "react";
+import { PublicKey, TransactionSignature } from "@solana/web3.js";
+import { WalletError } from "../../utils/errors";
+import {
+  hashVideoContent,
+  isValidMetadataUri,
+  MAX_METADATA_URI_LENGTH,
+} from "../../utils/report";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+
+// SubmitReportButtonコンポーネントのpropsの型定義
+interface SubmitReportButtonProps {
+  taskAccountPDAString: string; // レポートを提出するタスクアカウントのPDA文字列
+  videoFile: Blob | null; // 撮影した動画ファイル (SHA-256ハッシュのみをオンチェーンに記録)
+  metadataUri: string; // 動画・位置情報などのメタデータのURI
+  onReportSubmitted: (
+    signature: TransactionSignature,
+    reportAccount: PublicKey
+  ) => void; // レポート提出成功時のコールバック
+  onError: (error: any) => void; // エラー発生時のコールバック
+  disabled?: boolean; // 呼び出し元の判断でボタンを無効化する場合にtrue
+}
+
+const SubmitReportButton: React.FC<SubmitReportButtonProps> = ({
+  taskAccountPDAString,
+  videoFile,
+  metadataUri,
+  onReportSubmitted,
+  onError,
+  disabled = false,
+}) => {
+  const { client, publicKey, readOnly } = useSunpathProgram(); // publicKey は reporter として機能
+  const [isLoading, setIsLoading] = useState(false);
+  const { t, localizeError } = useI18n();
+
+  // レポート提出処理を実行する関数
+  const handleSubmitReport = useCallback(async () => {
+    if (readOnly || !publicKey) {
+      onError(new WalletError("notConnected", t("errors.walletNotConnected")));
+      return;
+    }
+
+    let taskAccountPDA: PublicKey;
+
+    try {
+      taskAccountPDA = new PublicKey(taskAccountPDAString);
+    } catch (e: any) {
+      onError(new Error(t("validation.invalidTaskPda", { detail: e.message })));
+      return;
+    }
+
+    if (!videoFile) {
+      onError(new Error(t("validation.videoRequired")));
+      return;
+    }
+    if (!isValidMetadataUri(metadataUri)) {
+      onError(
+        new Error(
+          t("validation.metadataUriTooLong", { max: MAX_METADATA_URI_LENGTH })
+        )
+      );
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const videoContentHash = await hashVideoContent(
+        await videoFile.arrayBuffer()
+      );
+
+      // `submitReport` 命令を呼び出し (ReportAccount PDAはクライアントが導出)
+      const { signature, reportAccount } = await client.submitReport({
+        taskAccount: taskAccountPDA,
+        videoContentHash,
+        metadataUri,
+      });
+
+      // トランザクションの確認を待つ
+      const confirmation = await client.provider.connection.confirmTransaction(
+        signature,
+        "finalized"
+      );
+
+      if (confirmation.value.err) {
+        throw new Error(
+          t("errors.transactionFailed", {
+            detail: JSON.stringify(confirmation.value.err),
+          })
+        );
+      }
+
+      onReportSubmitted(signature, reportAccount);
+    } catch (error) {
+      console.error("レポート提出中にエラーが発生しました:", error);
+      // Anchorのカスタムエラー番号などから型付きのエラーに変換し、表示言語のメッセージで通知
+      onError(localizeError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [
+    client,
+    publicKey,
+    readOnly,
+    taskAccountPDAString,
+    videoFile,
+    metadataUri,
+    onReportSubmitted,
+    onError,
+    t,
+    localizeError,
+  ]);
+
+  return (
+    <button
+      onClick={handleSubmitReport}
+      disabled={
+        disabled || readOnly || isLoading || !taskAccountPDAString || !videoFile
+      }
+      className="px-4 py-2 font-semibold text-white bg-indigo-500 rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {isLoading ? t("submitReport.loading") : t("submitReport.label")}
+    </button>
+  );
+};
+
+export default SubmitReportButton;
@@ -0,0 +1,49 @@
+import React from "react";
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useProgramConfig } from "../../hooks/useProgramConfig";
+import { useRewardMints } from "../../hooks/useRewardMints";
+import { calculateFeeBreakdown } from "../../utils/fees";
+import { formatReward } from "../../utils/rewards";
+
+interface FeeBreakdownProps {
+  rewardAmount: BN | null; // 報酬額 (lamports またはトークンの最小単位)。未入力・不正な値の場合はnull
+  rewardMint?: PublicKey | null; // SPLトークン報酬の場合のmint (省略時はSOL)
+}
+
+// 署名前に「報告者の受取額 / DAO手数料」を表示する
+const FeeBreakdown: React.FC<FeeBreakdownProps> = ({
+  rewardAmount,
+  rewardMint = null,
+}) => {
+  const { t } = useI18n();
+  const { config } = useProgramConfig();
+  // トークンのdecimalsはSPLトークン報酬の場合のみ必要
+  const { rewardMints } = useRewardMints(rewardMint !== null);
+
+  if (!config || !rewardAmount || rewardAmount.isNeg()) {
+    return null;
+  }
+
+  const { daoFee, reporterAmount } = calculateFeeBreakdown(
+    rewardAmount,
+    config.daoFeePercentage
+  );
+
+  const reporter = formatReward(reporterAmount, rewardMint, rewardMints);
+  const dao = formatReward(daoFee, rewardMint, rewardMints);
+
+  return (
+    <p className="text-sm text-gray-600">
+      {t("fees.breakdown", {
+        reporter: reporter.amount,
+        dao: dao.amount,
+        unit: reporter.unit,
+        percentage: config.daoFeePercentage,
+      })}
+    </p>
+  );
+};
+
+export default FeeBreakdown;
@@ -0,0 +1,31 @@
+import React from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useGovernanceTokenBalance } from "../../hooks/useGovernanceTokenBalance";
+import { formatTokenAmount } from "../../utils/format";
+
+interface GovernanceTokenBalanceProps {
+  owner?: PublicKey; // 省略時は接続中のウォレット
+}
+
+// 報告者のガバナンストークン残高を表示する
+const GovernanceTokenBalance: React.FC<GovernanceTokenBalanceProps> = ({
+  owner,
+}) => {
+  const { t } = useI18n();
+  const { balance, isLoading } = useGovernanceTokenBalance(owner);
+
+  if (!balance) {
+    return isLoading ? <span>{t("governanceToken.loading")}</span> : null;
+  }
+
+  return (
+    <span>
+      {t("governanceToken.balance", {
+        amount: formatTokenAmount(balance.amount, balance.decimals),
+      })}
+    </span>
+  );
+};
+
+export default GovernanceTokenBalance;
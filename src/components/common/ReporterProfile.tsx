@@ -0,0 +1,79 @@
+import React from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useI18n } from "../../i18n/I18nProvider";
+import { useReporterStats } from "../../hooks/useReporterStats";
+import { formatSol, shortenAddress } from "../../utils/format";
+import { approvalRate, formatApprovalRate } from "../../utils/reputation";
+
+interface ReporterProfileProps {
+  reporter?: PublicKey; // 省略時は接続中のウォレット
+  compact?: boolean; // trueの場合は承認率と件数のみを1行で表示する (レポート一覧用)
+}
+
+// 報告者の実績 (承認・拒否の件数、承認率、獲得したSOL、最終活動日時) を表示する
+const ReporterProfile: React.FC<ReporterProfileProps> = ({
+  reporter,
+  compact = false,
+}) => {
+  const { t } = useI18n();
+  const { stats, isLoading } = useReporterStats(reporter);
+
+  if (compact) {
+    if (!stats) {
+      return null;
+    }
+    const compactRate = approvalRate(stats);
+    return (
+      <span className="text-sm text-gray-600">
+        {t("reporterProfile.summary", {
+          rate: compactRate === null ? "-" : formatApprovalRate(compactRate),
+          approved: stats.approvedCount.toString(),
+          total: stats.approvedCount.add(stats.rejectedCount).toString(),
+        })}
+      </span>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <p className="text-gray-600">
+        {isLoading ? t("reporterProfile.loading") : t("reporterProfile.empty")}
+      </p>
+    );
+  }
+
+  const rate = approvalRate(stats);
+
+  return (
+    <div className="p-3 space-y-1 border rounded">
+      <p className="font-mono text-sm" title={stats.reporter.toBase58()}>
+        {t("reporterProfile.reporter", {
+          address: shortenAddress(stats.reporter.toBase58()),
+        })}
+      </p>
+      <p>
+        {t("reporterProfile.counts", {
+          approved: stats.approvedCount.toString(),
+          rejected: stats.rejectedCount.toString(),
+        })}
+      </p>
+      <p>
+        {t("reporterProfile.approvalRate", {
+          rate: rate === null ? "-" : formatApprovalRate(rate),
+        })}
+      </p>
+      <p>
+        {t("reporterProfile.totalEarned", {
+          amount: formatSol(stats.totalEarned),
+        })}
+      </p>
+      <p className="text-sm text-gray-600">
+        {t("reporterProfile.lastActivity", {
+          date: new Date(stats.lastActivity.toNumber() * 1000).toLocaleString(),
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default ReporterProfile;
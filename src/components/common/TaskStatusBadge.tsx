@@ -0,0 +1,33 @@
+import React from "react";
+import { TaskStatus } from "../../types/program";
+import { TaskStatusName, taskStatusName } from "../../utils/tasks";
+import { useI18n } from "../../i18n/I18nProvider";
+
+// ステータスごとのバッジの色 (Tailwind CSS)
+const STATUS_CLASSES: Record<TaskStatusName, string> = {
+  open: "bg-blue-100 text-blue-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+  reclaimed: "bg-orange-100 text-orange-800",
+  disputed: "bg-purple-100 text-purple-800",
+};
+
+interface TaskStatusBadgeProps {
+  status: TaskStatus; // オンチェーンのTaskStatus (例: { open: {} })
+}
+
+const TaskStatusBadge: React.FC<TaskStatusBadgeProps> = ({ status }) => {
+  const { t } = useI18n();
+  const name = taskStatusName(status);
+
+  return (
+    <span
+      className={`inline-block px-2 py-1 text-xs font-semibold rounded ${STATUS_CLASSES[name]}`}
+    >
+      {t(`status.${name}`)}
+    </span>
+  );
+};
+
+export default TaskStatusBadge;
@@ -0,0 +1,313 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ProgramAccount } from "@coral-xyz/anchor";
+import { TransactionSignature } from "@solana/web3.js";
+import AcceptTaskButton from "../buttons/AcceptTaskButton";
+import AcceptReportsButton from "../buttons/AcceptReportsButton";
+import RejectTaskButton from "../buttons/RejectTaskButton";
+import RejectReportButton from "../buttons/RejectReportButton";
+import ReclaimTaskFundsButton from "../buttons/ReclaimTaskFundsButton";
+import CloseTaskButton from "../buttons/CloseTaskButton";
+import TaskStatusBadge from "../common/TaskStatusBadge";
+import { useSunpathProgram } from "../../hooks/useSunpathProgram";
+import { useTasks } from "../../hooks/useTasks";
+import { useTaskEvents } from "../../hooks/useTaskEvents";
+import { useNow } from "../../hooks/useNow";
+import { useProgramConfig } from "../../hooks/useProgramConfig";
+import { useRewardMints } from "../../hooks/useRewardMints";
+import { useI18n } from "../../i18n/I18nProvider";
+import { ProgramConfig, ReportAccount, TaskAccount } from "../../types/program";
+import {
+  canAccept,
+  canAcceptReports,
+  canClose,
+  canReclaim,
+  canReject,
+  canRejectReport,
+  reclaimAvailableAt,
+} from "../../utils/taskRules";
+import { formatCountdown, formatSol, shortenAddress } from "../../utils/format";
+import { taskStatusName } from "../../utils/tasks";
+import { toHex } from "../../utils/report";
+import { formatReward, RewardMintInfo } from "../../utils/rewards";
+
+// TaskDashboardコンポーネントのpropsの型定義
+interface TaskDashboardProps {
+  pageSize?: number; // 1ページに表示するタスク数
+  onError: (error: any) => void; // エラー発生時のコールバック
+}
+
+interface TaskRowProps {
+  task: ProgramAccount<TaskAccount>;
+  config: ProgramConfig | null;
+  rewardMints: RewardMintInfo[];
+  now: number;
+  onActionCompleted: (
+    signature: TransactionSignature,
+    lamportsRecovered?: number
+  ) => void;
+  onError: (error: any) => void;
+}
+
+// タスク1件分の行。操作ボタンは lib.rs の条件を満たす場合のみ有効になる
+const TaskRow: React.FC<TaskRowProps> = ({
+  task,
+  config,
+  rewardMints,
+  now,
+  onActionCompleted,
+  onError,
+}) => {
+  const { client } = useSunpathProgram();
+  const { t } = useI18n();
+  const [report, setReport] = useState<ReportAccount | null>(null);
+  const { account, publicKey } = task;
+  const taskAccountPDAString = publicKey.toBase58();
+  const secondsLeft = account.expirationTimestamp.toNumber() - now;
+  const reclaimAt = config ? reclaimAvailableAt(account, config) : null;
+  const isOpen = taskStatusName(account.status) === "open";
+  const reward = formatReward(
+    account.rewardAmountLocked,
+    account.rewardMint,
+    rewardMints
+  );
+
+  // 承認前に確認できるよう、提出済みのレポートを取得する
+  useEffect(() => {
+    let cancelled = false;
+    client
+      .fetchReportForTask(account)
+      .then((fetched) => {
+        if (!cancelled) {
+          setReport(fetched);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setReport(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, account]);
+
+  return (
+    <tr className="border-t">
+      <td className="px-2 py-2 font-mono" title={taskAccountPDAString}>
+        <div>{account.taskId.toString()}</div>
+        <div className="text-xs text-gray-500">
+          {shortenAddress(taskAccountPDAString)}
+        </div>
+      </td>
+      <td className="px-2 py-2">
+        <TaskStatusBadge status={account.status} />
+      </td>
+      <td className="px-2 py-2">
+        {t("dashboard.reward", { amount: reward.amount, unit: reward.unit })}
+      </td>
+      <td className="px-2 py-2 font-mono">
+        {isOpen && secondsLeft >= 0
+          ? formatCountdown(secondsLeft)
+          : isOpen
+          ? t("dashboard.expired")
+          : reclaimAt && reclaimAt.toNumber() > now
+          ? t("dashboard.reclaimIn", {
+              time: formatCountdown(reclaimAt.toNumber() - now),
+            })
+          : "-"}
+      </td>
+      <td className="px-2 py-2 text-sm">
+        {report ? (
+          <div title={toHex(report.videoContentHash)}>
+            <div className="font-mono">
+              {shortenAddress(report.reporter.toBase58())}
+            </div>
+            <a
+              href={report.metadataUri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 underline"
+            >
+              {t("dashboard.viewReport")}
+            </a>
+            {/* 1件だけ拒否して提出枠を空ける (タスクはOpenのまま) */}
+            <RejectReportButton
+              taskAccountPDAString={taskAccountPDAString}
+              reporter={report.reporter}
+              onReportRejected={onActionCompleted}
+              onError={onError}
+              disabled={!canRejectReport(account, now)}
+            />
+          </div>
+        ) : (
+          <span className="text-gray-500">{t("dashboard.noReport")}</span>
+        )}
+      </td>
+      <td className="px-2 py-2 space-x-2 space-y-2">
+        {account.maxReporters > 1 && account.rewardMint === null ? (
+          <AcceptReportsButton
+            taskAccountPDAString={taskAccountPDAString}
+            onReportsAccepted={onActionCompleted}
+            onError={onError}
+            disabled={!canAcceptReports(account, now)}
+          />
+        ) : (
+          <AcceptTaskButton
+            taskAccountPDAString={taskAccountPDAString}
+            onTaskAccepted={onActionCompleted}
+            onError={onError}
+            disabled={!canAccept(account, now)}
+          />
+        )}
+        <RejectTaskButton
+          taskAccountPDAString={taskAccountPDAString}
+          onTaskRejected={onActionCompleted}
+          onError={onError}
+          disabled={!canReject(account, now)}
+        />
+        <ReclaimTaskFundsButton
+          taskAccountPDAString={taskAccountPDAString}
+          onFundsReclaimed={onActionCompleted}
+          onError={onError}
+          disabled={!config || !canReclaim(account, config, now)}
+        />
+        {canClose(account) && (
+          <CloseTaskButton
+            taskAccountPDAString={taskAccountPDAString}
+            onTaskClosed={onActionCompleted}
+            onError={onError}
+          />
+        )}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * 接続中のウォレットが作成したタスクの一覧。
+ * ステータス、報酬、期限までのカウントダウンを表示し、承認・拒否・資金回収をその場で実行できる。
+ */
+const TaskDashboard: React.FC<TaskDashboardProps> = ({
+  pageSize = 10,
+  onError,
+}) => {
+  const { publicKey, readOnly } = useSunpathProgram();
+  const { t, localizeError } = useI18n();
+  const now = useNow();
+  const [page, setPage] = useState(0);
+  // 資金回収の可否判定に denial_penalty_duration が必要
+  const { config, error: configError } = useProgramConfig();
+  // SPLトークン報酬の表示に各mintのdecimalsが必要
+  const { rewardMints } = useRewardMints();
+  const [message, setMessage] = useState("");
+  const { tasks, total, isLoading, error, refresh } = useTasks({
+    consigner: publicKey ?? undefined,
+    page,
+    pageSize,
+  });
+  // 自分のタスクの作成・承認・拒否・回収を検知したら一覧を再取得する
+  useTaskEvents({
+    consigner: publicKey ?? undefined,
+    enabled: !!publicKey,
+    onEvent: () => {
+      refresh();
+    },
+  });
+
+  useEffect(() => {
+    const firstError = error ?? configError;
+    if (firstError) {
+      onError(localizeError(firstError));
+    }
+  }, [error, configError, onError, localizeError]);
+
+  const handleActionCompleted = useCallback(
+    (signature: TransactionSignature, lamportsRecovered?: number) => {
+      setMessage(
+        lamportsRecovered === undefined
+          ? t("dashboard.actionSucceeded", { signature })
+          : t("dashboard.lamportsRecovered", {
+              amount: formatSol(lamportsRecovered),
+              signature,
+            })
+      );
+      refresh();
+    },
+    [refresh, t]
+  );
+
+  if (readOnly || !publicKey) {
+    return <p>{t("dashboard.connectWallet")}</p>;
+  }
+
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">{t("dashboard.title")}</h2>
+        <button
+          onClick={refresh}
+          disabled={isLoading}
+          className="px-3 py-1 border rounded disabled:opacity-50"
+        >
+          {t("dashboard.refresh")}
+        </button>
+      </div>
+
+      {message && <p className="text-green-700 break-all">{message}</p>}
+
+      {isLoading && tasks.length === 0 ? (
+        <p>{t("dashboard.loading")}</p>
+      ) : tasks.length === 0 ? (
+        <p>{t("dashboard.empty")}</p>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="px-2">{t("dashboard.column.taskId")}</th>
+              <th className="px-2">{t("dashboard.column.status")}</th>
+              <th className="px-2">{t("dashboard.column.reward")}</th>
+              <th className="px-2">{t("dashboard.column.expiresIn")}</th>
+              <th className="px-2">{t("dashboard.column.report")}</th>
+              <th className="px-2">{t("dashboard.column.actions")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tasks.map((task) => (
+              <TaskRow
+                key={task.publicKey.toBase58()}
+                task={task}
+                config={config}
+                rewardMints={rewardMints}
+                now={now}
+                onActionCompleted={handleActionCompleted}
+                onError={onError}
+              />
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => setPage((current) => current - 1)}
+          disabled={page === 0}
+          className="px-3 py-1 border rounded disabled:opacity-50"
+        >
+          {t("dashboard.previousPage")}
+        </button>
+        <span>{t("dashboard.pageInfo", { page: page + 1, pages, total })}</span>
+        <button
+          onClick={() => setPage((current) => current + 1)}
+          disabled={page + 1 >= pages}
+          className="px-3 py-1 border rounded disabled:opacity-50"
+        >
+          {t("dashboard.nextPage")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskDashboard;
@@ -0,0 +1,138 @@
+import { PublicKey } from "@solana/web3.js";
+import BN from "bn.js";
+import {
+  ADMIN_COUNTER_SEED,
+  CONFIG_SEED,
+  DISPUTE_SEED,
+  GOVERNANCE_MINT_AUTHORITY_SEED,
+  PROGRAM_ID,
+  REPORT_SEED,
+  REPORTER_STATS_SEED,
+  REWARD_MINT_SEED,
+  TASK_ACCOUNT_SEED,
+  TASK_COUNTER_SEED,
+  TASK_LOCATION_SEED,
+  TASK_VAULT_SEED,
+} from "./program";
+
+// [PDA, bump] の組 (PublicKey.findProgramAddressSync と同じ形式)
+export type PdaWithBump = [PublicKey, number];
+
+// findProgramAddressSync は最大255回のハッシュ計算を行うため、結果をキャッシュする
+const pdaCache = new Map<string, PdaWithBump>();
+
+const findPda = (seeds: Buffer[], programId: PublicKey): PdaWithBump => {
+  const cacheKey = [
+    programId.toBase58(),
+    ...seeds.map((seed) => seed.toString("hex")),
+  ].join(":");
+  const cached = pdaCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  const pda = PublicKey.findProgramAddressSync(seeds, programId);
+  pdaCache.set(cacheKey, pda);
+  return pda;
+};
+
+// task_id (u64) をリトルエンディアン8バイトに変換 (Rustの to_le_bytes と同じ)
+export const taskIdToSeed = (taskId: BN | number | bigint | string): Buffer =>
+  (BN.isBN(taskId) ? taskId : new BN(taskId.toString())).toArrayLike(
+    Buffer,
+    "le",
+    8
+  );
+
+// seeds: [b"task_account", consigner.key().as_ref(), &task_id.to_le_bytes()]
+export const findTaskPda = (
+  consigner: PublicKey,
+  taskId: BN | number | bigint | string,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda(
+    [
+      Buffer.from(TASK_ACCOUNT_SEED),
+      consigner.toBuffer(),
+      taskIdToSeed(taskId),
+    ],
+    programId
+  );
+
+// seeds: [b"config_v2"]
+export const findConfigPda = (programId: PublicKey = PROGRAM_ID): PdaWithBump =>
+  findPda([Buffer.from(CONFIG_SEED)], programId);
+
+// seeds: [b"admin_counter", consigner_wallet.key().as_ref()]
+export const findAdminCounterPda = (
+  consigner: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(ADMIN_COUNTER_SEED), consigner.toBuffer()], programId);
+
+// seeds: [b"task_counter", consigner.key().as_ref()]
+export const findTaskCounterPda = (
+  consigner: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(TASK_COUNTER_SEED), consigner.toBuffer()], programId);
+
+// seeds: [b"report", task_account.key().as_ref(), reporter.key().as_ref()]
+export const findReportPda = (
+  taskAccount: PublicKey,
+  reporter: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda(
+    [Buffer.from(REPORT_SEED), taskAccount.toBuffer(), reporter.toBuffer()],
+    programId
+  );
+
+// seeds: [b"governance_mint_authority"]
+// ガバナンストークンのmint authorityはこのPDAに設定しておく必要がある
+export const findGovernanceMintAuthorityPda = (
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(GOVERNANCE_MINT_AUTHORITY_SEED)], programId);
+
+// seeds: [b"task_vault", task_account.key().as_ref()]
+// SPLトークン報酬のタスクで報酬をエスクローするトークンアカウント
+export const findTaskVaultPda = (
+  taskAccount: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(TASK_VAULT_SEED), taskAccount.toBuffer()], programId);
+
+// seeds: [b"reward_mint", mint.key().as_ref()]
+export const findRewardMintConfigPda = (
+  mint: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(REWARD_MINT_SEED), mint.toBuffer()], programId);
+
+// seeds: [b"task_location", task_account.key().as_ref()]
+export const findTaskLocationPda = (
+  taskAccount: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(TASK_LOCATION_SEED), taskAccount.toBuffer()], programId);
+
+// seeds: [b"reporter_stats", reporter.key().as_ref()]
+// 報告者ごとの実績 (最初のレポート提出時に作成される)
+export const findReporterStatsPda = (
+  reporter: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(REPORTER_STATS_SEED), reporter.toBuffer()], programId);
+
+// seeds: [b"dispute", task_account.key().as_ref()]
+// 却下されたタスクへの異議申し立て (タスクごとに1件)
+export const findDisputePda = (
+  taskAccount: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): PdaWithBump =>
+  findPda([Buffer.from(DISPUTE_SEED), taskAccount.toBuffer()], programId);
+
+// テスト用: キャッシュを破棄する
+export const clearPdaCache = (): void => {
+  pdaCache.clear();
+};
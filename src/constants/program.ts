@@ -3,3 +3,16 @@ import { PublicKey } from "@solana/web3.js";
 export const PROGRAM_ID = new PublicKey(
   "Drr2eM6yoGXL2QZHdaFzXzUDDPQarV8acbbYWTBAtNyE"
 );
+
+// programs/sunpath/src/lib.rs の #[account(seeds = ...)] と同じ値
+export const TASK_ACCOUNT_SEED = "task_account";
+export const CONFIG_SEED = "config_v2";
+export const ADMIN_COUNTER_SEED = "admin_counter";
+export const TASK_COUNTER_SEED = "task_counter";
+export const REPORT_SEED = "report";
+export const GOVERNANCE_MINT_AUTHORITY_SEED = "governance_mint_authority";
+export const TASK_VAULT_SEED = "task_vault";
+export const REWARD_MINT_SEED = "reward_mint";
+export const TASK_LOCATION_SEED = "task_location";
+export const DISPUTE_SEED = "dispute";
+export const REPORTER_STATS_SEED = "reporter_stats";
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { TokenBalance } from "../../client/client";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export interface UseGovernanceTokenBalanceResult {
+  balance: TokenBalance | null;
+  isLoading: boolean;
+  error: DecodedSunpathError | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 報告者 (既定では接続中のウォレット) のガバナンストークン残高を取得するフック。
+ * claim_governance_reward の実行後は refresh を呼び出して再取得する。
+ */
+export const useGovernanceTokenBalance = (
+  owner?: PublicKey
+): UseGovernanceTokenBalanceResult => {
+  const { client, publicKey } = useSunpathProgram();
+  const [balance, setBalance] = useState<TokenBalance | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<DecodedSunpathError | null>(null);
+
+  const target = owner ?? publicKey;
+  const targetKey = target?.toBase58();
+
+  const refresh = useCallback(async () => {
+    if (!target) {
+      setBalance(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setBalance(await client.fetchGovernanceTokenBalance(target));
+      setError(null);
+    } catch (e) {
+      setError(decodeSunpathError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, targetKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { balance, isLoading, error, refresh };
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { nowInSeconds } from "../utils/taskRules";
+
+// 一定間隔で更新される現在時刻 (Unix秒)。カウントダウン表示に使う
+export const useNow = (intervalMs = 1000): number => {
+  const [now, setNow] = useState(nowInSeconds);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowInSeconds()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
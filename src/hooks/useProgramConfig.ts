@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { ProgramConfig } from "../types/program";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export interface UseProgramConfigResult {
+  config: ProgramConfig | null;
+  isLoading: boolean;
+  error: DecodedSunpathError | null;
+  refresh: () => Promise<void>;
+}
+
+// ProgramConfig (手数料率、ペナルティ期間など) を取得するフック
+export const useProgramConfig = (): UseProgramConfigResult => {
+  const { client } = useSunpathProgram();
+  const [config, setConfig] = useState<ProgramConfig | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<DecodedSunpathError | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setConfig(await client.fetchConfig());
+      setError(null);
+    } catch (e) {
+      setError(decodeSunpathError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { config, isLoading, error, refresh };
+};
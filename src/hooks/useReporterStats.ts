@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { ReporterStats } from "../types/program";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export interface UseReporterStatsResult {
+  stats: ReporterStats | null; // レポートを提出したことがない場合はnull
+  isLoading: boolean;
+  error: DecodedSunpathError | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 報告者 (既定では接続中のウォレット) の ReporterStats を取得するフック。
+ * consignerがレポートを判断する際や、報告者が自分の実績を表示する際に使う。
+ */
+export const useReporterStats = (
+  reporter?: PublicKey
+): UseReporterStatsResult => {
+  const { client, publicKey } = useSunpathProgram();
+  const [stats, setStats] = useState<ReporterStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<DecodedSunpathError | null>(null);
+
+  const target = reporter ?? publicKey;
+  const targetKey = target?.toBase58();
+
+  const refresh = useCallback(async () => {
+    if (!target) {
+      setStats(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setStats(await client.fetchReporterStats(target));
+      setError(null);
+    } catch (e) {
+      setError(decodeSunpathError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, targetKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { stats, isLoading, error, refresh };
+};
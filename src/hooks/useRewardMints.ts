@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { RewardMintInfo } from "../utils/rewards";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export interface UseRewardMintsResult {
+  rewardMints: RewardMintInfo[];
+  isLoading: boolean;
+  error: DecodedSunpathError | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * タスクの報酬に使える (set_reward_mint で有効化された) SPLトークンの一覧を取得するフック。
+ * enabled が false の間は取得しない (SOL報酬のみを扱う画面で不要なRPC呼び出しを避ける)。
+ */
+export const useRewardMints = (enabled = true): UseRewardMintsResult => {
+  const { client } = useSunpathProgram();
+  const [rewardMints, setRewardMints] = useState<RewardMintInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<DecodedSunpathError | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) {
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setRewardMints(await client.listRewardMints());
+      setError(null);
+    } catch (e) {
+      setError(decodeSunpathError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rewardMints, isLoading, error, refresh };
+};
@@ -1,25 +1,11 @@
-import { useCallback } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { AnchorProvider } from "@coral-xyz/anchor";
-import { PROGRAM_ID } from "../constants/program";
+import { useSunpathProgram } from "./useSunpathProgram";
 
+// 後方互換のためのフック。新しいコードでは useSunpathProgram を使用する
 export const useSolanaProgram = () => {
-  const { connection } = useConnection();
-  const { publicKey, signTransaction } = useWallet();
-
-  const getProvider = useCallback(() => {
-    if (!publicKey || !signTransaction) {
-      return null;
-    }
-    return new AnchorProvider(
-      connection,
-      { publicKey, signTransaction } as any,
-      { preflightCommitment: "confirmed" }
-    );
-  }, [publicKey, signTransaction, connection]);
+  const { provider, publicKey, connection, readOnly } = useSunpathProgram();
 
   return {
-    provider: getProvider(),
+    provider: readOnly ? null : provider,
     publicKey,
     connection,
   };
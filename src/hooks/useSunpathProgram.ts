@@ -0,0 +1,119 @@
+import { createContext, useContext, useMemo } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { AnchorProvider, Wallet } from "@coral-xyz/anchor";
+import { Connection, PublicKey, Transaction } from "@solana/web3.js";
+import { SunpathClient } from "../../client/client";
+import { SunpathProgram } from "../types/program";
+import { WalletError } from "../utils/errors";
+
+export type WalletConnectionState =
+  | "connected"
+  | "connecting"
+  | "disconnecting"
+  | "disconnected";
+
+export interface UseSunpathProgramResult {
+  program: SunpathProgram;
+  client: SunpathClient;
+  provider: AnchorProvider;
+  connection: Connection;
+  publicKey: PublicKey | null;
+  connectionState: WalletConnectionState;
+  // ウォレット未接続時はtrue (アカウントの取得のみ可能で、署名はできない)
+  readOnly: boolean;
+}
+
+const rejectUnsigned = (): Promise<never> =>
+  Promise.reject(
+    new WalletError("notConnected", "Wallet is not connected (read-only mode).")
+  );
+
+// ウォレット未接続時に使う署名不可のウォレット
+const readOnlyWallet: Wallet = {
+  publicKey: PublicKey.default,
+  signTransaction: rejectUnsigned,
+  signAllTransactions: rejectUnsigned,
+} as unknown as Wallet;
+
+/**
+ * useSunpathProgram が使うクライアントを差し替えるためのContext。
+ * テストでは client/mock.ts の MockSunpathClient を渡し、ウォレットやRPCなしでコンポーネントを動かす。
+ */
+export const SunpathClientContext = createContext<SunpathClient | null>(null);
+
+/**
+ * 接続中のウォレットからSunpathプログラムを構築して返すフック。
+ * ウォレットが未接続の場合も読み取り専用のProgramを返すため、アカウントの取得は常に行える。
+ */
+export const useSunpathProgram = (): UseSunpathProgramResult => {
+  const override = useContext(SunpathClientContext);
+  const { connection } = useConnection();
+  const {
+    publicKey,
+    signTransaction,
+    signAllTransactions,
+    connected,
+    connecting,
+    disconnecting,
+  } = useWallet();
+
+  const readOnly = !publicKey || !signTransaction || !signAllTransactions;
+
+  const client = useMemo(() => {
+    if (override) {
+      return override;
+    }
+    // wallet-adapterの署名関数をAnchorのWalletインターフェースに合わせる
+    const wallet: Wallet = readOnly
+      ? readOnlyWallet
+      : ({
+          publicKey,
+          signTransaction: (tx: Transaction) => signTransaction!(tx),
+          signAllTransactions: (txs: Transaction[]) =>
+            signAllTransactions!(txs),
+        } as unknown as Wallet);
+    const provider = new AnchorProvider(connection, wallet, {
+      preflightCommitment: "confirmed",
+      commitment: "confirmed",
+    });
+    return SunpathClient.fromProvider(provider);
+  }, [
+    override,
+    connection,
+    publicKey,
+    signTransaction,
+    signAllTransactions,
+    readOnly,
+  ]);
+
+  // 差し替えたクライアントは常にそのウォレットで署名できるものとして扱う
+  if (override) {
+    return {
+      program: client.program,
+      client,
+      provider: client.provider,
+      connection: client.provider.connection,
+      publicKey: client.walletPublicKey,
+      connectionState: "connected",
+      readOnly: false,
+    };
+  }
+
+  const connectionState: WalletConnectionState = connecting
+    ? "connecting"
+    : disconnecting
+    ? "disconnecting"
+    : connected && !readOnly
+    ? "connected"
+    : "disconnected";
+
+  return {
+    program: client.program,
+    client,
+    provider: client.provider,
+    connection,
+    publicKey: readOnly ? null : publicKey,
+    connectionState,
+    readOnly,
+  };
+};
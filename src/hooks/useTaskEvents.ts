@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { TaskEvent, TaskEventName } from "../utils/events";
+
+// 保持するイベントの最大件数 (古いものから捨てる)
+const DEFAULT_MAX_EVENTS = 50;
+
+export interface UseTaskEventsOptions {
+  task?: PublicKey; // 特定のタスクのイベントのみ
+  consigner?: PublicKey; // 特定のconsignerのタスクのイベントのみ
+  names?: TaskEventName[]; // 省略時はすべてのイベント
+  onEvent?: (event: TaskEvent) => void; // イベント受信時のコールバック (一覧の再取得など)
+  maxEvents?: number;
+  enabled?: boolean; // falseの間は購読しない (既定: true)
+}
+
+export interface UseTaskEventsResult {
+  events: TaskEvent[]; // 受信したイベント (新しい順)
+  lastEvent: TaskEvent | null;
+}
+
+/**
+ * プログラムが emit! するタスクのイベントを購読するフック。
+ * アンマウント時、または条件が変わった時に購読を解除する。
+ */
+export const useTaskEvents = (
+  options: UseTaskEventsOptions = {}
+): UseTaskEventsResult => {
+  const { client } = useSunpathProgram();
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+
+  const {
+    task,
+    consigner,
+    names,
+    maxEvents = DEFAULT_MAX_EVENTS,
+    enabled = true,
+  } = options;
+  const taskKey = task?.toBase58();
+  const consignerKey = consigner?.toBase58();
+  const namesKey = names?.join(",");
+
+  // コールバックは購読し直さずに最新のものを呼び出す
+  const onEventRef = useRef(options.onEvent);
+  onEventRef.current = options.onEvent;
+
+  useEffect(() => {
+    setEvents([]);
+    if (!enabled) {
+      return;
+    }
+    const unsubscribe = client.onTaskEvent(
+      (event) => {
+        setEvents((current) => [event, ...current].slice(0, maxEvents));
+        onEventRef.current?.(event);
+      },
+      { task, consigner, names }
+    );
+    return () => {
+      unsubscribe().catch((e) =>
+        console.error("イベントの購読解除に失敗しました:", e)
+      );
+    };
+  }, [client, taskKey, consignerKey, namesKey, maxEvents, enabled]);
+
+  return { events, lastEvent: events[0] ?? null };
+};
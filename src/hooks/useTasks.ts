@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from "react";
+import { ProgramAccount } from "@coral-xyz/anchor";
+import { useSunpathProgram } from "./useSunpathProgram";
+import { TaskAccount } from "../types/program";
+import { ListTasksOptions } from "../utils/tasks";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export interface UseTasksResult {
+  tasks: ProgramAccount<TaskAccount>[];
+  total: number; // フィルター条件に一致する全件数
+  isLoading: boolean;
+  error: DecodedSunpathError | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 条件に一致するタスクの一覧を取得するフック。
+ * ダッシュボードなどで consigner・status・assignedReporter による絞り込みと
+ * expiration_timestamp 順のページングに利用する。
+ */
+export const useTasks = (options: ListTasksOptions = {}): UseTasksResult => {
+  const { client } = useSunpathProgram();
+  const [tasks, setTasks] = useState<ProgramAccount<TaskAccount>[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<DecodedSunpathError | null>(null);
+
+  // optionsはレンダーごとに新しいオブジェクトになるため、値で比較する
+  const { consigner, status, assignedReporter, sortOrder, page, pageSize } =
+    options;
+  const consignerKey = consigner?.toBase58();
+  const reporterKey = assignedReporter?.toBase58();
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await client.listTasks({
+        consigner,
+        status,
+        assignedReporter,
+        sortOrder,
+        page,
+        pageSize,
+      });
+      setTasks(result.tasks);
+      setTotal(result.total);
+      setError(null);
+    } catch (e) {
+      setError(decodeSunpathError(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, consignerKey, status, reporterKey, sortOrder, page, pageSize]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tasks, total, isLoading, error, refresh };
+};
@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useMemo, useState } from "react";
+import { MessageKey } from "./messages/ja";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  localizeError,
+  translate,
+  TranslateParams,
+} from "./translate";
+import { DecodedSunpathError } from "../utils/errors";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: TranslateParams) => string;
+  localizeError: (error: unknown) => DecodedSunpathError;
+}
+
+const createValue = (
+  locale: Locale,
+  setLocale: (locale: Locale) => void
+): I18nContextValue => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  localizeError: (error) => localizeError(locale, error),
+});
+
+// Providerの外で使われた場合は既定の言語 (日本語) で表示する
+const I18nContext = createContext<I18nContextValue>(
+  createValue(DEFAULT_LOCALE, () => undefined)
+);
+
+interface I18nProviderProps {
+  initialLocale?: Locale; // 初期表示の言語 (省略時は日本語)
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({
+  initialLocale = DEFAULT_LOCALE,
+  children,
+}) => {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  const value = useMemo(() => createValue(locale, setLocale), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
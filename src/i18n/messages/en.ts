@@ -0,0 +1,250 @@
+import { Messages } from "./ja";
+
+// English message catalog
+export const en: Messages = {
+  // Buttons
+  "createTask.label": "Create task",
+  "createTask.loading": "Creating task...",
+  "acceptTask.label": "Accept task",
+  "acceptTask.loading": "Accepting...",
+  "acceptReports.label": "Accept selected reports",
+  "acceptReports.loading": "Accepting...",
+  "acceptReports.splitMode": "Reward split",
+  "acceptReports.equal": "Equal shares",
+  "acceptReports.weighted": "Weighted by coverage",
+  "acceptReports.weight": "Weight",
+  "acceptReports.share": "{amount} SOL",
+  "acceptReports.noReports": "No reports yet",
+  "rejectTask.label": "Reject task",
+  "rejectTask.loading": "Rejecting...",
+  "rejectReport.label": "Reject report",
+  "rejectReport.loading": "Rejecting report...",
+  "reclaimFunds.label": "Reclaim funds",
+  "reclaimFunds.loading": "Reclaiming funds...",
+  "closeTask.label": "Close task",
+  "closeTask.loading": "Closing...",
+  "submitReport.label": "Submit report",
+  "submitReport.loading": "Submitting report...",
+  "claimGovernanceReward.label": "Claim governance tokens",
+  "claimGovernanceReward.loading": "Claiming...",
+  "openDispute.label": "Dispute rejection",
+  "openDispute.loading": "Opening dispute...",
+  "closeDispute.label": "Close dispute",
+  "closeDispute.loading": "Closing dispute...",
+
+  // Input validation
+  "validation.invalidNumber": "Could not parse the input: {detail}",
+  "validation.notANumber": "Invalid number.",
+  "validation.positiveNumbers":
+    "Task ID, reward and duration must be positive numbers.",
+  "validation.rewardZero": "The reward must be greater than 0.",
+  "validation.durationZero": "The duration must be greater than 0.",
+  "validation.invalidPublicKey": "Invalid public key: {detail}",
+  "validation.invalidTaskPda": "Invalid task account PDA: {detail}",
+  "validation.noReportsSelected": "Select at least one report.",
+  "validation.invalidGeoJson": "Invalid road GeoJSON: {detail}",
+  "validation.invalidWeight": "Weights must be positive integers.",
+  "validation.tokenSingleReporter":
+    "Token rewards can only be paid to a single reporter.",
+  "validation.videoRequired": "Select a video file.",
+  "validation.metadataUriTooLong":
+    "The metadata URI must be at most {max} bytes.",
+
+  // Governance token
+  "governanceToken.balance": "Governance token balance: {amount}",
+  "governanceToken.loading": "Loading balance...",
+
+  // Reporter track record
+  "reporterProfile.loading": "Loading track record...",
+  "reporterProfile.empty": "No reports submitted yet.",
+  "reporterProfile.reporter": "Reporter: {address}",
+  "reporterProfile.counts": "{approved} approved / {rejected} rejected",
+  "reporterProfile.approvalRate": "Approval rate: {rate}",
+  "reporterProfile.totalEarned": "Total earned: {amount} SOL",
+  "reporterProfile.lastActivity": "Last activity: {date}",
+  "reporterProfile.summary": "{rate} approved ({approved}/{total})",
+
+  // Admin config panel
+  "admin.title": "Program settings",
+  "admin.loading": "Loading settings...",
+  "admin.notAdmin": "The connected wallet is not the admin.",
+  "admin.currentAdmin": "Admin: {address}",
+  "admin.field.daoTreasuryAddress": "DAO treasury address",
+  "admin.field.governanceTokenMint": "Governance token mint",
+  "admin.field.minimumRewardAmount": "Minimum reward (lamports)",
+  "admin.field.daoFeePercentage": "DAO fee (%)",
+  "admin.field.denialPenaltyDuration": "Denial penalty duration (seconds)",
+  "admin.field.patrollerGovernanceTokenAmount":
+    "Governance token reward per report (base units)",
+  "admin.save": "Save settings",
+  "admin.saving": "Saving...",
+  "admin.noChanges": "Nothing has changed.",
+  "admin.saved": "Settings updated: {signature}",
+  "admin.validation.invalidAddress": "Enter a valid public key.",
+  "admin.validation.invalidAmount": "Enter a whole number of 0 or more.",
+  "admin.validation.invalidPercentage": "Enter a whole number from 0 to 100.",
+  "admin.validation.invalidDuration": "Enter a number of seconds of 0 or more.",
+  "admin.transfer.title": "Transfer admin",
+  "admin.transfer.pending": "Pending admin: {address}",
+  "admin.transfer.newAdmin": "New admin address",
+  "admin.transfer.propose": "Propose transfer",
+  "admin.transfer.cancel": "Cancel transfer",
+  "admin.transfer.accept": "Accept admin role",
+  "admin.transfer.proposed": "Transfer proposed: {signature}",
+  "admin.transfer.cancelled": "Transfer cancelled: {signature}",
+  "admin.transfer.accepted": "Admin role accepted: {signature}",
+
+  // Dispute arbitration panel
+  "disputes.title": "Disputes",
+  "disputes.loading": "Loading disputes...",
+  "disputes.empty": "There are no open disputes.",
+  "disputes.task": "Task: {address}",
+  "disputes.reporter": "Reporter: {address}",
+  "disputes.viewReason": "View dispute reason",
+  "disputes.payReporter": "Pay the reporter",
+  "disputes.releaseToConsigner": "Release funds to the consigner",
+  "disputes.resolved": "Dispute resolved: {signature}",
+  "disputes.resolveIn": "Resolve within {time}",
+  "disputes.deadlinePassed":
+    "The resolution deadline has passed. The consigner can reclaim the funds.",
+
+  // Fee breakdown
+  "fees.breakdown":
+    "Reporter receives {reporter} {unit} / DAO receives {dao} {unit} ({percentage}%)",
+  "rewardMint.label": "Reward token",
+  "rewardMint.sol": "SOL",
+  "rewardMint.minimum": "Minimum: {amount} {unit}",
+
+  // Generic errors
+  "errors.walletNotConnected": "Wallet is not connected.",
+  "errors.walletRejected": "The transaction was rejected in the wallet.",
+  "errors.wallet": "Wallet error: {detail}",
+  "errors.rpc": "Could not reach the RPC node: {detail}",
+  "errors.simulation": "The program failed to execute.",
+  "errors.transactionFailed": "Transaction failed: {detail}",
+  "errors.unknown": "An unknown error occurred.",
+
+  // Task status
+  "status.open": "Open",
+  "status.approved": "Approved",
+  "status.rejected": "Rejected",
+  "status.expired": "Expired",
+  "status.reclaimed": "Reclaimed",
+  "status.disputed": "Disputed",
+
+  // Task dashboard
+  "dashboard.title": "My tasks",
+  "dashboard.connectWallet": "Connect your wallet to see your tasks.",
+  "dashboard.loading": "Loading tasks...",
+  "dashboard.empty": "You have no tasks yet.",
+  "dashboard.refresh": "Refresh",
+  "dashboard.column.taskId": "Task ID",
+  "dashboard.column.status": "Status",
+  "dashboard.column.reward": "Reward",
+  "dashboard.column.expiresIn": "Expires in",
+  "dashboard.column.actions": "Actions",
+  "dashboard.reward": "{amount} {unit}",
+  "dashboard.expired": "Expired",
+  "dashboard.reclaimIn": "Reclaimable in {time}",
+  "dashboard.column.report": "Report",
+  "dashboard.noReport": "Not submitted",
+  "dashboard.viewReport": "View metadata",
+  "dashboard.previousPage": "Previous",
+  "dashboard.nextPage": "Next",
+  "dashboard.pageInfo": "Page {page} of {pages} ({total} tasks)",
+  "dashboard.lamportsRecovered": "Recovered {amount} SOL: {signature}",
+  "dashboard.actionSucceeded": "Transaction confirmed: {signature}",
+
+  // SunpathError (programs/sunpath/src/lib.rs)
+  "errors.program.RewardAmountTooLow":
+    "The reward is below the minimum reward amount (RewardAmountTooLow).",
+  "errors.program.TimestampOverflow":
+    "Timestamp calculation overflowed (TimestampOverflow).",
+  "errors.program.NotAdmin": "The signer is not the admin (NotAdmin).",
+  "errors.program.TaskNotOpen":
+    "The task is not open for this operation (TaskNotOpen).",
+  "errors.program.TaskExpired": "The task has expired (TaskExpired).",
+  "errors.program.NotConsigner":
+    "Only the consigner can reclaim this task's funds (NotConsigner).",
+  "errors.program.CannotReclaimFunds":
+    "Funds cannot be reclaimed yet (CannotReclaimFunds). The task must be expired, or rejected with the denial penalty period elapsed.",
+  "errors.program.DenialLockupActive":
+    "The denial lockup period is still active; funds cannot be reclaimed yet (DenialLockupActive).",
+  "errors.program.CounterOverflow": "Counter overflowed (CounterOverflow).",
+  "errors.program.NotTaskConsigner":
+    "You are not allowed to act on this task (NotTaskConsigner).",
+  "errors.program.TaskIdMismatch":
+    "The task ID is out of date. Please try again (TaskIdMismatch).",
+  "errors.program.ReportAlreadySubmitted":
+    "A report has already been submitted for this task (ReportAlreadySubmitted).",
+  "errors.program.MetadataUriTooLong":
+    "The metadata URI is too long (MetadataUriTooLong).",
+  "errors.program.ReportNotSubmitted":
+    "No report has been submitted for this task yet (ReportNotSubmitted).",
+  "errors.program.RecipientNotReporter":
+    "The recipient is not the reporter of this task (RecipientNotReporter).",
+  "errors.program.InvalidFeePercentage":
+    "The DAO fee percentage must be between 0 and 100 (InvalidFeePercentage).",
+  "errors.program.FeeCalculationOverflow":
+    "The DAO fee calculation overflowed (FeeCalculationOverflow).",
+  "errors.program.InvalidDaoTreasury":
+    "The DAO treasury does not match the program config (InvalidDaoTreasury).",
+  "errors.program.TaskNotApproved":
+    "This task has not been approved yet (TaskNotApproved).",
+  "errors.program.NotTaskReporter":
+    "The signer is not the reporter of this task (NotTaskReporter).",
+  "errors.program.GovernanceRewardAlreadyClaimed":
+    "The governance token reward has already been claimed (GovernanceRewardAlreadyClaimed).",
+  "errors.program.NoGovernanceReward":
+    "No governance token reward is configured (NoGovernanceReward).",
+  "errors.program.InvalidGovernanceTokenMint":
+    "The governance token mint does not match the program config (InvalidGovernanceTokenMint).",
+  "errors.program.InvalidDenialPenaltyDuration":
+    "The denial penalty duration must not be negative (InvalidDenialPenaltyDuration).",
+  "errors.program.NotPendingAdmin":
+    "The signer is not the pending admin (NotPendingAdmin).",
+  "errors.program.TaskNotExpired":
+    "This task has not expired yet (TaskNotExpired).",
+  "errors.program.TaskNotClosable":
+    "Only approved or reclaimed tasks can be closed (TaskNotClosable).",
+  "errors.program.UnsupportedRewardMint":
+    "This token is not supported for task rewards (UnsupportedRewardMint).",
+  "errors.program.RewardMintMismatch":
+    "The token does not match the task's reward token (RewardMintMismatch).",
+  "errors.program.TokenRewardTask":
+    "This task's reward is an SPL token. Use the token instruction (TokenRewardTask).",
+  "errors.program.InvalidRewardTokenAccount":
+    "The token account does not belong to the recipient (InvalidRewardTokenAccount).",
+  "errors.program.InvalidMaxReporters":
+    "The number of reporters must be between 1 and 10 (InvalidMaxReporters).",
+  "errors.program.InvalidRewardSplit":
+    "The reward split does not match the reports (InvalidRewardSplit).",
+  "errors.program.DuplicateReporter":
+    "A reporter appears more than once in the reward split (DuplicateReporter).",
+  "errors.program.InvalidReportAccount":
+    "The report does not belong to this task (InvalidReportAccount).",
+  "errors.program.InvalidGeohash":
+    "The geohash must be 1 to 12 geohash characters (InvalidGeohash).",
+  "errors.program.TaskNotRejected":
+    "The task has not been rejected (TaskNotRejected).",
+  "errors.program.DisputeWindowClosed":
+    "The dispute window has closed (DisputeWindowClosed).",
+  "errors.program.TaskNotDisputed":
+    "The task is not under dispute (TaskNotDisputed).",
+  "errors.program.InvalidReporterStats":
+    "The reporter stats account does not belong to the task's reporter (InvalidReporterStats).",
+  "errors.program.ReportRejected":
+    "This report has already been rejected (ReportRejected).",
+  "errors.program.DisputePending":
+    "The dispute has not been resolved yet (DisputePending).",
+  "errors.program.MultiReporterTask":
+    "This task accepts several reporters; approve its reports together instead (MultiReporterTask).",
+  "errors.program.MultiReporterTokenTask":
+    "Token reward tasks accept a single reporter (MultiReporterTokenTask).",
+  "errors.program.MultiReporterDispute":
+    "Only single-reporter tasks can be disputed (MultiReporterDispute).",
+  "errors.program.DisputeDeadlinePassed":
+    "The dispute resolution deadline has passed (DisputeDeadlinePassed).",
+  "errors.program.AccountAlreadyMigrated":
+    "The account already uses the current layout (AccountAlreadyMigrated).",
+};
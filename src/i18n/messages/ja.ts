@@ -0,0 +1,253 @@
+// 日本語メッセージカタログ (既定の言語)
+export const ja = {
+  // ボタン
+  "createTask.label": "タスクを作成",
+  "createTask.loading": "タスク作成中...",
+  "acceptTask.label": "タスクを承認",
+  "acceptTask.loading": "承認処理中...",
+  "acceptReports.label": "選択したレポートを承認",
+  "acceptReports.loading": "承認処理中...",
+  "acceptReports.splitMode": "報酬の分配",
+  "acceptReports.equal": "均等に分配",
+  "acceptReports.weighted": "撮影区間で重み付け",
+  "acceptReports.weight": "重み",
+  "acceptReports.share": "{amount} SOL",
+  "acceptReports.noReports": "レポートはまだありません",
+  "rejectTask.label": "タスクを拒否",
+  "rejectTask.loading": "拒否処理中...",
+  "rejectReport.label": "レポートを拒否",
+  "rejectReport.loading": "拒否処理中...",
+  "reclaimFunds.label": "資金を回収",
+  "reclaimFunds.loading": "資金回収中...",
+  "closeTask.label": "タスクをクローズ",
+  "closeTask.loading": "クローズ中...",
+  "submitReport.label": "レポートを提出",
+  "submitReport.loading": "レポート提出中...",
+  "claimGovernanceReward.label": "ガバナンストークンを受け取る",
+  "claimGovernanceReward.loading": "受け取り処理中...",
+  "openDispute.label": "異議を申し立てる",
+  "openDispute.loading": "申し立て中...",
+  "closeDispute.label": "異議申し立てをクローズ",
+  "closeDispute.loading": "クローズ中...",
+
+  // 入力値の検証
+  "validation.invalidNumber": "入力値の変換に失敗しました: {detail}",
+  "validation.notANumber": "無効な数値です。",
+  "validation.positiveNumbers":
+    "ID、報酬額、期間には正の数を入力してください。",
+  "validation.rewardZero": "報酬額は0より大きい値を入力してください。",
+  "validation.durationZero": "期間は0より大きい値を入力してください。",
+  "validation.invalidPublicKey": "公開鍵の形式が正しくありません: {detail}",
+  "validation.invalidTaskPda":
+    "タスクアカウントPDAの形式が正しくありません: {detail}",
+  "validation.noReportsSelected": "レポートを1件以上選択してください。",
+  "validation.invalidGeoJson": "道路のGeoJSONが正しくありません: {detail}",
+  "validation.invalidWeight": "重みには正の整数を入力してください。",
+  "validation.tokenSingleReporter":
+    "トークン報酬は1人の報告者にのみ支払えます。",
+  "validation.videoRequired": "動画ファイルを選択してください。",
+  "validation.metadataUriTooLong":
+    "メタデータURIは{max}バイト以内で入力してください。",
+
+  // ガバナンストークン
+  "governanceToken.balance": "ガバナンストークン残高: {amount}",
+  "governanceToken.loading": "残高を取得中...",
+
+  // 報告者の実績
+  "reporterProfile.loading": "実績を取得中...",
+  "reporterProfile.empty": "レポートの提出実績はまだありません。",
+  "reporterProfile.reporter": "報告者: {address}",
+  "reporterProfile.counts": "承認 {approved}件 / 拒否 {rejected}件",
+  "reporterProfile.approvalRate": "承認率: {rate}",
+  "reporterProfile.totalEarned": "獲得報酬: {amount} SOL",
+  "reporterProfile.lastActivity": "最終活動: {date}",
+  "reporterProfile.summary": "承認率 {rate} ({approved}/{total}件)",
+
+  // 管理者設定パネル
+  "admin.title": "プログラム設定",
+  "admin.loading": "設定を読み込み中...",
+  "admin.notAdmin": "接続中のウォレットは管理者ではありません。",
+  "admin.currentAdmin": "管理者: {address}",
+  "admin.field.daoTreasuryAddress": "DAOトレジャリーのアドレス",
+  "admin.field.governanceTokenMint": "ガバナンストークンのミント",
+  "admin.field.minimumRewardAmount": "最低報酬額 (lamports)",
+  "admin.field.daoFeePercentage": "DAO手数料率 (%)",
+  "admin.field.denialPenaltyDuration": "拒否ペナルティ期間 (秒)",
+  "admin.field.patrollerGovernanceTokenAmount":
+    "報告者へのガバナンストークン報酬 (最小単位)",
+  "admin.save": "設定を保存",
+  "admin.saving": "保存中...",
+  "admin.noChanges": "変更された項目はありません。",
+  "admin.saved": "設定を更新しました: {signature}",
+  "admin.validation.invalidAddress": "公開鍵の形式が正しくありません。",
+  "admin.validation.invalidAmount": "0以上の整数を入力してください。",
+  "admin.validation.invalidPercentage": "0〜100の整数を入力してください。",
+  "admin.validation.invalidDuration": "0以上の秒数を入力してください。",
+  "admin.transfer.title": "管理者権限の移譲",
+  "admin.transfer.pending": "移譲先 (承認待ち): {address}",
+  "admin.transfer.newAdmin": "新しい管理者のアドレス",
+  "admin.transfer.propose": "移譲を提案",
+  "admin.transfer.cancel": "移譲を取り消す",
+  "admin.transfer.accept": "管理者権限を受け取る",
+  "admin.transfer.proposed": "移譲を提案しました: {signature}",
+  "admin.transfer.cancelled": "移譲を取り消しました: {signature}",
+  "admin.transfer.accepted": "管理者権限を受け取りました: {signature}",
+
+  // 異議申し立ての仲裁パネル
+  "disputes.title": "異議申し立て",
+  "disputes.loading": "異議申し立てを読み込み中...",
+  "disputes.empty": "未解決の異議申し立てはありません。",
+  "disputes.task": "タスク: {address}",
+  "disputes.reporter": "報告者: {address}",
+  "disputes.viewReason": "申し立ての理由を表示",
+  "disputes.payReporter": "報告者に報酬を支払う",
+  "disputes.releaseToConsigner": "依頼者に資金を戻す",
+  "disputes.resolved": "異議を解決しました: {signature}",
+  "disputes.resolveIn": "残り {time} 以内に解決",
+  "disputes.deadlinePassed":
+    "解決期限を過ぎました。依頼者が資金を回収できます。",
+
+  // 手数料の内訳
+  "fees.breakdown":
+    "報告者の受取額: {reporter} {unit} / DAO手数料 ({percentage}%): {dao} {unit}",
+  "rewardMint.label": "報酬トークン",
+  "rewardMint.sol": "SOL",
+  "rewardMint.minimum": "最低報酬額: {amount} {unit}",
+
+  // 汎用エラー
+  "errors.walletNotConnected": "ウォレットが接続されていません。",
+  "errors.walletRejected": "ウォレットで署名が拒否されました。",
+  "errors.wallet": "ウォレットでエラーが発生しました: {detail}",
+  "errors.rpc": "RPCノードとの通信に失敗しました: {detail}",
+  "errors.simulation": "プログラムの実行に失敗しました。",
+  "errors.transactionFailed": "トランザクションが失敗しました: {detail}",
+  "errors.unknown": "不明なエラーが発生しました。",
+
+  // タスクのステータス
+  "status.open": "受付中",
+  "status.approved": "承認済み",
+  "status.rejected": "拒否済み",
+  "status.expired": "期限切れ",
+  "status.reclaimed": "回収済み",
+  "status.disputed": "異議申し立て中",
+
+  // タスクダッシュボード
+  "dashboard.title": "マイタスク",
+  "dashboard.connectWallet": "ウォレットを接続するとタスクが表示されます。",
+  "dashboard.loading": "タスクを読み込み中...",
+  "dashboard.empty": "タスクはまだありません。",
+  "dashboard.refresh": "更新",
+  "dashboard.column.taskId": "タスクID",
+  "dashboard.column.status": "ステータス",
+  "dashboard.column.reward": "報酬",
+  "dashboard.column.expiresIn": "期限まで",
+  "dashboard.column.actions": "操作",
+  "dashboard.reward": "{amount} {unit}",
+  "dashboard.expired": "期限切れ",
+  "dashboard.reclaimIn": "回収可能まで {time}",
+  "dashboard.column.report": "レポート",
+  "dashboard.noReport": "未提出",
+  "dashboard.viewReport": "メタデータを表示",
+  "dashboard.previousPage": "前へ",
+  "dashboard.nextPage": "次へ",
+  "dashboard.pageInfo": "{page} / {pages} ページ (全{total}件)",
+  "dashboard.lamportsRecovered": "{amount} SOL を回収しました: {signature}",
+  "dashboard.actionSucceeded": "トランザクションが完了しました: {signature}",
+
+  // SunpathError (programs/sunpath/src/lib.rs)
+  "errors.program.RewardAmountTooLow":
+    "報酬額が最低報酬額を下回っています (RewardAmountTooLow)。",
+  "errors.program.TimestampOverflow":
+    "タイムスタンプの計算がオーバーフローしました (TimestampOverflow)。",
+  "errors.program.NotAdmin": "管理者ではありません (NotAdmin)。",
+  "errors.program.TaskNotOpen":
+    "タスクがこの操作を行える状態ではありません (TaskNotOpen)。",
+  "errors.program.TaskExpired": "タスクは期限切れです (TaskExpired)。",
+  "errors.program.NotConsigner":
+    "タスクの資金回収権限がありません (NotConsigner)。",
+  "errors.program.CannotReclaimFunds":
+    "まだ資金を回収できません (CannotReclaimFunds)。タスクが期限切れまたは拒否後のペナルティ期間が終了しているか確認してください。",
+  "errors.program.DenialLockupActive":
+    "拒否後のロックアップ期間が有効です。まだ資金を回収できません (DenialLockupActive)。",
+  "errors.program.CounterOverflow":
+    "カウンターがオーバーフローしました (CounterOverflow)。",
+  "errors.program.NotTaskConsigner":
+    "このタスクを操作する権限がありません (NotTaskConsigner)。",
+  "errors.program.TaskIdMismatch":
+    "タスクIDが最新ではありません。もう一度お試しください (TaskIdMismatch)。",
+  "errors.program.ReportAlreadySubmitted":
+    "このタスクには既にレポートが提出されています (ReportAlreadySubmitted)。",
+  "errors.program.MetadataUriTooLong":
+    "メタデータURIが長すぎます (MetadataUriTooLong)。",
+  "errors.program.ReportNotSubmitted":
+    "このタスクにはまだレポートが提出されていません (ReportNotSubmitted)。",
+  "errors.program.RecipientNotReporter":
+    "受取人がこのタスクのレポート提出者ではありません (RecipientNotReporter)。",
+  "errors.program.InvalidFeePercentage":
+    "DAO手数料率は0〜100の範囲で指定してください (InvalidFeePercentage)。",
+  "errors.program.FeeCalculationOverflow":
+    "DAO手数料の計算でオーバーフローが発生しました (FeeCalculationOverflow)。",
+  "errors.program.InvalidDaoTreasury":
+    "DAOトレジャリーのアドレスが設定と一致しません (InvalidDaoTreasury)。",
+  "errors.program.TaskNotApproved":
+    "このタスクはまだ承認されていません (TaskNotApproved)。",
+  "errors.program.NotTaskReporter":
+    "署名者はこのタスクのレポート提出者ではありません (NotTaskReporter)。",
+  "errors.program.GovernanceRewardAlreadyClaimed":
+    "ガバナンストークンの報酬は既に受け取り済みです (GovernanceRewardAlreadyClaimed)。",
+  "errors.program.NoGovernanceReward":
+    "ガバナンストークンの報酬が設定されていません (NoGovernanceReward)。",
+  "errors.program.InvalidGovernanceTokenMint":
+    "ガバナンストークンのミントが設定と一致しません (InvalidGovernanceTokenMint)。",
+  "errors.program.InvalidDenialPenaltyDuration":
+    "拒否ペナルティ期間に負の値は指定できません (InvalidDenialPenaltyDuration)。",
+  "errors.program.NotPendingAdmin":
+    "署名者は移譲先の管理者ではありません (NotPendingAdmin)。",
+  "errors.program.TaskNotExpired":
+    "このタスクはまだ期限切れになっていません (TaskNotExpired)。",
+  "errors.program.TaskNotClosable":
+    "クローズできるのは承認済みまたは回収済みのタスクのみです (TaskNotClosable)。",
+  "errors.program.UnsupportedRewardMint":
+    "このトークンはタスクの報酬に使用できません (UnsupportedRewardMint)。",
+  "errors.program.RewardMintMismatch":
+    "トークンがタスクの報酬トークンと一致しません (RewardMintMismatch)。",
+  "errors.program.TokenRewardTask":
+    "このタスクの報酬はSPLトークンです。トークン用の命令を使用してください (TokenRewardTask)。",
+  "errors.program.InvalidRewardTokenAccount":
+    "トークンアカウントの所有者が受取人ではありません (InvalidRewardTokenAccount)。",
+  "errors.program.InvalidMaxReporters":
+    "報告者数は1〜10の範囲で指定してください (InvalidMaxReporters)。",
+  "errors.program.InvalidRewardSplit":
+    "報酬の分配がレポートと一致しません (InvalidRewardSplit)。",
+  "errors.program.DuplicateReporter":
+    "同じ報告者が報酬の分配に複数回含まれています (DuplicateReporter)。",
+  "errors.program.InvalidReportAccount":
+    "レポートがこのタスクのものではありません (InvalidReportAccount)。",
+  "errors.program.InvalidGeohash":
+    "geohashは1〜12文字のgeohash用の文字で指定してください (InvalidGeohash)。",
+  "errors.program.TaskNotRejected":
+    "却下されていないタスクです (TaskNotRejected)。",
+  "errors.program.DisputeWindowClosed":
+    "異議申し立ての期間が終了しています (DisputeWindowClosed)。",
+  "errors.program.TaskNotDisputed":
+    "異議申し立て中のタスクではありません (TaskNotDisputed)。",
+  "errors.program.InvalidReporterStats":
+    "報告者の実績アカウントがタスクの報告者のものではありません (InvalidReporterStats)。",
+  "errors.program.ReportRejected":
+    "このレポートはすでに拒否されています (ReportRejected)。",
+  "errors.program.DisputePending":
+    "異議申し立てはまだ解決されていません (DisputePending)。",
+  "errors.program.MultiReporterTask":
+    "このタスクは複数の報告者を受け付けます。レポートをまとめて承認してください (MultiReporterTask)。",
+  "errors.program.MultiReporterTokenTask":
+    "トークン報酬のタスクは報告者1人のみ受け付けます (MultiReporterTokenTask)。",
+  "errors.program.MultiReporterDispute":
+    "異議を申し立てられるのは報告者1人のタスクのみです (MultiReporterDispute)。",
+  "errors.program.DisputeDeadlinePassed":
+    "異議の解決期限を過ぎています (DisputeDeadlinePassed)。",
+  "errors.program.AccountAlreadyMigrated":
+    "このアカウントはすでに現在のレイアウトです (AccountAlreadyMigrated)。",
+} as const;
+
+export type MessageKey = keyof typeof ja;
+export type Messages = Record<MessageKey, string>;
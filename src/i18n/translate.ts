@@ -0,0 +1,56 @@
+import { en } from "./messages/en";
+import { ja, MessageKey, Messages } from "./messages/ja";
+import { decodeSunpathError, DecodedSunpathError } from "../utils/errors";
+
+export type Locale = "ja" | "en";
+
+export const DEFAULT_LOCALE: Locale = "ja";
+
+export const catalogs: Record<Locale, Messages> = { ja, en };
+
+export type TranslateParams = Record<string, string | number>;
+
+// キーに対応するメッセージを取得し、{name} 形式のプレースホルダーを置換する
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: TranslateParams = {}
+): string =>
+  catalogs[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+// デコード済みエラーを表示用メッセージに変換する
+export const formatError = (
+  locale: Locale,
+  error: DecodedSunpathError
+): string => {
+  switch (error.kind) {
+    case "program":
+      return translate(locale, `errors.program.${error.code}`);
+    case "wallet":
+      if (error.reason === "notConnected") {
+        return translate(locale, "errors.walletNotConnected");
+      }
+      if (error.reason === "rejected") {
+        return translate(locale, "errors.walletRejected");
+      }
+      return translate(locale, "errors.wallet", { detail: error.message });
+    case "rpc":
+      return translate(locale, "errors.rpc", { detail: error.message });
+    case "simulation":
+      return translate(locale, "errors.simulation");
+    default:
+      return error.message || translate(locale, "errors.unknown");
+  }
+};
+
+// 任意のエラーをデコードし、メッセージを指定言語に置き換えて返す
+export const localizeError = (
+  locale: Locale,
+  error: unknown
+): DecodedSunpathError => {
+  const decoded = decodeSunpathError(error);
+  decoded.message = formatError(locale, decoded);
+  return decoded;
+};
@@ -1,4 +1,43 @@
-import { Program } from "@coral-xyz/anchor";
-import idl from "../idl-v7.json";
+import { IdlAccounts, IdlEvents, IdlTypes, Program } from "@coral-xyz/anchor";
+import { Sunpath } from "./sunpath";
 
-export type SunpathProgram = Program<typeof idl>;
+export type SunpathProgram = Program<Sunpath>;
+
+// Anchorがデコードする列挙型の形式 (例: { open: {} })
+export type TaskStatus = IdlTypes<Sunpath>["taskStatus"];
+
+// programs/sunpath/src/lib.rs の #[event] (TaskCreated など) のデコード結果
+export type SunpathEvents = IdlEvents<Sunpath>;
+
+// update_config の引数 (nullのフィールドは変更しない)
+export type UpdateConfigParams = IdlTypes<Sunpath>["updateConfigParams"];
+
+// programs/sunpath/src/lib.rs の ProgramConfig に対応
+export type ProgramConfig = IdlAccounts<Sunpath>["programConfig"];
+
+// programs/sunpath/src/lib.rs の TaskAccount に対応
+export type TaskAccount = IdlAccounts<Sunpath>["taskAccount"];
+
+// programs/sunpath/src/lib.rs の AdminActionCounter に対応
+export type AdminActionCounter = IdlAccounts<Sunpath>["adminActionCounter"];
+
+// programs/sunpath/src/lib.rs の TaskCounter に対応
+export type TaskCounter = IdlAccounts<Sunpath>["taskCounter"];
+
+// programs/sunpath/src/lib.rs の ReportAccount に対応
+export type ReportAccount = IdlAccounts<Sunpath>["reportAccount"];
+
+// programs/sunpath/src/lib.rs の ReporterStats に対応 (報告者の承認・拒否の実績)
+export type ReporterStats = IdlAccounts<Sunpath>["reporterStats"];
+
+// programs/sunpath/src/lib.rs の Dispute に対応 (却下されたタスクへの異議申し立て)
+export type Dispute = IdlAccounts<Sunpath>["dispute"];
+
+// Anchorがデコードする列挙型の形式 (例: { pending: {} })
+export type DisputeResolution = IdlTypes<Sunpath>["disputeResolution"];
+
+// programs/sunpath/src/lib.rs の TaskLocation に対応 (道路区間のgeohashとGeoJSONのハッシュ)
+export type TaskLocation = IdlAccounts<Sunpath>["taskLocation"];
+
+// programs/sunpath/src/lib.rs の RewardMintConfig に対応 (報酬に使えるSPLトークンと最低報酬額)
+export type RewardMintConfig = IdlAccounts<Sunpath>["rewardMintConfig"];
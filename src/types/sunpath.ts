@@ -0,0 +1,3984 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original
+ * IDL can be found at `src/idl/sunpath.json`.
+ */
+export type Sunpath = {
+  "address": "Drr2eM6yoGXL2QZHdaFzXzUDDPQarV8acbbYWTBAtNyE",
+  "metadata": {
+    "name": "sunpath",
+    "version": "0.1.0",
+    "spec": "0.1.0",
+    "description": "Created with Anchor"
+  },
+  "instructions": [
+    {
+      "name": "acceptAdminTransfer",
+      "docs": [
+        "Second step of an admin transfer, signed by the proposed admin."
+      ],
+      "discriminator": [
+        89,
+        211,
+        96,
+        212,
+        233,
+        0,
+        251,
+        7
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "newAdmin",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "acceptReports",
+      "docs": [
+        "Approves several reports of a SOL-reward task at once and splits the reward between",
+        "their reporters by `weights` (equal weights give equal shares).",
+        "`remaining_accounts` holds one `(report_account, reporter, reporter_stats)` triple per weight,",
+        "all writable.",
+        "Rounding dust goes to the last reporter so the escrow is fully paid out."
+      ],
+      "discriminator": [
+        183,
+        48,
+        111,
+        192,
+        106,
+        194,
+        195,
+        75
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "daoTreasury",
+          "writable": true
+        },
+        {
+          "name": "adminActionCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  100,
+                  109,
+                  105,
+                  110,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consignerWallet"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "weights",
+          "type": {
+            "vec": "u64"
+          }
+        }
+      ]
+    },
+    {
+      "name": "acceptTask",
+      "docs": [
+        "Pays the reward of a single-reporter task to its assigned reporter. Tasks created with",
+        "`max_reporters > 1` are settled with `accept_reports`."
+      ],
+      "discriminator": [
+        222,
+        196,
+        79,
+        165,
+        120,
+        30,
+        38,
+        120
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "recipientAccount",
+          "writable": true
+        },
+        {
+          "name": "reportAccount",
+          "docs": [
+            "Report of the recipient; accepting it entitles them to the governance reward."
+          ],
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "arg",
+                "path": "recipient"
+              }
+            ]
+          }
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "daoTreasury",
+          "writable": true
+        },
+        {
+          "name": "adminActionCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  100,
+                  109,
+                  105,
+                  110,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consignerWallet"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "recipientAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "recipient",
+          "type": "pubkey"
+        }
+      ]
+    },
+    {
+      "name": "acceptTokenTask",
+      "docs": [
+        "Token counterpart of `accept_task`: pays the reporter and the DAO from the task vault,",
+        "then closes the empty vault to the consigner."
+      ],
+      "discriminator": [
+        62,
+        248,
+        77,
+        124,
+        215,
+        217,
+        71,
+        243
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "rewardMint"
+        },
+        {
+          "name": "taskVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "recipientTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "reportAccount",
+          "docs": [
+            "Report of the recipient; accepting it entitles them to the governance reward."
+          ],
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "arg",
+                "path": "recipient"
+              }
+            ]
+          }
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "daoTreasuryTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "adminActionCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  100,
+                  109,
+                  105,
+                  110,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consignerWallet"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "arg",
+                "path": "recipient"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "recipient",
+          "type": "pubkey"
+        }
+      ]
+    },
+    {
+      "name": "claimGovernanceReward",
+      "docs": [
+        "Mints the governance reward for an approved report. The claim is recorded on the report",
+        "account, so it stays claimable after the consigner has closed the task."
+      ],
+      "discriminator": [
+        81,
+        55,
+        61,
+        173,
+        22,
+        221,
+        206,
+        165
+      ],
+      "accounts": [
+        {
+          "name": "reportAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "reportAccount.task",
+                "account": "reportAccount"
+              },
+              {
+                "kind": "account",
+                "path": "reportAccount.reporter",
+                "account": "reportAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporter",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "reportAccount"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "governanceTokenMint",
+          "writable": true
+        },
+        {
+          "name": "mintAuthority",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  103,
+                  111,
+                  118,
+                  101,
+                  114,
+                  110,
+                  97,
+                  110,
+                  99,
+                  101,
+                  95,
+                  109,
+                  105,
+                  110,
+                  116,
+                  95,
+                  97,
+                  117,
+                  116,
+                  104,
+                  111,
+                  114,
+                  105,
+                  116,
+                  121
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterTokenAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "account",
+                "path": "reporter"
+              },
+              {
+                "kind": "const",
+                "value": [
+                  6,
+                  221,
+                  246,
+                  225,
+                  215,
+                  101,
+                  161,
+                  147,
+                  217,
+                  203,
+                  225,
+                  70,
+                  206,
+                  235,
+                  121,
+                  172,
+                  28,
+                  180,
+                  133,
+                  237,
+                  95,
+                  91,
+                  55,
+                  145,
+                  58,
+                  140,
+                  245,
+                  133,
+                  126,
+                  255,
+                  0,
+                  169
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "governanceTokenMint"
+              }
+            ],
+            "program": {
+              "kind": "const",
+              "value": [
+                140,
+                151,
+                37,
+                143,
+                78,
+                36,
+                137,
+                241,
+                187,
+                61,
+                16,
+                41,
+                20,
+                142,
+                13,
+                131,
+                11,
+                90,
+                19,
+                153,
+                218,
+                255,
+                16,
+                132,
+                4,
+                142,
+                123,
+                216,
+                219,
+                233,
+                248,
+                89
+              ]
+            }
+          }
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        },
+        {
+          "name": "associatedTokenProgram",
+          "address": "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeDispute",
+      "docs": [
+        "Closes a resolved dispute, or one left unresolved past its resolution deadline, and",
+        "returns its rent to the reporter who opened it. Works whether or not the task itself has",
+        "been closed."
+      ],
+      "discriminator": [
+        60,
+        18,
+        92,
+        170,
+        100,
+        195,
+        146,
+        196
+      ],
+      "accounts": [
+        {
+          "name": "dispute",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  100,
+                  105,
+                  115,
+                  112,
+                  117,
+                  116,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "dispute.task",
+                "account": "dispute"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporter",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "dispute"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "closeTask",
+      "docs": [
+        "Closes a settled (Approved or Reclaimed) task and returns its rent to the consigner.",
+        "Governance rewards are tracked on the report accounts and can still be claimed afterwards.",
+        "Pass `task_location` when the task has one so that it is closed too; a resolved dispute is",
+        "closed separately by its reporter with `close_dispute`."
+      ],
+      "discriminator": [
+        55,
+        234,
+        77,
+        69,
+        245,
+        208,
+        54,
+        167
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "taskLocation",
+          "writable": true,
+          "optional": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  108,
+                  111,
+                  99,
+                  97,
+                  116,
+                  105,
+                  111,
+                  110
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "createTask",
+      "discriminator": [
+        194,
+        80,
+        6,
+        180,
+        232,
+        127,
+        48,
+        171
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consigner"
+              },
+              {
+                "kind": "arg",
+                "path": "taskId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "taskCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consigner"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consigner",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "taskId",
+          "type": "u64"
+        },
+        {
+          "name": "rewardAmount",
+          "type": "u64"
+        },
+        {
+          "name": "durationSeconds",
+          "type": "i64"
+        },
+        {
+          "name": "maxReporters",
+          "type": "u8"
+        }
+      ]
+    },
+    {
+      "name": "createTokenTask",
+      "docs": [
+        "Creates a task whose reward is escrowed in an SPL token vault owned by the task PDA.",
+        "Token rewards are paid to a single reporter, so `max_reporters` must be 1."
+      ],
+      "discriminator": [
+        163,
+        110,
+        52,
+        186,
+        149,
+        251,
+        200,
+        157
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consigner"
+              },
+              {
+                "kind": "arg",
+                "path": "taskId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "taskCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consigner"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consigner",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "rewardMint"
+        },
+        {
+          "name": "rewardMintConfig",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  119,
+                  97,
+                  114,
+                  100,
+                  95,
+                  109,
+                  105,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "rewardMint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "taskVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "taskId",
+          "type": "u64"
+        },
+        {
+          "name": "rewardAmount",
+          "type": "u64"
+        },
+        {
+          "name": "durationSeconds",
+          "type": "i64"
+        },
+        {
+          "name": "maxReporters",
+          "type": "u8"
+        }
+      ]
+    },
+    {
+      "name": "expireTask",
+      "docs": [
+        "Marks an overdue Open task as Expired. Anyone can call this after `expiration_timestamp`."
+      ],
+      "discriminator": [
+        116,
+        94,
+        206,
+        205,
+        170,
+        51,
+        156,
+        98
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "cranker",
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "initializeProgram",
+      "discriminator": [
+        176,
+        107,
+        205,
+        168,
+        24,
+        157,
+        175,
+        103
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "admin",
+          "type": "pubkey"
+        },
+        {
+          "name": "daoTreasuryAddress",
+          "type": "pubkey"
+        },
+        {
+          "name": "governanceTokenMint",
+          "type": "pubkey"
+        },
+        {
+          "name": "minimumRewardAmount",
+          "type": "u64"
+        },
+        {
+          "name": "daoFeePercentage",
+          "type": "u8"
+        },
+        {
+          "name": "denialPenaltyDuration",
+          "type": "i64"
+        },
+        {
+          "name": "patrollerGovernanceTokenAmount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "migrateConfig",
+      "docs": [
+        "Grows a `config_v2` account created before `pending_admin` was added to the current",
+        "layout. Only the stored admin can migrate it; `pending_admin` starts as `None`."
+      ],
+      "discriminator": [
+        92,
+        131,
+        58,
+        105,
+        210,
+        154,
+        224,
+        193
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "migrateReport",
+      "docs": [
+        "Grows a report submitted before `rejected` was added. Anyone can pay for the migration."
+      ],
+      "discriminator": [
+        119,
+        34,
+        251,
+        248,
+        63,
+        166,
+        205,
+        51
+      ],
+      "accounts": [
+        {
+          "name": "reportAccount",
+          "writable": true
+        },
+        {
+          "name": "payer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "migrateTask",
+      "docs": [
+        "Grows a task created before `reward_mint`, `max_reporters` and `report_count` were",
+        "added. The task becomes a single-reporter SOL task with `report_count` taken from",
+        "`report_pda`. Anyone can pay for the migration; the extra rent goes to the consigner",
+        "when the task is closed."
+      ],
+      "discriminator": [
+        114,
+        41,
+        111,
+        76,
+        14,
+        117,
+        128,
+        54
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true
+        },
+        {
+          "name": "payer",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "openDispute",
+      "docs": [
+        "Lets the reporter of a Rejected single-reporter task contest the rejection. The dispute",
+        "window is the denial lockup (`denial_penalty_duration`). The arbiter then has another",
+        "`denial_penalty_duration` to resolve it; until then the consigner cannot reclaim."
+      ],
+      "discriminator": [
+        137,
+        25,
+        99,
+        119,
+        23,
+        223,
+        161,
+        42
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "dispute",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  100,
+                  105,
+                  115,
+                  112,
+                  117,
+                  116,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporter",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "reportAccount",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "reporter"
+              }
+            ]
+          }
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "reasonUri",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "proposeAdminTransfer",
+      "docs": [
+        "First step of an admin transfer. Passing `None` cancels a pending transfer."
+      ],
+      "discriminator": [
+        218,
+        178,
+        115,
+        190,
+        80,
+        107,
+        95,
+        158
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "newAdmin",
+          "type": {
+            "option": "pubkey"
+          }
+        }
+      ]
+    },
+    {
+      "name": "reclaimTaskFunds",
+      "discriminator": [
+        117,
+        112,
+        75,
+        205,
+        124,
+        103,
+        96,
+        192
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "reclaimTokenTaskFunds",
+      "docs": [
+        "Token counterpart of `reclaim_task_funds`: returns the vault balance to the consigner",
+        "and closes the vault."
+      ],
+      "discriminator": [
+        146,
+        156,
+        79,
+        51,
+        202,
+        239,
+        220,
+        230
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "rewardMint"
+        },
+        {
+          "name": "taskVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "rejectReport",
+      "docs": [
+        "Rejects a single report of an Open task, e.g. a junk report that took the only slot,",
+        "without rejecting the task or starting the denial lockup. The slot reopens for other",
+        "reporters; the rejected reporter cannot submit again because their report account stays."
+      ],
+      "discriminator": [
+        248,
+        48,
+        152,
+        198,
+        75,
+        73,
+        34,
+        17
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "reportAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "reportAccount.reporter",
+                "account": "reportAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "reportAccount.reporter",
+                "account": "reportAccount"
+              }
+            ]
+          }
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "rejectTask",
+      "docs": [
+        "Rejects an Open task and records the rejection against every reporter who submitted a report.",
+        "`remaining_accounts` holds one `(report_account, reporter_stats)` pair per report that",
+        "`reject_report` has not already rejected, the stats writable."
+      ],
+      "discriminator": [
+        152,
+        59,
+        207,
+        37,
+        222,
+        254,
+        28,
+        106
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "adminActionCounter",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  97,
+                  100,
+                  109,
+                  105,
+                  110,
+                  95,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "consignerWallet"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "resolveDispute",
+      "docs": [
+        "Arbiter (the config admin, which can be a DAO governance PDA) settles a dispute by paying",
+        "the reporter as if the task had been accepted, or by returning the reward to the consigner.",
+        "Must happen before the resolution deadline (`opened_at + denial_penalty_duration`)."
+      ],
+      "discriminator": [
+        231,
+        6,
+        202,
+        6,
+        96,
+        103,
+        12,
+        230
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "dispute",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  100,
+                  105,
+                  115,
+                  112,
+                  117,
+                  116,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        },
+        {
+          "name": "reporterAccount",
+          "writable": true
+        },
+        {
+          "name": "reportAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "reporterAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "reporterAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true
+        },
+        {
+          "name": "daoTreasury",
+          "writable": true
+        }
+      ],
+      "args": [
+        {
+          "name": "payReporter",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "resolveTokenDispute",
+      "docs": [
+        "Token counterpart of `resolve_dispute`: pays the reporter and the DAO fee from the task",
+        "vault, or returns the vault balance to the consigner, and closes the vault either way."
+      ],
+      "discriminator": [
+        42,
+        3,
+        244,
+        169,
+        158,
+        178,
+        251,
+        10
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "dispute",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  100,
+                  105,
+                  115,
+                  112,
+                  117,
+                  116,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        },
+        {
+          "name": "reportAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "dispute.reporter",
+                "account": "dispute"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "dispute.reporter",
+                "account": "dispute"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true
+        },
+        {
+          "name": "rewardMint"
+        },
+        {
+          "name": "taskVault",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  118,
+                  97,
+                  117,
+                  108,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "daoTreasuryTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "consignerTokenAccount",
+          "writable": true
+        },
+        {
+          "name": "tokenProgram",
+          "address": "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        }
+      ],
+      "args": [
+        {
+          "name": "payReporter",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "setRewardMint",
+      "docs": [
+        "Adds or updates an SPL token accepted for task rewards, with its own minimum reward."
+      ],
+      "discriminator": [
+        163,
+        98,
+        152,
+        110,
+        111,
+        9,
+        56,
+        94
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        },
+        {
+          "name": "mint"
+        },
+        {
+          "name": "rewardMintConfig",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  119,
+                  97,
+                  114,
+                  100,
+                  95,
+                  109,
+                  105,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "minimumRewardAmount",
+          "type": "u64"
+        },
+        {
+          "name": "isEnabled",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "setTaskLocation",
+      "docs": [
+        "Attaches the road segment to an Open task: a geohash (1-12 characters) for prefix",
+        "search and the SHA-256 hash of the segment's GeoJSON LineString."
+      ],
+      "discriminator": [
+        134,
+        171,
+        67,
+        86,
+        106,
+        231,
+        144,
+        115
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "taskLocation",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  108,
+                  111,
+                  99,
+                  97,
+                  116,
+                  105,
+                  111,
+                  110
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "consignerWallet",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "taskAccount"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "geohash",
+          "type": "string"
+        },
+        {
+          "name": "roadGeometryHash",
+          "type": {
+            "array": [
+              "u8",
+              32
+            ]
+          }
+        }
+      ]
+    },
+    {
+      "name": "submitReport",
+      "discriminator": [
+        27,
+        178,
+        64,
+        9,
+        20,
+        46,
+        250,
+        14
+      ],
+      "accounts": [
+        {
+          "name": "taskAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  116,
+                  97,
+                  115,
+                  107,
+                  95,
+                  97,
+                  99,
+                  99,
+                  111,
+                  117,
+                  110,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.consignerWallet",
+                "account": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount.taskId",
+                "account": "taskAccount"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reportAccount",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "taskAccount"
+              },
+              {
+                "kind": "account",
+                "path": "reporter"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporterStats",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  114,
+                  101,
+                  112,
+                  111,
+                  114,
+                  116,
+                  101,
+                  114,
+                  95,
+                  115,
+                  116,
+                  97,
+                  116,
+                  115
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "reporter"
+              }
+            ]
+          }
+        },
+        {
+          "name": "reporter",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "videoContentHash",
+          "type": {
+            "array": [
+              "u8",
+              32
+            ]
+          }
+        },
+        {
+          "name": "metadataUri",
+          "type": "string"
+        }
+      ]
+    },
+    {
+      "name": "updateConfig",
+      "discriminator": [
+        29,
+        158,
+        252,
+        191,
+        10,
+        83,
+        219,
+        99
+      ],
+      "accounts": [
+        {
+          "name": "config",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  99,
+                  111,
+                  110,
+                  102,
+                  105,
+                  103,
+                  95,
+                  118,
+                  50
+                ]
+              }
+            ]
+          }
+        },
+        {
+          "name": "admin",
+          "signer": true,
+          "relations": [
+            "config"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "params",
+          "type": {
+            "defined": {
+              "name": "updateConfigParams"
+            }
+          }
+        }
+      ]
+    }
+  ],
+  "accounts": [
+    {
+      "name": "adminActionCounter",
+      "discriminator": [
+        47,
+        50,
+        119,
+        78,
+        208,
+        185,
+        184,
+        230
+      ]
+    },
+    {
+      "name": "dispute",
+      "discriminator": [
+        36,
+        49,
+        241,
+        67,
+        40,
+        36,
+        241,
+        74
+      ]
+    },
+    {
+      "name": "programConfig",
+      "discriminator": [
+        196,
+        210,
+        90,
+        231,
+        144,
+        149,
+        140,
+        63
+      ]
+    },
+    {
+      "name": "reportAccount",
+      "discriminator": [
+        72,
+        235,
+        67,
+        221,
+        210,
+        21,
+        241,
+        176
+      ]
+    },
+    {
+      "name": "reporterStats",
+      "discriminator": [
+        7,
+        227,
+        128,
+        178,
+        53,
+        189,
+        173,
+        195
+      ]
+    },
+    {
+      "name": "rewardMintConfig",
+      "discriminator": [
+        36,
+        121,
+        231,
+        158,
+        193,
+        190,
+        24,
+        16
+      ]
+    },
+    {
+      "name": "taskAccount",
+      "discriminator": [
+        235,
+        32,
+        10,
+        23,
+        81,
+        60,
+        170,
+        203
+      ]
+    },
+    {
+      "name": "taskCounter",
+      "discriminator": [
+        25,
+        64,
+        78,
+        80,
+        180,
+        158,
+        120,
+        4
+      ]
+    },
+    {
+      "name": "taskLocation",
+      "discriminator": [
+        203,
+        145,
+        44,
+        230,
+        250,
+        136,
+        85,
+        209
+      ]
+    }
+  ],
+  "events": [
+    {
+      "name": "fundsReclaimed",
+      "discriminator": [
+        83,
+        236,
+        82,
+        130,
+        66,
+        3,
+        69,
+        163
+      ]
+    },
+    {
+      "name": "taskAccepted",
+      "discriminator": [
+        125,
+        164,
+        36,
+        103,
+        193,
+        116,
+        66,
+        27
+      ]
+    },
+    {
+      "name": "taskCreated",
+      "discriminator": [
+        49,
+        174,
+        6,
+        7,
+        71,
+        159,
+        69,
+        175
+      ]
+    },
+    {
+      "name": "taskRejected",
+      "discriminator": [
+        137,
+        171,
+        0,
+        233,
+        161,
+        176,
+        155,
+        157
+      ]
+    }
+  ],
+  "errors": [
+    {
+      "code": 6000,
+      "name": "rewardAmountTooLow",
+      "msg": "Reward amount is too low."
+    },
+    {
+      "code": 6001,
+      "name": "timestampOverflow",
+      "msg": "Timestamp calculation resulted in an overflow."
+    },
+    {
+      "code": 6002,
+      "name": "notAdmin",
+      "msg": "The signer is not the admin."
+    },
+    {
+      "code": 6003,
+      "name": "taskNotOpen",
+      "msg": "The task is not in an open state for this operation."
+    },
+    {
+      "code": 6004,
+      "name": "taskExpired",
+      "msg": "The task has already expired."
+    },
+    {
+      "code": 6005,
+      "name": "notConsigner",
+      "msg": "The signer is not the consigner of this task."
+    },
+    {
+      "code": 6006,
+      "name": "cannotReclaimFunds",
+      "msg": "Funds cannot be reclaimed yet."
+    },
+    {
+      "code": 6007,
+      "name": "denialLockupActive",
+      "msg": "Denial lockup period is still active."
+    },
+    {
+      "code": 6008,
+      "name": "counterOverflow",
+      "msg": "Counter overflow."
+    },
+    {
+      "code": 6009,
+      "name": "notTaskConsigner",
+      "msg": "The signer is not the task consigner."
+    },
+    {
+      "code": 6010,
+      "name": "taskIdMismatch",
+      "msg": "The task ID does not match the consigner's next task ID."
+    },
+    {
+      "code": 6011,
+      "name": "reportAlreadySubmitted",
+      "msg": "A report has already been submitted for this task."
+    },
+    {
+      "code": 6012,
+      "name": "metadataUriTooLong",
+      "msg": "The metadata URI is too long."
+    },
+    {
+      "code": 6013,
+      "name": "reportNotSubmitted",
+      "msg": "No report has been submitted for this task."
+    },
+    {
+      "code": 6014,
+      "name": "recipientNotReporter",
+      "msg": "The recipient is not the reporter of this task."
+    },
+    {
+      "code": 6015,
+      "name": "invalidFeePercentage",
+      "msg": "The DAO fee percentage must be between 0 and 100."
+    },
+    {
+      "code": 6016,
+      "name": "feeCalculationOverflow",
+      "msg": "The DAO fee calculation overflowed."
+    },
+    {
+      "code": 6017,
+      "name": "invalidDaoTreasury",
+      "msg": "The DAO treasury account does not match the config."
+    },
+    {
+      "code": 6018,
+      "name": "taskNotApproved",
+      "msg": "The task has not been approved."
+    },
+    {
+      "code": 6019,
+      "name": "notTaskReporter",
+      "msg": "The signer is not the reporter of this task."
+    },
+    {
+      "code": 6020,
+      "name": "governanceRewardAlreadyClaimed",
+      "msg": "The governance token reward has already been claimed."
+    },
+    {
+      "code": 6021,
+      "name": "noGovernanceReward",
+      "msg": "No governance token reward is configured."
+    },
+    {
+      "code": 6022,
+      "name": "invalidGovernanceTokenMint",
+      "msg": "The governance token mint does not match the config."
+    },
+    {
+      "code": 6023,
+      "name": "invalidDenialPenaltyDuration",
+      "msg": "The denial penalty duration must not be negative."
+    },
+    {
+      "code": 6024,
+      "name": "notPendingAdmin",
+      "msg": "The signer is not the pending admin."
+    },
+    {
+      "code": 6025,
+      "name": "taskNotExpired",
+      "msg": "The task has not expired yet."
+    },
+    {
+      "code": 6026,
+      "name": "taskNotClosable",
+      "msg": "Only approved or reclaimed tasks can be closed."
+    },
+    {
+      "code": 6027,
+      "name": "unsupportedRewardMint",
+      "msg": "The reward mint is not supported."
+    },
+    {
+      "code": 6028,
+      "name": "rewardMintMismatch",
+      "msg": "The reward mint does not match the task."
+    },
+    {
+      "code": 6029,
+      "name": "tokenRewardTask",
+      "msg": "This task's reward is an SPL token. Use the token instruction."
+    },
+    {
+      "code": 6030,
+      "name": "invalidRewardTokenAccount",
+      "msg": "The token account does not belong to the recipient."
+    },
+    {
+      "code": 6031,
+      "name": "invalidMaxReporters",
+      "msg": "The maximum number of reporters must be between 1 and 10."
+    },
+    {
+      "code": 6032,
+      "name": "invalidRewardSplit",
+      "msg": "The reward split does not match the reports."
+    },
+    {
+      "code": 6033,
+      "name": "duplicateReporter",
+      "msg": "A reporter appears more than once in the reward split."
+    },
+    {
+      "code": 6034,
+      "name": "invalidReportAccount",
+      "msg": "The report account does not belong to this task."
+    },
+    {
+      "code": 6035,
+      "name": "invalidGeohash",
+      "msg": "The geohash must be 1 to 12 base32 geohash characters."
+    },
+    {
+      "code": 6036,
+      "name": "taskNotRejected",
+      "msg": "The task has not been rejected."
+    },
+    {
+      "code": 6037,
+      "name": "disputeWindowClosed",
+      "msg": "The dispute window has closed."
+    },
+    {
+      "code": 6038,
+      "name": "taskNotDisputed",
+      "msg": "The task is not under dispute."
+    },
+    {
+      "code": 6039,
+      "name": "invalidReporterStats",
+      "msg": "The reporter stats account does not belong to the task's reporter."
+    },
+    {
+      "code": 6040,
+      "name": "reportRejected",
+      "msg": "The report has been rejected."
+    },
+    {
+      "code": 6041,
+      "name": "disputePending",
+      "msg": "The dispute has not been resolved yet."
+    },
+    {
+      "code": 6042,
+      "name": "multiReporterTask",
+      "msg": "The task accepts several reporters; use accept_reports instead."
+    },
+    {
+      "code": 6043,
+      "name": "multiReporterTokenTask",
+      "msg": "Token reward tasks accept a single reporter."
+    },
+    {
+      "code": 6044,
+      "name": "multiReporterDispute",
+      "msg": "Only single-reporter tasks can be disputed."
+    },
+    {
+      "code": 6045,
+      "name": "disputeDeadlinePassed",
+      "msg": "The dispute resolution deadline has passed."
+    },
+    {
+      "code": 6046,
+      "name": "accountAlreadyMigrated",
+      "msg": "The account already uses the current layout."
+    }
+  ],
+  "types": [
+    {
+      "name": "adminActionCounter",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "admin",
+            "type": "pubkey"
+          },
+          {
+            "name": "acceptCount",
+            "type": "u64"
+          },
+          {
+            "name": "rejectCount",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "dispute",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "reporter",
+            "type": "pubkey"
+          },
+          {
+            "name": "reasonUri",
+            "type": "string"
+          },
+          {
+            "name": "openedAt",
+            "type": "i64"
+          },
+          {
+            "name": "resolution",
+            "type": {
+              "defined": {
+                "name": "disputeResolution"
+              }
+            }
+          },
+          {
+            "name": "resolvedAt",
+            "docs": [
+              "0 while the dispute is pending."
+            ],
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "disputeResolution",
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "pending"
+          },
+          {
+            "name": "reporterPaid"
+          },
+          {
+            "name": "consignerReleased"
+          }
+        ]
+      }
+    },
+    {
+      "name": "fundsReclaimed",
+      "docs": [
+        "Emitted when the reward goes back to the consigner: `reclaim_task_funds`,",
+        "`reclaim_token_task_funds`, and `resolve_dispute` in the consigner's favour."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "consigner",
+            "type": "pubkey"
+          },
+          {
+            "name": "amount",
+            "type": "u64"
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "programConfig",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "admin",
+            "type": "pubkey"
+          },
+          {
+            "name": "daoTreasuryAddress",
+            "type": "pubkey"
+          },
+          {
+            "name": "governanceTokenMint",
+            "type": "pubkey"
+          },
+          {
+            "name": "minimumRewardAmount",
+            "type": "u64"
+          },
+          {
+            "name": "daoFeePercentage",
+            "type": "u8"
+          },
+          {
+            "name": "denialPenaltyDuration",
+            "type": "i64"
+          },
+          {
+            "name": "patrollerGovernanceTokenAmount",
+            "type": "u64"
+          },
+          {
+            "name": "isInitialized",
+            "type": "bool"
+          },
+          {
+            "name": "pendingAdmin",
+            "type": {
+              "option": "pubkey"
+            }
+          }
+        ]
+      }
+    },
+    {
+      "name": "reportAccount",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "reporter",
+            "type": "pubkey"
+          },
+          {
+            "name": "videoContentHash",
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          },
+          {
+            "name": "metadataUri",
+            "type": "string"
+          },
+          {
+            "name": "submittedAt",
+            "type": "i64"
+          },
+          {
+            "name": "rewardAmount",
+            "docs": [
+              "Lamports paid to the reporter by `accept_reports` (0 until accepted that way)."
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "approved",
+            "docs": [
+              "Set when the report is accepted; entitles the reporter to the governance reward."
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "governanceRewardClaimed",
+            "type": "bool"
+          },
+          {
+            "name": "rejected",
+            "docs": [
+              "Set by `reject_report`. A rejected report no longer counts towards `report_count`."
+            ],
+            "type": "bool"
+          }
+        ]
+      }
+    },
+    {
+      "name": "reporterStats",
+      "docs": [
+        "Track record of a reporter, created with their first report. `total_earned` counts",
+        "lamports only; approvals of SPL token tasks add to `approved_count` alone."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "reporter",
+            "type": "pubkey"
+          },
+          {
+            "name": "approvedCount",
+            "type": "u64"
+          },
+          {
+            "name": "rejectedCount",
+            "type": "u64"
+          },
+          {
+            "name": "totalEarned",
+            "type": "u64"
+          },
+          {
+            "name": "lastActivity",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "rewardMintConfig",
+      "docs": [
+        "An SPL token accepted for task rewards. `minimum_reward_amount` is in the mint's base units."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mint",
+            "type": "pubkey"
+          },
+          {
+            "name": "minimumRewardAmount",
+            "type": "u64"
+          },
+          {
+            "name": "isEnabled",
+            "type": "bool"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskAccepted",
+      "docs": [
+        "Emitted when a task is approved: `accept_task`, `accept_token_task`, `accept_reports`, and",
+        "`resolve_dispute` in the reporter's favour. `reporter_amount` is the total paid to `reporters`."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "consigner",
+            "type": "pubkey"
+          },
+          {
+            "name": "reporters",
+            "type": {
+              "vec": "pubkey"
+            }
+          },
+          {
+            "name": "reporterAmount",
+            "type": "u64"
+          },
+          {
+            "name": "daoFee",
+            "type": "u64"
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskAccount",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "taskId",
+            "type": "u64"
+          },
+          {
+            "name": "consignerWallet",
+            "type": "pubkey"
+          },
+          {
+            "name": "rewardAmountLocked",
+            "type": "u64"
+          },
+          {
+            "name": "creationTimestamp",
+            "type": "i64"
+          },
+          {
+            "name": "durationSeconds",
+            "type": "i64"
+          },
+          {
+            "name": "expirationTimestamp",
+            "type": "i64"
+          },
+          {
+            "name": "status",
+            "type": {
+              "defined": {
+                "name": "taskStatus"
+              }
+            }
+          },
+          {
+            "name": "statusUpdateTimestamp",
+            "type": "i64"
+          },
+          {
+            "name": "assignedReporter",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "reportPda",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "isInitialized",
+            "type": "bool"
+          },
+          {
+            "name": "rewardMint",
+            "docs": [
+              "`None` for SOL rewards, otherwise the SPL token mint escrowed in the task vault."
+            ],
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "maxReporters",
+            "docs": [
+              "Number of reporters whose reports can be accepted together (1 for single-reporter tasks)."
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "reportCount",
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskCounter",
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "consigner",
+            "type": "pubkey"
+          },
+          {
+            "name": "nextTaskId",
+            "type": "u64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskCreated",
+      "docs": [
+        "Emitted by `create_task` and `create_token_task`. Amounts are in the reward's base units",
+        "(lamports, or the mint's smallest unit when `reward_mint` is set)."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "consigner",
+            "type": "pubkey"
+          },
+          {
+            "name": "taskId",
+            "type": "u64"
+          },
+          {
+            "name": "rewardAmount",
+            "type": "u64"
+          },
+          {
+            "name": "rewardMint",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "maxReporters",
+            "type": "u8"
+          },
+          {
+            "name": "expirationTimestamp",
+            "type": "i64"
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskLocation",
+      "docs": [
+        "Road segment of a task. Kept in its own account so that `geohash` sits at a fixed offset",
+        "and can be matched by prefix with a `memcmp` filter."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "geohash",
+            "docs": [
+              "ASCII geohash, zero-padded to `MAX_GEOHASH_LEN` bytes."
+            ],
+            "type": {
+              "array": [
+                "u8",
+                12
+              ]
+            }
+          },
+          {
+            "name": "roadGeometryHash",
+            "docs": [
+              "SHA-256 of the canonical GeoJSON LineString of the road segment."
+            ],
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskRejected",
+      "docs": [
+        "Emitted by `reject_task`. `reporter` is `None` when no report had been submitted."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "task",
+            "type": "pubkey"
+          },
+          {
+            "name": "consigner",
+            "type": "pubkey"
+          },
+          {
+            "name": "reporter",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "timestamp",
+            "type": "i64"
+          }
+        ]
+      }
+    },
+    {
+      "name": "taskStatus",
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "open"
+          },
+          {
+            "name": "approved"
+          },
+          {
+            "name": "rejected"
+          },
+          {
+            "name": "expired"
+          },
+          {
+            "name": "reclaimed"
+          },
+          {
+            "name": "disputed"
+          }
+        ]
+      }
+    },
+    {
+      "name": "updateConfigParams",
+      "docs": [
+        "Fields left as `None` keep their current value."
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "daoTreasuryAddress",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "governanceTokenMint",
+            "type": {
+              "option": "pubkey"
+            }
+          },
+          {
+            "name": "minimumRewardAmount",
+            "type": {
+              "option": "u64"
+            }
+          },
+          {
+            "name": "daoFeePercentage",
+            "type": {
+              "option": "u8"
+            }
+          },
+          {
+            "name": "denialPenaltyDuration",
+            "type": {
+              "option": "i64"
+            }
+          },
+          {
+            "name": "patrollerGovernanceTokenAmount",
+            "type": {
+              "option": "u64"
+            }
+          }
+        ]
+      }
+    }
+  ]
+};
@@ -0,0 +1,122 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { UpdateConfigInput } from "../../client/client";
+import { MessageKey } from "../i18n/messages/ja";
+import { ProgramConfig } from "../types/program";
+
+// 管理画面のフォームの値 (入力欄の文字列のまま保持する)
+export interface ConfigFormValues {
+  daoTreasuryAddress: string;
+  governanceTokenMint: string;
+  minimumRewardAmount: string; // lamports単位
+  daoFeePercentage: string; // 0〜100
+  denialPenaltyDuration: string; // 秒単位
+  patrollerGovernanceTokenAmount: string;
+}
+
+export type ConfigFormField = keyof ConfigFormValues;
+
+// フィールドごとの検証エラー (メッセージカタログのキー)
+export type ConfigFormErrors = Partial<Record<ConfigFormField, MessageKey>>;
+
+export interface ConfigFormValidation {
+  errors: ConfigFormErrors;
+  changes: UpdateConfigInput; // 現在の値から変更されたフィールドのみ
+}
+
+const U64_MAX = new BN("18446744073709551615");
+const I64_MAX = new BN("9223372036854775807");
+
+export const configToFormValues = (
+  config: ProgramConfig
+): ConfigFormValues => ({
+  daoTreasuryAddress: config.daoTreasuryAddress.toBase58(),
+  governanceTokenMint: config.governanceTokenMint.toBase58(),
+  minimumRewardAmount: config.minimumRewardAmount.toString(),
+  daoFeePercentage: config.daoFeePercentage.toString(),
+  denialPenaltyDuration: config.denialPenaltyDuration.toString(),
+  patrollerGovernanceTokenAmount:
+    config.patrollerGovernanceTokenAmount.toString(),
+});
+
+const parsePublicKey = (value: string): PublicKey | null => {
+  try {
+    return new PublicKey(value.trim());
+  } catch {
+    return null;
+  }
+};
+
+// 0以上 max 以下の整数 (u64 / i64 の範囲チェック用)
+const parseInteger = (value: string, max: BN): BN | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const parsed = new BN(trimmed);
+  return parsed.lte(max) ? parsed : null;
+};
+
+/**
+ * フォームの値を update_config の制約 (lib.rs) に従って検証し、
+ * 現在のConfigから変更されたフィールドだけを UpdateConfigInput にまとめる。
+ */
+export const validateConfigForm = (
+  values: ConfigFormValues,
+  current: ProgramConfig
+): ConfigFormValidation => {
+  const errors: ConfigFormErrors = {};
+  const changes: UpdateConfigInput = {};
+
+  const daoTreasuryAddress = parsePublicKey(values.daoTreasuryAddress);
+  if (!daoTreasuryAddress) {
+    errors.daoTreasuryAddress = "admin.validation.invalidAddress";
+  } else if (!daoTreasuryAddress.equals(current.daoTreasuryAddress)) {
+    changes.daoTreasuryAddress = daoTreasuryAddress;
+  }
+
+  const governanceTokenMint = parsePublicKey(values.governanceTokenMint);
+  if (!governanceTokenMint) {
+    errors.governanceTokenMint = "admin.validation.invalidAddress";
+  } else if (!governanceTokenMint.equals(current.governanceTokenMint)) {
+    changes.governanceTokenMint = governanceTokenMint;
+  }
+
+  const minimumRewardAmount = parseInteger(values.minimumRewardAmount, U64_MAX);
+  if (!minimumRewardAmount) {
+    errors.minimumRewardAmount = "admin.validation.invalidAmount";
+  } else if (!minimumRewardAmount.eq(current.minimumRewardAmount)) {
+    changes.minimumRewardAmount = minimumRewardAmount;
+  }
+
+  const daoFeePercentage = parseInteger(values.daoFeePercentage, new BN(100));
+  if (!daoFeePercentage) {
+    errors.daoFeePercentage = "admin.validation.invalidPercentage";
+  } else if (daoFeePercentage.toNumber() !== current.daoFeePercentage) {
+    changes.daoFeePercentage = daoFeePercentage.toNumber();
+  }
+
+  const denialPenaltyDuration = parseInteger(
+    values.denialPenaltyDuration,
+    I64_MAX
+  );
+  if (!denialPenaltyDuration) {
+    errors.denialPenaltyDuration = "admin.validation.invalidDuration";
+  } else if (!denialPenaltyDuration.eq(current.denialPenaltyDuration)) {
+    changes.denialPenaltyDuration = denialPenaltyDuration;
+  }
+
+  const patrollerGovernanceTokenAmount = parseInteger(
+    values.patrollerGovernanceTokenAmount,
+    U64_MAX
+  );
+  if (!patrollerGovernanceTokenAmount) {
+    errors.patrollerGovernanceTokenAmount = "admin.validation.invalidAmount";
+  } else if (
+    !patrollerGovernanceTokenAmount.eq(current.patrollerGovernanceTokenAmount)
+  ) {
+    changes.patrollerGovernanceTokenAmount = patrollerGovernanceTokenAmount;
+  }
+
+  return { errors, changes };
+};
@@ -0,0 +1,247 @@
+import idl from "../idl/sunpath.json";
+
+// programs/sunpath/src/lib.rs の SunpathError (#[error_code]) に対応するエラーコード
+export const SUNPATH_ERROR_CODES = {
+  RewardAmountTooLow: 6000,
+  TimestampOverflow: 6001,
+  NotAdmin: 6002,
+  TaskNotOpen: 6003,
+  TaskExpired: 6004,
+  NotConsigner: 6005,
+  CannotReclaimFunds: 6006,
+  DenialLockupActive: 6007,
+  CounterOverflow: 6008,
+  NotTaskConsigner: 6009,
+  TaskIdMismatch: 6010,
+  ReportAlreadySubmitted: 6011,
+  MetadataUriTooLong: 6012,
+  ReportNotSubmitted: 6013,
+  RecipientNotReporter: 6014,
+  InvalidFeePercentage: 6015,
+  FeeCalculationOverflow: 6016,
+  InvalidDaoTreasury: 6017,
+  TaskNotApproved: 6018,
+  NotTaskReporter: 6019,
+  GovernanceRewardAlreadyClaimed: 6020,
+  NoGovernanceReward: 6021,
+  InvalidGovernanceTokenMint: 6022,
+  InvalidDenialPenaltyDuration: 6023,
+  NotPendingAdmin: 6024,
+  TaskNotExpired: 6025,
+  TaskNotClosable: 6026,
+  UnsupportedRewardMint: 6027,
+  RewardMintMismatch: 6028,
+  TokenRewardTask: 6029,
+  InvalidRewardTokenAccount: 6030,
+  InvalidMaxReporters: 6031,
+  InvalidRewardSplit: 6032,
+  DuplicateReporter: 6033,
+  InvalidReportAccount: 6034,
+  InvalidGeohash: 6035,
+  TaskNotRejected: 6036,
+  DisputeWindowClosed: 6037,
+  TaskNotDisputed: 6038,
+  InvalidReporterStats: 6039,
+  ReportRejected: 6040,
+  DisputePending: 6041,
+  MultiReporterTask: 6042,
+  MultiReporterTokenTask: 6043,
+  MultiReporterDispute: 6044,
+  DisputeDeadlinePassed: 6045,
+  AccountAlreadyMigrated: 6046,
+} as const;
+
+export type SunpathErrorCode = keyof typeof SUNPATH_ERROR_CODES;
+
+export type SunpathErrorKind =
+  | "program"
+  | "wallet"
+  | "rpc"
+  | "simulation"
+  | "unknown";
+
+// IDLに定義されたエラー番号 -> { name, msg }
+const idlErrors = new Map<number, { name: string; msg: string }>(
+  idl.errors.map((error) => [error.code, { name: error.name, msg: error.msg }])
+);
+
+// Sunpathプログラムが返したカスタムエラー (6000番台)
+export class SunpathProgramError extends Error {
+  readonly kind = "program" as const;
+
+  constructor(
+    readonly code: SunpathErrorCode,
+    readonly errorNumber: number,
+    message: string,
+    readonly logs: string[] = []
+  ) {
+    super(message);
+    this.name = "SunpathProgramError";
+  }
+}
+
+// ウォレット未接続・署名拒否など、ウォレット側で発生したエラー
+export class WalletError extends Error {
+  readonly kind = "wallet" as const;
+
+  constructor(
+    readonly reason: "notConnected" | "rejected" | "unknown",
+    message: string
+  ) {
+    super(message);
+    this.name = "WalletError";
+  }
+}
+
+// RPCノードとの通信失敗、ブロックハッシュ期限切れなど
+export class RpcError extends Error {
+  readonly kind = "rpc" as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+// Sunpath以外の理由でトランザクションのシミュレーション・実行が失敗したエラー
+export class SimulationError extends Error {
+  readonly kind = "simulation" as const;
+
+  constructor(message: string, readonly logs: string[] = []) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
+
+// 上記のいずれにも分類できないエラー
+export class UnknownSunpathError extends Error {
+  readonly kind = "unknown" as const;
+
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "UnknownSunpathError";
+  }
+}
+
+export type DecodedSunpathError =
+  | SunpathProgramError
+  | WalletError
+  | RpcError
+  | SimulationError
+  | UnknownSunpathError;
+
+export const isSunpathErrorCode = (name: string): name is SunpathErrorCode =>
+  name in SUNPATH_ERROR_CODES;
+
+// エラー番号からSunpathProgramErrorを作成する (Sunpathのエラーでなければnull)
+export const sunpathErrorFromNumber = (
+  errorNumber: number,
+  logs: string[] = []
+): SunpathProgramError | null => {
+  const idlError = idlErrors.get(errorNumber);
+  if (!idlError || !isSunpathErrorCode(idlError.name)) {
+    return null;
+  }
+  return new SunpathProgramError(
+    idlError.name,
+    errorNumber,
+    idlError.msg,
+    logs
+  );
+};
+
+const extractLogs = (error: any): string[] => {
+  const logs = error?.logs ?? error?.transactionLogs ?? error?.errorLogs;
+  return Array.isArray(logs) ? logs : [];
+};
+
+// AnchorError / ProgramError / SendTransactionError からエラー番号を取り出す
+const extractErrorNumber = (error: any, logs: string[]): number | null => {
+  if (typeof error?.error?.errorCode?.number === "number") {
+    return error.error.errorCode.number; // AnchorError
+  }
+  if (typeof error?.code === "number") {
+    return error.code; // ProgramError
+  }
+  const hexMatch = String(error?.message ?? "").match(
+    /custom program error: (0x[0-9a-fA-F]+)/
+  );
+  if (hexMatch) {
+    return parseInt(hexMatch[1], 16);
+  }
+  for (const log of logs) {
+    const logMatch =
+      log.match(/Error Number: (\d+)/) ??
+      log.match(/custom program error: (0x[0-9a-fA-F]+)/);
+    if (logMatch) {
+      return logMatch[1].startsWith("0x")
+        ? parseInt(logMatch[1], 16)
+        : parseInt(logMatch[1], 10);
+    }
+  }
+  return null;
+};
+
+const WALLET_REJECTION_PATTERN = /user rejected|rejected the request/i;
+const RPC_FAILURE_PATTERN =
+  /failed to fetch|fetch failed|network|timed? ?out|ECONNREFUSED|\b429\b|too many requests|blockhash not found|block height exceeded|has expired/i;
+const SIMULATION_FAILURE_PATTERN =
+  /simulation failed|failed to simulate|custom program error|program failed to complete|instruction \d+:/i;
+
+/**
+ * 任意のエラー (Anchor、web3.js、ウォレットアダプター) を型付きのエラーに変換する。
+ * ログ文字列を検索する代わりに、IDLのエラー番号から SunpathErrorCode を特定する。
+ */
+export const decodeSunpathError = (error: unknown): DecodedSunpathError => {
+  if (
+    error instanceof SunpathProgramError ||
+    error instanceof WalletError ||
+    error instanceof RpcError ||
+    error instanceof SimulationError ||
+    error instanceof UnknownSunpathError
+  ) {
+    return error;
+  }
+
+  const err = error as any;
+  const message: string =
+    err?.message ?? (typeof error === "string" ? error : String(error));
+  const logs = extractLogs(err);
+
+  const errorNumber = extractErrorNumber(err, logs);
+  if (errorNumber !== null) {
+    const programError = sunpathErrorFromNumber(errorNumber, logs);
+    if (programError) {
+      return programError;
+    }
+  }
+
+  const name: string = err?.name ?? "";
+  if (name.startsWith("Wallet") || WALLET_REJECTION_PATTERN.test(message)) {
+    const reason = WALLET_REJECTION_PATTERN.test(message)
+      ? "rejected"
+      : name === "WalletNotConnectedError"
+      ? "notConnected"
+      : "unknown";
+    return new WalletError(reason, message);
+  }
+
+  // ログがある場合はプログラムが実行された (= RPC自体は成功している)
+  if (logs.length > 0) {
+    return new SimulationError(message, logs);
+  }
+
+  if (
+    name === "TransactionExpiredBlockheightExceededError" ||
+    name === "TransactionExpiredTimeoutError" ||
+    RPC_FAILURE_PATTERN.test(message)
+  ) {
+    return new RpcError(message);
+  }
+
+  if (SIMULATION_FAILURE_PATTERN.test(message)) {
+    return new SimulationError(message);
+  }
+
+  return new UnknownSunpathError(message, error);
+};
@@ -0,0 +1,36 @@
+import { PublicKey } from "@solana/web3.js";
+import { SunpathEvents } from "../types/program";
+
+// programs/sunpath/src/lib.rs の #[event] のうち、タスクの状態変化を通知するもの
+export const TASK_EVENT_NAMES = [
+  "taskCreated",
+  "taskAccepted",
+  "taskRejected",
+  "fundsReclaimed",
+] as const;
+
+export type TaskEventName = (typeof TASK_EVENT_NAMES)[number];
+
+// イベント名とデータの組 (name で data の型を絞り込める)
+export type TaskEvent = {
+  [Name in TaskEventName]: {
+    name: Name;
+    data: SunpathEvents[Name];
+    slot: number;
+    signature: string;
+  };
+}[TaskEventName];
+
+export interface TaskEventFilter {
+  task?: PublicKey; // 特定のタスクのイベントのみ
+  consigner?: PublicKey; // 特定のconsignerのタスクのイベントのみ
+  names?: TaskEventName[]; // 省略時はすべてのイベント
+}
+
+export const matchesTaskEventFilter = (
+  event: Pick<TaskEvent, "name" | "data">,
+  filter: TaskEventFilter
+): boolean =>
+  (!filter.names || filter.names.includes(event.name)) &&
+  (!filter.task || event.data.task.equals(filter.task)) &&
+  (!filter.consigner || event.data.consigner.equals(filter.consigner));
@@ -0,0 +1,54 @@
+import { BN } from "@coral-xyz/anchor";
+
+export interface FeeBreakdown {
+  rewardAmount: BN; // ロックされた報酬額 (lamports)
+  daoFee: BN; // DAOトレジャリーへ送られる手数料
+  reporterAmount: BN; // 報告者が受け取る額
+}
+
+// programs/sunpath/src/lib.rs の calculate_dao_fee と同じ計算 (切り捨て)
+export const calculateDaoFee = (
+  rewardAmount: BN,
+  daoFeePercentage: number
+): BN => {
+  if (
+    !Number.isInteger(daoFeePercentage) ||
+    daoFeePercentage < 0 ||
+    daoFeePercentage > 100
+  ) {
+    throw new RangeError(`Invalid DAO fee percentage: ${daoFeePercentage}`);
+  }
+  return rewardAmount.muln(daoFeePercentage).divn(100);
+};
+
+// accept_task で報酬が報告者とDAOにどう分配されるかを計算する
+export const calculateFeeBreakdown = (
+  rewardAmount: BN | number | string,
+  daoFeePercentage: number
+): FeeBreakdown => {
+  const reward = BN.isBN(rewardAmount) ? rewardAmount : new BN(rewardAmount);
+  const daoFee = calculateDaoFee(reward, daoFeePercentage);
+  return { rewardAmount: reward, daoFee, reporterAmount: reward.sub(daoFee) };
+};
+
+/**
+ * programs/sunpath/src/lib.rs の split_reward と同じ計算。
+ * amount を weights の比率で切り捨てて分け、端数は最後の報告者に加える (合計は常に amount)。
+ */
+export const splitReward = (amount: BN, weights: (BN | number)[]): BN[] => {
+  const weightBNs = weights.map((weight) =>
+    BN.isBN(weight) ? weight : new BN(weight)
+  );
+  if (
+    weightBNs.length === 0 ||
+    weightBNs.some((weight) => weight.isNeg() || weight.isZero())
+  ) {
+    throw new RangeError("Reward split weights must be positive.");
+  }
+  const totalWeight = weightBNs.reduce((sum, weight) => sum.add(weight));
+  const shares = weightBNs
+    .slice(0, -1)
+    .map((weight) => amount.mul(weight).div(totalWeight));
+  const allocated = shares.reduce((sum, share) => sum.add(share), new BN(0));
+  return [...shares, amount.sub(allocated)];
+};
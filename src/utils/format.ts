@@ -0,0 +1,41 @@
+import { BN } from "@coral-xyz/anchor";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+// 最小単位の量を小数点表記の文字列に変換する (末尾の0は省略)
+export const formatTokenAmount = (
+  amount: BN | number,
+  decimals: number
+): string => {
+  const value = BN.isBN(amount) ? amount : new BN(amount);
+  const base = new BN(10).pow(new BN(decimals));
+  const whole = value.div(base).toString();
+  const fraction =
+    decimals > 0
+      ? value.mod(base).toString().padStart(decimals, "0").replace(/0+$/, "")
+      : "";
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+// lamportsをSOL表記の文字列に変換する (末尾の0は省略)
+export const formatSol = (lamports: BN | number): string =>
+  formatTokenAmount(lamports, Math.log10(LAMPORTS_PER_SOL));
+
+// 残り秒数を "1d 02:03:04" / "02:03:04" 形式に変換する
+export const formatCountdown = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const days = Math.floor(total / 86400);
+  const hms = [
+    Math.floor((total % 86400) / 3600),
+    Math.floor((total % 3600) / 60),
+    total % 60,
+  ]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}d ${hms}` : hms;
+};
+
+// 公開鍵などの長い文字列を "Abcd...wxyz" 形式に短縮する
+export const shortenAddress = (address: string, chars = 4): string =>
+  address.length <= chars * 2 + 3
+    ? address
+    : `${address.slice(0, chars)}...${address.slice(-chars)}`;
@@ -0,0 +1,171 @@
+import { utils } from "@coral-xyz/anchor";
+import { GetProgramAccountsFilter } from "@solana/web3.js";
+
+// programs/sunpath/src/lib.rs の is_valid_geohash と同じ文字 (a, i, l, o を除くbase32)
+export const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// programs/sunpath/src/lib.rs の TaskLocation::MAX_GEOHASH_LEN と同じ値
+export const MAX_GEOHASH_LENGTH = 12;
+
+// 既定の精度 (7文字 ≒ 150m四方)
+export const DEFAULT_GEOHASH_PRECISION = 7;
+
+// TaskLocationのデータ内オフセット (先頭8バイトはAnchorのdiscriminator)
+export const TASK_LOCATION_OFFSETS = {
+  task: 8,
+  geohash: 40,
+  roadGeometryHash: 52,
+} as const;
+
+// GeoJSONの座標 [経度, 緯度]
+export type Position = [number, number];
+
+export interface LineString {
+  type: "LineString";
+  coordinates: Position[];
+}
+
+// set_task_location に渡す値
+export interface RoadLocation {
+  geohash: string;
+  roadGeometryHash: Uint8Array; // 正規化したLineStringのSHA-256
+}
+
+export const isValidGeohash = (geohash: string): boolean =>
+  geohash.length > 0 &&
+  geohash.length <= MAX_GEOHASH_LENGTH &&
+  [...geohash].every((char) => GEOHASH_ALPHABET.includes(char));
+
+// 緯度・経度をgeohashに変換する
+export const encodeGeohash = (
+  latitude: number,
+  longitude: number,
+  precision: number = DEFAULT_GEOHASH_PRECISION
+): string => {
+  if (!Number.isInteger(precision) || precision < 1) {
+    throw new RangeError(`Invalid geohash precision: ${precision}`);
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new RangeError(`Invalid coordinates: ${latitude}, ${longitude}`);
+  }
+  const ranges = { lat: [-90, 90], lng: [-180, 180] };
+  let geohash = "";
+  let bits = 0;
+  let value = 0;
+  let isLongitude = true; // 経度のビットから交互に割り当てる
+  while (geohash.length < precision) {
+    const [key, coordinate] = isLongitude
+      ? (["lng", longitude] as const)
+      : (["lat", latitude] as const);
+    const range = ranges[key];
+    const mid = (range[0] + range[1]) / 2;
+    value <<= 1;
+    if (coordinate >= mid) {
+      value |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    isLongitude = !isLongitude;
+    if (++bits === 5) {
+      geohash += GEOHASH_ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return geohash;
+};
+
+/**
+ * GeoJSONのLineString (またはLineStringを持つFeature) を検証して取り出す。
+ * 文字列の場合はJSONとして解析する。不正な入力では例外を投げる。
+ */
+export const parseLineString = (input: string | unknown): LineString => {
+  const json: any = typeof input === "string" ? JSON.parse(input) : input;
+  const geometry = json?.type === "Feature" ? json.geometry : json;
+  if (geometry?.type !== "LineString" || !Array.isArray(geometry.coordinates)) {
+    throw new TypeError(
+      "GeoJSON must be a LineString or a LineString Feature."
+    );
+  }
+  if (geometry.coordinates.length < 2) {
+    throw new RangeError("A LineString needs at least two positions.");
+  }
+  const coordinates = geometry.coordinates.map((position: unknown) => {
+    if (
+      !Array.isArray(position) ||
+      position.length < 2 ||
+      !position.every((n) => typeof n === "number" && Number.isFinite(n))
+    ) {
+      throw new TypeError("Each position must be [longitude, latitude].");
+    }
+    const [longitude, latitude] = position;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new RangeError(`Invalid position: ${longitude}, ${latitude}`);
+    }
+    return [longitude, latitude] as Position;
+  });
+  return { type: "LineString", coordinates };
+};
+
+// ハッシュ計算用の正規化 (キーの順序を固定し、高度などの追加要素を除く)
+export const canonicalLineString = (lineString: LineString): string =>
+  JSON.stringify({
+    type: "LineString",
+    coordinates: lineString.coordinates.map(([lng, lat]) => [lng, lat]),
+  });
+
+export const hashRoadGeometry = async (
+  lineString: LineString
+): Promise<Uint8Array> =>
+  new Uint8Array(
+    await globalThis.crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(canonicalLineString(lineString))
+    )
+  );
+
+// LineStringの外接矩形の中心のgeohash
+export const lineStringGeohash = (
+  lineString: LineString,
+  precision: number = DEFAULT_GEOHASH_PRECISION
+): string => {
+  const lngs = lineString.coordinates.map(([lng]) => lng);
+  const lats = lineString.coordinates.map(([, lat]) => lat);
+  return encodeGeohash(
+    (Math.min(...lats) + Math.max(...lats)) / 2,
+    (Math.min(...lngs) + Math.max(...lngs)) / 2,
+    precision
+  );
+};
+
+// GeoJSONから set_task_location の引数を作る
+export const roadLocationFromGeoJson = async (
+  input: string | unknown,
+  precision: number = DEFAULT_GEOHASH_PRECISION
+): Promise<RoadLocation> => {
+  const lineString = parseLineString(input);
+  return {
+    geohash: lineStringGeohash(lineString, precision),
+    roadGeometryHash: await hashRoadGeometry(lineString),
+  };
+};
+
+// TaskLocation.geohash ([u8; 12]、0埋め) から文字列に戻す
+export const geohashFromBytes = (bytes: ArrayLike<number>): string =>
+  String.fromCharCode(...Array.from(bytes).filter((byte) => byte !== 0));
+
+// geohashの前方一致で TaskLocation を検索するmemcmpフィルター
+export const buildGeohashPrefixFilter = (
+  prefix: string
+): GetProgramAccountsFilter => {
+  if (!isValidGeohash(prefix)) {
+    throw new RangeError(`Invalid geohash prefix: ${prefix}`);
+  }
+  return {
+    memcmp: {
+      offset: TASK_LOCATION_OFFSETS.geohash,
+      bytes: utils.bytes.bs58.encode(Buffer.from(prefix, "ascii")),
+    },
+  };
+};
@@ -0,0 +1,19 @@
+// programs/sunpath/src/lib.rs の ReportAccount::MAX_METADATA_URI_LEN と同じ値 (UTF-8のバイト数)
+export const MAX_METADATA_URI_LENGTH = 200;
+
+export const metadataUriByteLength = (metadataUri: string): number =>
+  new TextEncoder().encode(metadataUri).length;
+
+export const isValidMetadataUri = (metadataUri: string): boolean =>
+  metadataUriByteLength(metadataUri) <= MAX_METADATA_URI_LENGTH;
+
+// 動画ファイルのSHA-256ハッシュ (submit_report の video_content_hash)
+// ブラウザとNode 18以降のどちらでも利用できる Web Crypto API を使う
+export const hashVideoContent = async (
+  content: ArrayBuffer | Uint8Array
+): Promise<Uint8Array> =>
+  new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", content));
+
+// ハッシュ値を16進文字列で表示する
+export const toHex = (bytes: ArrayLike<number>): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
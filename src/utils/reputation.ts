@@ -0,0 +1,17 @@
+import { ReporterStats } from "../types/program";
+
+// 承認率 (0〜1)。承認・拒否のどちらもまだない場合はnull
+export const approvalRate = (
+  stats: Pick<ReporterStats, "approvedCount" | "rejectedCount">
+): number | null => {
+  const total = stats.approvedCount.add(stats.rejectedCount);
+  if (total.isZero()) {
+    return null;
+  }
+  // 件数は u64 だが、実用上は Number の安全な範囲に収まる
+  return stats.approvedCount.toNumber() / total.toNumber();
+};
+
+// 承認率をパーセント表記にする (例: 0.875 -> "87.5%")
+export const formatApprovalRate = (rate: number): string =>
+  `${Math.round(rate * 1000) / 10}%`;
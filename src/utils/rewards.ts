@@ -0,0 +1,34 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { formatSol, formatTokenAmount, shortenAddress } from "./format";
+
+// 報酬に使えるSPLトークン (RewardMintConfig と mint の decimals)
+export interface RewardMintInfo {
+  mint: PublicKey;
+  minimumRewardAmount: BN; // mintの最小単位
+  decimals: number;
+}
+
+export interface FormattedReward {
+  amount: string;
+  unit: string; // "SOL" またはmintアドレスの短縮表記
+}
+
+/**
+ * 報酬額を表示用の文字列に変換する。rewardMint が null の場合はSOL (lamports) として扱う。
+ * 対応トークンの一覧にないmintは decimals が分からないため最小単位のまま表示する。
+ */
+export const formatReward = (
+  amount: BN,
+  rewardMint: PublicKey | null,
+  rewardMints: RewardMintInfo[] = []
+): FormattedReward => {
+  if (!rewardMint) {
+    return { amount: formatSol(amount), unit: "SOL" };
+  }
+  const info = rewardMints.find(({ mint }) => mint.equals(rewardMint));
+  return {
+    amount: info ? formatTokenAmount(amount, info.decimals) : amount.toString(),
+    unit: shortenAddress(rewardMint.toBase58()),
+  };
+};
@@ -0,0 +1,127 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { Dispute, ProgramConfig, TaskAccount } from "../types/program";
+import { taskStatusName } from "./tasks";
+
+// 現在時刻 (Unix秒)。オンチェーンの Clock::unix_timestamp と比較する
+export const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+type RuleTask = Pick<
+  TaskAccount,
+  "status" | "expirationTimestamp" | "statusUpdateTimestamp"
+>;
+
+// accept_task / reject_task: Open かつ expiration_timestamp 以前
+export const canAcceptOrReject = (task: RuleTask, now: number): boolean =>
+  taskStatusName(task.status) === "open" &&
+  new BN(now).lte(task.expirationTimestamp);
+
+// 承認にはさらにレポートの提出 (report_pda) が必要
+const hasReport = (
+  task: RuleTask & Pick<TaskAccount, "reportPda">,
+  now: number
+): boolean => canAcceptOrReject(task, now) && task.reportPda !== null;
+
+// accept_task: 報告者1人のタスクのみ (max_reporters > 1 のタスクは accept_reports で承認する)
+export const canAccept = (
+  task: RuleTask & Pick<TaskAccount, "reportPda" | "maxReporters">,
+  now: number
+): boolean => hasReport(task, now) && task.maxReporters <= 1;
+
+// accept_reports: 複数の報告者を受け付けるSOL報酬のタスクで、レポートが1件以上ある
+export const canAcceptReports = (
+  task: RuleTask &
+    Pick<TaskAccount, "reportPda" | "rewardMint" | "maxReporters">,
+  now: number
+): boolean =>
+  hasReport(task, now) && task.rewardMint === null && task.maxReporters > 1;
+
+export const canReject = canAcceptOrReject;
+
+// reject_report: タスクを拒否せずにレポート1件だけを拒否し、提出枠を空ける (タスクの条件は reject_task と同じ)
+export const canRejectReport = canAcceptOrReject;
+
+// close_task: 承認済みか回収済み (ガバナンストークンはクローズ後もレポートから受け取れる)
+export const canClose = (task: Pick<TaskAccount, "status">): boolean => {
+  const status = taskStatusName(task.status);
+  return status === "approved" || status === "reclaimed";
+};
+
+// reclaim_task_funds が可能になる時刻 (Unix秒)。回収できない状態ならnull
+export const reclaimAvailableAt = (
+  task: RuleTask,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">
+): BN | null => {
+  switch (taskStatusName(task.status)) {
+    case "rejected":
+      return task.statusUpdateTimestamp.add(config.denialPenaltyDuration);
+    case "open":
+    case "expired":
+      // 期限を過ぎた後 (>) に回収できる (expire_task の実行は不要)
+      return task.expirationTimestamp.addn(1);
+    case "disputed":
+      // 管理者が解決期限までに解決しなければ拒否が確定する
+      return task.statusUpdateTimestamp.add(config.denialPenaltyDuration);
+    default:
+      return null;
+  }
+};
+
+// open_dispute の期限 (Unix秒、この時刻より前なら申し立てできる)。拒否されていなければnull
+export const disputeDeadline = (
+  task: RuleTask,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">
+): BN | null =>
+  taskStatusName(task.status) === "rejected"
+    ? task.statusUpdateTimestamp.add(config.denialPenaltyDuration)
+    : null;
+
+// open_dispute: 拒否された報告者1人のタスクで、担当の報告者がペナルティ期間内に申し立てる
+export const canOpenDispute = (
+  task: RuleTask & Pick<TaskAccount, "assignedReporter" | "maxReporters">,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">,
+  now: number,
+  reporter: PublicKey
+): boolean => {
+  const deadline = disputeDeadline(task, config);
+  return (
+    deadline !== null &&
+    new BN(now).lt(deadline) &&
+    task.maxReporters <= 1 &&
+    task.assignedReporter !== null &&
+    task.assignedReporter.equals(reporter)
+  );
+};
+
+// resolve_dispute の期限 (Unix秒、この時刻より前なら解決できる)。過ぎるとconsignerが資金を回収できる
+export const disputeResolutionDeadline = (
+  dispute: Pick<Dispute, "openedAt">,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">
+): BN => dispute.openedAt.add(config.denialPenaltyDuration);
+
+// resolve_dispute: 異議申し立て中のタスクで解決期限より前 (管理者のみ実行できる)。
+// 申し立て中の status_update_timestamp は申し立て時刻 (opened_at) と同じ
+export const canResolveDispute = (
+  task: Pick<TaskAccount, "status" | "statusUpdateTimestamp">,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">,
+  now: number
+): boolean =>
+  taskStatusName(task.status) === "disputed" &&
+  new BN(now).lt(
+    disputeResolutionDeadline({ openedAt: task.statusUpdateTimestamp }, config)
+  );
+
+// expire_task: Open かつ expiration_timestamp より後 (誰でも実行できる)
+export const canExpire = (task: RuleTask, now: number): boolean =>
+  taskStatusName(task.status) === "open" &&
+  new BN(now).gt(task.expirationTimestamp);
+
+// reclaim_task_funds: 拒否後のペナルティ期間経過、期限切れ (Open / Expired)、または異議の解決期限切れ
+export const canReclaim = (
+  task: RuleTask,
+  config: Pick<ProgramConfig, "denialPenaltyDuration">,
+  now: number
+): boolean => {
+  const availableAt = reclaimAvailableAt(task, config);
+  return availableAt !== null && new BN(now).gte(availableAt);
+};
@@ -0,0 +1,119 @@
+import { BN, ProgramAccount, utils } from "@coral-xyz/anchor";
+import { GetProgramAccountsFilter, PublicKey } from "@solana/web3.js";
+import { TaskAccount, TaskStatus } from "../types/program";
+
+// TaskStatusのバリアント名 (例: "open")
+export type TaskStatusName = keyof TaskStatus;
+
+// programs/sunpath/src/lib.rs の TaskStatus の宣言順 (Borshのバリアント番号)
+export const TASK_STATUS_NAMES: TaskStatusName[] = [
+  "open",
+  "approved",
+  "rejected",
+  "expired",
+  "reclaimed",
+  "disputed",
+];
+
+// TaskAccountのデータ内オフセット (先頭8バイトはAnchorのdiscriminator)
+// Option<Pubkey> の後ろのフィールドは位置が変わるため、それより前のフィールドのみ定義する
+export const TASK_ACCOUNT_OFFSETS = {
+  taskId: 8,
+  consignerWallet: 16,
+  rewardAmountLocked: 48,
+  creationTimestamp: 56,
+  durationSeconds: 64,
+  expirationTimestamp: 72,
+  status: 80,
+  statusUpdateTimestamp: 81,
+  assignedReporter: 89, // Optionのタグ (1バイト) + Pubkey
+} as const;
+
+export interface TaskFilter {
+  consigner?: PublicKey;
+  status?: TaskStatusName;
+  assignedReporter?: PublicKey;
+}
+
+export type TaskSortOrder = "asc" | "desc";
+
+export interface ListTasksOptions extends TaskFilter {
+  sortOrder?: TaskSortOrder; // expiration_timestamp の並び順 (既定: 昇順)
+  page?: number; // 0始まりのページ番号
+  pageSize?: number; // 省略時は全件
+}
+
+export interface TaskPage {
+  tasks: ProgramAccount<TaskAccount>[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const taskStatusName = (status: TaskStatus): TaskStatusName =>
+  Object.keys(status)[0] as TaskStatusName;
+
+// getProgramAccounts に渡すmemcmpフィルターを組み立てる
+export const buildTaskFilters = (
+  filter: TaskFilter
+): GetProgramAccountsFilter[] => {
+  const filters: GetProgramAccountsFilter[] = [];
+  if (filter.consigner) {
+    filters.push({
+      memcmp: {
+        offset: TASK_ACCOUNT_OFFSETS.consignerWallet,
+        bytes: filter.consigner.toBase58(),
+      },
+    });
+  }
+  if (filter.status) {
+    filters.push({
+      memcmp: {
+        offset: TASK_ACCOUNT_OFFSETS.status,
+        bytes: utils.bytes.bs58.encode([
+          TASK_STATUS_NAMES.indexOf(filter.status),
+        ]),
+      },
+    });
+  }
+  if (filter.assignedReporter) {
+    // Some(pubkey) は タグ1 + 32バイトの公開鍵としてエンコードされる
+    filters.push({
+      memcmp: {
+        offset: TASK_ACCOUNT_OFFSETS.assignedReporter,
+        bytes: utils.bytes.bs58.encode(
+          Buffer.concat([Buffer.from([1]), filter.assignedReporter.toBuffer()])
+        ),
+      },
+    });
+  }
+  return filters;
+};
+
+// 並び替えに必要な最小限の情報 (getProgramAccounts の dataSlice で取得する)
+export interface TaskSortKey {
+  publicKey: PublicKey;
+  expirationTimestamp: BN;
+}
+
+// expiration_timestamp で並び替えてからページ単位に切り出す
+export const sortAndPaginate = <T extends TaskSortKey>(
+  items: T[],
+  options: Pick<ListTasksOptions, "sortOrder" | "page" | "pageSize"> = {}
+): { items: T[]; total: number; page: number; pageSize: number } => {
+  const { sortOrder = "asc", page = 0 } = options;
+  const pageSize = options.pageSize ?? items.length;
+  const direction = sortOrder === "asc" ? 1 : -1;
+  const sorted = [...items].sort(
+    (a, b) =>
+      direction * a.expirationTimestamp.cmp(b.expirationTimestamp) ||
+      a.publicKey.toBase58().localeCompare(b.publicKey.toBase58())
+  );
+  const start = page * pageSize;
+  return {
+    items: pageSize > 0 ? sorted.slice(start, start + pageSize) : [],
+    total: sorted.length,
+    page,
+    pageSize,
+  };
+};
@@ -0,0 +1,102 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { BN } from "bn.js";
+import { expect } from "chai";
+import {
+  formatTable,
+  parseCliArgs,
+  parseInteger,
+  resolveClusterUrl,
+  toPlainJson,
+} from "../client/cli";
+
+describe("cli", () => {
+  const env = {};
+
+  it("parses commands, positional arguments and flags", () => {
+    const task = Keypair.generate().publicKey.toBase58();
+    const parsed = parseCliArgs(
+      ["task", "reclaim", task, "--close", "--output", "json", "--dry-run"],
+      env
+    );
+    expect(parsed.command).to.equal("task reclaim");
+    expect(parsed.args).to.deep.equal([task]);
+    expect(parsed.flags).to.deep.equal({ close: true });
+    expect(parsed.global.output).to.equal("json");
+    expect(parsed.global.dryRun).to.equal(true);
+
+    expect(parseCliArgs(["config", "migrate"], env).command).to.equal(
+      "config migrate"
+    );
+  });
+
+  it("falls back to the Anchor environment variables", () => {
+    const parsed = parseCliArgs(["config", "show"], {
+      ANCHOR_WALLET: "/tmp/id.json",
+      ANCHOR_PROVIDER_URL: "devnet",
+    });
+    expect(parsed.global.keypair).to.equal("/tmp/id.json");
+    expect(parsed.global.url).to.equal("https://api.devnet.solana.com");
+    expect(parsed.global.output).to.equal("table");
+
+    const flagged = parseCliArgs(
+      ["init", "--keypair", "/tmp/ops.json", "--url", "localnet"],
+      { ANCHOR_WALLET: "/tmp/id.json" }
+    );
+    expect(flagged.global.keypair).to.equal("/tmp/ops.json");
+    expect(flagged.global.url).to.equal("http://127.0.0.1:8899");
+    expect(flagged.flags).to.deep.equal({});
+  });
+
+  it("rejects unknown commands and missing values", () => {
+    expect(() => parseCliArgs(["task", "delete"], env)).to.throw();
+    expect(() => parseCliArgs([], env)).to.throw();
+    expect(() =>
+      parseCliArgs(["task", "create", "--reward", "--dry-run"], env)
+    ).to.throw();
+    expect(() =>
+      parseCliArgs(["config", "show", "--output", "yaml"], env)
+    ).to.throw();
+  });
+
+  it("keeps custom RPC URLs unchanged", () => {
+    expect(resolveClusterUrl("https://rpc.example.com")).to.equal(
+      "https://rpc.example.com"
+    );
+  });
+
+  it("parses non-negative integers as BN", () => {
+    expect(
+      parseInteger("18446744073709551615", "--reward").toString()
+    ).to.equal("18446744073709551615");
+    expect(() => parseInteger("-1", "--reward")).to.throw();
+    expect(() => parseInteger("1.5", "--reward")).to.throw();
+  });
+
+  it("converts accounts to plain JSON", () => {
+    const key = PublicKey.default;
+    expect(
+      toPlainJson({
+        taskId: new BN(7),
+        consignerWallet: key,
+        status: { rejected: {} },
+        assignedReporter: null,
+        hash: Uint8Array.from([1, 255]),
+      })
+    ).to.deep.equal({
+      taskId: "7",
+      consignerWallet: key.toBase58(),
+      status: "rejected",
+      assignedReporter: null,
+      hash: "01ff",
+    });
+  });
+
+  it("aligns table columns under a header rule", () => {
+    expect(
+      formatTable([
+        ["id", "status"],
+        ["10", "open"],
+      ])
+    ).to.equal("id  status\n--  ------\n10  open");
+  });
+});
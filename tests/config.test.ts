@@ -0,0 +1,66 @@
+import { Keypair } from "@solana/web3.js";
+import { BN } from "bn.js";
+import { expect } from "chai";
+import { configToFormValues, validateConfigForm } from "../src/utils/config";
+import { ProgramConfig } from "../src/types/program";
+
+const current: ProgramConfig = {
+  admin: Keypair.generate().publicKey,
+  daoTreasuryAddress: Keypair.generate().publicKey,
+  governanceTokenMint: Keypair.generate().publicKey,
+  minimumRewardAmount: new BN(10_000_000),
+  daoFeePercentage: 5,
+  denialPenaltyDuration: new BN(86_400),
+  patrollerGovernanceTokenAmount: new BN(0),
+  isInitialized: true,
+  pendingAdmin: null,
+};
+
+describe("validateConfigForm", () => {
+  it("reports no changes for the current config", () => {
+    const { errors, changes } = validateConfigForm(
+      configToFormValues(current),
+      current
+    );
+    expect(errors).to.deep.equal({});
+    expect(changes).to.deep.equal({});
+  });
+
+  it("returns only the changed fields", () => {
+    const treasury = Keypair.generate().publicKey;
+    const { errors, changes } = validateConfigForm(
+      {
+        ...configToFormValues(current),
+        daoFeePercentage: "10",
+        daoTreasuryAddress: treasury.toBase58(),
+      },
+      current
+    );
+    expect(errors).to.deep.equal({});
+    expect(Object.keys(changes).sort()).to.deep.equal([
+      "daoFeePercentage",
+      "daoTreasuryAddress",
+    ]);
+    expect(changes.daoFeePercentage).to.equal(10);
+    expect(changes.daoTreasuryAddress!.equals(treasury)).to.equal(true);
+  });
+
+  it("rejects values the program would refuse", () => {
+    const { errors } = validateConfigForm(
+      {
+        ...configToFormValues(current),
+        daoFeePercentage: "101",
+        denialPenaltyDuration: "-1",
+        minimumRewardAmount: "18446744073709551616",
+        governanceTokenMint: "not-a-key",
+      },
+      current
+    );
+    expect(errors).to.deep.equal({
+      daoFeePercentage: "admin.validation.invalidPercentage",
+      denialPenaltyDuration: "admin.validation.invalidDuration",
+      minimumRewardAmount: "admin.validation.invalidAmount",
+      governanceTokenMint: "admin.validation.invalidAddress",
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { AnchorError, ProgramError } from "@coral-xyz/anchor";
+import { expect } from "chai";
+import idl from "../src/idl/sunpath.json";
+import {
+  decodeSunpathError,
+  RpcError,
+  SimulationError,
+  SUNPATH_ERROR_CODES,
+  SunpathProgramError,
+  UnknownSunpathError,
+  WalletError,
+} from "../src/utils/errors";
+
+describe("decodeSunpathError", () => {
+  it("covers every error declared in the IDL", () => {
+    const fromIdl = Object.fromEntries(
+      idl.errors.map((error) => [error.name, error.code])
+    );
+    expect(SUNPATH_ERROR_CODES).to.deep.equal(fromIdl);
+  });
+
+  it("decodes an AnchorError by its error number", () => {
+    const anchorError = new AnchorError(
+      { code: "DenialLockupActive", number: 6007 },
+      "Denial lockup period is still active.",
+      [],
+      ["Program log: AnchorError occurred."]
+    );
+    const decoded = decodeSunpathError(anchorError);
+    expect(decoded).to.be.instanceOf(SunpathProgramError);
+    expect((decoded as SunpathProgramError).code).to.equal(
+      "DenialLockupActive"
+    );
+    expect(decoded.kind).to.equal("program");
+  });
+
+  it("decodes a ProgramError code", () => {
+    const decoded = decodeSunpathError(
+      new ProgramError(6000, "Reward amount is too low.")
+    );
+    expect((decoded as SunpathProgramError).code).to.equal(
+      "RewardAmountTooLow"
+    );
+  });
+
+  it("decodes a hex custom program error from a send error", () => {
+    const decoded = decodeSunpathError(
+      new Error(
+        "failed to send transaction: Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1773"
+      )
+    );
+    expect((decoded as SunpathProgramError).code).to.equal("TaskNotOpen");
+  });
+
+  it("decodes the error number from program logs", () => {
+    const error = Object.assign(new Error("Simulation failed."), {
+      logs: [
+        "Program log: AnchorError thrown in programs/sunpath/src/lib.rs:154. Error Code: TaskExpired. Error Number: 6004. Error Message: The task has already expired.",
+      ],
+    });
+    const decoded = decodeSunpathError(error);
+    expect((decoded as SunpathProgramError).code).to.equal("TaskExpired");
+    expect((decoded as SunpathProgramError).logs).to.have.length(1);
+  });
+
+  it("classifies wallet, rpc and simulation failures", () => {
+    const rejected = new Error("User rejected the request.");
+    rejected.name = "WalletSignTransactionError";
+    expect(decodeSunpathError(rejected)).to.be.instanceOf(WalletError);
+    expect((decodeSunpathError(rejected) as WalletError).reason).to.equal(
+      "rejected"
+    );
+
+    expect(
+      decodeSunpathError(
+        new Error("failed to get recent blockhash: fetch failed")
+      )
+    ).to.be.instanceOf(RpcError);
+
+    const insufficient = Object.assign(new Error("Simulation failed."), {
+      logs: [
+        "Program 11111111111111111111111111111111 failed: custom program error: 0x1",
+      ],
+    });
+    expect(decodeSunpathError(insufficient)).to.be.instanceOf(SimulationError);
+
+    expect(decodeSunpathError("boom")).to.be.instanceOf(UnknownSunpathError);
+  });
+
+  it("returns already decoded errors unchanged", () => {
+    const walletError = new WalletError("notConnected", "not connected");
+    expect(decodeSunpathError(walletError)).to.equal(walletError);
+  });
+});
@@ -0,0 +1,47 @@
+import { Keypair } from "@solana/web3.js";
+import { BN } from "bn.js";
+import { expect } from "chai";
+import idl from "../src/idl/sunpath.json";
+import {
+  matchesTaskEventFilter,
+  TASK_EVENT_NAMES,
+  TaskEvent,
+} from "../src/utils/events";
+
+const lowerFirst = (name: string) => name[0].toLowerCase() + name.slice(1);
+
+describe("events", () => {
+  const task = Keypair.generate().publicKey;
+  const consigner = Keypair.generate().publicKey;
+  const rejected = {
+    name: "taskRejected",
+    data: { task, consigner, reporter: null, timestamp: new BN(100) },
+  } as Pick<TaskEvent, "name" | "data">;
+
+  it("lists events declared in the IDL", () => {
+    const declared = idl.events.map((event) => lowerFirst(event.name));
+    expect(declared).to.include.members([...TASK_EVENT_NAMES]);
+  });
+
+  it("matches every event without a filter", () => {
+    expect(matchesTaskEventFilter(rejected, {})).to.equal(true);
+  });
+
+  it("filters by task, consigner and event name", () => {
+    const other = Keypair.generate().publicKey;
+    expect(matchesTaskEventFilter(rejected, { task })).to.equal(true);
+    expect(matchesTaskEventFilter(rejected, { task: other })).to.equal(false);
+    expect(matchesTaskEventFilter(rejected, { consigner })).to.equal(true);
+    expect(matchesTaskEventFilter(rejected, { consigner: other })).to.equal(
+      false
+    );
+    expect(
+      matchesTaskEventFilter(rejected, { names: ["taskAccepted"] })
+    ).to.equal(false);
+    expect(
+      matchesTaskEventFilter(rejected, {
+        names: ["taskRejected", "fundsReclaimed"],
+      })
+    ).to.equal(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { BN } from "bn.js";
+import { expect } from "chai";
+import {
+  calculateDaoFee,
+  calculateFeeBreakdown,
+  splitReward,
+} from "../src/utils/fees";
+
+describe("fees", () => {
+  it("splits the reward between reporter and DAO", () => {
+    const { daoFee, reporterAmount, rewardAmount } = calculateFeeBreakdown(
+      new BN(15_000_000),
+      5
+    );
+    expect(daoFee.toString()).to.equal("750000");
+    expect(reporterAmount.toString()).to.equal("14250000");
+    expect(daoFee.add(reporterAmount).eq(rewardAmount)).to.equal(true);
+  });
+
+  it("rounds the DAO fee down like calculate_dao_fee", () => {
+    expect(calculateDaoFee(new BN(199), 1).toString()).to.equal("1");
+    expect(calculateDaoFee(new BN(99), 1).toString()).to.equal("0");
+  });
+
+  it("handles 0% and 100% fees and u64-sized rewards", () => {
+    const max = new BN("18446744073709551615");
+    expect(calculateFeeBreakdown(max, 0).reporterAmount.eq(max)).to.equal(true);
+    expect(calculateFeeBreakdown(max, 100).daoFee.eq(max)).to.equal(true);
+  });
+
+  it("rejects percentages outside 0-100", () => {
+    expect(() => calculateDaoFee(new BN(1), 101)).to.throw(RangeError);
+    expect(() => calculateDaoFee(new BN(1), -1)).to.throw(RangeError);
+  });
+
+  it("splits a reward equally and gives the dust to the last reporter", () => {
+    const shares = splitReward(new BN(100), [1, 1, 1]);
+    expect(shares.map((share) => share.toNumber())).to.deep.equal([33, 33, 34]);
+  });
+
+  it("splits a reward by coverage weights", () => {
+    const shares = splitReward(new BN(1_000_000), [300, 700]);
+    expect(shares.map((share) => share.toString())).to.deep.equal([
+      "300000",
+      "700000",
+    ]);
+  });
+
+  it("rejects empty or non-positive weights", () => {
+    expect(() => splitReward(new BN(1), [])).to.throw(RangeError);
+    expect(() => splitReward(new BN(1), [1, 0])).to.throw(RangeError);
+  });
+});
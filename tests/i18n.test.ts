@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import {
+  catalogs,
+  formatError,
+  localizeError,
+  translate,
+} from "../src/i18n/translate";
+import {
+  SUNPATH_ERROR_CODES,
+  SunpathProgramError,
+  WalletError,
+} from "../src/utils/errors";
+
+describe("i18n", () => {
+  it("has the same keys in every catalog", () => {
+    expect(Object.keys(catalogs.en).sort()).to.deep.equal(
+      Object.keys(catalogs.ja).sort()
+    );
+  });
+
+  it("has a message for every SunpathError in every catalog", () => {
+    for (const code of Object.keys(SUNPATH_ERROR_CODES)) {
+      expect(catalogs.ja).to.have.property(`errors.program.${code}`);
+      expect(catalogs.en).to.have.property(`errors.program.${code}`);
+    }
+  });
+
+  it("interpolates parameters", () => {
+    expect(translate("en", "errors.rpc", { detail: "timeout" })).to.equal(
+      "Could not reach the RPC node: timeout"
+    );
+    expect(translate("ja", "validation.invalidPublicKey")).to.contain(
+      "{detail}"
+    );
+  });
+
+  it("formats decoded errors in the requested locale", () => {
+    const error = new SunpathProgramError(
+      "TaskExpired",
+      6004,
+      "The task has already expired."
+    );
+    expect(formatError("en", error)).to.equal(
+      "The task has expired (TaskExpired)."
+    );
+    expect(formatError("ja", error)).to.equal(
+      "タスクは期限切れです (TaskExpired)。"
+    );
+    expect(
+      formatError("en", new WalletError("notConnected", "not connected"))
+    ).to.equal("Wallet is not connected.");
+  });
+
+  it("decodes and localizes raw errors", () => {
+    const localized = localizeError(
+      "en",
+      new Error("custom program error: 0x1770")
+    );
+    expect(localized).to.be.instanceOf(SunpathProgramError);
+    expect(localized.message).to.contain("RewardAmountTooLow");
+  });
+});
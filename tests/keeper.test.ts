@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { chunk, parseKeeperArgs } from "../client/keeper";
+
+describe("keeper", () => {
+  it("splits tasks into batches", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).to.deep.equal([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 3)).to.deep.equal([]);
+  });
+
+  it("parses command line options", () => {
+    expect(parseKeeperArgs([])).to.deep.equal({
+      batchSize: 8,
+      intervalSeconds: 60,
+      once: false,
+    });
+    expect(
+      parseKeeperArgs(["--once", "--batch-size", "4", "--interval", "30"])
+    ).to.deep.equal({ batchSize: 4, intervalSeconds: 30, once: true });
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => parseKeeperArgs(["--batch-size", "0"])).to.throw();
+    expect(() => parseKeeperArgs(["--unknown"])).to.throw();
+  });
+});
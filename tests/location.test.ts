@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { utils } from "@coral-xyz/anchor";
+import { expect } from "chai";
+import {
+  buildGeohashPrefixFilter,
+  canonicalLineString,
+  encodeGeohash,
+  geohashFromBytes,
+  hashRoadGeometry,
+  isValidGeohash,
+  lineStringGeohash,
+  MAX_GEOHASH_LENGTH,
+  parseLineString,
+  roadLocationFromGeoJson,
+  TASK_LOCATION_OFFSETS,
+} from "../src/utils/location";
+
+const segment = {
+  type: "Feature",
+  properties: { name: "Route 1" },
+  geometry: {
+    type: "LineString",
+    coordinates: [
+      [139.7671, 35.6812, 12.5],
+      [139.7702, 35.6846],
+    ],
+  },
+};
+
+describe("location", () => {
+  it("matches TaskLocation::MAX_GEOHASH_LEN in lib.rs", () => {
+    const programSource = readFileSync(
+      join(__dirname, "../programs/sunpath/src/lib.rs"),
+      "utf8"
+    );
+    const declared = programSource.match(/MAX_GEOHASH_LEN: usize = (\d+);/);
+    expect(Number(declared![1])).to.equal(MAX_GEOHASH_LENGTH);
+    // task (32) の直後に geohash、その後に road_geometry_hash
+    expect(TASK_LOCATION_OFFSETS.geohash).to.equal(8 + 32);
+    expect(TASK_LOCATION_OFFSETS.roadGeometryHash).to.equal(
+      8 + 32 + MAX_GEOHASH_LENGTH
+    );
+  });
+
+  it("encodes coordinates as a geohash", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).to.equal("u4pruydqqvj");
+    expect(encodeGeohash(35.6812, 139.7671, 5)).to.equal("xn76u");
+    expect(() => encodeGeohash(91, 0)).to.throw(RangeError);
+  });
+
+  it("validates geohash characters and length", () => {
+    expect(isValidGeohash("xn76u")).to.equal(true);
+    expect(isValidGeohash("")).to.equal(false);
+    expect(isValidGeohash("xn76a")).to.equal(false);
+    expect(isValidGeohash("x".repeat(MAX_GEOHASH_LENGTH + 1))).to.equal(false);
+  });
+
+  it("parses LineString features and rejects other geometries", () => {
+    const lineString = parseLineString(JSON.stringify(segment));
+    expect(lineString.coordinates).to.deep.equal([
+      [139.7671, 35.6812],
+      [139.7702, 35.6846],
+    ]);
+    expect(() =>
+      parseLineString({ type: "Point", coordinates: [0, 0] })
+    ).to.throw(TypeError);
+    expect(() =>
+      parseLineString({ type: "LineString", coordinates: [[0, 0]] })
+    ).to.throw(RangeError);
+    expect(() =>
+      parseLineString({
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [200, 0],
+        ],
+      })
+    ).to.throw(RangeError);
+  });
+
+  it("hashes the canonical LineString", async () => {
+    const lineString = parseLineString(segment);
+    const expected = createHash("sha256")
+      .update(canonicalLineString(lineString))
+      .digest();
+    expect(Buffer.from(await hashRoadGeometry(lineString))).to.deep.equal(
+      expected
+    );
+    expect(canonicalLineString(lineString)).to.equal(
+      '{"type":"LineString","coordinates":[[139.7671,35.6812],[139.7702,35.6846]]}'
+    );
+  });
+
+  it("derives the location from GeoJSON", async () => {
+    const location = await roadLocationFromGeoJson(segment, 6);
+    expect(location.geohash).to.equal(
+      lineStringGeohash(parseLineString(segment), 6)
+    );
+    expect(location.geohash.startsWith("xn76u")).to.equal(true);
+    expect(location.roadGeometryHash).to.have.length(32);
+  });
+
+  it("round-trips zero-padded geohash bytes", () => {
+    const bytes = [...Buffer.from("xn76u", "ascii"), ...Array(7).fill(0)];
+    expect(geohashFromBytes(bytes)).to.equal("xn76u");
+  });
+
+  it("builds a memcmp filter for a geohash prefix", () => {
+    const filter = buildGeohashPrefixFilter("xn7") as any;
+    expect(filter.memcmp.offset).to.equal(TASK_LOCATION_OFFSETS.geohash);
+    expect(
+      Buffer.from(utils.bytes.bs58.decode(filter.memcmp.bytes)).toString()
+    ).to.equal("xn7");
+    expect(() => buildGeohashPrefixFilter("xna")).to.throw(RangeError);
+  });
+});
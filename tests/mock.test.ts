@@ -0,0 +1,653 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import { runKeeperOnce } from "../client/keeper";
+import {
+  MOCK_ACCOUNT_SPACE,
+  MockSunpathClient,
+  MockSunpathProgram,
+  rentExemptMinimum,
+} from "../client/mock";
+import { findTaskVaultPda } from "../src/constants/pda";
+import { TaskEvent } from "../src/utils/events";
+import { decodeSunpathError, SunpathErrorCode } from "../src/utils/errors";
+
+const SOL = 1_000_000_000;
+const REWARD = new BN(20_000_000);
+const DURATION = new BN(3600);
+const PENALTY = 600;
+
+const expectError = async (
+  action: Promise<unknown>,
+  code: SunpathErrorCode
+): Promise<void> => {
+  let decoded: ReturnType<typeof decodeSunpathError> | null = null;
+  try {
+    await action;
+  } catch (error) {
+    decoded = decodeSunpathError(error);
+  }
+  expect(decoded, `expected ${code}`).to.not.be.null;
+  expect(decoded).to.include({ kind: "program", code });
+};
+
+describe("MockSunpathProgram", () => {
+  let mock: MockSunpathProgram;
+  let admin: MockSunpathClient;
+  let consigner: MockSunpathClient;
+  let reporter: MockSunpathClient;
+  let treasury: PublicKey;
+
+  const newClient = (lamports = SOL) => {
+    const wallet = Keypair.generate().publicKey;
+    mock.airdrop(wallet, lamports);
+    return mock.client(wallet);
+  };
+
+  const createTask = () =>
+    consigner.createTask({ rewardAmount: REWARD, durationSeconds: DURATION });
+
+  const createReportedTask = async () => {
+    const { taskAccount } = await createTask();
+    await reporter.submitReport({
+      taskAccount,
+      videoContentHash: Array(32).fill(1),
+      metadataUri: "ipfs://report",
+    });
+    return taskAccount;
+  };
+
+  beforeEach(async () => {
+    mock = new MockSunpathProgram({ now: 1_700_000_000 });
+    admin = newClient();
+    consigner = newClient(5 * SOL);
+    reporter = newClient();
+    treasury = Keypair.generate().publicKey;
+    await admin.initializeProgram({
+      admin: admin.walletPublicKey,
+      daoTreasuryAddress: treasury,
+      governanceTokenMint: Keypair.generate().publicKey,
+      minimumRewardAmount: new BN(10_000_000),
+      daoFeePercentage: 5,
+      denialPenaltyDuration: new BN(PENALTY),
+      patrollerGovernanceTokenAmount: new BN(100),
+    });
+  });
+
+  it("locks the reward and rent in the task account", async () => {
+    const before = await consigner.provider.connection.getBalance(
+      consigner.walletPublicKey
+    );
+    const { taskAccount, taskId } = await createTask();
+
+    const taskRent = rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskAccount);
+    const counterRent = rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskCounter);
+    expect(taskId.toNumber()).to.equal(0);
+    expect(mock.getBalance(taskAccount)).to.equal(REWARD.toNumber() + taskRent);
+    expect(mock.getBalance(consigner.walletPublicKey)).to.equal(
+      before - REWARD.toNumber() - taskRent - counterRent
+    );
+    expect((await consigner.nextTaskId()).toNumber()).to.equal(1);
+
+    const task = await consigner.fetchTask(taskAccount);
+    expect(task.status).to.deep.equal({ open: {} });
+    expect(task.expirationTimestamp.toNumber()).to.equal(mock.now + 3600);
+  });
+
+  it("rejects rewards below the minimum and out-of-order task IDs", async () => {
+    await expectError(
+      consigner.createTask({
+        rewardAmount: new BN(1),
+        durationSeconds: DURATION,
+      }),
+      "RewardAmountTooLow"
+    );
+    await expectError(
+      consigner.createTask({
+        taskId: new BN(5),
+        rewardAmount: REWARD,
+        durationSeconds: DURATION,
+      }),
+      "TaskIdMismatch"
+    );
+  });
+
+  it("pays the reporter and the treasury on accept", async () => {
+    const taskAccount = await createReportedTask();
+    const reporterBefore = mock.getBalance(reporter.walletPublicKey);
+
+    await expectError(
+      reporter.acceptTask(taskAccount, reporter.walletPublicKey),
+      "NotTaskConsigner"
+    );
+    await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+
+    expect(mock.getBalance(reporter.walletPublicKey)).to.equal(
+      reporterBefore + 19_000_000
+    );
+    expect(mock.getBalance(treasury)).to.equal(1_000_000);
+    expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+      approved: {},
+    });
+
+    const stats = await reporter.fetchReporterStats(reporter.walletPublicKey);
+    expect(stats!.approvedCount.toNumber()).to.equal(1);
+    expect(stats!.totalEarned.toNumber()).to.equal(19_000_000);
+    const counter = await consigner.fetchAdminActionCounter(
+      consigner.walletPublicKey
+    );
+    expect(counter!.acceptCount.toNumber()).to.equal(1);
+
+    // The governance reward stays claimable after the task is closed
+    await consigner.closeTask(taskAccount);
+    expect(await consigner.fetchTaskNullable(taskAccount)).to.be.null;
+    await reporter.claimGovernanceReward(taskAccount);
+    expect(
+      (await reporter.fetchGovernanceTokenBalance()).amount.toNumber()
+    ).to.equal(100);
+    await expectError(
+      reporter.claimGovernanceReward(taskAccount),
+      "GovernanceRewardAlreadyClaimed"
+    );
+  });
+
+  it("enforces the denial penalty before reclaiming a rejected task", async () => {
+    const taskAccount = await createReportedTask();
+    await consigner.rejectTask(taskAccount);
+
+    await expectError(
+      consigner.reclaimTaskFunds(taskAccount),
+      "DenialLockupActive"
+    );
+    mock.advanceTime(PENALTY);
+    const before = mock.getBalance(consigner.walletPublicKey);
+    await consigner.reclaimTaskFunds(taskAccount);
+
+    expect(mock.getBalance(consigner.walletPublicKey)).to.equal(
+      before + REWARD.toNumber()
+    );
+    const task = await consigner.fetchTask(taskAccount);
+    expect(task.status).to.deep.equal({ reclaimed: {} });
+    expect(task.rewardAmountLocked.toNumber()).to.equal(0);
+    const stats = await reporter.fetchReporterStats(reporter.walletPublicKey);
+    expect(stats!.rejectedCount.toNumber()).to.equal(1);
+  });
+
+  it("reopens the slot when the consigner rejects a single report", async () => {
+    const taskAccount = await createReportedTask();
+    const next = newClient();
+    const submitNext = () =>
+      next.submitReport({
+        taskAccount,
+        videoContentHash: Array(32).fill(2),
+        metadataUri: "ipfs://next",
+      });
+    await expectError(submitNext(), "ReportAlreadySubmitted");
+
+    await consigner.rejectReport(taskAccount, reporter.walletPublicKey);
+    await expectError(
+      consigner.rejectReport(taskAccount, reporter.walletPublicKey),
+      "ReportRejected"
+    );
+    const task = await consigner.fetchTask(taskAccount);
+    expect(task.status).to.deep.equal({ open: {} });
+    expect(task.reportCount).to.equal(0);
+    expect(task.assignedReporter).to.be.null;
+
+    await submitNext();
+    await consigner.acceptTask(taskAccount, next.walletPublicKey);
+    const stats = await reporter.fetchReporterStats(reporter.walletPublicKey);
+    expect(stats!.rejectedCount.toNumber()).to.equal(1);
+    const nextStats = await next.fetchReporterStats(next.walletPublicKey);
+    expect(nextStats!.approvedCount.toNumber()).to.equal(1);
+  });
+
+  it("expires overdue tasks", async () => {
+    const { taskAccount } = await createTask();
+    await expectError(consigner.expireTask(taskAccount), "TaskNotExpired");
+
+    mock.advanceTime(DURATION.toNumber() + 1);
+    await expectError(
+      reporter.submitReport({
+        taskAccount,
+        videoContentHash: Array(32).fill(1),
+        metadataUri: "ipfs://late",
+      }),
+      "TaskExpired"
+    );
+    await reporter.expireTask(taskAccount);
+    expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+      expired: {},
+    });
+    await consigner.reclaimAndCloseTask(taskAccount);
+    expect(mock.getTask(taskAccount)).to.be.null;
+  });
+
+  it("resolves disputes in favour of the reporter", async () => {
+    const taskAccount = await createReportedTask();
+    await consigner.rejectTask(taskAccount);
+    await reporter.openDispute(taskAccount, "ipfs://reason");
+
+    await expectError(consigner.resolveDispute(taskAccount, true), "NotAdmin");
+    await expectError(reporter.closeDispute(taskAccount), "DisputePending");
+    await admin.resolveDispute(taskAccount, true);
+
+    const dispute = await admin.fetchDispute(taskAccount);
+    expect(dispute!.resolution).to.deep.equal({ reporterPaid: {} });
+    const stats = await reporter.fetchReporterStats(reporter.walletPublicKey);
+    expect(stats!.approvedCount.toNumber()).to.equal(1);
+    expect(stats!.rejectedCount.toNumber()).to.equal(0);
+
+    // The dispute rent goes back to the reporter
+    const before = mock.getBalance(reporter.walletPublicKey);
+    await reporter.closeDispute(taskAccount);
+    expect(mock.getBalance(reporter.walletPublicKey)).to.equal(
+      before + rentExemptMinimum(MOCK_ACCOUNT_SPACE.dispute)
+    );
+    expect(await admin.fetchDispute(taskAccount)).to.be.null;
+  });
+
+  it("lets the consigner reclaim once the dispute deadline passes", async () => {
+    const taskAccount = await createReportedTask();
+    await consigner.rejectTask(taskAccount);
+    await reporter.openDispute(taskAccount, "ipfs://reason");
+    await expectError(
+      consigner.reclaimTaskFunds(taskAccount),
+      "CannotReclaimFunds"
+    );
+
+    mock.advanceTime(PENALTY);
+    await expectError(
+      admin.resolveDispute(taskAccount, true),
+      "DisputeDeadlinePassed"
+    );
+    await consigner.reclaimAndCloseTask(taskAccount);
+    expect(mock.getTask(taskAccount)).to.be.null;
+
+    // The unresolved dispute can still be closed to recover its rent
+    await reporter.closeDispute(taskAccount);
+    expect(await admin.fetchDispute(taskAccount)).to.be.null;
+  });
+
+  it("only lets single-reporter tasks be disputed", async () => {
+    const { taskAccount } = await consigner.createTask({
+      rewardAmount: REWARD,
+      durationSeconds: DURATION,
+      maxReporters: 2,
+    });
+    await reporter.submitReport({
+      taskAccount,
+      videoContentHash: Array(32).fill(1),
+      metadataUri: "ipfs://report",
+    });
+    await consigner.rejectTask(taskAccount);
+    await expectError(
+      reporter.openDispute(taskAccount, "ipfs://reason"),
+      "MultiReporterDispute"
+    );
+  });
+
+  it("treats every mock account as already migrated", async () => {
+    const taskAccount = await createReportedTask();
+    expect(await admin.listLegacyAccounts()).to.deep.equal({
+      config: false,
+      tasks: [],
+      reports: [],
+    });
+    await expectError(admin.migrateConfig(), "AccountAlreadyMigrated");
+    await expectError(
+      reporter.migrateTask(taskAccount),
+      "AccountAlreadyMigrated"
+    );
+    await expectError(
+      reporter.migrateReport(
+        reporter.reportAddress(taskAccount, reporter.walletPublicKey)
+      ),
+      "AccountAlreadyMigrated"
+    );
+  });
+
+  it("leaves the state unchanged when a transaction fails", async () => {
+    const { taskAccount } = await consigner.createTask({
+      rewardAmount: REWARD,
+      durationSeconds: DURATION,
+      maxReporters: 2,
+    });
+    const second = newClient();
+    for (const client of [reporter, second]) {
+      await client.submitReport({
+        taskAccount,
+        videoContentHash: Array(32).fill(1),
+        metadataUri: "ipfs://report",
+      });
+    }
+    const before = mock.getBalance(taskAccount);
+
+    // The first share is paid before the duplicate is detected
+    await expectError(
+      consigner.acceptReports(taskAccount, [
+        { reporter: reporter.walletPublicKey, weight: 1 },
+        { reporter: reporter.walletPublicKey, weight: 1 },
+      ]),
+      "DuplicateReporter"
+    );
+
+    expect(mock.getBalance(taskAccount)).to.equal(before);
+    expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+      open: {},
+    });
+    const reports = await consigner.listReportsForTask(taskAccount);
+    expect(
+      reports.map(({ account }) => account.rewardAmount.toNumber())
+    ).to.deep.equal([0, 0]);
+
+    await consigner.acceptReports(taskAccount, [
+      { reporter: reporter.walletPublicKey, weight: 3 },
+      { reporter: second.walletPublicKey, weight: 1 },
+    ]);
+    const paid = await consigner.listReportsForTask(taskAccount);
+    expect(
+      paid.map(({ account }) => account.rewardAmount.toNumber())
+    ).to.deep.equal([14_250_000, 4_750_000]);
+  });
+
+  it("tracks the governance reward and rejections for every reporter", async () => {
+    const second = newClient();
+    const createSharedTask = async () => {
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: DURATION,
+        maxReporters: 2,
+      });
+      for (const client of [reporter, second]) {
+        await client.submitReport({
+          taskAccount,
+          videoContentHash: Array(32).fill(1),
+          metadataUri: "ipfs://report",
+        });
+      }
+      return taskAccount;
+    };
+
+    const rejected = await createSharedTask();
+    await consigner.rejectTask(rejected);
+    for (const client of [reporter, second]) {
+      const stats = await client.fetchReporterStats(client.walletPublicKey);
+      expect(stats!.rejectedCount.toNumber()).to.equal(1);
+    }
+
+    const accepted = await createSharedTask();
+    await expectError(
+      consigner.acceptTask(accepted, reporter.walletPublicKey),
+      "MultiReporterTask"
+    );
+    await consigner.acceptReports(accepted, [
+      { reporter: reporter.walletPublicKey, weight: 1 },
+      { reporter: second.walletPublicKey, weight: 1 },
+    ]);
+    for (const client of [reporter, second]) {
+      await client.claimGovernanceReward(accepted);
+      expect(
+        (await client.fetchGovernanceTokenBalance()).amount.toNumber()
+      ).to.equal(100);
+    }
+  });
+
+  it("notifies listeners of successful transactions only", async () => {
+    const events: TaskEvent[] = [];
+    const unsubscribe = consigner.onTaskEvent((event) => events.push(event), {
+      consigner: consigner.walletPublicKey,
+    });
+
+    const { taskAccount } = await createTask();
+    await expectError(reporter.rejectTask(taskAccount), "NotTaskConsigner");
+    await consigner.rejectTask(taskAccount);
+    await unsubscribe();
+    await createTask();
+
+    expect(events.map(({ name }) => name)).to.deep.equal([
+      "taskCreated",
+      "taskRejected",
+    ]);
+    expect(events[1].slot).to.be.greaterThan(events[0].slot);
+  });
+
+  it("lists tasks with the same filters as the client", async () => {
+    const reported = await createReportedTask();
+    await createTask();
+
+    const open = await consigner.listTasks({ status: "open" });
+    expect(open.total).to.equal(2);
+    const assigned = await consigner.listTasks({
+      assignedReporter: reporter.walletPublicKey,
+    });
+    expect(
+      assigned.tasks.map(({ publicKey }) => publicKey.toBase58())
+    ).to.deep.equal([reported.toBase58()]);
+  });
+
+  it("sizes the fixed-length accounts like the IDL", () => {
+    const { account } = consigner.program;
+    expect(MOCK_ACCOUNT_SPACE.programConfig).to.equal(
+      account.programConfig.size
+    );
+    expect(MOCK_ACCOUNT_SPACE.taskAccount).to.equal(account.taskAccount.size);
+    expect(MOCK_ACCOUNT_SPACE.taskLocation).to.equal(account.taskLocation.size);
+    expect(MOCK_ACCOUNT_SPACE.rewardMintConfig).to.equal(
+      account.rewardMintConfig.size
+    );
+    // Strings are counted at their 200-byte maximum plus the 4-byte length prefix
+    expect(MOCK_ACCOUNT_SPACE.reportAccount).to.equal(8 + 319);
+    expect(MOCK_ACCOUNT_SPACE.dispute).to.equal(8 + 285);
+  });
+
+  describe("token rewards", () => {
+    let mint: PublicKey;
+
+    const createTokenTask = () =>
+      consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: DURATION,
+        rewardMint: mint,
+      });
+
+    const tokenBalance = (owner: PublicKey) =>
+      mock.getTokenBalance(mint, owner).toNumber();
+
+    beforeEach(async () => {
+      mint = mock.createMint(6);
+      mock.mintTo(mint, consigner.walletPublicKey, REWARD.muln(10));
+      await admin.setRewardMint(mint, new BN(1_000));
+    });
+
+    it("lists the enabled reward mints", async () => {
+      await expectError(consigner.setRewardMint(mint, new BN(1)), "NotAdmin");
+      expect(await consigner.listRewardMints()).to.deep.equal([
+        { mint, minimumRewardAmount: new BN(1_000), decimals: 6 },
+      ]);
+
+      await admin.setRewardMint(mint, new BN(1_000), false);
+      expect((await consigner.fetchRewardMintConfig(mint))!.isEnabled).to.be
+        .false;
+      expect(await consigner.listRewardMints()).to.deep.equal([]);
+      await expectError(createTokenTask(), "UnsupportedRewardMint");
+    });
+
+    it("locks the reward in the vault and pays it out on accept", async () => {
+      await expectError(
+        consigner.createTask({
+          rewardAmount: new BN(999),
+          durationSeconds: DURATION,
+          rewardMint: mint,
+        }),
+        "RewardAmountTooLow"
+      );
+      await expectError(
+        consigner.createTask({
+          rewardAmount: REWARD,
+          durationSeconds: DURATION,
+          rewardMint: mint,
+          maxReporters: 2,
+        }),
+        "MultiReporterTokenTask"
+      );
+
+      const { taskAccount } = await createTokenTask();
+      const vault = findTaskVaultPda(taskAccount, mock.programId)[0];
+      expect(mock.getTokenAccount(vault)!.amount.toString()).to.equal(
+        REWARD.toString()
+      );
+      expect(tokenBalance(consigner.walletPublicKey)).to.equal(
+        REWARD.muln(9).toNumber()
+      );
+      expect(mock.getBalance(taskAccount)).to.equal(
+        rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskAccount)
+      );
+      await expectError(
+        consigner.acceptReports(taskAccount, [
+          { reporter: reporter.walletPublicKey, weight: 1 },
+        ]),
+        "TokenRewardTask"
+      );
+
+      await reporter.submitReport({
+        taskAccount,
+        videoContentHash: Array(32).fill(1),
+        metadataUri: "ipfs://report",
+      });
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+
+      expect(tokenBalance(reporter.walletPublicKey)).to.equal(19_000_000);
+      expect(tokenBalance(treasury)).to.equal(1_000_000);
+      expect(mock.getTokenAccount(vault)).to.be.null;
+      expect(mock.getBalance(vault)).to.equal(0);
+      // total_earned counts lamports only
+      const stats = await reporter.fetchReporterStats(reporter.walletPublicKey);
+      expect(stats!.approvedCount.toNumber()).to.equal(1);
+      expect(stats!.totalEarned.toNumber()).to.equal(0);
+    });
+
+    it("returns the reward to the consigner on reclaim and dispute release", async () => {
+      const { taskAccount: expiring } = await createTokenTask();
+      const { taskAccount: disputed } = await createTokenTask();
+      await reporter.submitReport({
+        taskAccount: disputed,
+        videoContentHash: Array(32).fill(1),
+        metadataUri: "ipfs://report",
+      });
+      await consigner.rejectTask(disputed);
+      await reporter.openDispute(disputed, "ipfs://reason");
+      await admin.resolveDispute(disputed, false);
+      expect(tokenBalance(consigner.walletPublicKey)).to.equal(
+        REWARD.muln(9).toNumber()
+      );
+
+      mock.advanceTime(DURATION.toNumber() + 1);
+      const before = mock.getBalance(consigner.walletPublicKey);
+      const { lamportsRecovered } = await consigner.reclaimAndCloseTask(
+        expiring
+      );
+      expect(tokenBalance(consigner.walletPublicKey)).to.equal(
+        REWARD.muln(10).toNumber()
+      );
+      // The task and vault rent both come back
+      expect(lamportsRecovered).to.equal(
+        rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskAccount) +
+          rentExemptMinimum(MOCK_ACCOUNT_SPACE.tokenAccount)
+      );
+      expect(mock.getBalance(consigner.walletPublicKey)).to.equal(
+        before + lamportsRecovered
+      );
+    });
+  });
+
+  it("finds open tasks by the geohash of their road segment", async () => {
+    const location = (geohash: string) => ({
+      geohash,
+      roadGeometryHash: new Uint8Array(32).fill(7),
+    });
+    const { taskAccount: later } = await consigner.createTask({
+      rewardAmount: REWARD,
+      durationSeconds: DURATION.muln(2),
+      location: location("xn76urx"),
+    });
+    const { taskAccount: sooner } = await createTask();
+    await expectError(
+      consigner.setTaskLocation(sooner, location("xn76ua")),
+      "InvalidGeohash"
+    );
+    await expectError(
+      reporter.setTaskLocation(sooner, location("xn76u")),
+      "NotTaskConsigner"
+    );
+    await consigner.setTaskLocation(sooner, location("xn76u"));
+
+    const found = await reporter.findOpenTasksByGeohash("xn76u");
+    expect(found.map(({ publicKey }) => publicKey.toBase58())).to.deep.equal([
+      sooner.toBase58(),
+      later.toBase58(),
+    ]);
+    expect(
+      (await reporter.findOpenTasksByGeohash("xn76ur")).map(({ publicKey }) =>
+        publicKey.toBase58()
+      )
+    ).to.deep.equal([later.toBase58()]);
+    expect(Buffer.from(found[0].location.geohash).toString("ascii")).to.equal(
+      "xn76u\0\0\0\0\0\0\0"
+    );
+
+    // Settled tasks drop out, and closing the task closes its location too
+    await consigner.rejectTask(sooner);
+    expect(await reporter.findOpenTasksByGeohash("xn76u")).to.have.length(1);
+    mock.advanceTime(PENALTY);
+    const { lamportsRecovered } = await consigner.reclaimAndCloseTask(sooner);
+    expect(lamportsRecovered).to.equal(
+      REWARD.toNumber() +
+        rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskAccount) +
+        rentExemptMinimum(MOCK_ACCOUNT_SPACE.taskLocation)
+    );
+    expect(await consigner.fetchTaskLocation(sooner)).to.be.null;
+  });
+
+  it("runs keeper batches as a single transaction", async () => {
+    const { taskAccount: first } = await createTask();
+    const { taskAccount: second } = await createTask();
+    await expectError(
+      consigner.provider.sendAndConfirm(
+        new Transaction().add(
+          await consigner.expireTaskInstruction(first),
+          await consigner.expireTaskInstruction(second)
+        )
+      ),
+      "TaskNotExpired"
+    );
+
+    mock.advanceTime(DURATION.toNumber() + 1);
+    const result = await runKeeperOnce(reporter, 8);
+    expect(result.failed).to.deep.equal([]);
+    expect(result.expired.map((task) => task.toBase58())).to.have.members([
+      first.toBase58(),
+      second.toBase58(),
+    ]);
+    expect(mock.getTask(second)!.status).to.deep.equal({ expired: {} });
+
+    let error: unknown = null;
+    await consigner.provider
+      .sendAndConfirm(
+        new Transaction().add(
+          SystemProgram.transfer({
+            fromPubkey: consigner.walletPublicKey,
+            toPubkey: reporter.walletPublicKey,
+            lamports: 1,
+          })
+        )
+      )
+      .catch((caught) => (error = caught));
+    expect(String(error)).to.include("does not simulate");
+  });
+});
@@ -0,0 +1,199 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { BN } from "bn.js";
+import { expect } from "chai";
+import {
+  clearPdaCache,
+  findAdminCounterPda,
+  findConfigPda,
+  findDisputePda,
+  findGovernanceMintAuthorityPda,
+  findReportPda,
+  findReporterStatsPda,
+  findRewardMintConfigPda,
+  findTaskCounterPda,
+  findTaskLocationPda,
+  findTaskPda,
+  findTaskVaultPda,
+} from "../src/constants/pda";
+import {
+  ADMIN_COUNTER_SEED,
+  CONFIG_SEED,
+  DISPUTE_SEED,
+  GOVERNANCE_MINT_AUTHORITY_SEED,
+  PROGRAM_ID,
+  REPORT_SEED,
+  REPORTER_STATS_SEED,
+  REWARD_MINT_SEED,
+  TASK_ACCOUNT_SEED,
+  TASK_COUNTER_SEED,
+  TASK_LOCATION_SEED,
+  TASK_VAULT_SEED,
+} from "../src/constants/program";
+
+const programSource = readFileSync(
+  join(__dirname, "../programs/sunpath/src/lib.rs"),
+  "utf8"
+);
+
+// Collects the byte-string literal seeds used in every `seeds = [...]` constraint.
+const rustSeedLiterals = (): Set<string> => {
+  const literals = new Set<string>();
+  for (const match of programSource.matchAll(/seeds\s*=\s*\[([^\]]*)\]/g)) {
+    for (const literal of match[1].matchAll(/b"([^"]+)"/g)) {
+      literals.add(literal[1]);
+    }
+  }
+  return literals;
+};
+
+describe("pda", () => {
+  const consigner = Keypair.generate().publicKey;
+
+  beforeEach(() => {
+    clearPdaCache();
+  });
+
+  it("uses the same seed literals as lib.rs", () => {
+    const literals = rustSeedLiterals();
+    expect(literals).to.include(TASK_ACCOUNT_SEED);
+    expect(literals).to.include(CONFIG_SEED);
+    expect(literals).to.include(ADMIN_COUNTER_SEED);
+    expect(literals).to.include(TASK_COUNTER_SEED);
+    expect(literals).to.include(REPORT_SEED);
+    expect(literals).to.include(GOVERNANCE_MINT_AUTHORITY_SEED);
+    expect(literals).to.include(TASK_VAULT_SEED);
+    expect(literals).to.include(REWARD_MINT_SEED);
+    expect(literals).to.include(TASK_LOCATION_SEED);
+    expect(literals).to.include(DISPUTE_SEED);
+    expect(literals).to.include(REPORTER_STATS_SEED);
+  });
+
+  it("derives config_v2 from the declared program id by default", () => {
+    const expected = PublicKey.findProgramAddressSync(
+      [Buffer.from("config_v2")],
+      new PublicKey(programSource.match(/declare_id!\("(\w+)"\)/)![1])
+    );
+    expect(findConfigPda()[0].toBase58()).to.equal(expected[0].toBase58());
+    expect(findConfigPda()[1]).to.equal(expected[1]);
+  });
+
+  it("encodes task_id as a little-endian u64", () => {
+    const taskId = new BN("1234567890123");
+    const expected = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("task_account"),
+        consigner.toBuffer(),
+        Buffer.from(taskId.toArray("le", 8)),
+      ],
+      PROGRAM_ID
+    );
+    const [pda, bump] = findTaskPda(consigner, taskId);
+    expect(pda.toBase58()).to.equal(expected[0].toBase58());
+    expect(bump).to.equal(expected[1]);
+    expect(findTaskPda(consigner, 1234567890123)[0].toBase58()).to.equal(
+      pda.toBase58()
+    );
+    expect(
+      findTaskPda(consigner, BigInt("1234567890123"))[0].toBase58()
+    ).to.equal(pda.toBase58());
+  });
+
+  it("derives admin_counter from the consigner", () => {
+    const expected = PublicKey.findProgramAddressSync(
+      [Buffer.from("admin_counter"), consigner.toBuffer()],
+      PROGRAM_ID
+    );
+    expect(findAdminCounterPda(consigner)[0].toBase58()).to.equal(
+      expected[0].toBase58()
+    );
+  });
+
+  it("derives task_counter from the consigner", () => {
+    const expected = PublicKey.findProgramAddressSync(
+      [Buffer.from("task_counter"), consigner.toBuffer()],
+      PROGRAM_ID
+    );
+    expect(findTaskCounterPda(consigner)[0].toBase58()).to.equal(
+      expected[0].toBase58()
+    );
+  });
+
+  it("derives report from the task account and reporter", () => {
+    const taskAccount = findTaskPda(consigner, 0)[0];
+    const reporter = Keypair.generate().publicKey;
+    const expected = PublicKey.findProgramAddressSync(
+      [Buffer.from("report"), taskAccount.toBuffer(), reporter.toBuffer()],
+      PROGRAM_ID
+    );
+    expect(findReportPda(taskAccount, reporter)[0].toBase58()).to.equal(
+      expected[0].toBase58()
+    );
+  });
+
+  it("derives the governance mint authority", () => {
+    expect(findGovernanceMintAuthorityPda()[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("governance_mint_authority")],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+  });
+
+  it("derives the task vault and reward mint config", () => {
+    const taskAccount = findTaskPda(consigner, 0)[0];
+    const mint = Keypair.generate().publicKey;
+    expect(findTaskVaultPda(taskAccount)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("task_vault"), taskAccount.toBuffer()],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+    expect(findTaskLocationPda(taskAccount)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("task_location"), taskAccount.toBuffer()],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+    expect(findReporterStatsPda(taskAccount)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("reporter_stats"), taskAccount.toBuffer()],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+    expect(findDisputePda(taskAccount)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("dispute"), taskAccount.toBuffer()],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+    expect(findRewardMintConfigPda(mint)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("reward_mint"), mint.toBuffer()],
+        PROGRAM_ID
+      )[0].toBase58()
+    );
+  });
+
+  it("honours an injected program id", () => {
+    const otherProgramId = Keypair.generate().publicKey;
+    expect(findConfigPda(otherProgramId)[0].toBase58()).to.not.equal(
+      findConfigPda()[0].toBase58()
+    );
+    expect(findConfigPda(otherProgramId)[0].toBase58()).to.equal(
+      PublicKey.findProgramAddressSync(
+        [Buffer.from("config_v2")],
+        otherProgramId
+      )[0].toBase58()
+    );
+  });
+
+  it("returns cached results for repeated lookups", () => {
+    const first = findTaskPda(consigner, 7);
+    expect(findTaskPda(consigner, 7)).to.equal(first);
+    clearPdaCache();
+    expect(findTaskPda(consigner, 7)).to.not.equal(first);
+    expect(findTaskPda(consigner, 7)).to.deep.equal(first);
+  });
+});
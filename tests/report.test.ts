@@ -0,0 +1,43 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { expect } from "chai";
+import {
+  hashVideoContent,
+  isValidMetadataUri,
+  MAX_METADATA_URI_LENGTH,
+  toHex,
+} from "../src/utils/report";
+
+describe("report", () => {
+  it("matches ReportAccount::MAX_METADATA_URI_LEN in lib.rs", () => {
+    const programSource = readFileSync(
+      join(__dirname, "../programs/sunpath/src/lib.rs"),
+      "utf8"
+    );
+    const declared = programSource.match(
+      /MAX_METADATA_URI_LEN: usize = (\d+);/
+    );
+    expect(Number(declared![1])).to.equal(MAX_METADATA_URI_LENGTH);
+  });
+
+  it("limits the metadata URI by UTF-8 byte length", () => {
+    expect(isValidMetadataUri("a".repeat(MAX_METADATA_URI_LENGTH))).to.equal(
+      true
+    );
+    expect(
+      isValidMetadataUri("a".repeat(MAX_METADATA_URI_LENGTH + 1))
+    ).to.equal(false);
+    // 3 bytes per character in UTF-8
+    expect(isValidMetadataUri("あ".repeat(67))).to.equal(false);
+  });
+
+  it("hashes video content with SHA-256", async () => {
+    const content = Buffer.from("video bytes");
+    const hash = await hashVideoContent(content);
+    expect(hash).to.have.length(32);
+    expect(toHex(hash)).to.equal(
+      createHash("sha256").update(content).digest("hex")
+    );
+  });
+});
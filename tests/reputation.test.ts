@@ -0,0 +1,26 @@
+import { BN } from "bn.js";
+import { expect } from "chai";
+import { approvalRate, formatApprovalRate } from "../src/utils/reputation";
+
+describe("reputation", () => {
+  it("has no approval rate before any decision", () => {
+    expect(
+      approvalRate({ approvedCount: new BN(0), rejectedCount: new BN(0) })
+    ).to.equal(null);
+  });
+
+  it("computes the share of approved reports", () => {
+    expect(
+      approvalRate({ approvedCount: new BN(7), rejectedCount: new BN(1) })
+    ).to.equal(0.875);
+    expect(
+      approvalRate({ approvedCount: new BN(0), rejectedCount: new BN(3) })
+    ).to.equal(0);
+  });
+
+  it("formats the rate as a percentage with one decimal", () => {
+    expect(formatApprovalRate(0.875)).to.equal("87.5%");
+    expect(formatApprovalRate(2 / 3)).to.equal("66.7%");
+    expect(formatApprovalRate(1)).to.equal("100%");
+  });
+});
@@ -0,0 +1,30 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { formatReward } from "../src/utils/rewards";
+import { shortenAddress } from "../src/utils/format";
+
+describe("formatReward", () => {
+  const usdc = Keypair.generate().publicKey;
+
+  it("formats SOL rewards from lamports", () => {
+    expect(formatReward(new BN(1_500_000_000), null)).to.deep.equal({
+      amount: "1.5",
+      unit: "SOL",
+    });
+  });
+
+  it("formats token rewards with the mint's decimals", () => {
+    const rewardMints = [
+      { mint: usdc, minimumRewardAmount: new BN(1_000_000), decimals: 6 },
+    ];
+    expect(formatReward(new BN(2_500_000), usdc, rewardMints)).to.deep.equal({
+      amount: "2.5",
+      unit: shortenAddress(usdc.toBase58()),
+    });
+  });
+
+  it("falls back to base units for unknown mints", () => {
+    expect(formatReward(new BN(2_500_000), usdc).amount).to.equal("2500000");
+  });
+});
@@ -0,0 +1,163 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { BN } from "bn.js";
+import { expect } from "chai";
+import { TaskStatus } from "../src/types/program";
+import {
+  formatCountdown,
+  formatSol,
+  formatTokenAmount,
+} from "../src/utils/format";
+import {
+  canAccept,
+  canAcceptReports,
+  canClose,
+  canExpire,
+  canOpenDispute,
+  canReclaim,
+  canReject,
+  canResolveDispute,
+  disputeDeadline,
+  disputeResolutionDeadline,
+  reclaimAvailableAt,
+} from "../src/utils/taskRules";
+import { TaskStatusName } from "../src/utils/tasks";
+
+const config = { denialPenaltyDuration: new BN(3600) };
+
+const STATUSES: Record<TaskStatusName, TaskStatus> = {
+  open: { open: {} },
+  approved: { approved: {} },
+  rejected: { rejected: {} },
+  expired: { expired: {} },
+  reclaimed: { reclaimed: {} },
+  disputed: { disputed: {} },
+};
+
+const task = (
+  status: TaskStatusName,
+  expiration = 1_000,
+  statusUpdate = 500
+) => ({
+  status: STATUSES[status],
+  expirationTimestamp: new BN(expiration),
+  statusUpdateTimestamp: new BN(statusUpdate),
+  reportPda: Keypair.generate().publicKey as PublicKey | null,
+  maxReporters: 1,
+});
+
+describe("taskRules", () => {
+  it("allows accept and reject only while open and not expired", () => {
+    expect(canAccept(task("open"), 1_000)).to.equal(true);
+    expect(canReject(task("open"), 1_001)).to.equal(false);
+    expect(canAccept(task("approved"), 0)).to.equal(false);
+  });
+
+  it("requires a submitted report before accepting", () => {
+    const withoutReport = { ...task("open"), reportPda: null };
+    expect(canAccept(withoutReport, 0)).to.equal(false);
+    expect(canReject(withoutReport, 0)).to.equal(true);
+  });
+
+  it("leaves multi-reporter tasks to accept_reports", () => {
+    expect(canAccept({ ...task("open"), maxReporters: 3 }, 0)).to.equal(false);
+  });
+
+  it("accepts several reports only on multi-reporter SOL tasks", () => {
+    const multi = { ...task("open"), rewardMint: null, maxReporters: 3 };
+    expect(canAcceptReports(multi, 0)).to.equal(true);
+    expect(canAcceptReports({ ...multi, maxReporters: 1 }, 0)).to.equal(false);
+    expect(
+      canAcceptReports(
+        { ...multi, rewardMint: Keypair.generate().publicKey },
+        0
+      )
+    ).to.equal(false);
+    expect(canAcceptReports({ ...multi, reportPda: null }, 0)).to.equal(false);
+  });
+
+  it("allows reclaiming an open task strictly after expiration", () => {
+    expect(canReclaim(task("open"), config, 1_000)).to.equal(false);
+    expect(canReclaim(task("open"), config, 1_001)).to.equal(true);
+  });
+
+  it("allows anyone to expire an overdue open task", () => {
+    expect(canExpire(task("open"), 1_000)).to.equal(false);
+    expect(canExpire(task("open"), 1_001)).to.equal(true);
+    expect(canExpire(task("rejected"), 1_001)).to.equal(false);
+  });
+
+  it("allows reclaiming an expired task", () => {
+    expect(canReclaim(task("expired", 1_000, 1_500), config, 1_500)).to.equal(
+      true
+    );
+  });
+
+  it("applies the denial penalty to rejected tasks", () => {
+    const rejected = task("rejected", 1_000, 500);
+    expect(reclaimAvailableAt(rejected, config)!.toNumber()).to.equal(4_100);
+    expect(canReclaim(rejected, config, 4_099)).to.equal(false);
+    expect(canReclaim(rejected, config, 4_100)).to.equal(true);
+  });
+
+  it("only closes settled tasks", () => {
+    expect(canClose(task("approved"))).to.equal(true);
+    expect(canClose(task("reclaimed"))).to.equal(true);
+    expect(canClose(task("open"))).to.equal(false);
+    expect(canClose(task("rejected"))).to.equal(false);
+  });
+
+  it("never allows reclaiming settled tasks", () => {
+    expect(reclaimAvailableAt(task("approved"), config)).to.equal(null);
+    expect(canReclaim(task("reclaimed"), config, 1e12)).to.equal(false);
+  });
+
+  it("lets the assigned reporter dispute a rejection within the penalty window", () => {
+    const reporter = Keypair.generate().publicKey;
+    const rejected = {
+      ...task("rejected", 1_000, 500),
+      assignedReporter: reporter as PublicKey | null,
+    };
+    expect(disputeDeadline(rejected, config)!.toNumber()).to.equal(4_100);
+    expect(canOpenDispute(rejected, config, 4_099, reporter)).to.equal(true);
+    expect(canOpenDispute(rejected, config, 4_100, reporter)).to.equal(false);
+    expect(
+      canOpenDispute(rejected, config, 600, Keypair.generate().publicKey)
+    ).to.equal(false);
+    expect(
+      canOpenDispute({ ...rejected, maxReporters: 2 }, config, 600, reporter)
+    ).to.equal(false);
+    expect(disputeDeadline(task("open"), config)).to.equal(null);
+  });
+
+  it("freezes reclaim until the dispute resolution deadline", () => {
+    const disputed = task("disputed", 1_000, 500);
+    expect(reclaimAvailableAt(disputed, config)!.toNumber()).to.equal(4_100);
+    expect(canReclaim(disputed, config, 4_099)).to.equal(false);
+    expect(canReclaim(disputed, config, 4_100)).to.equal(true);
+    expect(canResolveDispute(disputed, config, 4_099)).to.equal(true);
+    expect(canResolveDispute(disputed, config, 4_100)).to.equal(false);
+    expect(canResolveDispute(task("rejected"), config, 600)).to.equal(false);
+    expect(
+      disputeResolutionDeadline({ openedAt: new BN(500) }, config).toNumber()
+    ).to.equal(4_100);
+  });
+});
+
+describe("format", () => {
+  it("formats lamports as SOL", () => {
+    expect(formatSol(new BN(1_500_000_000))).to.equal("1.5");
+    expect(formatSol(10_000_000)).to.equal("0.01");
+    expect(formatSol(2_000_000_000)).to.equal("2");
+  });
+
+  it("formats token amounts with arbitrary decimals", () => {
+    expect(formatTokenAmount(new BN(1_234_500), 6)).to.equal("1.2345");
+    expect(formatTokenAmount(42, 0)).to.equal("42");
+  });
+
+  it("formats countdowns with an optional day prefix", () => {
+    expect(formatCountdown(3_723)).to.equal("01:02:03");
+    expect(formatCountdown(93_784)).to.equal("1d 02:03:04");
+    expect(formatCountdown(-5)).to.equal("00:00:00");
+  });
+});
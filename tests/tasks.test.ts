@@ -0,0 +1,117 @@
+import { BN, Program, utils } from "@coral-xyz/anchor";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import idl from "../src/idl/sunpath.json";
+import { Sunpath } from "../src/types/sunpath";
+import {
+  buildTaskFilters,
+  sortAndPaginate,
+  TASK_ACCOUNT_OFFSETS,
+  TASK_STATUS_NAMES,
+} from "../src/utils/tasks";
+
+describe("tasks", () => {
+  // The Program coder works on the camelCase IDL, exactly like SunpathClient.
+  const coder = new Program(idl as Sunpath, {
+    connection: new Connection("http://127.0.0.1:8899"),
+  }).coder.accounts;
+  const consigner = Keypair.generate().publicKey;
+  const reporter = Keypair.generate().publicKey;
+
+  const encodeTask = async (expiration: number) =>
+    coder.encode("taskAccount", {
+      taskId: new BN(42),
+      consignerWallet: consigner,
+      rewardAmountLocked: new BN(15_000_000),
+      creationTimestamp: new BN(1_700_000_000),
+      durationSeconds: new BN(3600),
+      expirationTimestamp: new BN(expiration),
+      status: { rejected: {} },
+      statusUpdateTimestamp: new BN(1_700_000_100),
+      assignedReporter: reporter,
+      reportPda: null,
+      isInitialized: true,
+    });
+
+  it("matches the Borsh layout of TaskAccount", async () => {
+    const data = await encodeTask(1_700_003_600);
+    const at = (offset: number, length: number) =>
+      data.subarray(offset, offset + length);
+
+    expect(at(TASK_ACCOUNT_OFFSETS.consignerWallet, 32)).to.deep.equal(
+      consigner.toBuffer()
+    );
+    expect(
+      new BN(at(TASK_ACCOUNT_OFFSETS.expirationTimestamp, 8), "le").toNumber()
+    ).to.equal(1_700_003_600);
+    expect(data[TASK_ACCOUNT_OFFSETS.status]).to.equal(
+      TASK_STATUS_NAMES.indexOf("rejected")
+    );
+    expect(at(TASK_ACCOUNT_OFFSETS.assignedReporter, 33)).to.deep.equal(
+      Buffer.concat([Buffer.from([1]), reporter.toBuffer()])
+    );
+  });
+
+  it("lists status variants in IDL order", () => {
+    const taskStatus = idl.types.find((type) => type.name === "TaskStatus")!;
+    expect(
+      (taskStatus.type as { variants: { name: string }[] }).variants.map(
+        (variant) => variant.name.toLowerCase()
+      )
+    ).to.deep.equal(TASK_STATUS_NAMES);
+  });
+
+  it("builds memcmp filters for every criterion", () => {
+    const filters = buildTaskFilters({
+      consigner,
+      status: "open",
+      assignedReporter: reporter,
+    });
+    expect(filters).to.deep.equal([
+      {
+        memcmp: {
+          offset: TASK_ACCOUNT_OFFSETS.consignerWallet,
+          bytes: consigner.toBase58(),
+        },
+      },
+      {
+        memcmp: {
+          offset: TASK_ACCOUNT_OFFSETS.status,
+          bytes: utils.bytes.bs58.encode([0]),
+        },
+      },
+      {
+        memcmp: {
+          offset: TASK_ACCOUNT_OFFSETS.assignedReporter,
+          bytes: utils.bytes.bs58.encode(
+            Buffer.concat([Buffer.from([1]), reporter.toBuffer()])
+          ),
+        },
+      },
+    ]);
+    expect(buildTaskFilters({})).to.deep.equal([]);
+  });
+
+  it("sorts by expiration and paginates", () => {
+    const items = [30, 10, 20, 40, 50].map((expiration) => ({
+      publicKey: PublicKey.unique(),
+      expirationTimestamp: new BN(expiration),
+    }));
+    const firstPage = sortAndPaginate(items, { page: 0, pageSize: 2 });
+    expect(
+      firstPage.items.map((item) => item.expirationTimestamp.toNumber())
+    ).to.deep.equal([10, 20]);
+    expect(firstPage.total).to.equal(5);
+
+    const lastPage = sortAndPaginate(items, {
+      sortOrder: "desc",
+      page: 2,
+      pageSize: 2,
+    });
+    expect(
+      lastPage.items.map((item) => item.expirationTimestamp.toNumber())
+    ).to.deep.equal([10]);
+
+    expect(sortAndPaginate(items).items).to.have.length(5);
+  });
+});
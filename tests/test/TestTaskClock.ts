@@ -0,0 +1,439 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import { ProgramTestContext } from "solana-bankrun";
+import { LEGACY_ACCOUNT_SPACE, SunpathClient } from "../../client/client";
+import { MOCK_ACCOUNT_SPACE, rentExemptMinimum } from "../../client/mock";
+import {
+  DEFAULT_DURATION,
+  DEFAULT_REWARD,
+  FIXTURE_CONFIG,
+  createBankrunClient,
+  createOpenTask,
+  expectSunpathError,
+  startClockFixture,
+  submitTestReport,
+  warpTo,
+} from "./fixtures";
+
+// Runs the program in-process on bankrun so the clock can be moved past task deadlines and
+// the denial penalty; the program config keeps FIXTURE_CONFIG throughout.
+describe("sunpath clock-dependent rules", () => {
+  const REWARD = DEFAULT_REWARD;
+  const PENALTY = FIXTURE_CONFIG.denialPenaltyDuration;
+
+  let context: ProgramTestContext;
+  let connection: Connection;
+  let admin: SunpathClient;
+  let consigner: SunpathClient;
+  let reporter: SunpathClient;
+
+  const createTask = async (): Promise<PublicKey> =>
+    (await createOpenTask(consigner)).taskAccount;
+
+  // bankrun has no getProgramAccounts, so the report accounts are passed explicitly
+  // instead of through SunpathClient.rejectTask
+  const rejectTask = (taskAccount: PublicKey, reporters: PublicKey[] = []) =>
+    consigner.program.methods
+      .rejectTask()
+      .accountsPartial({
+        taskAccount,
+        consignerWallet: consigner.walletPublicKey,
+      })
+      .remainingAccounts(
+        reporters.flatMap((reporterKey) => [
+          {
+            pubkey: consigner.reportAddress(taskAccount, reporterKey),
+            isSigner: false,
+            isWritable: false,
+          },
+          {
+            pubkey: consigner.reporterStatsAddress(reporterKey),
+            isSigner: false,
+            isWritable: true,
+          },
+        ])
+      )
+      .rpc();
+
+  const rejectedTask = async (): Promise<PublicKey> => {
+    const taskAccount = await createTask();
+    await submitTestReport(reporter, taskAccount);
+    await rejectTask(taskAccount, [reporter.walletPublicKey]);
+    return taskAccount;
+  };
+
+  const reclaimAllowedAt = async (taskAccount: PublicKey): Promise<BN> =>
+    (await consigner.fetchTask(taskAccount)).statusUpdateTimestamp.add(PENALTY);
+
+  // A 6-decimal mint owned by the consigner, with REWARD * 10 in their token account
+  const createRewardMint = async (): Promise<PublicKey> => {
+    const mint = Keypair.generate();
+    const owner = consigner.walletPublicKey;
+    const tokenAccount = getAssociatedTokenAddressSync(mint.publicKey, owner);
+    await consigner.provider.sendAndConfirm(
+      new Transaction().add(
+        SystemProgram.createAccount({
+          fromPubkey: owner,
+          newAccountPubkey: mint.publicKey,
+          space: MINT_SIZE,
+          lamports: await connection.getMinimumBalanceForRentExemption(
+            MINT_SIZE
+          ),
+          programId: TOKEN_PROGRAM_ID,
+        }),
+        createInitializeMint2Instruction(mint.publicKey, 6, owner, null),
+        createAssociatedTokenAccountIdempotentInstruction(
+          owner,
+          tokenAccount,
+          owner,
+          mint.publicKey
+        ),
+        createMintToInstruction(
+          mint.publicKey,
+          tokenAccount,
+          owner,
+          BigInt(REWARD.muln(10).toString())
+        )
+      ),
+      [mint]
+    );
+    return mint.publicKey;
+  };
+
+  const lamports = (address: PublicKey) => connection.getBalance(address);
+
+  beforeEach(async () => {
+    ({ context, connection, admin } = await startClockFixture());
+    ({ client: consigner } = createBankrunClient(context, 5));
+    ({ client: reporter } = createBankrunClient(context, 1));
+  });
+
+  describe("denial penalty", () => {
+    it("returns the reward once the denial penalty has passed", async () => {
+      const taskAccount = await rejectedTask();
+      const allowedAt = await reclaimAllowedAt(taskAccount);
+
+      await warpTo(context, allowedAt.subn(1));
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "DenialLockupActive"
+      );
+
+      await warpTo(context, allowedAt);
+      const taskBefore = await lamports(taskAccount);
+      await consigner.reclaimTaskFunds(taskAccount);
+
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ reclaimed: {} });
+      expect(task.rewardAmountLocked.toNumber()).to.equal(0);
+      expect(taskBefore - (await lamports(taskAccount))).to.equal(
+        REWARD.toNumber()
+      );
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "CannotReclaimFunds"
+      );
+    });
+
+    it("reclaims and closes a rejected task in one transaction", async () => {
+      const taskAccount = await rejectedTask();
+      await warpTo(context, await reclaimAllowedAt(taskAccount));
+
+      const { lamportsRecovered } = await consigner.reclaimAndCloseTask(
+        taskAccount
+      );
+
+      expect(lamportsRecovered).to.be.greaterThan(REWARD.toNumber());
+      expect(await consigner.fetchTaskNullable(taskAccount)).to.be.null;
+    });
+
+    it("fails with DisputeWindowClosed after the denial penalty", async () => {
+      const taskAccount = await rejectedTask();
+      await warpTo(context, await reclaimAllowedAt(taskAccount));
+
+      await expectSunpathError(
+        reporter.openDispute(taskAccount, "ipfs://dispute"),
+        "DisputeWindowClosed"
+      );
+    });
+
+    it("returns the tokens to the consigner after a rejection", async () => {
+      const rewardMint = await createRewardMint();
+      await admin.setRewardMint(rewardMint, FIXTURE_CONFIG.minimumRewardAmount);
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: DEFAULT_DURATION,
+        rewardMint,
+      });
+      await rejectTask(taskAccount);
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "DenialLockupActive"
+      );
+
+      const consignerTokenAccount = getAssociatedTokenAddressSync(
+        rewardMint,
+        consigner.walletPublicKey
+      );
+      const before = (await getAccount(connection, consignerTokenAccount))
+        .amount;
+      await warpTo(context, await reclaimAllowedAt(taskAccount));
+      await consigner.reclaimTaskFunds(taskAccount);
+
+      const after = (await getAccount(connection, consignerTokenAccount))
+        .amount;
+      expect(after - before).to.equal(BigInt(REWARD.toString()));
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        reclaimed: {},
+      });
+    });
+  });
+
+  describe("dispute resolution deadline", () => {
+    const disputedTask = async (): Promise<{
+      taskAccount: PublicKey;
+      resolveBy: BN;
+    }> => {
+      const taskAccount = await rejectedTask();
+      await reporter.openDispute(taskAccount, "ipfs://dispute");
+      const dispute = await consigner.fetchDispute(taskAccount);
+      return { taskAccount, resolveBy: dispute!.openedAt.add(PENALTY) };
+    };
+
+    it("lets the consigner reclaim once the arbiter misses the deadline", async () => {
+      const { taskAccount, resolveBy } = await disputedTask();
+
+      await warpTo(context, resolveBy.subn(1));
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "CannotReclaimFunds"
+      );
+
+      await warpTo(context, resolveBy);
+      await expectSunpathError(
+        admin.resolveDispute(taskAccount, true),
+        "DisputeDeadlinePassed"
+      );
+      const taskBefore = await lamports(taskAccount);
+      await consigner.reclaimTaskFunds(taskAccount);
+
+      expect(taskBefore - (await lamports(taskAccount))).to.equal(
+        REWARD.toNumber()
+      );
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        reclaimed: {},
+      });
+    });
+
+    it("lets the reporter close an unresolved dispute after the deadline", async () => {
+      const { taskAccount, resolveBy } = await disputedTask();
+
+      await warpTo(context, resolveBy.subn(1));
+      await expectSunpathError(
+        reporter.closeDispute(taskAccount),
+        "DisputePending"
+      );
+
+      await warpTo(context, resolveBy);
+      await reporter.closeDispute(taskAccount);
+      expect(await reporter.fetchDispute(taskAccount)).to.be.null;
+    });
+  });
+
+  // bankrun can rewrite accounts, so legacy accounts are recreated by cutting current ones back
+  // to their pre-migration size. The cut-off bytes of the new fields are left behind as stale
+  // data, which the migration must not read.
+  describe("account migration", () => {
+    const truncateAccount = async (address: PublicKey, length: number) => {
+      const account = await context.banksClient.getAccount(address);
+      context.setAccount(address, {
+        ...account!,
+        data: account!.data.slice(0, length),
+      });
+    };
+
+    const rentDifference = async (from: number, to: number) =>
+      (await connection.getMinimumBalanceForRentExemption(to)) -
+      (await connection.getMinimumBalanceForRentExemption(from));
+
+    it("lets only the admin migrate the config", async () => {
+      await truncateAccount(
+        admin.configAddress(),
+        LEGACY_ACCOUNT_SPACE.programConfig
+      );
+      let fetchError: unknown = null;
+      await admin.fetchConfig().catch((error) => (fetchError = error));
+      expect(fetchError).to.not.be.null;
+
+      await expectSunpathError(consigner.migrateConfig(), "NotAdmin");
+      await admin.migrateConfig();
+
+      const config = await admin.fetchConfig();
+      expect(config.admin.toBase58()).to.equal(
+        admin.walletPublicKey.toBase58()
+      );
+      expect(config.denialPenaltyDuration.toString()).to.equal(
+        PENALTY.toString()
+      );
+      expect(config.pendingAdmin).to.be.null;
+      await expectSunpathError(admin.migrateConfig(), "AccountAlreadyMigrated");
+    });
+
+    it("migrates a task and its report and keeps the locked reward", async () => {
+      const taskAccount = await createTask();
+      const { reportAccount } = await submitTestReport(reporter, taskAccount);
+      const taskSize = (await connection.getAccountInfo(taskAccount))!.data
+        .length;
+      await truncateAccount(taskAccount, LEGACY_ACCOUNT_SPACE.taskAccount);
+      await truncateAccount(reportAccount, LEGACY_ACCOUNT_SPACE.reportAccount);
+
+      const taskBefore = await lamports(taskAccount);
+      await reporter.migrateTask(taskAccount);
+      await reporter.migrateReport(reportAccount);
+
+      expect((await lamports(taskAccount)) - taskBefore).to.equal(
+        await rentDifference(LEGACY_ACCOUNT_SPACE.taskAccount, taskSize)
+      );
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.rewardAmountLocked.toString()).to.equal(REWARD.toString());
+      expect(task.rewardMint).to.be.null;
+      expect(task.maxReporters).to.equal(1);
+      expect(task.reportCount).to.equal(1);
+      expect((await consigner.fetchReport(reportAccount)).rejected).to.equal(
+        false
+      );
+      await expectSunpathError(
+        reporter.migrateTask(taskAccount),
+        "AccountAlreadyMigrated"
+      );
+
+      // The migrated task settles like any other
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        approved: {},
+      });
+    });
+  });
+
+  // client/mock.ts charges rent from MOCK_ACCOUNT_SPACE and rentExemptMinimum, so both are
+  // checked against the accounts the program actually creates
+  describe("mock account sizes", () => {
+    it("match the program's accounts and rent", async () => {
+      const rewardMint = await createRewardMint();
+      await admin.setRewardMint(rewardMint, FIXTURE_CONFIG.minimumRewardAmount);
+      const { taskAccount: tokenTask } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: DEFAULT_DURATION,
+        rewardMint,
+        location: {
+          geohash: "xn76urx",
+          roadGeometryHash: new Uint8Array(32).fill(7),
+        },
+      });
+      const taskAccount = await rejectedTask();
+      await reporter.openDispute(taskAccount, "ipfs://sunpath-test-dispute");
+
+      const accounts: [keyof typeof MOCK_ACCOUNT_SPACE, PublicKey][] = [
+        ["programConfig", admin.configAddress()],
+        ["taskAccount", taskAccount],
+        [
+          "taskCounter",
+          consigner.taskCounterAddress(consigner.walletPublicKey),
+        ],
+        [
+          "adminActionCounter",
+          consigner.adminCounterAddress(consigner.walletPublicKey),
+        ],
+        [
+          "reportAccount",
+          reporter.reportAddress(taskAccount, reporter.walletPublicKey),
+        ],
+        [
+          "reporterStats",
+          reporter.reporterStatsAddress(reporter.walletPublicKey),
+        ],
+        ["dispute", reporter.disputeAddress(taskAccount)],
+        ["taskLocation", consigner.taskLocationAddress(tokenTask)],
+        ["rewardMintConfig", admin.rewardMintConfigAddress(rewardMint)],
+        ["tokenAccount", consigner.taskVaultAddress(tokenTask)],
+      ];
+      for (const [name, address] of accounts) {
+        const space = (await connection.getAccountInfo(address))!.data.length;
+        expect(MOCK_ACCOUNT_SPACE[name], name).to.equal(space);
+        expect(rentExemptMinimum(space), name).to.equal(
+          await connection.getMinimumBalanceForRentExemption(space)
+        );
+      }
+    });
+  });
+
+  describe("expiry", () => {
+    it("closes an overdue task to reports, acceptance and rejection", async () => {
+      const taskAccount = await createTask();
+      const { expirationTimestamp } = await consigner.fetchTask(taskAccount);
+      await warpTo(context, expirationTimestamp.addn(1));
+
+      await expectSunpathError(
+        submitTestReport(reporter, taskAccount),
+        "TaskExpired"
+      );
+      await expectSunpathError(
+        consigner.acceptTask(taskAccount, reporter.walletPublicKey),
+        "TaskExpired"
+      );
+      await expectSunpathError(rejectTask(taskAccount), "TaskExpired");
+    });
+
+    it("lets anyone mark the task expired and the consigner reclaim it", async () => {
+      const taskAccount = await createTask();
+      const { expirationTimestamp } = await consigner.fetchTask(taskAccount);
+      await warpTo(context, expirationTimestamp);
+      await expectSunpathError(
+        reporter.expireTask(taskAccount),
+        "TaskNotExpired"
+      );
+
+      await warpTo(context, expirationTimestamp.addn(1));
+      await reporter.expireTask(taskAccount);
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        expired: {},
+      });
+
+      const taskBefore = await lamports(taskAccount);
+      await consigner.reclaimTaskFunds(taskAccount);
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        reclaimed: {},
+      });
+      expect(taskBefore - (await lamports(taskAccount))).to.equal(
+        REWARD.toNumber()
+      );
+    });
+
+    it("reclaims an expired task that is still open", async () => {
+      const taskAccount = await createTask();
+      const { expirationTimestamp } = await consigner.fetchTask(taskAccount);
+      await warpTo(context, expirationTimestamp.addn(1));
+
+      await consigner.reclaimTaskFunds(taskAccount);
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        reclaimed: {},
+      });
+    });
+  });
+});
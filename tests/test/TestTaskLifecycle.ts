@@ -0,0 +1,791 @@
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { SunpathClient } from "../../client/client";
+import { calculateFeeBreakdown, splitReward } from "../../src/utils/fees";
+import { geohashFromBytes } from "../../src/utils/location";
+import {
+  DEFAULT_DURATION,
+  DEFAULT_REWARD,
+  FIXTURE_CONFIG,
+  createFundedClient,
+  createFundedConsigner,
+  createOpenTask,
+  expectSunpathError,
+  rentExemptBalance,
+  submitTestReport,
+  sunpathFixture,
+} from "./fixtures";
+
+// Runs against the local validator started by `anchor test` (the provider wallet must be the
+// config admin). Rules that need the clock to move on, such as expiry and the end of the
+// denial penalty, are covered by TestTaskClock.ts on bankrun.
+describe("sunpath task lifecycle", () => {
+  const MIN_REWARD = FIXTURE_CONFIG.minimumRewardAmount;
+  const REWARD = DEFAULT_REWARD;
+  const DAO_FEE_PERCENTAGE = FIXTURE_CONFIG.daoFeePercentage;
+  const GOVERNANCE_REWARD = FIXTURE_CONFIG.patrollerGovernanceTokenAmount;
+  const ONE_HOUR = DEFAULT_DURATION;
+
+  let connection: Connection;
+  let admin: SunpathClient;
+  let treasury: PublicKey;
+
+  const createTask = async (
+    consigner: SunpathClient,
+    overrides: { maxReporters?: number } = {}
+  ): Promise<PublicKey> =>
+    (await createOpenTask(consigner, overrides)).taskAccount;
+
+  const lamports = (address: PublicKey) => connection.getBalance(address);
+
+  before(async () => {
+    ({ connection, admin, treasury } = await sunpathFixture());
+  });
+
+  describe("admin", () => {
+    it("rejects update_config from a non-admin", async () => {
+      const { client: stranger } = await createFundedClient(1);
+      await expectSunpathError(
+        stranger.updateConfig({ daoFeePercentage: 50 }),
+        "NotAdmin"
+      );
+    });
+
+    it("rejects an out-of-range DAO fee", async () => {
+      await expectSunpathError(
+        admin.updateConfig({ daoFeePercentage: 101 }),
+        "InvalidFeePercentage"
+      );
+    });
+
+    it("transfers the admin role in two steps", async () => {
+      const { client: next } = await createFundedClient(1);
+      await expectSunpathError(next.acceptAdminTransfer(), "NotPendingAdmin");
+
+      await admin.proposeAdminTransfer(next.walletPublicKey);
+      await next.acceptAdminTransfer();
+      expect((await admin.fetchConfig()).admin.toBase58()).to.equal(
+        next.walletPublicKey.toBase58()
+      );
+
+      await next.proposeAdminTransfer(admin.walletPublicKey);
+      await admin.acceptAdminTransfer();
+      const config = await admin.fetchConfig();
+      expect(config.admin.toBase58()).to.equal(
+        admin.walletPublicKey.toBase58()
+      );
+      expect(config.pendingAdmin).to.be.null;
+    });
+  });
+
+  describe("create_task", () => {
+    let consigner: SunpathClient;
+
+    before(async () => {
+      ({ client: consigner } = await createFundedConsigner());
+    });
+
+    it("locks the reward in the task account", async () => {
+      const taskAccount = await createTask(consigner);
+      const task = await consigner.fetchTask(taskAccount);
+      const rent = await rentExemptBalance(connection, taskAccount);
+
+      expect(task.status).to.deep.equal({ open: {} });
+      expect(task.rewardAmountLocked.toString()).to.equal(REWARD.toString());
+      expect(task.expirationTimestamp.toNumber()).to.equal(
+        task.creationTimestamp.add(ONE_HOUR).toNumber()
+      );
+      expect(await lamports(taskAccount)).to.equal(REWARD.toNumber() + rent);
+    });
+
+    it("fails with RewardAmountTooLow below the configured minimum", async () => {
+      await expectSunpathError(
+        consigner.createTask({
+          rewardAmount: MIN_REWARD.subn(1),
+          durationSeconds: ONE_HOUR,
+        }),
+        "RewardAmountTooLow"
+      );
+    });
+
+    it("fails with TaskIdMismatch when the task id is not the next one", async () => {
+      const nextTaskId = await consigner.nextTaskId();
+      await expectSunpathError(
+        consigner.createTask({
+          taskId: nextTaskId.addn(1),
+          rewardAmount: REWARD,
+          durationSeconds: ONE_HOUR,
+        }),
+        "TaskIdMismatch"
+      );
+    });
+
+    it("stores the road location in the same transaction", async () => {
+      const roadGeometryHash = new Uint8Array(32).fill(9);
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: ONE_HOUR,
+        location: { geohash: "xn76urx", roadGeometryHash },
+      });
+      const location = await consigner.fetchTaskLocation(taskAccount);
+
+      expect(location).to.not.be.null;
+      expect(geohashFromBytes(location!.geohash)).to.equal("xn76urx");
+      expect(location!.roadGeometryHash).to.deep.equal(
+        Array.from(roadGeometryHash)
+      );
+    });
+
+    it("closes the road location together with the task", async () => {
+      const { client: reporter } = await createFundedClient(1);
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: ONE_HOUR,
+        location: { geohash: "xn76urx", roadGeometryHash: new Uint8Array(32) },
+      });
+      await submitTestReport(reporter, taskAccount);
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+      const taskLocation = consigner.taskLocationAddress(taskAccount);
+      const rent =
+        (await lamports(taskAccount)) + (await lamports(taskLocation));
+
+      const { lamportsRecovered } = await consigner.closeTask(taskAccount);
+
+      expect(lamportsRecovered).to.equal(rent);
+      expect(await consigner.fetchTaskNullable(taskAccount)).to.be.null;
+      expect(await consigner.fetchTaskLocation(taskAccount)).to.be.null;
+    });
+  });
+
+  describe("accept_task", () => {
+    let consigner: SunpathClient;
+    let reporter: SunpathClient;
+    let stranger: SunpathClient;
+    let taskAccount: PublicKey;
+
+    before(async () => {
+      ({ client: consigner } = await createFundedConsigner());
+      ({ client: reporter } = await createFundedClient(1));
+      ({ client: stranger } = await createFundedClient(1));
+      taskAccount = await createTask(consigner);
+      await submitTestReport(reporter, taskAccount);
+    });
+
+    it("fails with NotTaskConsigner when signed by someone else", async () => {
+      await expectSunpathError(
+        stranger.acceptTask(taskAccount, reporter.walletPublicKey),
+        "NotTaskConsigner"
+      );
+    });
+
+    it("fails with RecipientNotReporter when the paid account is not the recipient", async () => {
+      // The consigner gets ReporterStats of their own, then names the real reporter as
+      // `recipient` while pointing `recipient_account` at their own wallet.
+      const decoyTask = await createTask(consigner);
+      await submitTestReport(consigner, decoyTask);
+
+      await expectSunpathError(
+        consigner.program.methods
+          .acceptTask(reporter.walletPublicKey)
+          .accountsPartial({
+            taskAccount,
+            consignerWallet: consigner.walletPublicKey,
+            recipientAccount: consigner.walletPublicKey,
+            daoTreasury: treasury,
+          })
+          .rpc(),
+        "RecipientNotReporter"
+      );
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ open: {} });
+    });
+
+    it("pays the reporter and the DAO fee", async () => {
+      const { daoFee, reporterAmount } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      const reporterBefore = await lamports(reporter.walletPublicKey);
+      const treasuryBefore = await lamports(treasury);
+
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ approved: {} });
+      expect(
+        (await lamports(reporter.walletPublicKey)) - reporterBefore
+      ).to.equal(reporterAmount.toNumber());
+      expect((await lamports(treasury)) - treasuryBefore).to.equal(
+        daoFee.toNumber()
+      );
+
+      const stats = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+      expect(stats!.approvedCount.toNumber()).to.equal(1);
+      expect(stats!.totalEarned.toString()).to.equal(reporterAmount.toString());
+    });
+
+    it("fails with TaskNotOpen once the task is approved", async () => {
+      await expectSunpathError(
+        consigner.acceptTask(taskAccount, reporter.walletPublicKey),
+        "TaskNotOpen"
+      );
+      await expectSunpathError(
+        consigner.rejectTask(taskAccount),
+        "TaskNotOpen"
+      );
+    });
+
+    it("lets the reporter claim the governance reward after the task is closed", async () => {
+      await consigner.closeTask(taskAccount);
+      expect(await consigner.fetchTaskNullable(taskAccount)).to.be.null;
+
+      // The claim is checked against the report, so a stranger cannot use the reporter's
+      const { governanceTokenMint } = await stranger.fetchConfig();
+      const strangerTokenAccount = stranger.governanceTokenAccountAddress(
+        stranger.walletPublicKey,
+        governanceTokenMint
+      );
+      await expectSunpathError(
+        stranger.program.methods
+          .claimGovernanceReward()
+          .accountsPartial({
+            reportAccount: stranger.reportAddress(
+              taskAccount,
+              reporter.walletPublicKey
+            ),
+            reporter: stranger.walletPublicKey,
+            governanceTokenMint,
+            reporterTokenAccount: strangerTokenAccount,
+          })
+          .preInstructions([
+            createAssociatedTokenAccountIdempotentInstruction(
+              stranger.walletPublicKey,
+              strangerTokenAccount,
+              stranger.walletPublicKey,
+              governanceTokenMint
+            ),
+          ])
+          .rpc(),
+        "NotTaskReporter"
+      );
+
+      await reporter.claimGovernanceReward(taskAccount);
+      const balance = await reporter.fetchGovernanceTokenBalance(
+        reporter.walletPublicKey
+      );
+      expect(balance.amount.toString()).to.equal(GOVERNANCE_REWARD.toString());
+      await expectSunpathError(
+        reporter.claimGovernanceReward(taskAccount),
+        "GovernanceRewardAlreadyClaimed"
+      );
+    });
+  });
+
+  describe("accept_reports", () => {
+    it("fails with MultiReporterTask when accept_task is used instead", async () => {
+      const { client: consigner } = await createFundedConsigner();
+      const { client: reporter } = await createFundedClient(1);
+      const taskAccount = await createTask(consigner, { maxReporters: 2 });
+      await submitTestReport(reporter, taskAccount);
+
+      await expectSunpathError(
+        consigner.acceptTask(taskAccount, reporter.walletPublicKey),
+        "MultiReporterTask"
+      );
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        open: {},
+      });
+    });
+
+    it("splits the reward between reporters by weight", async () => {
+      const { client: consigner } = await createFundedConsigner();
+      const { client: first } = await createFundedClient(1);
+      const { client: second } = await createFundedClient(1);
+      const taskAccount = await createTask(consigner, { maxReporters: 2 });
+      await submitTestReport(first, taskAccount);
+      await submitTestReport(second, taskAccount);
+
+      const { reporterAmount } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      const [firstShare, secondShare] = splitReward(reporterAmount, [1, 3]);
+      const firstBefore = await lamports(first.walletPublicKey);
+      const secondBefore = await lamports(second.walletPublicKey);
+
+      await consigner.acceptReports(taskAccount, [
+        { reporter: first.walletPublicKey, weight: 1 },
+        { reporter: second.walletPublicKey, weight: 3 },
+      ]);
+
+      expect((await lamports(first.walletPublicKey)) - firstBefore).to.equal(
+        firstShare.toNumber()
+      );
+      expect((await lamports(second.walletPublicKey)) - secondBefore).to.equal(
+        secondShare.toNumber()
+      );
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        approved: {},
+      });
+    });
+
+    it("lets every paid reporter claim the governance reward", async () => {
+      const { client: consigner } = await createFundedConsigner();
+      const { client: first } = await createFundedClient(1);
+      const { client: second } = await createFundedClient(1);
+      const reporters = [first, second];
+      const taskAccount = await createTask(consigner, { maxReporters: 2 });
+      for (const reporter of reporters) {
+        await submitTestReport(reporter, taskAccount);
+      }
+
+      await consigner.acceptReports(
+        taskAccount,
+        reporters.map((reporter) => ({
+          reporter: reporter.walletPublicKey,
+          weight: 1,
+        }))
+      );
+
+      for (const reporter of reporters) {
+        await reporter.claimGovernanceReward(taskAccount);
+        const balance = await reporter.fetchGovernanceTokenBalance(
+          reporter.walletPublicKey
+        );
+        expect(balance.amount.toString()).to.equal(
+          GOVERNANCE_REWARD.toString()
+        );
+      }
+    });
+  });
+
+  describe("reject_report", () => {
+    let consigner: SunpathClient;
+    let junk: SunpathClient;
+    let reporter: SunpathClient;
+    let taskAccount: PublicKey;
+
+    before(async () => {
+      ({ client: consigner } = await createFundedConsigner());
+      ({ client: junk } = await createFundedClient(1));
+      ({ client: reporter } = await createFundedClient(1));
+      taskAccount = await createTask(consigner);
+      await submitTestReport(junk, taskAccount);
+    });
+
+    it("fails with NotTaskConsigner when signed by someone else", async () => {
+      await expectSunpathError(
+        reporter.rejectReport(taskAccount, junk.walletPublicKey),
+        "NotTaskConsigner"
+      );
+    });
+
+    it("keeps the slot until the report is rejected", async () => {
+      await expectSunpathError(
+        submitTestReport(reporter, taskAccount),
+        "ReportAlreadySubmitted"
+      );
+    });
+
+    it("reopens the slot without rejecting the task", async () => {
+      await consigner.rejectReport(taskAccount, junk.walletPublicKey);
+
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ open: {} });
+      expect(task.reportCount).to.equal(0);
+      expect(task.reportPda).to.be.null;
+      expect(task.assignedReporter).to.be.null;
+      const stats = await consigner.fetchReporterStats(junk.walletPublicKey);
+      expect(stats!.rejectedCount.toNumber()).to.equal(1);
+      await expectSunpathError(
+        consigner.rejectReport(taskAccount, junk.walletPublicKey),
+        "ReportRejected"
+      );
+    });
+
+    it("assigns and pays the next reporter", async () => {
+      await submitTestReport(reporter, taskAccount);
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.assignedReporter!.equals(reporter.walletPublicKey)).to.be
+        .true;
+
+      const { reporterAmount } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      const reporterBefore = await lamports(reporter.walletPublicKey);
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+      expect(
+        (await lamports(reporter.walletPublicKey)) - reporterBefore
+      ).to.equal(reporterAmount.toNumber());
+    });
+  });
+
+  describe("reject_task and reclaim_task_funds", () => {
+    let consigner: SunpathClient;
+    let reporter: SunpathClient;
+    let taskAccount: PublicKey;
+
+    before(async () => {
+      ({ client: consigner } = await createFundedConsigner());
+      ({ client: reporter } = await createFundedClient(1));
+      taskAccount = await createTask(consigner);
+      await submitTestReport(reporter, taskAccount);
+    });
+
+    it("fails with CannotReclaimFunds while the task is open", async () => {
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "CannotReclaimFunds"
+      );
+    });
+
+    it("fails with NotTaskConsigner when signed by someone else", async () => {
+      const { client: stranger } = await createFundedClient(1);
+      await expectSunpathError(
+        stranger.rejectTask(taskAccount),
+        "NotTaskConsigner"
+      );
+    });
+
+    it("rejects the task and records it in the reporter stats", async () => {
+      await consigner.rejectTask(taskAccount);
+
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ rejected: {} });
+      const stats = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+      expect(stats!.rejectedCount.toNumber()).to.equal(1);
+      await expectSunpathError(
+        consigner.rejectTask(taskAccount),
+        "TaskNotOpen"
+      );
+    });
+
+    it("records the rejection for every reporter of the task", async () => {
+      const other = await createTask(consigner, { maxReporters: 2 });
+      const { client: second } = await createFundedClient(1);
+      await submitTestReport(reporter, other);
+      await submitTestReport(second, other);
+      const before = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+
+      // Every submitted report has to be passed with its reporter stats
+      await expectSunpathError(
+        consigner.program.methods
+          .rejectTask()
+          .accountsPartial({
+            taskAccount: other,
+            consignerWallet: consigner.walletPublicKey,
+          })
+          .rpc(),
+        "InvalidReportAccount"
+      );
+      await consigner.rejectTask(other);
+
+      const first = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+      expect(first!.rejectedCount.toNumber()).to.equal(
+        before!.rejectedCount.toNumber() + 1
+      );
+      const stats = await consigner.fetchReporterStats(second.walletPublicKey);
+      expect(stats!.rejectedCount.toNumber()).to.equal(1);
+    });
+
+    it("fails with DenialLockupActive during the denial penalty", async () => {
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "DenialLockupActive"
+      );
+    });
+  });
+
+  describe("expiry", () => {
+    it("fails with TaskNotExpired before the deadline", async () => {
+      const { client: consigner } = await createFundedConsigner();
+      const { client: cranker } = await createFundedClient(1);
+      const taskAccount = await createTask(consigner);
+      await expectSunpathError(
+        cranker.expireTask(taskAccount),
+        "TaskNotExpired"
+      );
+    });
+  });
+
+  describe("disputes", () => {
+    let consigner: SunpathClient;
+    let reporter: SunpathClient;
+
+    before(async () => {
+      ({ client: consigner } = await createFundedConsigner());
+      ({ client: reporter } = await createFundedClient(1));
+    });
+
+    const rejectedTask = async (): Promise<PublicKey> => {
+      const taskAccount = await createTask(consigner);
+      await submitTestReport(reporter, taskAccount);
+      await consigner.rejectTask(taskAccount);
+      return taskAccount;
+    };
+
+    it("pays the reporter when the admin upholds the dispute", async () => {
+      const taskAccount = await rejectedTask();
+      await expectSunpathError(
+        consigner.openDispute(taskAccount, "ipfs://dispute"),
+        "NotTaskReporter"
+      );
+      await reporter.openDispute(taskAccount, "ipfs://dispute");
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "CannotReclaimFunds"
+      );
+
+      const { reporterAmount } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      const statsBefore = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+      const reporterBefore = await lamports(reporter.walletPublicKey);
+      await admin.resolveDispute(taskAccount, true);
+
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        approved: {},
+      });
+      expect(
+        (await lamports(reporter.walletPublicKey)) - reporterBefore
+      ).to.equal(reporterAmount.toNumber());
+      const dispute = await consigner.fetchDispute(taskAccount);
+      expect(dispute!.resolution).to.deep.equal({ reporterPaid: {} });
+      const stats = await consigner.fetchReporterStats(
+        reporter.walletPublicKey
+      );
+      expect(stats!.approvedCount.toNumber()).to.equal(
+        statsBefore!.approvedCount.toNumber() + 1
+      );
+      expect(stats!.rejectedCount.toNumber()).to.equal(
+        statsBefore!.rejectedCount.toNumber() - 1
+      );
+    });
+
+    it("releases the reward to the consigner when the dispute is denied", async () => {
+      const taskAccount = await rejectedTask();
+      await reporter.openDispute(taskAccount, "ipfs://dispute");
+      await expectSunpathError(
+        consigner.resolveDispute(taskAccount, false),
+        "NotAdmin"
+      );
+
+      const consignerBefore = await lamports(consigner.walletPublicKey);
+      await admin.resolveDispute(taskAccount, false);
+
+      const task = await consigner.fetchTask(taskAccount);
+      expect(task.status).to.deep.equal({ reclaimed: {} });
+      expect(task.rewardAmountLocked.toNumber()).to.equal(0);
+      expect(
+        (await lamports(consigner.walletPublicKey)) - consignerBefore
+      ).to.equal(REWARD.toNumber());
+    });
+
+    it("lets the reporter close the dispute once it is resolved", async () => {
+      const taskAccount = await rejectedTask();
+      await reporter.openDispute(taskAccount, "ipfs://dispute");
+      await expectSunpathError(
+        reporter.closeDispute(taskAccount),
+        "DisputePending"
+      );
+      await admin.resolveDispute(taskAccount, false);
+      await consigner.closeTask(taskAccount);
+
+      const rent = await lamports(consigner.disputeAddress(taskAccount));
+      const { lamportsRecovered } = await reporter.closeDispute(taskAccount);
+
+      expect(lamportsRecovered).to.equal(rent);
+      expect(await reporter.fetchDispute(taskAccount)).to.be.null;
+    });
+
+    it("fails with MultiReporterDispute on a multi-reporter task", async () => {
+      const taskAccount = await createTask(consigner, { maxReporters: 2 });
+      await submitTestReport(reporter, taskAccount);
+      await consigner.rejectTask(taskAccount);
+
+      await expectSunpathError(
+        reporter.openDispute(taskAccount, "ipfs://dispute"),
+        "MultiReporterDispute"
+      );
+    });
+  });
+
+  describe("token rewards", () => {
+    let consigner: SunpathClient;
+    let consignerKeypair: Keypair;
+    let reporter: SunpathClient;
+    let rewardMint: PublicKey;
+
+    before(async () => {
+      ({ client: consigner, keypair: consignerKeypair } =
+        await createFundedConsigner());
+      ({ client: reporter } = await createFundedClient(1));
+      rewardMint = await createMint(
+        connection,
+        consignerKeypair,
+        consignerKeypair.publicKey,
+        null,
+        6
+      );
+      const consignerTokenAccount = await getOrCreateAssociatedTokenAccount(
+        connection,
+        consignerKeypair,
+        rewardMint,
+        consignerKeypair.publicKey
+      );
+      await mintTo(
+        connection,
+        consignerKeypair,
+        rewardMint,
+        consignerTokenAccount.address,
+        consignerKeypair,
+        BigInt(REWARD.muln(10).toString())
+      );
+    });
+
+    const tokenBalance = async (owner: PublicKey): Promise<bigint> =>
+      (
+        await getAccount(
+          connection,
+          getAssociatedTokenAddressSync(rewardMint, owner)
+        )
+      ).amount;
+
+    it("fails with UnsupportedRewardMint until the admin enables the mint", async () => {
+      await expectSunpathError(
+        consigner.createTask({
+          rewardAmount: REWARD,
+          durationSeconds: ONE_HOUR,
+          rewardMint,
+        }),
+        "UnsupportedRewardMint"
+      );
+      await admin.setRewardMint(rewardMint, MIN_REWARD);
+    });
+
+    it("fails with MultiReporterTokenTask for more than one reporter", async () => {
+      await expectSunpathError(
+        consigner.createTask({
+          rewardAmount: REWARD,
+          durationSeconds: ONE_HOUR,
+          rewardMint,
+          maxReporters: 2,
+        }),
+        "MultiReporterTokenTask"
+      );
+    });
+
+    it("pays the reporter from the task vault", async () => {
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: ONE_HOUR,
+        rewardMint,
+      });
+      await submitTestReport(reporter, taskAccount);
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "CannotReclaimFunds"
+      );
+
+      await consigner.acceptTask(taskAccount, reporter.walletPublicKey);
+
+      const { reporterAmount } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      expect(
+        (await tokenBalance(reporter.walletPublicKey)).toString()
+      ).to.equal(reporterAmount.toString());
+      expect(
+        await connection.getAccountInfo(consigner.taskVaultAddress(taskAccount))
+      ).to.be.null;
+    });
+
+    it("locks the tokens in the vault after a rejection", async () => {
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: ONE_HOUR,
+        rewardMint,
+      });
+      await consigner.rejectTask(taskAccount);
+      await expectSunpathError(
+        consigner.reclaimTaskFunds(taskAccount),
+        "DenialLockupActive"
+      );
+    });
+
+    const rejectedTokenTask = async (): Promise<PublicKey> => {
+      const { taskAccount } = await consigner.createTask({
+        rewardAmount: REWARD,
+        durationSeconds: ONE_HOUR,
+        rewardMint,
+      });
+      await submitTestReport(reporter, taskAccount);
+      await consigner.rejectTask(taskAccount);
+      await reporter.openDispute(taskAccount, "ipfs://dispute");
+      return taskAccount;
+    };
+
+    it("pays a disputed token reward from the vault", async () => {
+      const taskAccount = await rejectedTokenTask();
+      const { reporterAmount, daoFee } = calculateFeeBreakdown(
+        REWARD,
+        DAO_FEE_PERCENTAGE
+      );
+      // Both token accounts were created by the accepted task above
+      const reporterBefore = await tokenBalance(reporter.walletPublicKey);
+      const treasuryBefore = await tokenBalance(treasury);
+
+      await admin.resolveDispute(taskAccount, true);
+
+      expect(
+        (await tokenBalance(reporter.walletPublicKey)) - reporterBefore
+      ).to.equal(BigInt(reporterAmount.toString()));
+      expect((await tokenBalance(treasury)) - treasuryBefore).to.equal(
+        BigInt(daoFee.toString())
+      );
+      expect((await consigner.fetchTask(taskAccount)).status).to.deep.equal({
+        approved: {},
+      });
+      expect(
+        await connection.getAccountInfo(consigner.taskVaultAddress(taskAccount))
+      ).to.be.null;
+    });
+
+    it("returns a disputed token reward to the consigner", async () => {
+      const taskAccount = await rejectedTokenTask();
+      const consignerBefore = await tokenBalance(consigner.walletPublicKey);
+
+      await admin.resolveDispute(taskAccount, false);
+
+      expect(
+        (await tokenBalance(consigner.walletPublicKey)) - consignerBefore
+      ).to.equal(BigInt(REWARD.toString()));
+      const dispute = await consigner.fetchDispute(taskAccount);
+      expect(dispute!.resolution).to.deep.equal({ consignerReleased: {} });
+      expect(
+        await connection.getAccountInfo(consigner.taskVaultAddress(taskAccount))
+      ).to.be.null;
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import * as anchor from "@coral-xyz/anchor";
+import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
+import { createMint } from "@solana/spl-token";
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { BankrunProvider } from "anchor-bankrun";
+import { expect } from "chai";
+import {
+  BanksClient,
+  Clock,
+  ProgramTestContext,
+  startAnchor,
+} from "solana-bankrun";
+import {
+  CreateTaskParams,
+  CreateTaskResult,
+  SubmitReportResult,
+  SunpathClient,
+} from "../../client/client";
+import idl from "../../src/idl/sunpath.json";
+import { Sunpath } from "../../src/types/sunpath";
+import { SunpathErrorCode, decodeSunpathError } from "../../src/utils/errors";
+
+// Shared setup for the integration suites in this directory. Every account is a fresh
+// keypair funded from the provider wallet, so the suites do not depend on keys that only
+// exist on a particular machine or on the devnet faucet.
+
+// Config values applied once per test run and never changed by the suites
+export const FIXTURE_CONFIG = {
+  minimumRewardAmount: new BN(10_000_000), // 0.01 SOL
+  daoFeePercentage: 5,
+  denialPenaltyDuration: new BN(3600),
+  patrollerGovernanceTokenAmount: new BN(100),
+} as const;
+
+export const DEFAULT_REWARD = new BN(20_000_000);
+export const DEFAULT_DURATION = new BN(3600);
+export const TEST_VIDEO_HASH = Array.from({ length: 32 }, (_, i) => i);
+
+export interface SunpathFixture {
+  provider: AnchorProvider;
+  connection: Connection;
+  admin: SunpathClient; // signs with the provider wallet, which is the config admin
+  treasury: PublicKey; // rent-exempt so that small DAO fees can be paid into it
+  governanceMint: PublicKey; // minted by the program's governance mint authority PDA
+}
+
+export interface FundedClient {
+  keypair: Keypair;
+  client: SunpathClient;
+}
+
+let fixture: Promise<SunpathFixture> | null = null;
+
+// Transfers SOL from the provider wallet and waits for confirmation (no faucet, no sleeps)
+export const fund = async (
+  recipient: PublicKey,
+  sol: number
+): Promise<void> => {
+  const provider = anchor.AnchorProvider.env();
+  await provider.sendAndConfirm(
+    new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: provider.wallet.publicKey,
+        toPubkey: recipient,
+        lamports: Math.round(sol * LAMPORTS_PER_SOL),
+      })
+    )
+  );
+};
+
+const setUpFixture = async (): Promise<SunpathFixture> => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+  const admin = SunpathClient.fromProvider(provider);
+
+  const treasury = Keypair.generate();
+  await fund(treasury.publicKey, 1);
+  const governanceMint = await createMint(
+    provider.connection,
+    (provider.wallet as Wallet).payer,
+    admin.governanceMintAuthorityAddress(),
+    null,
+    0
+  );
+
+  const existing = await admin.program.account.programConfig.fetchNullable(
+    admin.configAddress()
+  );
+  if (!existing) {
+    await admin.initializeProgram({
+      admin: admin.walletPublicKey,
+      daoTreasuryAddress: treasury.publicKey,
+      governanceTokenMint: governanceMint,
+      ...FIXTURE_CONFIG,
+    });
+  } else if (existing.admin.equals(admin.walletPublicKey)) {
+    await admin.updateConfig({
+      daoTreasuryAddress: treasury.publicKey,
+      governanceTokenMint: governanceMint,
+      ...FIXTURE_CONFIG,
+    });
+  } else {
+    throw new Error(
+      `Config admin ${existing.admin.toBase58()} is not the provider wallet ${admin.walletPublicKey.toBase58()}`
+    );
+  }
+
+  return {
+    provider,
+    connection: provider.connection,
+    admin,
+    treasury: treasury.publicKey,
+    governanceMint,
+  };
+};
+
+// Initializes (or resets) the program config on the first call; later calls share the result
+export const sunpathFixture = (): Promise<SunpathFixture> => {
+  fixture ??= setUpFixture();
+  return fixture;
+};
+
+// A client that signs with a fresh keypair funded with `sol`
+export const createFundedClient = async (sol = 1): Promise<FundedClient> => {
+  const { provider } = await sunpathFixture();
+  const keypair = Keypair.generate();
+  await fund(keypair.publicKey, sol);
+  const client = SunpathClient.fromProvider(
+    new AnchorProvider(provider.connection, new Wallet(keypair), provider.opts)
+  );
+  return { keypair, client };
+};
+
+// Consigners pay the rewards and the account rent, so they get a larger balance
+export const createFundedConsigner = (sol = 5): Promise<FundedClient> =>
+  createFundedClient(sol);
+
+export const createOpenTask = (
+  consigner: SunpathClient,
+  params: Partial<CreateTaskParams> = {}
+): Promise<CreateTaskResult> =>
+  consigner.createTask({
+    rewardAmount: DEFAULT_REWARD,
+    durationSeconds: DEFAULT_DURATION,
+    ...params,
+  });
+
+export const submitTestReport = (
+  reporter: SunpathClient,
+  taskAccount: PublicKey
+): Promise<SubmitReportResult> =>
+  reporter.submitReport({
+    taskAccount,
+    videoContentHash: TEST_VIDEO_HASH,
+    metadataUri: "ipfs://sunpath-test-report",
+  });
+
+// Rent-exempt minimum for an existing account, read from its actual data length
+export const rentExemptBalance = async (
+  connection: Connection,
+  address: PublicKey
+): Promise<number> => {
+  const info = await connection.getAccountInfo(address);
+  if (!info) {
+    throw new Error(`Account ${address.toBase58()} not found`);
+  }
+  return connection.getMinimumBalanceForRentExemption(info.data.length);
+};
+
+// --- bankrun ---
+// Suites that depend on the clock (expiry, the denial penalty) run the program built in
+// target/deploy in-process with solana-bankrun, whose clock can be set directly.
+
+export interface ClockFixture {
+  context: ProgramTestContext;
+  connection: Connection;
+  admin: SunpathClient; // signs with the bankrun payer, which is the config admin
+  treasury: PublicKey;
+}
+
+// The connection proxy of anchor-bankrun throws for missing accounts and has no
+// getBalance; the client relies on both. getProgramAccounts is not available in bankrun.
+class BankrunConnection {
+  readonly commitment = "confirmed";
+
+  constructor(private readonly banksClient: BanksClient) {}
+
+  async getAccountInfo(
+    address: PublicKey
+  ): Promise<AccountInfo<Buffer> | null> {
+    const account = await this.banksClient.getAccount(address);
+    return account && { ...account, data: Buffer.from(account.data) };
+  }
+
+  async getAccountInfoAndContext(address: PublicKey) {
+    return {
+      context: { slot: Number(await this.banksClient.getSlot()) },
+      value: await this.getAccountInfo(address),
+    };
+  }
+
+  async getMultipleAccountsInfoAndContext(addresses: PublicKey[]) {
+    return {
+      context: { slot: Number(await this.banksClient.getSlot()) },
+      value: await Promise.all(
+        addresses.map((address) => this.getAccountInfo(address))
+      ),
+    };
+  }
+
+  async getBalance(address: PublicKey): Promise<number> {
+    return Number(await this.banksClient.getBalance(address));
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+    const rent = await this.banksClient.getRent();
+    return Number(rent.minimumBalance(BigInt(dataLength)));
+  }
+}
+
+const bankrunClient = (
+  context: ProgramTestContext,
+  keypair: Keypair
+): SunpathClient => {
+  const provider = new BankrunProvider(context, new Wallet(keypair));
+  provider.connection = new BankrunConnection(
+    context.banksClient
+  ) as unknown as Connection;
+  return new SunpathClient(new Program<Sunpath>(idl as Sunpath, provider));
+};
+
+// Sets the lamports of a system account directly (bankrun has no faucet)
+export const fundBankrunAccount = (
+  context: ProgramTestContext,
+  address: PublicKey,
+  sol: number
+): void => {
+  context.setAccount(address, {
+    lamports: Math.round(sol * LAMPORTS_PER_SOL),
+    data: new Uint8Array(),
+    owner: SystemProgram.programId,
+    executable: false,
+  });
+};
+
+// A fresh bank with the program config initialized to FIXTURE_CONFIG
+export const startClockFixture = async (): Promise<ClockFixture> => {
+  const context = await startAnchor(".", [], []);
+  // solana-bankrun bundles its own web3.js, so the payer is rebuilt as our Keypair
+  const admin = bankrunClient(
+    context,
+    Keypair.fromSecretKey(context.payer.secretKey)
+  );
+  const treasury = Keypair.generate().publicKey;
+  fundBankrunAccount(context, treasury, 1);
+  await admin.initializeProgram({
+    admin: admin.walletPublicKey,
+    daoTreasuryAddress: treasury,
+    governanceTokenMint: Keypair.generate().publicKey,
+    ...FIXTURE_CONFIG,
+  });
+  return {
+    context,
+    connection: admin.provider.connection,
+    admin,
+    treasury,
+  };
+};
+
+export const createBankrunClient = (
+  context: ProgramTestContext,
+  sol = 1
+): FundedClient => {
+  const keypair = Keypair.generate();
+  fundBankrunAccount(context, keypair.publicKey, sol);
+  return { keypair, client: bankrunClient(context, keypair) };
+};
+
+// Moves the bank clock to `timestamp` (Unix seconds). The slot is advanced as well so
+// that a transaction retried after the warp gets a new blockhash.
+export const warpTo = async (
+  context: ProgramTestContext,
+  timestamp: BN
+): Promise<void> => {
+  const clock = await context.banksClient.getClock();
+  const slot = clock.slot + BigInt(1);
+  context.warpToSlot(slot);
+  context.setClock(
+    new Clock(
+      slot,
+      clock.epochStartTimestamp,
+      clock.epoch,
+      clock.leaderScheduleEpoch,
+      BigInt(timestamp.toString())
+    )
+  );
+};
+
+export const expectSunpathError = async (
+  action: Promise<unknown>,
+  code: SunpathErrorCode
+): Promise<void> => {
+  let decoded: ReturnType<typeof decodeSunpathError> | null = null;
+  try {
+    await action;
+  } catch (error) {
+    decoded = decodeSunpathError(error);
+  }
+  expect(decoded, `expected ${code}`).to.not.be.null;
+  expect(decoded!.kind).to.equal("program");
+  expect((decoded as { code: string }).code).to.equal(code);
+};